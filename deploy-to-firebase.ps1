@@ -14,7 +14,7 @@ if ($LASTEXITCODE -ne 0) {
 
 # Deploy to Firebase
 Write-Host "🚀 Deploying to Firebase Hosting..." -ForegroundColor Cyan
-firebase deploy --only hosting
+firebase deploy --only hosting,functions
 
 # Check if deployment was successful
 if ($LASTEXITCODE -ne 0) {
@@ -11,6 +11,6 @@ npm run build
 
 # Deploy to Firebase
 echo "🚀 Deploying to Firebase Hosting..."
-firebase deploy --only hosting
+firebase deploy --only hosting,functions
 
 echo "✅ Deployment complete!"
@@ -1,3 +1,5 @@
 const { nextjs } = require('./server');
+const { narrationWorker } = require('./narrationWorker');
 
-exports.nextjs = nextjs;
\ No newline at end of file
+exports.nextjs = nextjs;
+exports.narrationWorker = narrationWorker;
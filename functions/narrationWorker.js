@@ -0,0 +1,33 @@
+const { onDocumentWritten } = require('firebase-functions/v2/firestore');
+const { defineSecret, defineString } = require('firebase-functions/params');
+
+// Shared with the app (NARRATION_WORKER_SECRET), which only runs jobs for callers that know it
+const workerSecret = defineSecret('NARRATION_WORKER_SECRET');
+// Where the app is served, e.g. https://tunetalez.com
+const appUrl = defineString('APP_URL', { default: 'https://tune-tales-7bc34.web.app' });
+
+// Runs narration jobs outside the request that queued them: whenever a job enters the 'queued'
+// status (created, retried, or handed back by a run that reached its deadline), the app's worker
+// endpoint runs it. Progress, leases and retries are handled by the app (src/utils/narrationJobRunner.ts).
+exports.narrationWorker = onDocumentWritten(
+  {
+    document: 'narrationJobs/{jobId}',
+    region: 'us-central1',
+    timeoutSeconds: 540,
+    secrets: [workerSecret],
+  },
+  async (event) => {
+    const before = event.data && event.data.before.exists ? event.data.before.data() : null;
+    const after = event.data && event.data.after.exists ? event.data.after.data() : null;
+    if (!after || after.status !== 'queued' || (before && before.status === 'queued')) return;
+
+    const { jobId } = event.params;
+    const response = await fetch(`${appUrl.value()}/api/narration/jobs/${jobId}/run`, {
+      method: 'POST',
+      headers: { 'X-Narration-Worker-Secret': workerSecret.value() },
+    });
+    if (!response.ok) {
+      console.error(`Narration job ${jobId} could not be run (${response.status}):`, await response.text());
+    }
+  }
+);
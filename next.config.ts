@@ -45,6 +45,14 @@ const nextConfig: NextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  // The genre pages became curated collections (see src/firebase/collectionService.ts)
+  async redirects() {
+    return ['history', 'academics', 'romance', 'sci-fi'].map(slug => ({
+      source: `/${slug}`,
+      destination: `/collections/${slug}/`,
+      permanent: true,
+    }));
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,132 @@
+/**
+ * @file Service worker for offline listening. Serves downloaded chapter audio, book pages and
+ * covers from the download cache, keeps build assets and visited pages for offline use, and
+ * answers the byte-range requests audio elements make when seeking.
+ *
+ * @integration Registered by `registerServiceWorker` (src/utils/offlineDownloads.ts), which also
+ * fills the download cache when a listener downloads a book. DOWNLOAD_CACHE must match the
+ * name used there.
+ */
+
+const DOWNLOAD_CACHE = 'tunetalez-downloads-v1';
+const RUNTIME_CACHE = 'tunetalez-runtime-v1';
+const CDN_HOSTNAME = 'cdn.tunetalez.com';
+
+// Pages available offline from the first visit
+const OFFLINE_PAGES = ['/', '/downloads/'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(RUNTIME_CACHE);
+    // A page that fails to load is cached on its next visit instead
+    await Promise.all(OFFLINE_PAGES.map(page => cache.add(page).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    // Drop runtime caches of previous versions; downloads are only removed by the listener
+    const cacheNames = await caches.keys();
+    await Promise.all(
+      cacheNames
+        .filter(name => name.startsWith('tunetalez-runtime-') && name !== RUNTIME_CACHE)
+        .map(name => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// Answer a byte-range request from a cached full response
+const createRangeResponse = async (request, response) => {
+  const blob = await response.blob();
+  const size = blob.size;
+  const match = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') || '');
+  const contentType = response.headers.get('Content-Type') || 'audio/mpeg';
+
+  if (!match) {
+    return new Response(blob, { status: 200, headers: { 'Content-Type': contentType, 'Accept-Ranges': 'bytes' } });
+  }
+
+  let start = match[1] ? parseInt(match[1], 10) : NaN;
+  let end = match[2] ? parseInt(match[2], 10) : size - 1;
+  if (isNaN(start)) {
+    // Suffix range ("bytes=-500" is the last 500 bytes)
+    start = Math.max(0, size - end);
+    end = size - 1;
+  }
+  if (start >= size) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+  end = Math.min(end, size - 1);
+
+  const slice = blob.slice(start, end + 1);
+  return new Response(slice, {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(slice.size),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes'
+    }
+  });
+};
+
+// Downloaded files first, then the network
+const serveFromDownloads = async (request) => {
+  const cache = await caches.open(DOWNLOAD_CACHE);
+  // Pages add cache-busting query strings to cover URLs
+  const cached = await cache.match(request.url, { ignoreSearch: true });
+  if (!cached) return fetch(request);
+  return request.headers.has('range') ? createRangeResponse(request, cached) : cached;
+};
+
+// Build assets are content-hashed, so a cached copy never goes stale
+const serveStaticAsset = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+// Pages come from the network, or from the last copy seen when offline
+const serveNavigation = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const url = new URL(request.url);
+    const withSlash = url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/`;
+    const cached = await caches.match(request, { ignoreSearch: true, ignoreVary: true })
+      || await caches.match(withSlash, { ignoreVary: true })
+      || await caches.match('/downloads/', { ignoreVary: true });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.hostname === CDN_HOSTNAME) {
+    event.respondWith(serveFromDownloads(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(serveStaticAsset(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(serveNavigation(request));
+  }
+});
@@ -0,0 +1,29 @@
+'use client';
+
+import MusicLibraryManager from '@/components/admin/MusicLibraryManager';
+import AdminProtectedRoute from '@/components/auth/AdminProtectedRoute';
+import Link from 'next/link';
+
+export default function AdminMusicPage() {
+  return (
+    <AdminProtectedRoute>
+      <div className="container mx-auto py-8">
+        <div className="mb-6">
+          <Link 
+            href="/admin"
+            className="text-primary hover:text-primary-dark transition-colors flex items-center"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Back to Admin Dashboard
+          </Link>
+        </div>
+
+        <div className="bg-[#1F1F1F] rounded-lg shadow-lg p-6 text-white">
+          <MusicLibraryManager />
+        </div>
+      </div>
+    </AdminProtectedRoute>
+  );
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { encodeAudioFile } from '@/utils/nodeAudioEncoder';
+import { AUDIO_ENCODING_FORMATS, AudioEncodingFormat, AudioTagMetadata, resolveAudioEncoding } from '@/utils/audioEncoding';
+
+/**
+ * API endpoint for encoding audio stitched in the browser to MP3 or AAC with tags and cover art.
+ * 
+ * POST /api/audio/encode
+ * Body (multipart/form-data): {
+ *   file: Blob;          // Audio to encode (usually WAV)
+ *   format?: 'mp3' | 'aac'; // Output format (default: 'mp3')
+ *   bitrate?: number;    // Bitrate in kbps (default: 128)
+ *   metadata?: string;   // JSON of { bookTitle, chapterTitle, author, trackNumber, coverUrl }
+ * }
+ * 
+ * Returns: the encoded audio, with Content-Type audio/mpeg or audio/mp4
+ */
+export async function POST(request: NextRequest) {
+  const tempDir = join(tmpdir(), `audio_encode_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`);
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    // Validate required fields
+    if (!(file instanceof Blob) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'Audio file is required' },
+        { status: 400 }
+      );
+    }
+
+    let metadata: AudioTagMetadata | undefined;
+    const metadataField = formData.get('metadata');
+    if (typeof metadataField === 'string' && metadataField) {
+      try {
+        metadata = JSON.parse(metadataField);
+      } catch {
+        return NextResponse.json(
+          { error: 'Metadata must be valid JSON' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const encoding = resolveAudioEncoding({
+      format: (formData.get('format') as AudioEncodingFormat | null) || undefined,
+      bitrate: Number(formData.get('bitrate')) || undefined,
+      metadata
+    });
+    const format = AUDIO_ENCODING_FORMATS[encoding.format];
+
+    mkdirSync(tempDir, { recursive: true });
+    const inputPath = join(tempDir, 'input');
+    const outputPath = join(tempDir, `output.${format.extension}`);
+    writeFileSync(inputPath, Buffer.from(await file.arrayBuffer()));
+
+    await encodeAudioFile(inputPath, outputPath, encoding);
+
+    return new NextResponse(readFileSync(outputPath), {
+      status: 200,
+      headers: { 'Content-Type': format.mimeType }
+    });
+  } catch (error) {
+    console.error('Error in audio encode API:', error);
+    
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to encode audio' },
+      { status: 500 }
+    );
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  NarrationJob,
+  getNarrationJob,
+  cancelNarrationJob,
+  canManageNarrationJob,
+  canRetryNarrationJob,
+  isNarrationJobStale,
+  requeueNarrationJob
+} from '@/firebase/narrationJobService';
+import { getRequestUser } from '@/firebase/admin';
+import { runQueuedNarrationJob } from '@/utils/narrationJobRunner';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Gets the job of a request when its signed-in user may manage it
+ * @returns The job, or the error response to send
+ */
+const getRequestJob = async (request: NextRequest, id: string): Promise<NarrationJob | NextResponse> => {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+
+  const job = await getNarrationJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Narration job not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!await canManageNarrationJob(job, user.uid)) {
+    return NextResponse.json(
+      { error: 'Only who started the job, the author of the book and admins can access it' },
+      { status: 403 }
+    );
+  }
+  return job;
+};
+
+/**
+ * API endpoint for polling a narration job
+ * 
+ * GET /api/narration/jobs/{id}
+ * Headers: { Authorization: 'Bearer <ID token>' }
+ * 
+ * Returns: {
+ *   id: string,
+ *   status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled',
+ *   progress: number,            // 0-100
+ *   totalParagraphs: number,
+ *   completedParagraphs: number,
+ *   paragraphs: Array<{ index, status, attempts, url?, error?, mood?, genre?, intensity? }>,
+ *   url?: string,                // Final narration URL once completed
+ *   paragraphUrls?: string[],
+ *   error?: string,
+ *   attempt?: number,            // Run currently owning the job
+ *   heartbeatAt?: number,        // Last sign of life of that run
+ *   stale: boolean               // The job lost its run and can be retried
+ * }
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await getRequestJob(request, id);
+    if (job instanceof NextResponse) return job;
+
+    // The source text can be large and is not needed for polling
+    const { text, ...status } = job;
+    return NextResponse.json({ ...status, textLength: text.length, stale: isNarrationJobStale(job) });
+  } catch (error) {
+    console.error('Error in narration job API:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to get narration job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API endpoint for retrying a failed or cancelled narration job, or one whose run stopped
+ * sending heartbeats (stale). The job is queued again for the narration worker; only paragraphs that did
+ * not complete are narrated again.
+ * 
+ * POST /api/narration/jobs/{id}
+ * Headers: { Authorization: 'Bearer <ID token>' }
+ * 
+ * Returns (202): { jobId: string, status: 'queued', progress: number, completedParagraphs: number, totalParagraphs: number }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await getRequestJob(request, id);
+    if (job instanceof NextResponse) return job;
+
+    if (!canRetryNarrationJob(job)) {
+      return NextResponse.json(
+        { error: `Only failed, cancelled or stale jobs can be retried (status: ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    const queued = await requeueNarrationJob(id);
+    runQueuedNarrationJob(id);
+
+    return NextResponse.json({
+      jobId: id,
+      status: queued.status,
+      progress: queued.progress,
+      completedParagraphs: queued.completedParagraphs,
+      totalParagraphs: queued.totalParagraphs
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error retrying narration job:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to retry narration job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API endpoint for cancelling a narration job.
+ * A running job stops before its next paragraph.
+ * 
+ * DELETE /api/narration/jobs/{id}
+ * Headers: { Authorization: 'Bearer <ID token>' }
+ * 
+ * Returns: { jobId: string, status: string }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await getRequestJob(request, id);
+    if (job instanceof NextResponse) return job;
+
+    const cancelled = await cancelNarrationJob(id);
+    return NextResponse.json({ jobId: id, status: cancelled.status });
+  } catch (error) {
+    console.error('Error cancelling narration job:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to cancel narration job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNarrationJob } from '@/firebase/narrationJobService';
+import { runNarrationJob } from '@/utils/narrationJobRunner';
+
+// The Cloud Function timeout is set in firebase.json; a run stops starting paragraphs well before it
+export const maxDuration = 540;
+
+// How long one run starts new paragraphs, leaving time for the paragraph in progress and the stitching
+const RUN_DURATION_MS = 6 * 60 * 1000;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API endpoint for the narration worker: runs a queued narration job for up to RUN_DURATION_MS. A job that
+ * is not finished by then is queued again, which makes the worker call this endpoint once more.
+ * Only the narrationWorker function (functions/narrationWorker.js) may call it, with the shared secret.
+ *
+ * POST /api/narration/jobs/{id}/run
+ * Headers: { 'X-Narration-Worker-Secret': NARRATION_WORKER_SECRET }
+ *
+ * Returns: { jobId: string, status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const secret = process.env.NARRATION_WORKER_SECRET;
+    if (!secret || request.headers.get('x-narration-worker-secret') !== secret) {
+      return NextResponse.json({ error: 'Only the narration worker can run jobs' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    await runNarrationJob(id, { deadline: Date.now() + RUN_DURATION_MS });
+    const job = await getNarrationJob(id);
+
+    return NextResponse.json({ jobId: id, status: job?.status });
+  } catch (error) {
+    console.error('Error running narration job:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to run narration job' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractParagraphMetadata, generateTTSAudio, fetchBackgroundMusic, uploadAudioToFirebase } from '@/utils/nodeAudioNarrationService';
+import { extractParagraphMetadata, generateTTSAudio, fetchBackgroundMusic, processAudioParagraph, uploadAudioToFirebase } from '@/utils/nodeAudioNarrationService';
+import { MusicSelection } from '@/utils/musicSelection';
+import { getParagraphClassifier } from '@/utils/paragraphMetadataClassifier';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { mkdirSync, existsSync } from 'fs';
@@ -14,9 +16,13 @@ import { mkdirSync, existsSync } from 'fs';
  *   paragraphIndex: number; // The index of the paragraph (0-based)
  *   options?: {        // Optional narration options
  *     voice?: string;  // Voice to use for TTS (default: 'alloy')
+ *     provider?: 'openai' | 'local'; // TTS provider (inferred from voice when omitted)
+ *     fallbackProvider?: 'openai' | 'local'; // Retries a failed paragraph with this provider (default: none, the request fails)
+ *     speed?: number;  // TTS speed multiplier (default: 1)
  *     backgroundMusicVolume?: number; // Volume level for background music (0-1)
  *     fadeInDuration?: number;        // Duration of fade in at start in seconds
  *     fadeOutDuration?: number;       // Duration of fade out at end in seconds
+ *     metadataClassifier?: 'openai' | 'lexicon'; // Paragraph classifier to use
  *   }
  * }
  * 
@@ -25,7 +31,9 @@ import { mkdirSync, existsSync } from 'fs';
  *   metadata: {        // The metadata for the paragraph
  *     mood: string,
  *     genre: string,
- *     intensity: number
+ *     intensity: number,
+ *     tempo?: string,
+ *     confidence?: { mood, genre, intensity, tempo } // 0-1 per field
  *   }
  * }
  */
@@ -58,7 +66,10 @@ export async function POST(request: NextRequest) {
     }
     
     // Extract metadata for the paragraph
-    const paragraphMetadata = await extractParagraphMetadata([body.text]);
+    const paragraphMetadata = await extractParagraphMetadata(
+      [body.text],
+      getParagraphClassifier(body.options?.metadataClassifier)
+    );
     
     // Ensure we have valid metadata
     if (!paragraphMetadata || !paragraphMetadata.length) {
@@ -82,8 +93,15 @@ export async function POST(request: NextRequest) {
     // Fetch background music based on mood and intensity
     console.log(`Starting background music fetch for paragraph with mood: ${metadata.mood}`);
     const backgroundMusicPath = join(tempDir, `background.mp3`);
+    let music: MusicSelection | undefined;
     try {
-      await fetchBackgroundMusic(metadata.mood, backgroundMusicPath, metadata.intensity);
+      await fetchBackgroundMusic(
+        metadata.mood,
+        backgroundMusicPath,
+        metadata.intensity,
+        { tempo: metadata.tempo, genre: metadata.genre },
+        selection => { music = selection; }
+      );
       console.log(`Successfully fetched background music for mood: ${metadata.mood}`);
     } catch (musicError: any) {
       console.error(`Error fetching background music for mood ${metadata.mood}:`, musicError.message);
@@ -93,7 +111,7 @@ export async function POST(request: NextRequest) {
     // Mix narration with background music
     const mixedPath = join(tempDir, `mixed.mp3`);
     const mixOptions = body.options || {};
-    await mixAudioWithBackground(narrationPath, backgroundMusicPath, mixedPath, mixOptions);
+    await processAudioParagraph(narrationPath, backgroundMusicPath, mixedPath, mixOptions);
     
     // Upload final audio to Firebase Storage
     const timestamp = Date.now();
@@ -106,8 +124,18 @@ export async function POST(request: NextRequest) {
       metadata: {
         mood: metadata.mood,
         genre: metadata.genre,
-        intensity: metadata.intensity
-      }
+        intensity: metadata.intensity,
+        tempo: metadata.tempo,
+        confidence: metadata.confidence
+      },
+      ...(music && {
+        music: {
+          trackId: music.track.id,
+          title: music.track.title,
+          category: music.category,
+          rationale: music.rationale
+        }
+      })
     });
   } catch (error: any) {
     console.error('Error in paragraph narration API:', error);
@@ -118,7 +146,4 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-function mixAudioWithBackground(narrationPath: string, backgroundMusicPath: string, mixedPath: string, mixOptions: any) {
-  throw new Error('Function not implemented.');
-}
 
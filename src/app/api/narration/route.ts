@@ -1,26 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateNarrationWithBackgroundMusic } from '@/utils/nodeAudioNarrationService';
+import { canNarrateBook, createNarrationJob } from '@/firebase/narrationJobService';
+import { getRequestUser } from '@/firebase/admin';
+import { runQueuedNarrationJob } from '@/utils/narrationJobRunner';
 
 /**
- * API endpoint for generating narration with background music
+ * API endpoint for narrating a text with background music, as a narration job.
+ * The job is queued and run by the narration worker (see utils/narrationJobRunner); poll
+ * GET /api/narration/jobs/{jobId} for its progress. Only the book's author and admins may narrate it.
  * 
  * POST /api/narration
+ * Headers: { Authorization: 'Bearer <ID token>' }
  * Body: {
  *   text: string;      // The text to narrate
  *   bookId: string;    // The book ID for storage path
+ *   chapterId?: string; // When set, the chapter's audio is updated once the job completes
  *   options?: {        // Optional narration options
  *     voice?: string;  // Voice to use for TTS (default: 'alloy')
+ *     provider?: 'openai' | 'local'; // TTS provider (inferred from voice when omitted)
+ *     fallbackProvider?: 'openai' | 'local'; // Retries a failed paragraph with this provider (default: none, the request fails)
+ *     speed?: number;  // TTS speed multiplier (default: 1)
  *     backgroundMusicVolume?: number; // Volume level for background music (0-1)
  *     crossfadeDuration?: number;     // Duration of crossfade in seconds
  *     fadeInDuration?: number;        // Duration of fade in at start in seconds
  *     fadeOutDuration?: number;       // Duration of fade out at end in seconds
+ *     metadataClassifier?: 'openai' | 'lexicon'; // Paragraph classifier to use
+ *     encoding?: { format?: 'mp3' | 'aac'; bitrate?: number }; // Output format (default: 128 kbps MP3)
+ *     musicSeed?: string; // Seeds background music selection (default: bookId:chapterId, so regenerating picks the same tracks)
  *   }
  * }
  * 
- * Returns: { url: string } // The Firebase Storage download URL
+ * Returns (202): { jobId: string, status: 'queued' }
  */
 export async function POST(request: NextRequest) {
   try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
     // Parse request body
     const body = await request.json();
     
@@ -39,20 +56,30 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Generate narration with background music
-    const downloadURL = await generateNarrationWithBackgroundMusic(
-      body.text,
-      body.bookId,
-      body.options || {}
-    );
-    
-    // Return the download URL
-    return NextResponse.json({ url: downloadURL });
-  } catch (error: any) {
+    if (!await canNarrateBook(body.bookId, user.uid)) {
+      return NextResponse.json(
+        { error: 'Only the author of the book and admins can narrate it' },
+        { status: 403 }
+      );
+    }
+
+    // Record the job, so its progress can be followed; the worker runs it
+    const job = await createNarrationJob({
+      userId: user.uid,
+      text: body.text,
+      bookId: body.bookId,
+      chapterId: body.chapterId,
+      options: body.options || {}
+    });
+
+    runQueuedNarrationJob(job.id!);
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
     console.error('Error in narration API:', error);
     
     return NextResponse.json(
-      { error: error.message || 'Failed to generate narration' },
+      { error: (error as Error).message || 'Failed to start narration' },
       { status: 500 }
     );
   }
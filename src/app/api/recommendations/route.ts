@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedBooks } from '@/firebase/services';
+import { getAllTasteSignals, getCoLikes, getUserTasteSignals, saveCoLikes } from '@/firebase/recommendationService';
+import { getRequestUser, getUserRole } from '@/firebase/admin';
+import {
+  RecommendationModel,
+  buildRecommendationModel,
+  computeCoLikes,
+  getSimilarBooks,
+  getUserRecommendations
+} from '@/utils/recommendations';
+
+// The catalog and co-likes change, so the model is rebuilt at least this often
+const MODEL_MAX_AGE_MS = 10 * 60 * 1000;
+const MAX_LIMIT = 30;
+
+// The model is built on the first request and kept in memory until it expires
+let recommendationModel: RecommendationModel | null = null;
+let modelBuild: Promise<RecommendationModel> | null = null;
+
+/**
+ * Gets the recommendation model, building it from the catalog and the precomputed co-likes when missing or expired
+ */
+const getRecommendationModel = async (): Promise<RecommendationModel> => {
+  if (recommendationModel && Date.now() - recommendationModel.builtAt < MODEL_MAX_AGE_MS) return recommendationModel;
+
+  // Requests arriving during a build share it
+  if (!modelBuild) {
+    // The moods and genres of the chapters are features of their book
+    modelBuild = Promise.all([getPublishedBooks({ withChapters: true }), getCoLikes()])
+      .then(([books, coLikes]) => {
+        recommendationModel = buildRecommendationModel(books, coLikes);
+        return recommendationModel;
+      })
+      .finally(() => {
+        modelBuild = null;
+      });
+  }
+  return modelBuild;
+};
+
+/**
+ * API endpoint for book recommendations
+ *
+ * GET /api/recommendations?bookId=abc&limit=10   "More like this" for a book
+ * GET /api/recommendations?limit=10              Recommendations for the signed-in reader
+ * Headers: { Authorization?: 'Bearer <ID token>' }  // Required without bookId
+ * Query: {
+ *   bookId?: string;
+ *   limit?: number;      // Books per list, default 10, at most 30
+ * }
+ *
+ * Returns, for bookId: { books: RecommendedBook[] }
+ * Returns, for the reader: { forYou: RecommendedBook[], becauseYouLiked: Array<{ seed: { id, title }, books: RecommendedBook[] }> }
+ * where RecommendedBook is { id, title, author, thumbnailUrl, tags, score, reason }.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const bookId = searchParams.get('bookId');
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(searchParams.get('limit')) || 10));
+
+    if (bookId) {
+      const model = await getRecommendationModel();
+      return NextResponse.json({ books: getSimilarBooks(model, bookId, { limit }) });
+    }
+
+    // A reader's likes and listening are private, so they only get their own recommendations
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'bookId or a signed-in reader is required' },
+        { status: 401 }
+      );
+    }
+
+    const [model, signals] = await Promise.all([getRecommendationModel(), getUserTasteSignals(user.uid)]);
+    return NextResponse.json(getUserRecommendations(model, signals, { limit }));
+  } catch (error) {
+    console.error('Error in recommendations API:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to get recommendations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API endpoint for recomputing the co-likes ("readers who liked X also liked Y") from every reader's
+ * likes, saves and listening. Only admins may call it; recommendations use the saved co-likes until the next run.
+ *
+ * POST /api/recommendations
+ * Headers: { Authorization: 'Bearer <ID token>' }
+ *
+ * Returns: { books: number }  // Books with co-likes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+    if (await getUserRole(user.uid) !== 'admin') {
+      return NextResponse.json({ error: 'Only admins can recompute recommendations' }, { status: 403 });
+    }
+
+    const [books, signals] = await Promise.all([getPublishedBooks(), getAllTasteSignals()]);
+    const coLikes = computeCoLikes(signals, new Set(books.filter(book => book.id).map(book => book.id!)));
+    await saveCoLikes(coLikes);
+    recommendationModel = null;
+
+    return NextResponse.json({ books: coLikes.size });
+  } catch (error) {
+    console.error('Error recomputing co-likes:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to recompute recommendations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedBooks } from '@/firebase/services';
+import { getRequestUser, getUserRole } from '@/firebase/admin';
+import { SearchIndex, buildSearchIndex, searchBooks } from '@/utils/searchIndex';
+
+// Rebuild the index at least this often, to pick up books written outside the browser
+const INDEX_MAX_AGE_MS = 5 * 60 * 1000;
+const MAX_LIMIT = 50;
+
+// The index is built on the first search and kept in memory until a book is written
+let searchIndex: SearchIndex | null = null;
+let indexBuild: Promise<SearchIndex> | null = null;
+// Bumped when the index goes stale, so a build that started before a write is not kept
+let indexGeneration = 0;
+
+/**
+ * Gets the search index, building it from the catalog when missing or expired
+ */
+const getSearchIndex = async (): Promise<SearchIndex> => {
+  if (searchIndex && Date.now() - searchIndex.builtAt < INDEX_MAX_AGE_MS) return searchIndex;
+
+  // Searches arriving during a build share it
+  if (!indexBuild) {
+    const generation = indexGeneration;
+    // Chapter titles and text are searched too
+    indexBuild = getPublishedBooks({ withChapters: true })
+      .then(books => {
+        const index = buildSearchIndex(books);
+        if (generation === indexGeneration) searchIndex = index;
+        return index;
+      })
+      .finally(() => {
+        indexBuild = null;
+      });
+  }
+  return indexBuild;
+};
+
+/**
+ * API endpoint for searching books, chapters and authors
+ *
+ * GET /api/search?q=dragon&tag=fantasy&mood=tense&audio=true&limit=20&offset=0
+ * Query: {
+ *   q?: string;          // Search text; prefixes and small typos match. Empty lists every book
+ *   tag?: string;        // Repeatable; books with any of the tags
+ *   mood?: string;       // Repeatable; books with a chapter in any of the moods
+ *   audio?: 'true' | 'false'; // Only books with (or without) narration
+ *   limit?: number;      // Default 20, at most 50
+ *   offset?: number;
+ * }
+ *
+ * Returns: {
+ *   query: string,
+ *   total: number,       // Matching books, before paging
+ *   results: Array<{ bookId, title, author, thumbnailUrl, tags, moods, hasAudio, score,
+ *                    highlightedTitle, snippet, chapters: Array<{ chapterId, title, snippet }> }>,
+ *   facets: { tags: Array<{ value, count }>, moods: Array<{ value, count }>, audio: { withAudio, withoutAudio } }
+ * }
+ * Titles and snippets are HTML-escaped, with the matched words in <mark>.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const audio = searchParams.get('audio');
+
+    const index = await getSearchIndex();
+    const response = searchBooks(index, searchParams.get('q') || '', {
+      tags: searchParams.getAll('tag'),
+      moods: searchParams.getAll('mood'),
+      hasAudio: audio === 'true' ? true : audio === 'false' ? false : undefined,
+      limit: Math.min(MAX_LIMIT, Math.max(1, Number(searchParams.get('limit')) || 20)),
+      offset: Math.max(0, Number(searchParams.get('offset')) || 0)
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in search API:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to search books' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API endpoint for marking the search index stale after a book was created, updated or deleted.
+ * The index is rebuilt on the next search. Only authors and admins, who write books, may call it.
+ *
+ * POST /api/search
+ * Headers: { Authorization: 'Bearer <ID token>' }
+ *
+ * Returns: { stale: true }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const role = await getUserRole(user.uid);
+    if (role !== 'author' && role !== 'admin') {
+      return NextResponse.json({ error: 'Only authors and admins can refresh the search index' }, { status: 403 });
+    }
+
+    searchIndex = null;
+    indexGeneration++;
+    return NextResponse.json({ stale: true });
+  } catch (error) {
+    console.error('Error refreshing the search index:', error);
+
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to refresh the search index' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,35 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { getBookById, BookDocument, Chapter, updateBook, getBooks } from '@/firebase/services';
+import { getBookById, BookDocument, Chapter, updateBook } from '@/firebase/services';
 import Link from 'next/link';
 import Image from 'next/image';
 import Header from '@/components/layout/Header';
 import LandingSidebar from '@/components/layout/LandingSidebar';
 import { useAuth } from '@/context/AuthContext';
-import AudioPlayer from '@/components/audio/AudioPlayer';
+import { usePlayback } from '@/context/PlaybackContext';
+import PlaybackControls, { formatPlaybackTime } from '@/components/audio/PlaybackControls';
+import NarrationSyncedText from '@/components/book/NarrationSyncedText';
 import TextMagnifier from '@/components/ui/TextMagnifier';  
 import LikeButton from '@/components/book/LikeButton';
 import SaveButton from '@/components/book/SaveButton';
 import ShareButton from '@/components/book/ShareButton';
 import DescriptionDropdown from '@/components/ui/DescriptionDropdown';
+import DownloadBookButton from '@/components/book/DownloadBookButton';
+import AnnotationsPanel from '@/components/book/AnnotationsPanel';
+import MoreLikeThisRail from '@/components/book/MoreLikeThisRail';
+import PublishStatusBadge from '@/components/book/PublishStatusBadge';
+import { useBookAnnotations } from '@/components/book/useBookAnnotations';
+import { Annotation } from '@/firebase/annotationService';
 import { debugAudioUrl, traceAudioUrl } from '@/utils/audioDebugger';
 import { ensureR2HttpsUrl } from '@/utils/audioUtils';
+import { getReadingProgress, saveReadingProgress } from '@/firebase/progressService';
+import { getDownloadedBook } from '@/utils/offlineDownloads';
+import { canManageBook, getReaderView, isPublished } from '@/utils/publishing';
+
+// How often reading progress is saved while the reader is active, in milliseconds
+const PROGRESS_SAVE_INTERVAL = 15000;
 
 // Base64-encoded 1-second silent MP3 file
 const SILENT_MP3_BASE64 = 'SUQzBAAAAAAAI1RTU0UAAAAPAAADTGF2ZjU4Ljc2LjEwMAAAAAAAAAAAAAAA//tAwAAAAAAAAAAAAAAAAAAAAAAAWGluZwAAAA8AAAACAAAFWgD///////////////////////////////////////////8AAAA8TEFNRTMuMTAwAc0AAAAAAAAAABSAJAJAQgAAgAAAA+gQU9QAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=';
@@ -36,8 +50,9 @@ const createValidMP3File = (): Blob => {
 export default function ViewBookPage() {
   const params = useParams();
   const router = useRouter();
-  const { user } = useAuth();
-  const [book, setBook] = useState<BookDocument | null>(null);
+  const { user, isAdmin, loading: authLoading } = useAuth();
+  const playback = usePlayback();
+  const [loadedBook, setBook] = useState<BookDocument | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedChapterIndex, setSelectedChapterIndex] = useState(0);
@@ -45,6 +60,27 @@ export default function ViewBookPage() {
   const [currentAudioUrl, setCurrentAudioUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isEpisodesDropdownOpen, setIsEpisodesDropdownOpen] = useState(false);
+  // Saved narration position to resume from, for the chapter it belongs to
+  const [resumePosition, setResumePosition] = useState<{ chapterId?: string; time: number } | null>(null);
+  const contentScrollRef = useRef<HTMLDivElement>(null);
+  // Reading state kept in refs so saving does not re-render the page
+  const progressDirtyRef = useRef(false);
+  const progressRestoredRef = useRef(false);
+  const progressKeyRef = useRef<string | null>(null); // User and book the progress was restored for
+  const progressChapterIdRef = useRef<string | undefined>(undefined);
+  const pendingScrollRef = useRef<number | null>(null);
+  // Set when the page was opened on a bookmark or highlight, which wins over the saved progress
+  const linkedChapterIdRef = useRef<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState<{ index: number; id: number } | null>(null);
+  const playingItemRef = useRef(playback.currentItem);
+  playingItemRef.current = playback.currentItem;
+
+  // The author and admins see the book as saved; readers only see it published, with its published chapters
+  const canManage = !!loadedBook && canManageBook(loadedBook, user?.uid, isAdmin);
+  const book = useMemo(
+    () => (!loadedBook || canManage ? loadedBook : getReaderView(loadedBook)),
+    [loadedBook, canManage]
+  );
 
   useEffect(() => {
     const fetchBookData = async () => {
@@ -55,7 +91,15 @@ export default function ViewBookPage() {
       }
 
       try {
-        const bookData = await getBookById(params?.id as string);
+        let bookData: BookDocument | null;
+        try {
+          bookData = await getBookById(params?.id as string);
+        } catch (fetchError) {
+          // Offline: read the downloaded copy, if there is one
+          const download = await getDownloadedBook(params?.id as string).catch(() => null);
+          if (!download) throw fetchError;
+          bookData = download.book;
+        }
 
         if (bookData) {
           // Sort chapters by order
@@ -94,13 +138,219 @@ export default function ViewBookPage() {
     fetchBookData();
   }, [params?.id]);
 
-  const selectedChapter = book?.chapters?.[selectedChapterIndex];
+  const chapters = book?.chapters;
+  const selectedChapter = chapters?.[selectedChapterIndex];
+  const selectedChapterId = selectedChapter?.id;
+  const playingChapterId = playback.currentItem && playback.currentItem.bookId === book?.id
+    ? playback.currentItem.chapterId
+    : undefined;
+  const isSelectedChapterPlaying = !!selectedChapterId && playingChapterId === selectedChapterId;
+  const { annotations, error: annotationsError, add: addAnnotation, remove: removeAnnotation, updateNote } = useBookAnnotations(book?.id);
+  const chapterAnnotations = annotations.filter(annotation => annotation.chapterId === selectedChapterId);
 
-  // Function to determine if current user is the author
-  const isAuthor = () => {
-    // This is a simple check, you might want to enhance this with proper author verification
-    return user && book?.author === user.displayName;
+  // Save where the reader is: chapter and scroll position. The narration position is
+  // saved by the global player, so it is only reset here when the reader changes episode.
+  const saveProgress = useCallback(async (resetAudio: boolean = false) => {
+    if (!user || !book?.id || !progressRestoredRef.current) return;
+
+    // While another episode of this book plays, the player records the progress
+    const playingItem = playingItemRef.current;
+    const isPlayingBook = playingItem?.bookId === book.id;
+    if (isPlayingBook && playingItem?.chapterId !== selectedChapterId) return;
+
+    const container = contentScrollRef.current;
+    const scrollable = container ? container.scrollHeight - container.clientHeight : 0;
+    progressDirtyRef.current = false;
+
+    try {
+      await saveReadingProgress(user.uid, book.id, {
+        chapterId: selectedChapterId,
+        scrollPosition: container && scrollable > 0 ? container.scrollTop / scrollable : 0,
+        ...(resetAudio && !isPlayingBook && { audioPosition: 0, audioDuration: 0 })
+      });
+    } catch (err) {
+      console.error('Error saving reading progress:', err);
+      progressDirtyRef.current = true;
+    }
+  }, [user, book?.id, selectedChapterId]);
+
+  // Open the chapter, paragraph and narration time linked from "My notes" (?chapter=&paragraph=&t=)
+  useEffect(() => {
+    if (!book?.chapters || linkedChapterIdRef.current !== null) return;
+
+    const searchParams = new URLSearchParams(window.location.search);
+    const chapterId = searchParams.get('chapter');
+    const chapterIndex = chapterId ? book.chapters.findIndex(chapter => chapter.id === chapterId) : -1;
+    if (!chapterId || chapterIndex < 0) return;
+
+    linkedChapterIdRef.current = chapterId;
+    setSelectedChapterIndex(chapterIndex);
+
+    const paragraph = searchParams.get('paragraph');
+    if (paragraph !== null) setFocusRequest({ index: parseInt(paragraph, 10), id: Date.now() });
+
+    const time = searchParams.get('t');
+    if (time !== null && user) playback.playBook(book, chapterId, { startTime: parseFloat(time) });
+  }, [book, user, playback]);
+
+  // Resume where the reader left off, on this or any other device
+  useEffect(() => {
+    if (!user || !book?.id) return;
+
+    // Only once per user and book, not when the book data is refreshed
+    const progressKey = `${user.uid}_${book.id}`;
+    if (progressKeyRef.current === progressKey) return;
+    progressKeyRef.current = progressKey;
+    progressRestoredRef.current = false;
+
+    const restoreProgress = async () => {
+      try {
+        const progress = await getReadingProgress(user.uid, book.id!);
+        if (progress && !linkedChapterIdRef.current) {
+          const chapterIndex = progress.chapterId
+            ? (book.chapters || []).findIndex(chapter => chapter.id === progress.chapterId)
+            : -1;
+          if (chapterIndex >= 0) {
+            setSelectedChapterIndex(chapterIndex);
+          }
+          if (!progress.chapterId || chapterIndex >= 0) {
+            progressChapterIdRef.current = progress.chapterId;
+            setResumePosition({ chapterId: progress.chapterId, time: progress.audioPosition || 0 });
+            pendingScrollRef.current = progress.scrollPosition ?? null;
+          }
+        }
+      } catch (err) {
+        console.error('Error restoring reading progress:', err);
+      } finally {
+        progressRestoredRef.current = true;
+      }
+    };
+
+    restoreProgress();
+  }, [user, book]);
+
+  // Restore the scroll position once the resumed chapter is rendered
+  useEffect(() => {
+    const scrollPosition = pendingScrollRef.current;
+    const container = contentScrollRef.current;
+    if (scrollPosition === null || !container) return;
+
+    pendingScrollRef.current = null;
+    requestAnimationFrame(() => {
+      container.scrollTop = scrollPosition * (container.scrollHeight - container.clientHeight);
+    });
+  }, [resumePosition, selectedChapterIndex]);
+
+  // Follow the player when it moves on to another episode of this book
+  useEffect(() => {
+    if (!playingChapterId || !chapters) return;
+    const chapterIndex = chapters.findIndex(chapter => chapter.id === playingChapterId);
+    if (chapterIndex >= 0) setSelectedChapterIndex(chapterIndex);
+  }, [playingChapterId, chapters]);
+
+  // Record the switch when the reader picks another episode
+  useEffect(() => {
+    if (!progressRestoredRef.current || progressChapterIdRef.current === selectedChapterId) return;
+
+    progressChapterIdRef.current = selectedChapterId;
+    setResumePosition(null);
+    saveProgress(true);
+  }, [selectedChapterId, saveProgress]);
+
+  // Save periodically while reading, and when the page is hidden or left
+  useEffect(() => {
+    const saveIfChanged = () => {
+      if (progressDirtyRef.current) saveProgress();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveIfChanged();
+    };
+
+    const interval = setInterval(saveIfChanged, PROGRESS_SAVE_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      saveIfChanged();
+    };
+  }, [saveProgress]);
+
+  // Play the selected episode in the global player, from the resumed position by default
+  const playSelectedChapter = (startTime?: number) => {
+    if (!book || !selectedChapter) return;
+
+    const resumeTime = resumePosition && resumePosition.chapterId === selectedChapter.id ? resumePosition.time : 0;
+    playback.playBook(book, selectedChapter.id, { startTime: startTime ?? resumeTime });
+  };
+
+  const handleNarrationSeek = (time: number) => {
+    if (isSelectedChapterPlaying) {
+      playback.seek(time, true);
+    } else {
+      playSelectedChapter(time);
+    }
+  };
+
+  // Bookmark a paragraph, or remove its bookmark
+  const handleToggleBookmark = (paragraphIndex: number, excerpt: string) => {
+    if (!book?.id || !selectedChapter) return;
+
+    const existing = chapterAnnotations.find(annotation =>
+      annotation.type === 'bookmark' && annotation.paragraphIndex === paragraphIndex
+    );
+    if (existing?.id) {
+      removeAnnotation(existing.id);
+      return;
+    }
+
+    addAnnotation({
+      bookId: book.id,
+      bookTitle: book.title,
+      chapterId: selectedChapter.id,
+      chapterTitle: selectedChapter.title,
+      type: 'bookmark',
+      paragraphIndex,
+      text: excerpt
+    });
   };
+
+  const handleHighlight = (paragraphIndex: number, text: string) => {
+    if (!book?.id || !selectedChapter) return;
+    addAnnotation({
+      bookId: book.id,
+      bookTitle: book.title,
+      chapterId: selectedChapter.id,
+      chapterTitle: selectedChapter.title,
+      type: 'highlight',
+      paragraphIndex,
+      text
+    });
+  };
+
+  // Bookmark the narration time of the playing episode
+  const handleBookmarkTime = () => {
+    if (!book?.id || !selectedChapter) return;
+    addAnnotation({
+      bookId: book.id,
+      bookTitle: book.title,
+      chapterId: selectedChapter.id,
+      chapterTitle: selectedChapter.title,
+      type: 'bookmark',
+      audioTime: playback.currentTime
+    });
+  };
+
+  const handleJumpToAnnotation = (annotation: Annotation) => {
+    if (annotation.paragraphIndex !== undefined) {
+      setFocusRequest({ index: annotation.paragraphIndex, id: Date.now() });
+    }
+    if (annotation.audioTime !== undefined) {
+      handleNarrationSeek(annotation.audioTime);
+    }
+  };
+
+  // Function to determine if current user is the author (or an admin)
+  const isAuthor = () => canManage;
   
   // Function to fix blob URLs in book data
   const fixBlobUrls = async () => {
@@ -277,13 +527,21 @@ export default function ViewBookPage() {
         </Link>
       </div>
 
-      {loading ? (
+      {/* Unpublished books are only shown to the people who can publish them */}
+      {book && !loading && !authLoading && !error && canManage && !isPublished(book) && (
+        <div className="flex flex-wrap items-center gap-2 bg-[#1F1F1F] border border-gray-700 text-gray-300 px-4 py-3 rounded mb-4 text-sm">
+          <PublishStatusBadge item={book} />
+          <span>Only its author and admins can see this book until it is published.</span>
+        </div>
+      )}
+
+      {loading || authLoading ? (
         <div className="flex justify-center items-center h-64">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
         </div>
-      ) : error ? (
+      ) : error || !book ? (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
-          <span className="block sm:inline">{error}</span>
+          <span className="block sm:inline">{error || 'Book not found'}</span>
           <div className="mt-4">
             <Link 
               href="/"
@@ -293,7 +551,7 @@ export default function ViewBookPage() {
             </Link>
           </div>
         </div>
-      ) : book ? (
+      ) : (
         <div className="grid grid-cols-1 md:grid-cols-[repeat(14,minmax(0,1fr))] gap-4 md:gap-3">
           
           {/* Mobile: Book Info with thumbnail left and details+episodes right */}
@@ -336,6 +594,8 @@ export default function ViewBookPage() {
                       <span className="text-gray-400 text-xs self-center">+{book.tags.length - 4}</span>
                     )}
                   </div>
+
+                  <DownloadBookButton book={book} className="mb-3" />
                   
                   {/* Episodes Dropdown beside thumbnail and below genre */}
                   <div className="border-t border-gray-700 pt-3">
@@ -370,6 +630,7 @@ export default function ViewBookPage() {
                               <span className="block truncate">
                                 <span className="text-white font-medium mr-2">{index + 1}.</span>
                                 {chapter.title}
+                                {canManage && !isPublished(chapter) && <PublishStatusBadge item={chapter} className="ml-2" />}
                               </span>
                             </button>
                           ))}
@@ -434,6 +695,8 @@ export default function ViewBookPage() {
                   </span>
                 ))}
               </div>
+
+              <DownloadBookButton book={book} className="mb-4" />
               
               {/* Author actions */}
               {isAuthor() && (
@@ -473,7 +736,11 @@ export default function ViewBookPage() {
           {/* Middle - Book Content */}
           <div className="md:col-span-8 h-full">
             {/* main content - mobile optimized height and scrolls internally */}
-            <div className="bg-[#1F1F1F] rounded-lg shadow-md p-3 pt-0 h-[62vh] max-h-[62vh] md:h-[82vh] md:max-h-[82vh] overflow-y-auto">
+            <div
+              ref={contentScrollRef}
+              onScroll={() => { progressDirtyRef.current = true; }}
+              className="bg-[#1F1F1F] rounded-lg shadow-md p-3 pt-0 h-[62vh] max-h-[62vh] md:h-[82vh] md:max-h-[82vh] overflow-y-auto"
+            >
               {/* STICKY HEADER: Title + Controls + Audio Player (stays fixed) */}
               <div className="sticky top-0 z-20 bg-[#1F1F1F] pt-2 pb-3 md:pt-3 md:pb-4">
                 <div className="flex justify-between items-center mb-1">
@@ -504,7 +771,22 @@ export default function ViewBookPage() {
                         <span className="md:hidden">Episode</span>
                       </h3>
                       {user ? (
-                        <AudioPlayer audioUrl={selectedChapter.audioUrl} className="p-2 md:p-4" showPlaybackSpeed={false} />
+                        isSelectedChapterPlaying ? (
+                          <PlaybackControls className="p-2 md:p-4" />
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => playSelectedChapter()}
+                            className="flex items-center justify-center gap-1 md:gap-2 bg-primary text-white py-1 px-2 md:py-2 md:px-4 rounded hover:bg-primary-dark transition-colors w-full text-sm md:text-base"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 md:h-5 md:w-5" viewBox="0 0 20 20" fill="currentColor">
+                              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                            </svg>
+                            {resumePosition && resumePosition.chapterId === selectedChapter.id && resumePosition.time > 0
+                              ? `Resume at ${formatPlaybackTime(resumePosition.time)}`
+                              : 'Play Episode'}
+                          </button>
+                        )
                       ) : (
                         <Link
                           href={`/auth/signin/?redirect=${encodeURIComponent(window.location.pathname)}`}
@@ -524,7 +806,21 @@ export default function ViewBookPage() {
               {/* SCROLLABLE PROSE: only this section scrolls */}
               <div className="prose prose-invert max-w-none px-0 prose-sm md:prose-base">
                 {selectedChapter ? (
-                  <div dangerouslySetInnerHTML={{ __html: cleanContent(selectedChapter.content) }} />
+                  user ? (
+                    <NarrationSyncedText
+                      content={selectedChapter.content}
+                      timingManifest={selectedChapter.timingManifest}
+                      currentTime={isSelectedChapterPlaying ? playback.currentTime : 0}
+                      duration={isSelectedChapterPlaying ? playback.duration : 0}
+                      onSeek={selectedChapter.audioUrl ? handleNarrationSeek : undefined}
+                      annotations={chapterAnnotations}
+                      onToggleBookmark={handleToggleBookmark}
+                      onHighlight={handleHighlight}
+                      focusRequest={focusRequest}
+                    />
+                  ) : (
+                    <div dangerouslySetInnerHTML={{ __html: cleanContent(selectedChapter.content) }} />
+                  )
                 ) : book.content ? (
                   <div dangerouslySetInnerHTML={{ __html: cleanContent(book.content) }} />
                 ) : (
@@ -534,6 +830,20 @@ export default function ViewBookPage() {
                 )}
               </div>
             </div>
+
+            {/* Notes - below the content on mobile */}
+            {user && selectedChapter && (
+              <AnnotationsPanel
+                annotations={chapterAnnotations}
+                onJump={handleJumpToAnnotation}
+                onUpdateNote={updateNote}
+                onDelete={removeAnnotation}
+                onBookmarkTime={isSelectedChapterPlaying ? handleBookmarkTime : undefined}
+                currentTime={playback.currentTime}
+                error={annotationsError}
+                className="md:hidden bg-[#1F1F1F] rounded-lg shadow-md p-4 mt-3"
+              />
+            )}
           </div>
           
           {/* Desktop Right Sidebar - Episodes List */}
@@ -555,6 +865,7 @@ export default function ViewBookPage() {
                       <span className="block truncate">
                         <span className="text-white font-medium mr-2">{index + 1}.</span>
                         {chapter.title}
+                        {canManage && !isPublished(chapter) && <PublishStatusBadge item={chapter} className="ml-2" />}
                       </span>
                     </button>
                   ))}
@@ -563,9 +874,25 @@ export default function ViewBookPage() {
                 <p className="text-gray-400">No episodes available</p>
               )}
             </div>
+
+            {user && selectedChapter && (
+              <AnnotationsPanel
+                annotations={chapterAnnotations}
+                onJump={handleJumpToAnnotation}
+                onUpdateNote={updateNote}
+                onDelete={removeAnnotation}
+                onBookmarkTime={isSelectedChapterPlaying ? handleBookmarkTime : undefined}
+                currentTime={playback.currentTime}
+                error={annotationsError}
+                className="bg-[#1F1F1F] rounded-lg shadow-md p-4 mt-4"
+              />
+            )}
           </div>
         </div>
-      ) : null}
+      )}
+
+      {/* Similar books by tags, moods and what other readers liked */}
+      {book && !loading && !error && book.id && <MoreLikeThisRail bookId={book.id} />}
     </div>
   );
 }
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import BookCard from '@/components/book/BookCard';
+import CollectionIcon from '@/components/collections/CollectionIcon';
+import { BookDocument } from '@/firebase/services';
+import {
+  BookCollection,
+  CollectionSort,
+  getCollectionBooks,
+  getCollectionBySlug,
+  sortCollectionBooks
+} from '@/firebase/collectionService';
+
+const PAGE_SIZE = 20;
+
+const SORT_LABELS: Record<CollectionSort, string> = {
+  curated: 'Curated order',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  title: 'Title (A-Z)'
+};
+
+function CollectionContent() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const slug = params?.slug as string;
+
+  const [bookCollection, setBookCollection] = useState<BookCollection | null>(null);
+  const [books, setBooks] = useState<BookDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCollection = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const found = await getCollectionBySlug(slug);
+        setBookCollection(found);
+        setBooks(found ? await getCollectionBooks(found) : []);
+      } catch (err) {
+        console.error('Error fetching collection:', err);
+        setError('Failed to load this collection.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (slug) fetchCollection();
+  }, [slug]);
+
+  // Tag collections have no curated order, so they start with the newest books
+  const sortOptions: CollectionSort[] = bookCollection?.ruleType === 'manual'
+    ? ['curated', 'newest', 'oldest', 'title']
+    : ['newest', 'oldest', 'title'];
+  const requestedSort = searchParams?.get('sort') as CollectionSort | null;
+  const sort = requestedSort && sortOptions.includes(requestedSort) ? requestedSort : sortOptions[0];
+
+  const pageCount = Math.max(1, Math.ceil(books.length / PAGE_SIZE));
+  const page = Math.min(pageCount, Math.max(1, Number(searchParams?.get('page')) || 1));
+  const pageBooks = sortCollectionBooks(books, sort).slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  const updateParams = (updates: { sort?: CollectionSort; page?: number }) => {
+    const next = new URLSearchParams(searchParams?.toString() || '');
+    if (updates.sort) next.set('sort', updates.sort);
+    if (updates.page && updates.page > 1) next.set('page', String(updates.page)); else next.delete('page');
+    router.push(`/collections/${slug}/?${next.toString()}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#121212] flex justify-center items-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!bookCollection) {
+    return (
+      <main className="min-h-screen bg-[#121212] text-white">
+        <div className="container mx-auto px-4 py-16">
+          <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl animate-fade-in">
+            <h3 className="text-2xl font-bold text-white mb-2">{error || 'Collection not found'}</h3>
+            <p className="text-gray-400 mb-8 max-w-md mx-auto">This collection may have been renamed or removed.</p>
+            <Link
+              href="/"
+              className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-primary/80 transition-all"
+            >
+              Browse Books
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-[#121212] text-white">
+      {bookCollection.heroImageUrl && (
+        <div className="relative h-56 md:h-72 w-full">
+          <Image
+            src={bookCollection.heroImageUrl}
+            alt={bookCollection.title}
+            fill
+            className="object-cover"
+            sizes="100vw"
+            priority
+          />
+          <div className="absolute inset-0 bg-gradient-to-t from-[#121212] via-[#121212]/60 to-transparent"></div>
+        </div>
+      )}
+
+      <div className={`container mx-auto px-4 ${bookCollection.heroImageUrl ? 'pb-16 -mt-20 relative' : 'py-16'}`}>
+        <div className="mb-12 animate-fade-in">
+          <div className="flex items-center mb-2">
+            <div className="w-10 h-1 bg-gradient-to-r from-primary to-orange rounded mr-3"></div>
+            <span className="text-primary-light uppercase tracking-wider text-sm font-semibold">Collection</span>
+          </div>
+          <h1 className="text-5xl font-bold text-white flex items-center">
+            <span className="bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">{bookCollection.title}</span>
+          </h1>
+          {bookCollection.description && (
+            <p className="text-gray-400 mt-4 max-w-2xl">{bookCollection.description}</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-900 border border-red-700 text-white px-4 py-3 rounded mb-6" role="alert">
+            {error}
+          </div>
+        )}
+
+        {books.length === 0 ? (
+          <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl animate-fade-in">
+            <CollectionIcon name={bookCollection.icon} className="h-16 w-16 mx-auto text-gray-600 mb-4 animate-slide-up" />
+            <h3 className="text-2xl font-bold text-white mb-2 animate-slide-up stagger-1">No books here yet</h3>
+            <p className="text-gray-400 mb-8 max-w-md mx-auto animate-slide-up stagger-2">This collection is growing. Check back later for exciting new titles.</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+              <p className="text-gray-400 text-sm">
+                {books.length} {books.length === 1 ? 'book' : 'books'}
+              </p>
+              <select
+                value={sort}
+                onChange={(e) => updateParams({ sort: e.target.value as CollectionSort })}
+                className="px-3 py-2 bg-[#1F1F1F] border border-gray-700 rounded-lg text-white text-sm"
+                aria-label="Sort books"
+              >
+                {sortOptions.map(option => (
+                  <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+              {pageBooks.map((book, index) => (
+                <div key={book.id} className={`animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}>
+                  <BookCard book={book} />
+                </div>
+              ))}
+            </div>
+
+            {pageCount > 1 && (
+              <nav className="flex justify-center items-center gap-2 mt-10" aria-label="Pages">
+                <button
+                  type="button"
+                  onClick={() => updateParams({ page: page - 1 })}
+                  disabled={page === 1}
+                  className="px-3 py-2 rounded-lg bg-[#1F1F1F] border border-gray-700 text-sm disabled:opacity-40 hover:border-primary"
+                >
+                  Previous
+                </button>
+                {Array.from({ length: pageCount }, (_, i) => i + 1).map(pageNumber => (
+                  <button
+                    key={pageNumber}
+                    type="button"
+                    onClick={() => updateParams({ page: pageNumber })}
+                    aria-current={pageNumber === page ? 'page' : undefined}
+                    className={`w-10 h-10 rounded-lg text-sm border ${
+                      pageNumber === page
+                        ? 'bg-primary border-primary text-white'
+                        : 'bg-[#1F1F1F] border-gray-700 text-gray-300 hover:border-primary'
+                    }`}
+                  >
+                    {pageNumber}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => updateParams({ page: page + 1 })}
+                  disabled={page === pageCount}
+                  className="px-3 py-2 rounded-lg bg-[#1F1F1F] border border-gray-700 text-sm disabled:opacity-40 hover:border-primary"
+                >
+                  Next
+                </button>
+              </nav>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default function CollectionPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-[#121212] flex justify-center items-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <CollectionContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { FaDownload, FaTrash } from 'react-icons/fa';
+import {
+  DownloadedBook,
+  deleteDownloadedBook,
+  formatDownloadSize,
+  getDownloadedBooks,
+  getOfflineStorageEstimate,
+  isOfflineDownloadSupported
+} from '@/utils/offlineDownloads';
+
+export default function DownloadsPage() {
+  const [downloads, setDownloads] = useState<DownloadedBook[]>([]);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [supported, setSupported] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDownloads = async () => {
+    try {
+      const [downloadedBooks, estimate] = await Promise.all([getDownloadedBooks(), getOfflineStorageEstimate()]);
+      setDownloads(downloadedBooks);
+      setStorage(estimate);
+    } catch (err) {
+      console.error('Error fetching downloads:', err);
+      setError('Failed to load downloads.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOfflineDownloadSupported()) {
+      setSupported(false);
+      setLoading(false);
+      return;
+    }
+    fetchDownloads();
+  }, []);
+
+  const handleDelete = async (download: DownloadedBook) => {
+    if (!window.confirm(`Remove the download of "${download.book.title}"?`)) return;
+
+    try {
+      await deleteDownloadedBook(download.bookId);
+      fetchDownloads();
+    } catch (err) {
+      console.error('Error deleting download:', err);
+      setError('Failed to remove download. Please try again.');
+    }
+  };
+
+  const totalSize = downloads.reduce((sum, download) => sum + download.totalSize, 0);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#121212] flex justify-center items-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-[#121212] text-white">
+      <div className="container mx-auto px-4 py-16">
+        <div className="mb-12 animate-fade-in">
+          <div className="flex items-center mb-2">
+            <div className="w-10 h-1 bg-gradient-to-r from-primary to-orange rounded mr-3"></div>
+            <span className="text-primary-light uppercase tracking-wider text-sm font-semibold">Offline</span>
+          </div>
+          <h1 className="text-5xl font-bold text-white flex items-center">
+            <span className="bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">Downloads</span>
+          </h1>
+          {downloads.length > 0 && (
+            <p className="text-gray-400 mt-3">
+              {downloads.length} {downloads.length === 1 ? 'book' : 'books'} · {formatDownloadSize(totalSize)}
+              {storage && storage.quota > 0 && (
+                <> · {formatDownloadSize(storage.usage)} of {formatDownloadSize(storage.quota)} storage used</>
+              )}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-900 border border-red-700 text-white px-4 py-3 rounded mb-6" role="alert">
+            {error}
+          </div>
+        )}
+
+        {!supported ? (
+          <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl">
+            <h3 className="text-2xl font-bold text-white mb-2">Downloads are not available</h3>
+            <p className="text-gray-400 max-w-md mx-auto">This browser does not support offline listening.</p>
+          </div>
+        ) : downloads.length === 0 ? (
+          <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl animate-fade-in">
+            <FaDownload className="h-16 w-16 mx-auto text-gray-600 mb-4 animate-slide-up" />
+            <h3 className="text-2xl font-bold text-white mb-2 animate-slide-up stagger-1">No downloads yet</h3>
+            <p className="text-gray-400 mb-8 max-w-md mx-auto animate-slide-up stagger-2">
+              Use &quot;Download Book&quot; on a book page to listen without a connection.
+            </p>
+            <Link
+              href="/"
+              className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-primary/80 transition-all"
+            >
+              Browse Books
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {downloads.map((download) => (
+              <div
+                key={download.bookId}
+                className="flex items-center gap-4 bg-[#1F1F1F] border border-gray-800 rounded-xl p-3"
+              >
+                <Link href={`/book/${download.bookId}`} className="flex items-center gap-4 flex-1 min-w-0">
+                  <div className="relative w-14 h-20 flex-shrink-0">
+                    <Image
+                      src={download.coverUrl || '/images/book-placeholder.jpg'}
+                      alt={download.book.title}
+                      fill
+                      className="object-cover rounded"
+                      sizes="56px"
+                    />
+                  </div>
+                  <div className="min-w-0">
+                    <h3 className="text-white font-semibold truncate">{download.book.title}</h3>
+                    <p className="text-gray-400 text-sm truncate">By {download.book.author}</p>
+                    <p className="text-gray-500 text-xs mt-1">
+                      {download.chapters.length} {download.chapters.length === 1 ? 'episode' : 'episodes'}
+                      {' · '}{formatDownloadSize(download.totalSize)}
+                      {' · '}Downloaded {new Date(download.downloadedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(download)}
+                  className="p-3 text-gray-400 hover:text-red-500 transition-colors"
+                  aria-label={`Remove download of ${download.book.title}`}
+                >
+                  <FaTrash />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
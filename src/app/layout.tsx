@@ -5,8 +5,12 @@ import { Inter } from 'next/font/google';
 import './globals.css';
 import Header from '@/components/layout/Header';
 import LandingSidebar from '@/components/layout/LandingSidebar';
+import MiniPlayer from '@/components/audio/MiniPlayer';
 import { AuthProvider } from '@/context/AuthContext';
+import { PlaybackProvider } from '@/context/PlaybackContext';
+import { PlayerSettingsProvider } from '@/context/PlayerSettingsContext';
 import { usePathname } from 'next/navigation';
+import { registerServiceWorker } from '@/utils/offlineDownloads';
 // Import debug tools
 import { initDebugTools } from './debug-init';
 
@@ -27,6 +31,11 @@ export default function RootLayout({
     // This will trigger the debug tools initialization
     initDebugTools();
   }, []);
+
+  // Serve downloaded books when offline
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
   
   // Don't show the global sidebar on the home page since we have a custom one there
   const isHomePage = pathname === '/';
@@ -35,23 +44,30 @@ export default function RootLayout({
     <html lang="en">
       <body className={`${inter.className} flex flex-col min-h-screen bg-background`}>
         <AuthProvider>
-          <div className="min-h-screen flex flex-col">
-            {/* Header for all pages */}
-            <Header 
-              isOpen={sidebarOpen} 
-              setIsOpen={setSidebarOpen} 
-            />
+          <PlayerSettingsProvider>
+            <PlaybackProvider>
+              <div className="min-h-screen flex flex-col">
+                {/* Header for all pages */}
+                <Header 
+                  isOpen={sidebarOpen} 
+                  setIsOpen={setSidebarOpen} 
+                />
             
-            <div className="flex flex-1">
-              {/* Sidebar for all pages */}
-              <LandingSidebar isOpen={sidebarOpen} />
+                <div className="flex flex-1">
+                  {/* Sidebar for all pages */}
+                  <LandingSidebar isOpen={sidebarOpen} />
               
-              {/* Main content */}
-              <main className="flex-grow md:ml-20">
-                {children}
-              </main>
-            </div>
-          </div>
+                  {/* Main content */}
+                  <main className="flex-grow md:ml-20">
+                    {children}
+                  </main>
+                </div>
+
+                {/* Docked player, kept playing across route changes */}
+                <MiniPlayer />
+              </div>
+            </PlaybackProvider>
+          </PlayerSettingsProvider>
         </AuthProvider>
       </body>
     </html>
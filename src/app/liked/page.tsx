@@ -4,6 +4,8 @@ import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/firebase/config';
+import { BookDocument } from '@/firebase/services';
+import { isPublished } from '@/utils/publishing';
 import { FaHeart } from 'react-icons/fa';
 import BookCard from '@/components/book/BookCard';
 import Link from 'next/link';
@@ -47,7 +49,7 @@ export default function LikedPage() {
         const allBooks = booksSnapshot.docs.map(doc => ({
           id: doc.id,
           ...doc.data()
-        }));
+        } as BookDocument));
         
         // Filter books that match the liked book IDs
         for (const bookId of bookIds) {
@@ -55,7 +57,8 @@ export default function LikedPage() {
             book.id === bookId || book.id === bookId
           );
           
-          if (matchedBook) {
+          // Books unpublished since they were liked are hidden until they are public again
+          if (matchedBook && isPublished(matchedBook)) {
             booksData.push(matchedBook);
           }
         }
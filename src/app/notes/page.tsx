@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FaStickyNote } from 'react-icons/fa';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Annotation,
+  deleteAnnotation,
+  getUserAnnotations,
+  updateAnnotationNote
+} from '@/firebase/annotationService';
+import { AnnotationItem } from '@/components/book/AnnotationsPanel';
+
+// A book's annotations, most recently annotated books first
+interface BookNotes {
+  bookId: string;
+  bookTitle: string;
+  annotations: Annotation[];
+}
+
+/**
+ * Groups annotations by book, keeping the order of the most recent annotation in each
+ */
+const groupByBook = (annotations: Annotation[]): BookNotes[] => {
+  const groups = new Map<string, BookNotes>();
+  annotations.forEach(annotation => {
+    const group = groups.get(annotation.bookId);
+    if (group) {
+      group.annotations.push(annotation);
+    } else {
+      groups.set(annotation.bookId, {
+        bookId: annotation.bookId,
+        bookTitle: annotation.bookTitle,
+        annotations: [annotation]
+      });
+    }
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Gets the page that shows an annotation: the episode on the book page, or the reader for
+ * books read as a whole
+ */
+const getAnnotationHref = (annotation: Annotation): string => {
+  const params = new URLSearchParams();
+  if (annotation.chapterId) params.set('chapter', annotation.chapterId);
+  if (annotation.paragraphIndex !== undefined) params.set('paragraph', String(annotation.paragraphIndex));
+  if (annotation.audioTime !== undefined) params.set('t', annotation.audioTime.toFixed(1));
+
+  const path = annotation.chapterId ? `/book/${annotation.bookId}/` : `/read/${annotation.bookId}/`;
+  return `${path}?${params.toString()}`;
+};
+
+export default function NotesPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchAnnotations = async () => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setAnnotations(await getUserAnnotations(user.uid));
+      } catch (err) {
+        console.error('Error fetching notes:', err);
+        setError('Failed to load your notes.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAnnotations();
+  }, [user]);
+
+  const handleUpdateNote = async (annotationId: string, note: string) => {
+    try {
+      await updateAnnotationNote(annotationId, note);
+      setAnnotations(prev => prev.map(annotation =>
+        annotation.id === annotationId ? { ...annotation, note: note.trim() } : annotation
+      ));
+    } catch (err) {
+      console.error('Error updating note:', err);
+      setError('Failed to save note. Please try again.');
+    }
+  };
+
+  const handleDelete = async (annotationId: string) => {
+    try {
+      await deleteAnnotation(annotationId);
+      setAnnotations(prev => prev.filter(annotation => annotation.id !== annotationId));
+    } catch (err) {
+      console.error('Error deleting note:', err);
+      setError('Failed to delete. Please try again.');
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen bg-[#121212] flex justify-center items-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const bookNotes = groupByBook(annotations);
+
+  return (
+    <main className="min-h-screen bg-[#121212] text-white">
+      <div className="container mx-auto px-4 py-16">
+        <div className="mb-12 animate-fade-in">
+          <div className="flex items-center mb-2">
+            <div className="w-10 h-1 bg-gradient-to-r from-primary to-orange rounded mr-3"></div>
+            <span className="text-primary-light uppercase tracking-wider text-sm font-semibold">Collection</span>
+          </div>
+          <h1 className="text-5xl font-bold text-white flex items-center">
+            <span className="bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">My Notes</span>
+          </h1>
+          {annotations.length > 0 && (
+            <p className="text-gray-400 mt-3">
+              {annotations.length} {annotations.length === 1 ? 'bookmark or highlight' : 'bookmarks and highlights'} in {bookNotes.length} {bookNotes.length === 1 ? 'book' : 'books'}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-900 border border-red-700 text-white px-4 py-3 rounded mb-6" role="alert">
+            {error}
+          </div>
+        )}
+
+        {!user ? (
+          <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl">
+            <h3 className="text-2xl font-bold text-white mb-2">Sign in to see your notes</h3>
+            <p className="text-gray-400 mb-8 max-w-md mx-auto">Your bookmarks and highlights follow you to every device.</p>
+            <Link
+              href="/auth/signin/?redirect=/notes"
+              className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-primary/80 transition-all"
+            >
+              Sign In
+            </Link>
+          </div>
+        ) : bookNotes.length === 0 ? (
+          <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl animate-fade-in">
+            <FaStickyNote className="h-16 w-16 mx-auto text-gray-600 mb-4 animate-slide-up" />
+            <h3 className="text-2xl font-bold text-white mb-2 animate-slide-up stagger-1">No notes yet</h3>
+            <p className="text-gray-400 mb-8 max-w-md mx-auto animate-slide-up stagger-2">
+              Select text in an episode to highlight it, or bookmark a paragraph to come back to it.
+            </p>
+            <Link
+              href="/"
+              className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-primary/80 transition-all"
+            >
+              Browse Books
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {bookNotes.map((group) => (
+              <section key={group.bookId}>
+                <Link
+                  href={`/book/${group.bookId}`}
+                  className="inline-block text-2xl font-bold text-white hover:text-primary-light mb-3"
+                >
+                  {group.bookTitle}
+                </Link>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {group.annotations.map((annotation) => (
+                    <AnnotationItem
+                      key={annotation.id}
+                      annotation={annotation}
+                      onJump={(target) => router.push(getAnnotationHref(target))}
+                      onUpdateNote={handleUpdateNote}
+                      onDelete={handleDelete}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
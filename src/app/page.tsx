@@ -1,17 +1,30 @@
 'use client';
 
 import { useEffect, useState, Suspense } from 'react';
-import { PdfDocument, getPdfs, deletePdf, BookDocument, getBooks, deleteBook } from '@/firebase/services';
+import { PdfDocument, getPdfs, deletePdf, BookSort } from '@/firebase/services';
 import PdfCard from '@/components/pdf/PdfCard';
 import BookCard from '@/components/book/BookCard';
+import ContinueListeningRail from '@/components/book/ContinueListeningRail';
+import BecauseYouLikedRails from '@/components/book/BecauseYouLikedRails';
+import { useBookPages, useInfiniteScroll } from '@/components/book/useBookPages';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import Logo from '@/components/layout/Logo';  
 
+const SORT_LABELS: Record<BookSort, string> = {
+  newest: 'Newest',
+  mostLiked: 'Most liked',
+  mostSaved: 'Most saved',
+  recentlyUpdated: 'Recently updated'
+};
+
 function HomeContent() {  
   const [pdfs, setPdfs] = useState<PdfDocument[]>([]);
-  const [books, setBooks] = useState<BookDocument[]>([]);
-  const [filteredBooks, setFilteredBooks] = useState<BookDocument[]>([]);
+  const [sort, setSort] = useState<BookSort>('newest');
+  const featured = useBookPages({ sort });
+  const historyBooks = useBookPages({ tag: 'History', pageSize: 10 });
+  const academicBooks = useBookPages({ tag: 'Academic', pageSize: 10 });
+  const loadMoreRef = useInfiniteScroll(featured.loadMore, featured.hasMore && !featured.loadingMore);
   const [filteredPdfs, setFilteredPdfs] = useState<PdfDocument[]>([]);
   const [searchTerm, setSearchTerm] = useState('');   
   const [loading, setLoading] = useState(true);
@@ -40,30 +53,12 @@ function HomeContent() {
     }
   };
 
-  const fetchBooks = async () => {
-    try {
-      const bookDocs = await getBooks();
-      setBooks(bookDocs);
-      return true;
-    } catch (err) {
-      console.error('Error fetching books:', err);
-      return false;
-    }
-  };
-
   const fetchAllContent = async () => {
     setLoading(true);
     try {
-      const [pdfsSuccess, booksSuccess] = await Promise.all([
-        fetchPdfs(),
-        fetchBooks()
-      ]);
-      
-      if (!pdfsSuccess && !booksSuccess) {
-        setError('Failed to load content. Please try again later.');
-      } else {
-        setError(null);
-      }
+      // Books are loaded a page at a time by useBookPages
+      const pdfsSuccess = await fetchPdfs();
+      setError(pdfsSuccess ? null : 'Failed to load content. Please try again later.');
     } catch (err) {
       console.error('Error fetching content:', err);
       setError('Failed to load content. Please try again later.');
@@ -72,20 +67,8 @@ function HomeContent() {
     }
   };
 
-  // Filter books and PDFs based on search term
+  // Filter PDFs based on search term (books are searched on the search page)
   useEffect(() => {
-    if (books.length > 0) {
-      setFilteredBooks(
-        searchTerm
-          ? books.filter(book => 
-              book.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-              book.author.toLowerCase().includes(searchTerm.toLowerCase()) ||
-              book.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
-            )
-          : books
-      );
-    }
-    
     if (pdfs.length > 0) {
       setFilteredPdfs(
         searchTerm
@@ -95,7 +78,7 @@ function HomeContent() {
           : pdfs
       );
     }
-  }, [searchTerm, books, pdfs]);
+  }, [searchTerm, pdfs]);
 
   useEffect(() => {
     fetchAllContent();
@@ -114,17 +97,6 @@ function HomeContent() {
     }
   };
 
-  const handleDeleteBook = async (book: BookDocument) => {
-    try {
-      await deleteBook(book);
-      // Refresh the list
-      fetchBooks();
-    } catch (err) {
-      console.error('Error deleting book:', err);
-      setError('Failed to delete book. Please try again.');
-    }
-  };
-
   return (
     <div className="w-full">
       {/* Main content */}
@@ -181,16 +153,22 @@ function HomeContent() {
       </div>
       
       <div className="w-full py-8">
-        {loading ? (
+        {loading || (featured.loading && featured.books.length === 0) ? (
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
           </div>
-        ) : error ? (
+        ) : error && featured.error ? (
           <div className="bg-red-900 border border-red-700 text-white px-4 py-3 rounded relative" role="alert">
             <span className="block sm:inline">{error}</span>
           </div>
         ) : (
           <>
+            {/* Continue Listening - books the user was last reading, synced across devices */}
+            <ContinueListeningRail />
+
+            {/* Recommendations from the user's likes, saves and listening */}
+            <BecauseYouLikedRails />
+
             {/* Featured Collection - Recently Added Books */}  
             <section id="featured-collection" className="mb-16 py-16">
               <div className="flex flex-col md:flex-row justify-between items-center mb-12 animate-fade-in">  
@@ -203,6 +181,16 @@ function HomeContent() {
                     <span className="bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">Experience TuneTalez</span>
                   </h2>
                 </div>
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as BookSort)}
+                  className="px-3 py-2 bg-[#1F1F1F] border border-gray-700 rounded-lg text-white text-sm animate-fade-in stagger-2"
+                  aria-label="Sort books"
+                >
+                  {(Object.keys(SORT_LABELS) as BookSort[]).map(option => (
+                    <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                  ))}
+                </select>
                 {/* <div className="flex space-x-3 animate-fade-in stagger-2">
                   <button 
                     className="bg-[#2A2A2A] hover:bg-[#333] p-3 rounded-full transition-all duration-300 hover:scale-110"
@@ -223,7 +211,13 @@ function HomeContent() {
                 </div> */}
               </div>
 
-              {books.length === 0 ? (
+              {featured.error && (
+                <div className="bg-red-900 border border-red-700 text-white px-4 py-3 rounded mx-4 mb-6" role="alert">
+                  {featured.error}
+                </div>
+              )}
+
+              {featured.books.length === 0 ? (
                 <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl animate-fade-in">
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-gray-600 mb-4 animate-slide-up" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
@@ -237,32 +231,22 @@ function HomeContent() {
                     Notify Me When Books Arrive
                   </button>
                 </div>
-              ) : filteredBooks.length === 0 && searchTerm ? (
-                <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl animate-fade-in">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-gray-600 mb-4 animate-slide-up" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                  </svg>
-                  <h3 className="text-2xl font-bold text-white mb-2 animate-slide-up stagger-1">No books match your search</h3>
-                  <p className="text-gray-400 mb-8 max-w-md mx-auto animate-slide-up stagger-2">We couldn't find any books matching "{searchTerm}". Try a different search term or browse our categories.</p>
-                  <button 
-                    onClick={() => setSearchTerm('')} 
-                    className="bg-primary/20 hover:bg-primary/30 text-primary-light font-medium py-2 px-6 rounded-lg transition-all duration-300 animate-slide-up stagger-3 hover:scale-105"
-                    suppressHydrationWarning
-                  >
-                    Clear Search
-                  </button>
-                </div>
               ) : (
-                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 px-4">
-                  {/* Sort books by createdAt date and display all books in rows */}
-                  {filteredBooks
-                    .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())
-                    .map((book, index) => (
+                <>
+                  <div className={`grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 px-4 transition-opacity ${featured.loading ? 'opacity-50' : ''}`}>
+                    {featured.books.map((book, index) => (
                       <div key={book.id} className={`animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}>
                         <BookCard book={book} isLandingPage={true} />
                       </div>
                     ))}
-                </div>
+                  </div>
+                  {/* The next page loads when this marker scrolls into view */}
+                  <div ref={loadMoreRef} className="flex justify-center py-8">
+                    {featured.loadingMore && (
+                      <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+                    )}
+                  </div>
+                </>
               )}
             </section>
             
@@ -299,14 +283,11 @@ function HomeContent() {
               </div>
 
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 px-4">
-                {filteredBooks
-                  .filter(book => book.tags && book.tags.some(tag => tag.toLowerCase() === 'history'))
-                  .slice(0, 10)
-                  .map((book, index) => (
-                    <div key={book.id} className={`animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}>
-                      <BookCard book={book} isLandingPage={true} />
-                    </div>
-                  ))}
+                {historyBooks.books.map((book, index) => (
+                  <div key={book.id} className={`animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}>
+                    <BookCard book={book} isLandingPage={true} />
+                  </div>
+                ))}
               </div>
             </section>
             
@@ -343,14 +324,11 @@ function HomeContent() {
               </div>
 
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 px-4">
-                {filteredBooks
-                  .filter(book => book.tags && book.tags.some(tag => tag.toLowerCase() === 'academics' || tag.toLowerCase() === 'academic'))
-                  .slice(0, 10)
-                  .map((book, index) => (
-                    <div key={book.id} className={`animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}>
-                      <BookCard book={book} isLandingPage={true} />
-                    </div>
-                  ))}
+                {academicBooks.books.map((book, index) => (
+                  <div key={book.id} className={`animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}>
+                    <BookCard book={book} isLandingPage={true} />
+                  </div>
+                ))}
               </div>
             </section>
             
@@ -5,16 +5,31 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { BookDocument, getBookById } from '@/firebase/services';
-import AudioPlayer from '@/components/audio/AudioPlayer';
-import { debugAudioUrl, traceAudioUrl } from '@/utils/audioDebugger';
-import { ensureR2HttpsUrl } from '@/utils/audioUtils';
+import PlaybackControls from '@/components/audio/PlaybackControls';
+import { buildBookQueue, usePlayback } from '@/context/PlaybackContext';
 import ShareButton from '@/components/book/ShareButton';
+import NarrationSyncedText from '@/components/book/NarrationSyncedText';
+import AnnotationsPanel from '@/components/book/AnnotationsPanel';
+import { useBookAnnotations } from '@/components/book/useBookAnnotations';
+import { Annotation } from '@/firebase/annotationService';
+import { useAuth } from '@/context/AuthContext';
+import { canManageBook, isPublished } from '@/utils/publishing';
 
 export default function ReadBookPage() {
   const { id } = useParams();
-  const [book, setBook] = useState<BookDocument | null>(null);
+  const { user, isAdmin, loading: authLoading } = useAuth();
+  const [loadedBook, setBook] = useState<BookDocument | null>(null);
+  // Books that are not public yet are only shown to their author and admins
+  const book = loadedBook && (isPublished(loadedBook) || canManageBook(loadedBook, user?.uid, isAdmin)) ? loadedBook : null;
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const playback = usePlayback();
+  // Narration time linked from "My notes", played once the book has loaded
+  const [linkedTime, setLinkedTime] = useState<number | null>(null);
+  const [focusRequest, setFocusRequest] = useState<{ index: number; id: number } | null>(null);
+  const { annotations, error: annotationsError, add: addAnnotation, remove: removeAnnotation, updateNote } = useBookAnnotations(book?.id);
+  // Annotations made on the book page belong to its chapters
+  const bookAnnotations = annotations.filter(annotation => !annotation.chapterId);
 
   useEffect(() => {
     const fetchBook = async () => {
@@ -31,6 +46,13 @@ export default function ReadBookPage() {
         
         setBook(bookData);
         setError(null);
+
+        // Open the paragraph and narration time linked from "My notes" (?paragraph=&t=)
+        const searchParams = new URLSearchParams(window.location.search);
+        const paragraph = searchParams.get('paragraph');
+        const time = searchParams.get('t');
+        if (paragraph !== null) setFocusRequest({ index: parseInt(paragraph, 10), id: Date.now() });
+        if (time !== null) setLinkedTime(parseFloat(time));
       } catch (err) {
         console.error('Error fetching book:', err);
         setError('Failed to load book. Please try again later.');
@@ -42,7 +64,64 @@ export default function ReadBookPage() {
     fetchBook();
   }, [id]);
 
-  if (loading) {
+  // The page shows the book text, so only the narration of the book as a whole follows it;
+  // books narrated chapter by chapter are listened to from the book page
+  const bookNarration = book ? buildBookQueue(book).find(item => !item.chapterId) : undefined;
+  const isNarrationPlaying = !!bookNarration && playback.currentItem?.bookId === book?.id && !playback.currentItem?.chapterId;
+  const narrationTime = isNarrationPlaying ? playback.currentTime : 0;
+
+  // Play the narration in the global player, so it keeps playing across pages
+  const playNarration = (startTime: number = 0) => {
+    if (!book || !bookNarration) return;
+
+    if (isNarrationPlaying) {
+      playback.seek(startTime, true);
+    } else {
+      playback.playBook(book, undefined, { startTime });
+    }
+  };
+
+  useEffect(() => {
+    if (linkedTime === null || !book || !bookNarration) return;
+    setLinkedTime(null);
+    playback.playBook(book, undefined, { startTime: linkedTime });
+  }, [linkedTime, book, bookNarration, playback]);
+
+  // Bookmark a paragraph, or remove its bookmark
+  const handleToggleBookmark = (paragraphIndex: number, excerpt: string) => {
+    if (!book?.id) return;
+
+    const existing = bookAnnotations.find(annotation =>
+      annotation.type === 'bookmark' && annotation.paragraphIndex === paragraphIndex
+    );
+    if (existing?.id) {
+      removeAnnotation(existing.id);
+      return;
+    }
+
+    addAnnotation({ bookId: book.id, bookTitle: book.title, type: 'bookmark', paragraphIndex, text: excerpt });
+  };
+
+  const handleHighlight = (paragraphIndex: number, text: string) => {
+    if (!book?.id) return;
+    addAnnotation({ bookId: book.id, bookTitle: book.title, type: 'highlight', paragraphIndex, text });
+  };
+
+  const handleBookmarkTime = () => {
+    if (!book?.id) return;
+    addAnnotation({ bookId: book.id, bookTitle: book.title, type: 'bookmark', audioTime: narrationTime });
+  };
+
+  const handleJumpToAnnotation = (annotation: Annotation) => {
+    if (annotation.paragraphIndex !== undefined) {
+      setFocusRequest({ index: annotation.paragraphIndex, id: Date.now() });
+    }
+    if (annotation.audioTime !== undefined && bookNarration) {
+      playNarration(annotation.audioTime);
+    }
+  };
+
+  if (loading || authLoading) {
     return (
       <div className="min-h-screen bg-background">
         <div className="container mx-auto px-4 py-8">
@@ -125,7 +204,7 @@ export default function ReadBookPage() {
         </div>
         
         {/* Audio Player - Show if narration is available */}
-        {book.audioUrl && (
+        {bookNarration && (
           <div className="mb-6">
             <div className="bg-[#1F1F1F] rounded-lg shadow-md overflow-hidden p-4">
               <h2 className="text-xl font-semibold text-white mb-3 flex items-center">
@@ -134,67 +213,20 @@ export default function ReadBookPage() {
                 </svg>
                 Listen to Narration
               </h2>
-              {/* Process and validate the audio URL */}
-              {(() => {
-                // Use an async IIFE to handle the async URL conversion
-                const AudioPlayerWithValidUrl = () => {
-                  const [validUrl, setValidUrl] = useState<string | null>(null);
-                  const [isProcessing, setIsProcessing] = useState(true);
-                  const [urlError, setUrlError] = useState<string | null>(null);
-                  
-                  useEffect(() => {
-                    const processUrl = async () => {
-                      try {
-                        if (!book.audioUrl) {
-                          setUrlError('No audio URL provided');
-                          setIsProcessing(false);
-                          return;
-                        }
-                        
-                        // Check if it's a blob URL
-                        if (book.audioUrl.startsWith('blob:')) {
-                          console.error('❌ Blob URL detected. Cannot play blob URLs:', book.audioUrl);
-                          setUrlError('Blob URLs are not supported');
-                          setIsProcessing(false);
-                          return;
-                        }
-                        
-                        // Convert gs:// URIs to HTTPS URLs and validate
-                        const httpsUrl = await ensureR2HttpsUrl(book.audioUrl);
-                        
-                        if (!httpsUrl) {
-                          console.error('❌ Invalid audio URL:', book.audioUrl);
-                          setUrlError('Invalid audio URL');
-                          setIsProcessing(false);
-                          return;
-                        }
-                        
-                        console.log('✅ Using Firebase HTTPS URL:', httpsUrl);
-                        setValidUrl(httpsUrl);
-                        setIsProcessing(false);
-                      } catch (err) {
-                        console.error('Error processing audio URL:', err);
-                        setUrlError('Error processing audio URL');
-                        setIsProcessing(false);
-                      }
-                    };
-                    
-                    processUrl();
-                  }, []);
-                  
-                  if (isProcessing) {
-                    return <div className="p-2 text-white">Processing audio URL...</div>;
-                  }
-                  
-                  if (urlError || !validUrl) {
-                    return <div className="p-2 text-red-500">{urlError || 'Invalid audio URL'}</div>;
-                  }
-                  
-                  return <AudioPlayer audioUrl={validUrl} />;
-                };
-                
-                return <AudioPlayerWithValidUrl />;
-              })()}
+              {isNarrationPlaying ? (
+                <PlaybackControls className="p-2" showPlaybackSpeed />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => playNarration()}
+                  className="flex items-center justify-center gap-2 bg-orange text-white py-2 px-4 rounded hover:bg-orange-dark transition-colors w-full"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                  </svg>
+                  Play Narration
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -213,16 +245,37 @@ export default function ReadBookPage() {
             />
           </div>
           
-          {/* Render content as HTML */}
-          <div 
+          {/* Render content as HTML, following the narration paragraph by paragraph */}
+          <NarrationSyncedText
             className="prose prose-lg max-w-none prose-invert prose-headings:text-orange prose-a:text-primary-light"
-            dangerouslySetInnerHTML={{ 
-              __html: book.content && book.content.includes('<') && book.content.includes('>') 
+            content={
+              book.content && book.content.includes('<') && book.content.includes('>') 
                 ? book.content 
                 : book.content ? book.content.replace(/\n/g, '<br>') : ''
-            }} 
+            }
+            timingManifest={book.timingManifest}
+            currentTime={narrationTime}
+            duration={isNarrationPlaying ? playback.duration : 0}
+            onSeek={bookNarration ? playNarration : undefined}
+            annotations={bookAnnotations}
+            onToggleBookmark={user ? handleToggleBookmark : undefined}
+            onHighlight={user ? handleHighlight : undefined}
+            focusRequest={focusRequest}
           />
         </div>
+
+        {user && (
+          <AnnotationsPanel
+            annotations={bookAnnotations}
+            onJump={handleJumpToAnnotation}
+            onUpdateNote={updateNote}
+            onDelete={removeAnnotation}
+            onBookmarkTime={isNarrationPlaying && narrationTime > 0 ? handleBookmarkTime : undefined}
+            currentTime={narrationTime}
+            error={annotationsError}
+            className="bg-[#1F1F1F] rounded-lg shadow-md p-6 mt-6"
+          />
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,8 @@ import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/firebase/config';
+import { BookDocument } from '@/firebase/services';
+import { isPublished } from '@/utils/publishing';
 import { FaBookmark } from 'react-icons/fa';
 import BookCard from '@/components/book/BookCard';
 import Link from 'next/link';
@@ -46,7 +48,7 @@ export default function SavedPage() {
         const allBooks = booksSnapshot.docs.map(doc => ({
           id: doc.id,
           ...doc.data()
-        }));
+        } as BookDocument));
         
         // Filter books that match the saved book IDs
         for (const bookId of bookIds) {
@@ -54,7 +56,8 @@ export default function SavedPage() {
             book.id === bookId || book.id === bookId
           );
           
-          if (matchedBook) {
+          // Books unpublished since they were saved are hidden until they are public again
+          if (matchedBook && isPublished(matchedBook)) {
             booksData.push(matchedBook);
           }
         }
@@ -0,0 +1,332 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { FaHeadphones, FaSearch } from 'react-icons/fa';
+import { FacetCount, SearchResponse, SearchResult } from '@/utils/searchIndex';
+import { getCoverCdnUrl } from '@/utils/offlineDownloads';
+
+const PAGE_SIZE = 20;
+
+// Highlighted matches in titles and snippets
+const MARK_CLASSES = '[&_mark]:bg-primary/30 [&_mark]:text-white [&_mark]:rounded-sm [&_mark]:px-0.5';
+
+/**
+ * Fetches a page of results from `/api/search`
+ * @param paramsKey Query string of the search page (query and filters)
+ * @param offset Number of results already shown
+ */
+const fetchSearchPage = async (paramsKey: string, offset: number): Promise<SearchResponse> => {
+  const params = new URLSearchParams(paramsKey);
+  params.set('limit', String(PAGE_SIZE));
+  params.set('offset', String(offset));
+
+  const res = await fetch(`/api/search?${params.toString()}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Search failed');
+  return data;
+};
+
+interface FacetListProps {
+  title: string;
+  facets: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}
+
+/**
+ * Checkbox list of the values of a facet with their counts
+ */
+const FacetList = ({ title, facets, selected, onToggle }: FacetListProps) => {
+  // Selected values stay listed even when nothing matches them anymore
+  const values = [
+    ...facets,
+    ...selected.filter(value => !facets.some(facet => facet.value === value)).map(value => ({ value, count: 0 }))
+  ];
+  if (values.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-2">{title}</h3>
+      <div className="space-y-1">
+        {values.map(({ value, count }) => (
+          <label key={value} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(value)}
+              onChange={() => onToggle(value)}
+              className="accent-primary"
+            />
+            <span className="flex-1 capitalize truncate">{value}</span>
+            <span className="text-xs text-gray-500">{count}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A matching book with its best passages and matching chapters
+ */
+const SearchResultItem = ({ result }: { result: SearchResult }) => (
+  <div className="flex gap-4 bg-[#1F1F1F] rounded-xl border border-gray-800 hover:border-primary/50 transition-colors p-4">
+    <Link href={`/book/${result.bookId}`} className="relative flex-shrink-0 w-20 h-28 rounded-md overflow-hidden">
+      <Image
+        src={getCoverCdnUrl(result.thumbnailUrl) || '/images/book-placeholder.jpg'}
+        alt={result.title}
+        fill
+        className="object-cover"
+        sizes="80px"
+      />
+    </Link>
+    <div className="flex-1 min-w-0">
+      <Link
+        href={`/book/${result.bookId}`}
+        className={`block text-lg font-bold text-white hover:text-primary-light ${MARK_CLASSES}`}
+      >
+        <span dangerouslySetInnerHTML={{ __html: result.highlightedTitle }} />
+      </Link>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400 mb-2">
+        <span>by {result.author}</span>
+        {result.hasAudio && (
+          <span className="flex items-center gap-1 text-xs text-primary-light">
+            <FaHeadphones /> Narrated
+          </span>
+        )}
+        {result.tags.slice(0, 3).map(tag => (
+          <span key={tag} className="text-xs bg-[#333333] text-gray-300 px-2 py-0.5 rounded-full capitalize">{tag}</span>
+        ))}
+      </div>
+      {result.snippet && (
+        <p
+          className={`text-sm text-gray-300 ${MARK_CLASSES}`}
+          dangerouslySetInnerHTML={{ __html: result.snippet }}
+        />
+      )}
+      {result.chapters.length > 0 && (
+        <div className="mt-3 space-y-2 border-l-2 border-gray-700 pl-3">
+          {result.chapters.map(chapter => (
+            <Link
+              key={chapter.chapterId}
+              href={`/book/${result.bookId}/?chapter=${encodeURIComponent(chapter.chapterId)}`}
+              className="block group"
+            >
+              <span className="block text-sm font-semibold text-gray-200 group-hover:text-primary-light">{chapter.title}</span>
+              <span
+                className={`block text-xs text-gray-400 ${MARK_CLASSES}`}
+                dangerouslySetInnerHTML={{ __html: chapter.snippet }}
+              />
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+function SearchContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const query = searchParams?.get('q') || '';
+  const selectedTags = searchParams?.getAll('tag') || [];
+  const selectedMoods = searchParams?.getAll('mood') || [];
+  const audio = searchParams?.get('audio') || '';
+  const paramsKey = searchParams?.toString() || '';
+
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const search = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchSearchPage(paramsKey, 0);
+        if (cancelled) return;
+        setResponse(data);
+        setResults(data.results);
+      } catch (err) {
+        console.error('Error searching books:', err);
+        if (!cancelled) setError('Search is unavailable right now. Please try again.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    search();
+    return () => {
+      cancelled = true;
+    };
+  }, [paramsKey]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const data = await fetchSearchPage(paramsKey, results.length);
+      setResults(prev => [...prev, ...data.results]);
+    } catch (err) {
+      console.error('Error loading more results:', err);
+      setError('Failed to load more results.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Updates the filters in the URL, which runs the search again
+  const updateParams = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(paramsKey);
+    update(params);
+    router.replace(`/search/?${params.toString()}`, { scroll: false });
+  };
+
+  const toggleValue = (name: 'tag' | 'mood', value: string) => updateParams(params => {
+    const values = params.getAll(name);
+    params.delete(name);
+    (values.includes(value) ? values.filter(v => v !== value) : [...values, value])
+      .forEach(v => params.append(name, v));
+  });
+
+  const setAudio = (value: string) => updateParams(params => {
+    if (value) params.set('audio', value); else params.delete('audio');
+  });
+
+  const hasFilters = selectedTags.length > 0 || selectedMoods.length > 0 || !!audio;
+  const facets = response?.facets;
+
+  return (
+    <main className="min-h-screen bg-[#121212] text-white">
+      <div className="container mx-auto px-4 py-16">
+        <div className="mb-10 animate-fade-in">
+          <div className="flex items-center mb-2">
+            <div className="w-10 h-1 bg-gradient-to-r from-primary to-orange rounded mr-3"></div>
+            <span className="text-primary-light uppercase tracking-wider text-sm font-semibold">Discover</span>
+          </div>
+          <h1 className="text-5xl font-bold text-white">
+            <span className="bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-300">
+              {query ? `Results for “${query}”` : 'Search'}
+            </span>
+          </h1>
+          {response && !loading && (
+            <p className="text-gray-400 mt-3">
+              {response.total} {response.total === 1 ? 'book' : 'books'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-8">
+          <aside className="md:w-56 flex-shrink-0">
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-2">Narration</h3>
+              <div className="space-y-1">
+                {[
+                  { value: '', label: 'All books', count: facets ? facets.audio.withAudio + facets.audio.withoutAudio : 0 },
+                  { value: 'true', label: 'With narration', count: facets?.audio.withAudio || 0 },
+                  { value: 'false', label: 'Text only', count: facets?.audio.withoutAudio || 0 }
+                ].map(option => (
+                  <label key={option.label} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white cursor-pointer">
+                    <input
+                      type="radio"
+                      name="audio"
+                      checked={audio === option.value}
+                      onChange={() => setAudio(option.value)}
+                      className="accent-primary"
+                    />
+                    <span className="flex-1">{option.label}</span>
+                    <span className="text-xs text-gray-500">{option.count}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <FacetList
+              title="Tags"
+              facets={facets?.tags || []}
+              selected={selectedTags}
+              onToggle={(value) => toggleValue('tag', value)}
+            />
+            <FacetList
+              title="Moods"
+              facets={facets?.moods || []}
+              selected={selectedMoods}
+              onToggle={(value) => toggleValue('mood', value)}
+            />
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() => updateParams(params => {
+                  params.delete('tag');
+                  params.delete('mood');
+                  params.delete('audio');
+                })}
+                className="text-sm text-primary-light hover:text-white"
+              >
+                Clear filters
+              </button>
+            )}
+          </aside>
+
+          <section className="flex-1 min-w-0">
+            {error && (
+              <div className="bg-red-900 border border-red-700 text-white px-4 py-3 rounded mb-6" role="alert">
+                {error}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-16">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : results.length === 0 ? (
+              <div className="text-center py-16 bg-gradient-to-br from-[#1F1F1F] to-[#252525] rounded-2xl border border-gray-800 shadow-xl animate-fade-in">
+                <FaSearch className="h-16 w-16 mx-auto text-gray-600 mb-4 animate-slide-up" />
+                <h3 className="text-2xl font-bold text-white mb-2 animate-slide-up stagger-1">No books found</h3>
+                <p className="text-gray-400 max-w-md mx-auto animate-slide-up stagger-2">
+                  {hasFilters ? 'Try removing some filters.' : 'Try a different word, an author or a tag.'}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {results.map(result => (
+                  <SearchResultItem key={result.bookId} result={result} />
+                ))}
+                {response && results.length < response.total && (
+                  <div className="flex justify-center pt-4">
+                    <button
+                      type="button"
+                      onClick={handleLoadMore}
+                      disabled={loadingMore}
+                      className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-primary/80 transition-all disabled:opacity-50"
+                    >
+                      {loadingMore ? 'Loading...' : 'Show more'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="p-8 bg-[#1F1F1F] rounded-lg shadow-lg max-w-md w-full text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-white">Loading search...</p>
+        </div>
+      </div>
+    }>
+      <SearchContent />
+    </Suspense>
+  );
+}
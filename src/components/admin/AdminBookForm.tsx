@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect, ChangeEvent, FormEvent } from 'react';
-import { uploadBookThumbnail, createBook, updateBook, Chapter, BookDocument } from '@/firebase/services';
+import { uploadBookThumbnail, createBook, updateBook, Chapter, BookDocument, NarrationTimingManifest, PublishStatus } from '@/firebase/services';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import TextAlign from '@tiptap/extension-text-align';
@@ -11,6 +11,7 @@ import ChaptersManager from '../book/ChaptersManager';
 import EnhancedAudioNarrationButton from '../book/EnhancedAudioNarrationButton';
 import { generateImageFromPrompt, generateConciseSummary, dataUrlToFile, rewriteAsStory } from '@/services/gemini';
 import { useAuth } from '@/context/AuthContext';
+import PublishStatusField, { CREATE_SUBMIT_LABELS } from '../book/PublishStatusField';
 
 interface AdminBookFormProps {
   onSuccess?: () => void;
@@ -18,7 +19,7 @@ interface AdminBookFormProps {
 }
 
 // Tiptap MenuBar component
-const MenuBar = ({ editor }: { editor: any }) => {
+const MenuBar = ({ editor, onAiRewrite }: { editor: any; onAiRewrite?: () => void }) => {
   if (!editor) {
     return null;
   }
@@ -47,6 +48,7 @@ const MenuBar = ({ editor }: { editor: any }) => {
 
       // Update the editor with the rewritten content
       editor.commands.setContent(rewrittenContent);
+      onAiRewrite?.();
 
       // Re-enable editing
       editor.setEditable(true);
@@ -203,7 +205,12 @@ const AdminBookForm = ({ onSuccess, existingBook }: AdminBookFormProps) => {
     existingBook?.chapters && existingBook.chapters.length > 1 ? 'episodes' : 'single'
   );
   const [audioUrl, setAudioUrl] = useState<string | null>(existingBook?.audioUrl || null);
+  const [timingManifest, setTimingManifest] = useState<NarrationTimingManifest | null>(existingBook?.timingManifest || null);
   const [wordCount, setWordCount] = useState(0);
+  // Set when "Write with AI" rewrote the content, so the next save is recorded as an AI rewrite
+  const [aiRewritten, setAiRewritten] = useState(false);
+  // Books created by admins are published unless saved as a draft
+  const [status, setStatus] = useState<PublishStatus>('published');
 
   // Handle thumbnail selection
   const handleThumbnailChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -509,9 +516,12 @@ const AdminBookForm = ({ onSuccess, existingBook }: AdminBookFormProps) => {
         // Only add audioUrl if it exists
         if (audioUrl) {
           updateData.audioUrl = audioUrl;
+          if (timingManifest) {
+            updateData.timingManifest = timingManifest;
+          }
         }
 
-        result = await updateBook(existingBook.id, updateData);
+        result = await updateBook(existingBook.id, updateData, aiRewritten ? 'aiRewrite' : 'manual');
         console.log('Book updated successfully:', result);
       } else {
         // Create new book
@@ -524,13 +534,18 @@ const AdminBookForm = ({ onSuccess, existingBook }: AdminBookFormProps) => {
           authorId: user.uid, // Add the current user's ID as authorId
           thumbnailUrl,
           chapters: finalChapters,
-          audioUrl: audioUrl || '' // Ensure audioUrl is never undefined
+          audioUrl: audioUrl || '', // Ensure audioUrl is never undefined
+          ...(audioUrl && timingManifest && { timingManifest }),
+          status
         };
 
-        result = await createBook(bookData);
+        result = await createBook(bookData, aiRewritten ? 'aiRewrite' : 'manual');
         console.log('Book created successfully:', result);
       }
 
+      // The rewrite is recorded; later saves are the author's own
+      setAiRewritten(false);
+
       // Reset form if not editing
       if (!existingBook) {
         setTitle('');
@@ -797,7 +812,10 @@ const AdminBookForm = ({ onSuccess, existingBook }: AdminBookFormProps) => {
                 <EnhancedAudioNarrationButton
                   text={content.replace(/<[^>]*>/g, ' ')} // Strip HTML tags for narration
                   bookId={existingBook?.id}
-                  onSuccess={(url) => setAudioUrl(url)}
+                  onSuccess={(url, manifest) => {
+                    setAudioUrl(url);
+                    setTimingManifest(manifest || null);
+                  }}
                   className="text-sm"
                 />
               )}
@@ -811,7 +829,7 @@ const AdminBookForm = ({ onSuccess, existingBook }: AdminBookFormProps) => {
                 </div>
               ) : (
                 <div className="bg-[#2a2a2a]">
-                  <MenuBar editor={editor} />
+                  <MenuBar editor={editor} onAiRewrite={() => setAiRewritten(true)} />
                   <EditorContent editor={editor} className="prose-invert" />
                 </div>
               )}
@@ -857,13 +875,18 @@ const AdminBookForm = ({ onSuccess, existingBook }: AdminBookFormProps) => {
           </div>
         )}
 
+        {/* Publish status of new books; existing ones change it in Content Management */}
+        {!existingBook && (
+          <PublishStatusField value={status} onChange={setStatus} canPublish={true} disabled={uploading} />
+        )}
+
         {/* Submit Button */}
         <button
           type="submit"
           disabled={uploading}
           className="w-full bg-primary text-white py-2 px-4 rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
-          {uploading ? 'Publishing...' : existingBook ? 'Update Book' : 'Publish Book'}
+          {uploading ? 'Saving...' : existingBook ? 'Update Book' : CREATE_SUBMIT_LABELS[status]}
         </button>
       </form>
     </div>
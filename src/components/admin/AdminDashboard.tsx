@@ -10,9 +10,12 @@ import AdminStats from './AdminStats';
 import AdminDirectUploadForm from './AdminDirectUploadForm';
 import AdminPdfUpload from './AdminPdfUpload';
 import AdminBookForm from './AdminBookForm';
+import BookImport from '@/components/book/BookImport';
+import MusicLibraryManager from './MusicLibraryManager';
+import CollectionsManager from './CollectionsManager';
 import { useRouter } from 'next/navigation';
 
-type TabType = 'stats' | 'users' | 'content' | 'write' | 'upload';
+type TabType = 'stats' | 'users' | 'content' | 'write' | 'import' | 'upload' | 'music' | 'collections';
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState<TabType>('stats');
@@ -84,6 +87,16 @@ export default function AdminDashboard() {
         >
           Write Book
         </button>
+        <button
+          onClick={() => setActiveTab('import')}
+          className={`px-6 py-3 text-sm font-medium ${
+            activeTab === 'import'
+              ? 'border-b-2 border-[#FF0000] text-[#FF0000]'
+              : 'text-white hover:bg-[#303030] transition-colors'
+          }`}
+        >
+          Import Book
+        </button>
         <button
           onClick={() => setActiveTab('upload')}
           className={`px-6 py-3 text-sm font-medium ${
@@ -94,6 +107,26 @@ export default function AdminDashboard() {
         >
           Upload PDF
         </button>
+        <button
+          onClick={() => setActiveTab('music')}
+          className={`px-6 py-3 text-sm font-medium ${
+            activeTab === 'music'
+              ? 'border-b-2 border-[#FF0000] text-[#FF0000]'
+              : 'text-white hover:bg-[#303030] transition-colors'
+          }`}
+        >
+          Music Library
+        </button>
+        <button
+          onClick={() => setActiveTab('collections')}
+          className={`px-6 py-3 text-sm font-medium ${
+            activeTab === 'collections'
+              ? 'border-b-2 border-[#FF0000] text-[#FF0000]'
+              : 'text-white hover:bg-[#303030] transition-colors'
+          }`}
+        >
+          Collections
+        </button>
       </div>
 
       {/* Tab Content */}
@@ -111,6 +144,16 @@ export default function AdminDashboard() {
             <AdminBookForm onSuccess={handleBookSuccess} />
           )
         )}
+        {activeTab === 'import' && (
+          bookSuccess ? (
+            <div className="max-w-md mx-auto p-6 bg-[#303030] border border-[#FF0000] rounded-lg text-center">
+              <h2 className="text-2xl font-bold text-white mb-2">Book Imported Successfully!</h2>
+              <p className="text-gray-300">Redirecting to content management...</p>
+            </div>
+          ) : (
+            <BookImport onSuccess={handleBookSuccess} />
+          )
+        )}
         {activeTab === 'upload' && (
           pdfSuccess ? (
             <div className="max-w-md mx-auto p-6 bg-[#303030] border border-[#FF0000] rounded-lg text-center">
@@ -121,6 +164,8 @@ export default function AdminDashboard() {
             <AdminPdfUpload onUploadSuccess={handlePdfSuccess} />
           )
         )}
+        {activeTab === 'music' && <MusicLibraryManager />}
+        {activeTab === 'collections' && <CollectionsManager />}
       </div>
     </div>
   );
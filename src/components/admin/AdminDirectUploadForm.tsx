@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useRef, useEffect, ChangeEvent, FormEvent } from 'react';
-import { collection, addDoc } from 'firebase/firestore';
-import { db } from '@/firebase/config';
+import { createBook, PublishStatus } from '@/firebase/services';
+import { useAuth } from '@/context/AuthContext';
+import PublishStatusField, { CREATE_SUBMIT_LABELS } from '../book/PublishStatusField';
 import { uploadFileToR2 } from '@/r2/services';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
@@ -161,6 +162,7 @@ const MenuBar = ({ editor }: { editor: any }) => {
 };
 
 const AdminDirectUploadForm = ({ onSuccess }: AdminDirectUploadFormProps) => {
+  const { user } = useAuth();
   const [title, setTitle] = useState('');
   const [titleError, setTitleError] = useState<string>('');
   const [content, setContent] = useState<string>('');
@@ -173,6 +175,8 @@ const AdminDirectUploadForm = ({ onSuccess }: AdminDirectUploadFormProps) => {
   const [thumbnail, setThumbnail] = useState<File | null>(null);
   const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
+  // Books created by admins are published unless saved as a draft
+  const [status, setStatus] = useState<PublishStatus>('published');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [wordCount, setWordCount] = useState(0);
@@ -314,31 +318,6 @@ const AdminDirectUploadForm = ({ onSuccess }: AdminDirectUploadFormProps) => {
     return text.split(/\s+/).filter(word => word.length > 0).length;
   };
 
-  // Direct create book function that bypasses the service layer
-  const createBookDirect = async (bookData: {
-    title: string;
-    content: string;
-    author: string;
-    tags: string[];
-    thumbnailUrl: string;
-  }) => {
-    try {
-      const bookDoc = {
-        ...bookData,
-        createdAt: Date.now(),
-        description: '', // Ensure description is never undefined
-        chapters: [], // Ensure chapters is never undefined
-        audioUrl: '' // Ensure audioUrl is never undefined
-      };
-
-      const docRef = await addDoc(collection(db, 'books'), bookDoc);
-      return { ...bookDoc, id: docRef.id };
-    } catch (error) {
-      console.error('Error creating book:', error);
-      throw error;
-    }
-  };
-
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
 
@@ -380,6 +359,11 @@ const AdminDirectUploadForm = ({ onSuccess }: AdminDirectUploadFormProps) => {
       return;
     }
 
+    if (!user) {
+      setError('You must be logged in to create a book');
+      return;
+    }
+
     try {
       setUploading(true);
       setError(null);
@@ -395,13 +379,17 @@ const AdminDirectUploadForm = ({ onSuccess }: AdminDirectUploadFormProps) => {
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0);
 
-      // Create book document directly
-      const result = await createBookDirect({
+      // Created with its counters, like books written in the book form
+      const result = await createBook({
         title: title.trim(),
         content: content.trim(),
+        description: '',
         author: author.trim(),
+        authorId: user.uid,
         tags,
-        thumbnailUrl
+        thumbnailUrl,
+        chapters: [],
+        status
       });
 
       console.log('Book created successfully:', result);
@@ -569,13 +557,16 @@ const AdminDirectUploadForm = ({ onSuccess }: AdminDirectUploadFormProps) => {
           </div>
         )}
 
+        {/* Publish status */}
+        <PublishStatusField value={status} onChange={setStatus} canPublish={true} disabled={uploading} />
+
         {/* Submit Button */}
         <button
           type="submit"
           disabled={uploading}
           className="w-full bg-primary text-white py-2 px-4 rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
-          {uploading ? 'Publishing...' : 'Publish Book'}
+          {uploading ? 'Saving...' : CREATE_SUBMIT_LABELS[status]}
           <span className="ml-2">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
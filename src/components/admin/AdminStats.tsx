@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { db } from '@/firebase/config';
 import { collection, getDocs, query, where, orderBy } from 'firebase/firestore';
+import { useAuth } from '@/context/AuthContext';
 
 interface StatsData {
   totalUsers: number;
@@ -23,6 +24,9 @@ export default function AdminStats() {
     recentPdfs: 0
   });
   const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const [recomputing, setRecomputing] = useState(false);
+  const [recomputeMessage, setRecomputeMessage] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchStats() {
@@ -71,6 +75,27 @@ export default function AdminStats() {
     fetchStats();
   }, []);
 
+  // "Readers who liked X also liked Y" is precomputed from every reader's likes, saves and listening
+  const handleRecomputeRecommendations = async () => {
+    if (!user) return;
+    try {
+      setRecomputing(true);
+      setRecomputeMessage(null);
+      const res = await fetch('/api/recommendations', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to recompute recommendations');
+      setRecomputeMessage(`Recommendations updated for ${data.books} books`);
+    } catch (err) {
+      console.error('Error recomputing recommendations:', err);
+      setRecomputeMessage((err as Error).message);
+    } finally {
+      setRecomputing(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -95,6 +120,22 @@ export default function AdminStats() {
         <StatCard title="New Books" value={stats.recentBooks} />
         <StatCard title="New PDFs" value={stats.recentPdfs} />
       </div>
+
+      <h3 className="text-lg font-medium mt-8 mb-3 text-[#FF0000]">Recommendations</h3>
+      <div className="bg-[#1F1F1F] p-4 rounded-lg shadow border border-[#333333] flex flex-wrap items-center gap-4">
+        <p className="text-sm text-gray-300 flex-1">
+          &quot;Readers who liked this also liked&quot; is computed from every reader&apos;s likes, saves and listening. Recompute it to include recent activity.
+        </p>
+        <button
+          type="button"
+          onClick={handleRecomputeRecommendations}
+          disabled={recomputing || !user}
+          className="px-4 py-2 bg-black text-white border border-[#FF0000] rounded-md hover:bg-[#1F1F1F] transition-colors disabled:opacity-50"
+        >
+          {recomputing ? 'Recomputing...' : 'Recompute Recommendations'}
+        </button>
+        {recomputeMessage && <p className="w-full text-sm text-gray-300">{recomputeMessage}</p>}
+      </div>
     </div>
   );
 }
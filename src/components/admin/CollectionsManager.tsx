@@ -0,0 +1,503 @@
+/**
+ * @file CollectionsManager.tsx
+ * @description Admin UI for the curated collections (`collections` collection) shown at `/collections/{slug}` and in the
+ * sidebars. Admins set a collection's title, slug, description, hero image and icon, and choose its books either with a
+ * tag rule or as a hand-ordered list. Collections can be reordered, and the former genre pages can be added in one step.
+ * @integration Rendered on `/admin/collections` and in the "Collections" tab of `AdminDashboard`. Changes are pushed to
+ * the sidebars through `refreshCollections`.
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { BookSummary, getBookSummaries } from '@/firebase/services';
+import {
+  BookCollection,
+  BookCollectionInput,
+  COLLECTION_ICON_NAMES,
+  COLLECTION_IMAGE_STORAGE_PREFIX,
+  CollectionIconName,
+  createCollection,
+  createDefaultCollections,
+  deleteCollection,
+  getCollections,
+  reorderCollections,
+  slugifyCollectionTitle,
+  updateCollection
+} from '@/firebase/collectionService';
+import CollectionIcon from '@/components/collections/CollectionIcon';
+import { refreshCollections } from '@/components/collections/useCollections';
+
+const EMPTY_FORM: BookCollectionInput = {
+  title: '',
+  slug: '',
+  shortTitle: '',
+  description: '',
+  heroImageUrl: '',
+  icon: 'book',
+  ruleType: 'tag',
+  tag: '',
+  bookIds: []
+};
+
+export default function CollectionsManager() {
+  const [collections, setCollections] = useState<BookCollection[]>([]);
+  const [books, setBooks] = useState<BookSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCollection, setEditingCollection] = useState<BookCollection | null>(null);
+  const [form, setForm] = useState<BookCollectionInput>(EMPTY_FORM);
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [bookFilter, setBookFilter] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const loadCollections = async () => {
+    try {
+      setLoading(true);
+      setCollections(await getCollections());
+    } catch (err) {
+      console.error('Error loading collections:', err);
+      setError('Failed to load collections');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCollections();
+    getBookSummaries()
+      .then(setBooks)
+      .catch(err => console.error('Error loading books for collections:', err));
+  }, []);
+
+  // Reloads the list here and in the sidebars
+  const reload = async () => {
+    await loadCollections();
+    await refreshCollections();
+  };
+
+  const bookTags = Array.from(new Set(books.flatMap(book => book.tags || []))).sort();
+  const booksById = new Map(books.map(book => [book.id, book]));
+
+  const openForm = (bookCollection: BookCollection | null) => {
+    setEditingCollection(bookCollection);
+    setForm(bookCollection ? {
+      title: bookCollection.title,
+      slug: bookCollection.slug,
+      shortTitle: bookCollection.shortTitle || '',
+      description: bookCollection.description,
+      heroImageUrl: bookCollection.heroImageUrl || '',
+      icon: bookCollection.icon,
+      ruleType: bookCollection.ruleType,
+      tag: bookCollection.tag || '',
+      bookIds: bookCollection.bookIds
+    } : EMPTY_FORM);
+    setSlugEdited(!!bookCollection);
+    setBookFilter('');
+    setError(null);
+    setMessage(null);
+    setShowForm(true);
+  };
+
+  const handleTitleChange = (title: string) => {
+    setForm(prev => ({ ...prev, title, slug: slugEdited ? prev.slug : slugifyCollectionTitle(title) }));
+  };
+
+  const handleHeroImageUpload = async (file: File | null) => {
+    if (!file) return;
+    try {
+      setUploading(true);
+      const { uploadFileToR2 } = await import('@/r2/services');
+      const safeName = file.name.replace(/[^A-Za-z0-9._-]/g, '_');
+      const url = await uploadFileToR2(file, `${COLLECTION_IMAGE_STORAGE_PREFIX}/${Date.now()}_${safeName}`);
+      setForm(prev => ({ ...prev, heroImageUrl: url }));
+    } catch (err) {
+      console.error('Error uploading hero image:', err);
+      setError(`Failed to upload image: ${(err as Error).message}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const moveBook = (index: number, offset: number) => {
+    setForm(prev => {
+      const bookIds = [...prev.bookIds];
+      const target = index + offset;
+      if (target < 0 || target >= bookIds.length) return prev;
+      [bookIds[index], bookIds[target]] = [bookIds[target], bookIds[index]];
+      return { ...prev, bookIds };
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.ruleType === 'manual' && form.bookIds.length === 0) {
+      setError('Add at least one book to the list');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingCollection?.id) {
+        await updateCollection(editingCollection.id, form);
+        setMessage(`Updated "${form.title}"`);
+      } else {
+        await createCollection(form);
+        setMessage(`Added "${form.title}"`);
+      }
+      setShowForm(false);
+      await reload();
+    } catch (err) {
+      console.error('Error saving collection:', err);
+      setError(`Failed to save collection: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (bookCollection: BookCollection) => {
+    if (!bookCollection.id) return;
+    if (!window.confirm(`Delete the collection "${bookCollection.title}"? Its books are not affected.`)) return;
+
+    try {
+      await deleteCollection(bookCollection.id);
+      setMessage(`Deleted "${bookCollection.title}"`);
+      await reload();
+    } catch (err) {
+      console.error('Error deleting collection:', err);
+      setError(`Failed to delete collection: ${(err as Error).message}`);
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= collections.length) return;
+
+    const reordered = [...collections];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setCollections(reordered);
+    try {
+      await reorderCollections(reordered.map(bookCollection => bookCollection.id!));
+      await refreshCollections();
+    } catch (err) {
+      console.error('Error reordering collections:', err);
+      setError(`Failed to reorder collections: ${(err as Error).message}`);
+      await loadCollections();
+    }
+  };
+
+  const handleAddDefaults = async () => {
+    try {
+      setError(null);
+      setMessage(null);
+      const created = await createDefaultCollections();
+      setMessage(created.length > 0
+        ? `Added ${created.map(bookCollection => bookCollection.title).join(', ')}`
+        : 'The default collections already exist');
+      await reload();
+    } catch (err) {
+      console.error('Error adding default collections:', err);
+      setError(`Failed to add default collections: ${(err as Error).message}`);
+    }
+  };
+
+  const availableBooks = books.filter(book =>
+    book.id && !form.bookIds.includes(book.id) &&
+    (!bookFilter || `${book.title} ${book.author}`.toLowerCase().includes(bookFilter.toLowerCase()))
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <h2 className="text-2xl font-bold text-white">Collections</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleAddDefaults}
+            disabled={loading}
+            className="px-4 py-2 bg-black text-[#FF0000] border border-[#FF0000] rounded hover:bg-[#1F1F1F] transition-colors disabled:opacity-50"
+          >
+            Add Default Genres
+          </button>
+          <button
+            onClick={() => openForm(null)}
+            className="px-4 py-2 bg-[#FF0000] text-white rounded hover:bg-[#CC0000] transition-colors"
+          >
+            New Collection
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 border border-red-700 text-white rounded">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 bg-green-900 border border-green-700 text-white rounded">{message}</div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mb-6 p-4 bg-black border border-[#333333] rounded-lg space-y-4">
+          <h3 className="text-lg font-semibold text-white">
+            {editingCollection ? `Edit "${editingCollection.title}"` : 'New Collection'}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm text-gray-300">
+              Title
+              <input
+                type="text"
+                value={form.title}
+                onChange={(e) => handleTitleChange(e.target.value)}
+                className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                required
+              />
+            </label>
+            <label className="block text-sm text-gray-300">
+              Slug
+              <div className="mt-1 flex items-center">
+                <span className="px-2 text-gray-500">/collections/</span>
+                <input
+                  type="text"
+                  value={form.slug}
+                  onChange={(e) => {
+                    setSlugEdited(true);
+                    setForm(prev => ({ ...prev, slug: e.target.value }));
+                  }}
+                  className="w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                  required
+                />
+              </div>
+            </label>
+            <label className="block text-sm text-gray-300">
+              Sidebar label
+              <input
+                type="text"
+                value={form.shortTitle || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, shortTitle: e.target.value }))}
+                placeholder="Defaults to the title"
+                className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+              />
+            </label>
+            <div className="block text-sm text-gray-300">
+              Icon
+              <div className="mt-1 flex flex-wrap gap-2">
+                {COLLECTION_ICON_NAMES.map((icon: CollectionIconName) => (
+                  <button
+                    key={icon}
+                    type="button"
+                    onClick={() => setForm(prev => ({ ...prev, icon }))}
+                    className={`p-2 rounded border transition-colors ${
+                      form.icon === icon ? 'bg-[#FF0000] border-[#FF0000] text-white' : 'bg-black border-[#333333] text-white hover:border-[#FF0000]'
+                    }`}
+                    aria-label={icon}
+                    title={icon}
+                  >
+                    <CollectionIcon name={icon} className="h-4 w-4" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <label className="block text-sm text-gray-300">
+            Description
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              rows={3}
+              className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+            />
+          </label>
+
+          <div className="block text-sm text-gray-300">
+            Hero image
+            <div className="mt-1 flex flex-wrap items-center gap-3">
+              <input
+                type="url"
+                value={form.heroImageUrl || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, heroImageUrl: e.target.value }))}
+                placeholder="https://..."
+                className="flex-1 min-w-[16rem] px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+              />
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => handleHeroImageUpload(e.target.files?.[0] || null)}
+                disabled={uploading}
+                className="text-sm text-white"
+              />
+              {uploading && <span className="text-gray-400">Uploading...</span>}
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm text-gray-300 mb-2">Books</span>
+            <div className="flex gap-4 mb-3">
+              <label className="flex items-center text-sm text-white">
+                <input
+                  type="radio"
+                  checked={form.ruleType === 'tag'}
+                  onChange={() => setForm(prev => ({ ...prev, ruleType: 'tag' }))}
+                  className="mr-2"
+                />
+                Every book with a tag
+              </label>
+              <label className="flex items-center text-sm text-white">
+                <input
+                  type="radio"
+                  checked={form.ruleType === 'manual'}
+                  onChange={() => setForm(prev => ({ ...prev, ruleType: 'manual' }))}
+                  className="mr-2"
+                />
+                A list I order by hand
+              </label>
+            </div>
+
+            {form.ruleType === 'tag' ? (
+              <>
+                <input
+                  type="text"
+                  list="collection-tags"
+                  value={form.tag || ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, tag: e.target.value }))}
+                  placeholder="Tag, e.g. Romance"
+                  className="w-full md:w-1/2 px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                  required
+                />
+                <datalist id="collection-tags">
+                  {bookTags.map(tag => <option key={tag} value={tag} />)}
+                </datalist>
+              </>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <input
+                    type="text"
+                    value={bookFilter}
+                    onChange={(e) => setBookFilter(e.target.value)}
+                    placeholder="Find books to add..."
+                    className="w-full mb-2 px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                  />
+                  <ul className="max-h-64 overflow-y-auto border border-[#333333] rounded divide-y divide-gray-800">
+                    {availableBooks.map(book => (
+                      <li key={book.id} className="flex items-center justify-between px-3 py-2 text-sm text-white">
+                        <span className="truncate">{book.title} <span className="text-gray-400">by {book.author}</span></span>
+                        <button
+                          type="button"
+                          onClick={() => setForm(prev => ({ ...prev, bookIds: [...prev.bookIds, book.id!] }))}
+                          className="ml-2 text-[#FF0000] hover:text-white"
+                        >
+                          Add
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <ol className="max-h-72 overflow-y-auto border border-[#333333] rounded divide-y divide-gray-800">
+                  {form.bookIds.length === 0 && (
+                    <li className="px-3 py-2 text-sm text-gray-400">No books in the list yet</li>
+                  )}
+                  {form.bookIds.map((bookId, index) => (
+                    <li key={bookId} className="flex items-center gap-2 px-3 py-2 text-sm text-white">
+                      <span className="text-gray-500 w-6">{index + 1}.</span>
+                      <span className="flex-1 truncate">{booksById.get(bookId)?.title || 'Deleted book'}</span>
+                      <button type="button" onClick={() => moveBook(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move up">↑</button>
+                      <button type="button" onClick={() => moveBook(index, 1)} disabled={index === form.bookIds.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move down">↓</button>
+                      <button
+                        type="button"
+                        onClick={() => setForm(prev => ({ ...prev, bookIds: prev.bookIds.filter(id => id !== bookId) }))}
+                        className="text-[#FF0000] hover:text-white"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-[#333333] text-white rounded hover:bg-[#444444] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || uploading}
+              className="px-4 py-2 bg-[#FF0000] text-white rounded hover:bg-[#CC0000] transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingCollection ? 'Save Changes' : 'Create'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-[#FF0000]"></div>
+        </div>
+      ) : collections.length === 0 ? (
+        <div className="p-6 border border-dashed border-[#333333] rounded-lg text-center text-gray-400">
+          No collections yet. Create one or add the default genres.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-[#1F1F1F] rounded-lg overflow-hidden border border-[#333333]">
+            <thead className="bg-black">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Order</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Collection</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Books</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {collections.map((bookCollection, index) => (
+                <tr key={bookCollection.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-white">
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => handleMove(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move up">↑</button>
+                      <button onClick={() => handleMove(index, 1)} disabled={index === collections.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move down">↓</button>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-2 font-medium text-white">
+                      <CollectionIcon name={bookCollection.icon} className="h-4 w-4 text-gray-400" />
+                      {bookCollection.title}
+                    </div>
+                    <div className="text-xs text-gray-400">/collections/{bookCollection.slug}</div>
+                  </td>
+                  <td className="px-6 py-4 text-white">
+                    {bookCollection.ruleType === 'tag'
+                      ? <span>Tagged <span className="px-2 py-1 bg-black text-[#FF0000] border border-[#FF0000] rounded-full text-xs">{bookCollection.tag}</span></span>
+                      : `${bookCollection.bookIds.length} curated`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="flex space-x-3">
+                      <Link href={`/collections/${bookCollection.slug}`} className="text-[#FF0000] hover:text-white">
+                        View
+                      </Link>
+                      <button onClick={() => openForm(bookCollection)} className="text-[#FF0000] hover:text-white">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(bookCollection)} className="text-[#FF0000] hover:text-white">
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
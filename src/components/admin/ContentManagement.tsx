@@ -4,31 +4,61 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { db } from '@/firebase/config';
 import { collection, getDocs, deleteDoc, doc, query, orderBy } from 'firebase/firestore';
-import { BookDocument, PdfDocument, deleteBook, deletePdf } from '@/firebase/services';
+import { BookDocument, BookPageCursor, BookSort, BookSummary, PdfDocument, PublishStatus, deleteBook, deletePdf, getBookPage, getBookTotals, updateBookStatus } from '@/firebase/services';
 import { Tab } from '@headlessui/react';
 import AdminBookForm from './AdminBookForm';
 import Link from 'next/link';
+import PublishStatusBadge from '@/components/book/PublishStatusBadge';
+import PublishControls from '@/components/book/PublishControls';
+import BookImport from '@/components/book/BookImport';
+
+const BOOKS_PAGE_SIZE = 25;
+
+const SORT_LABELS: Record<BookSort, string> = {
+  newest: 'Newest',
+  mostLiked: 'Most liked',
+  mostSaved: 'Most saved',
+  recentlyUpdated: 'Recently updated'
+};
 
 export default function ContentManagement() {
   const router = useRouter();
-  const [books, setBooks] = useState<BookDocument[]>([]);
+  const [books, setBooks] = useState<BookSummary[]>([]);
+  const [bookTotal, setBookTotal] = useState(0);
+  const [sort, setSort] = useState<BookSort>('newest');
+  // Cursor each visited page starts after (null for the first page)
+  const [pageCursors, setPageCursors] = useState<(BookPageCursor | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<BookPageCursor | null>(null);
+  const [booksLoading, setBooksLoading] = useState(false);
   const [pdfs, setPdfs] = useState<PdfDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [editingBook, setEditingBook] = useState<BookDocument | null>(null);
   const [showBookForm, setShowBookForm] = useState(false);
+  const [convertingPdf, setConvertingPdf] = useState<PdfDocument | null>(null);
+
+  // Load the page of books starting after a cursor, sorted and paged by Firestore
+  const fetchBookPage = async (cursors: (BookPageCursor | null)[], bookSort: BookSort) => {
+    try {
+      setBooksLoading(true);
+      const [page, totals] = await Promise.all([
+        getBookPage({ sort: bookSort, pageSize: BOOKS_PAGE_SIZE, cursor: cursors[cursors.length - 1], includeUnpublished: true }),
+        getBookTotals()
+      ]);
+      setBooks(page.books);
+      setNextCursor(page.nextCursor);
+      setPageCursors(cursors);
+      setBookTotal(totals.books);
+    } catch (error) {
+      console.error('Error fetching books:', error);
+    } finally {
+      setBooksLoading(false);
+    }
+  };
 
   useEffect(() => {
     async function fetchContent() {
       try {
-        // Fetch books
-        const booksQuery = query(collection(db, 'books'), orderBy('createdAt', 'desc'));
-        const booksSnapshot = await getDocs(booksQuery);
-        const booksList = booksSnapshot.docs.map(doc => ({ 
-          ...doc.data(), 
-          id: doc.id 
-        } as BookDocument));
-        
         // Fetch PDFs
         const pdfsQuery = query(collection(db, 'pdfs'), orderBy('createdAt', 'desc'));
         const pdfsSnapshot = await getDocs(pdfsQuery);
@@ -37,7 +67,7 @@ export default function ContentManagement() {
           id: doc.id 
         } as PdfDocument));
         
-        setBooks(booksList);
+        await fetchBookPage([null], 'newest');
         setPdfs(pdfsList);
         setLoading(false);
       } catch (error) {
@@ -49,44 +79,88 @@ export default function ContentManagement() {
     fetchContent();
   }, []);
 
-  const handleDeleteBook = async (book: BookDocument) => {
+  const handleSortChange = (bookSort: BookSort) => {
+    setSort(bookSort);
+    fetchBookPage([null], bookSort);
+  };
+
+  const handleNextPage = () => {
+    if (nextCursor) fetchBookPage([...pageCursors, nextCursor], sort);
+  };
+
+  const handlePreviousPage = () => {
+    if (pageCursors.length > 1) fetchBookPage(pageCursors.slice(0, -1), sort);
+  };
+
+  const handleDeleteBook = async (book: BookSummary) => {
     if (window.confirm(`Are you sure you want to delete the book "${book.title}"?`)) {
       try {
         await deleteBook(book);
-        setBooks(prevBooks => prevBooks.filter(b => b.id !== book.id));
+        // Reload the page so it fills up with the books after it
+        fetchBookPage(pageCursors, sort);
       } catch (error) {
         console.error('Error deleting book:', error);
       }
     }
   };
+
+  // Publish, schedule or unpublish a book; PublishControls reports failures
+  const handleStatusChange = async (book: BookSummary, status: PublishStatus, publishAt?: number) => {
+    await updateBookStatus(book.id!, status, publishAt);
+    setBooks(prevBooks => prevBooks.map(b => (b.id === book.id ? { ...b, status, publishAt } : b)));
+  };
+
+  // Set the like, save, last-updated and status fields that books written before paged lists and publishing lack
+  const handleBackfillFields = async () => {
+    try {
+      const { backfillBookFields } = await import('@/scripts/backfill-book-fields');
+      const result = await backfillBookFields();
+      window.alert(`Updated ${result.updated} of ${result.total} books.`);
+      fetchBookPage([null], sort);
+    } catch (error) {
+      console.error('Error backfilling book fields:', error);
+      window.alert(`Failed to backfill book fields: ${(error as Error).message}`);
+    }
+  };
+  
+  // Move the chapters of books saved before the chapters subcollection out of their book documents
+  const handleMigrateChapters = async () => {
+    try {
+      const { migrateAllChapters } = await import('@/scripts/migrate-chapters-to-subcollection');
+      const result = await migrateAllChapters();
+      window.alert(`Migrated ${result.migrated} of ${result.total} books.`);
+      fetchBookPage([null], sort);
+    } catch (error) {
+      console.error('Error migrating chapters:', error);
+      window.alert(`Failed to migrate chapters: ${(error as Error).message}`);
+    }
+  };
   
-  const handleEditBook = (book: BookDocument) => {
+  const handleEditBook = (book: BookSummary) => {
     // Navigate to the dedicated edit page for this book
     router.push(`/admin/edit/${book.id}`);
   };
   
   const handleBookFormSuccess = () => {
-    // Refresh the books list
-    async function fetchBooks() {
-      try {
-        const booksQuery = query(collection(db, 'books'), orderBy('createdAt', 'desc'));
-        const booksSnapshot = await getDocs(booksQuery);
-        const booksList = booksSnapshot.docs.map(doc => ({ 
-          ...doc.data(), 
-          id: doc.id 
-        } as BookDocument));
-        
-        setBooks(booksList);
-      } catch (error) {
-        console.error('Error fetching books:', error);
-      }
-    }
-    
-    fetchBooks();
+    // Refresh the books list from the first page
+    fetchBookPage([null], sort);
     setShowBookForm(false);
     setEditingBook(null);
   };
 
+  const handleConvertPdf = (pdf: PdfDocument) => {
+    if (pdf.bookId && !window.confirm(`"${pdf.name || pdf.title}" was already converted. Convert it to another book?`)) {
+      return;
+    }
+    setConvertingPdf(pdf);
+  };
+
+  const handlePdfConverted = (book: BookDocument) => {
+    setPdfs(prevPdfs => prevPdfs.map(p => (p.id === convertingPdf?.id ? { ...p, bookId: book.id } : p)));
+    setConvertingPdf(null);
+    fetchBookPage([null], sort);
+  };
+
   const handleDeletePdf = async (pdf: PdfDocument) => {
     if (window.confirm(`Are you sure you want to delete the PDF "${pdf.name || pdf.title}"?`)) {
       try {
@@ -130,6 +204,16 @@ export default function ContentManagement() {
             existingBook={editingBook || undefined}
           />
         </div>
+      ) : convertingPdf ? (
+        <div>
+          <button 
+            onClick={() => setConvertingPdf(null)}
+            className="mb-4 px-3 py-1 bg-black text-white border border-[#FF0000] rounded-md hover:bg-[#1F1F1F] transition-colors"
+          >
+            ← Back to Content Management
+          </button>
+          <BookImport pdf={convertingPdf} onSuccess={handlePdfConverted} />
+        </div>
       ) : (
         <>
           <div className="flex justify-between items-center mb-4">
@@ -150,6 +234,18 @@ export default function ContentManagement() {
               >
                 Fix Audio URLs
               </Link>
+              <button
+                onClick={handleBackfillFields}
+                className="px-4 py-2 bg-black text-[#FF0000] border border-[#FF0000] rounded hover:bg-[#1F1F1F] transition-colors"
+              >
+                Backfill Book Fields
+              </button>
+              <button
+                onClick={handleMigrateChapters}
+                className="px-4 py-2 bg-black text-[#FF0000] border border-[#FF0000] rounded hover:bg-[#1F1F1F] transition-colors"
+              >
+                Migrate Chapters
+              </button>
               <Link
                 href="/admin/test-audio"
                 className="px-4 py-2 bg-black text-[#FF0000] border border-[#FF0000] rounded hover:bg-[#1F1F1F] transition-colors"
@@ -159,7 +255,7 @@ export default function ContentManagement() {
               <div className="relative">
                 <input
                   type="text"
-                  placeholder="Search content..."
+                                    placeholder="Search this page..."
                   className="px-4 py-2 border border-[#333333] rounded-lg bg-[#1F1F1F] text-white focus:outline-none focus:ring-2 focus:ring-[#FF0000]"
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
@@ -179,7 +275,7 @@ export default function ContentManagement() {
                   }`
                 }
               >
-                Books ({books.length})
+                Books ({bookTotal})
               </Tab>
               <Tab
                 className={({ selected }) =>
@@ -195,12 +291,25 @@ export default function ContentManagement() {
             </Tab.List>
             <Tab.Panels>
               <Tab.Panel>
-                <div className="overflow-x-auto">
+                <div className="flex justify-end mb-3">
+                  <select
+                    value={sort}
+                    onChange={(e) => handleSortChange(e.target.value as BookSort)}
+                    className="px-3 py-2 bg-black border border-[#333333] rounded text-white text-sm"
+                    aria-label="Sort books"
+                  >
+                    {(Object.keys(SORT_LABELS) as BookSort[]).map(option => (
+                      <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className={`overflow-x-auto ${booksLoading ? 'opacity-50' : ''}`}>
                   <table className="min-w-full bg-[#1F1F1F] rounded-lg overflow-hidden border border-[#333333]">
                     <thead className="bg-black">
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Book</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Author</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Status</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Episodes</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Created</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Actions</th>
@@ -224,9 +333,13 @@ export default function ContentManagement() {
                           <td className="px-6 py-4 whitespace-nowrap text-white">
                             {book.author}
                           </td>
+                          <td className="px-6 py-4">
+                            <PublishStatusBadge item={book} className="mb-2" />
+                            <PublishControls item={book} canPublish={true} onChange={(status, publishAt) => handleStatusChange(book, status, publishAt)} />
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span className="px-2 py-1 bg-black text-[#FF0000] border border-[#FF0000] rounded-full text-xs">
-                              {book.chapters?.length || 0} episodes
+                              {book.chapterCount} episodes
                             </span>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-white">
@@ -257,6 +370,23 @@ export default function ContentManagement() {
                     </tbody>
                   </table>
                 </div>
+                <div className="flex justify-between items-center mt-4">
+                  <button
+                    onClick={handlePreviousPage}
+                    disabled={pageCursors.length === 1 || booksLoading}
+                    className="px-4 py-2 bg-black text-white border border-[#333333] rounded hover:border-[#FF0000] transition-colors disabled:opacity-40"
+                  >
+                    ← Previous
+                  </button>
+                  <span className="text-sm text-gray-400">Page {pageCursors.length}</span>
+                  <button
+                    onClick={handleNextPage}
+                    disabled={!nextCursor || booksLoading}
+                    className="px-4 py-2 bg-black text-white border border-[#333333] rounded hover:border-[#FF0000] transition-colors disabled:opacity-40"
+                  >
+                    Next →
+                  </button>
+                </div>
               </Tab.Panel>
               <Tab.Panel>
                 <div className="overflow-x-auto">
@@ -282,7 +412,21 @@ export default function ContentManagement() {
                           <td className="px-6 py-4 whitespace-nowrap text-white">
                             {new Date(pdf.createdAt).toLocaleDateString()}
                           </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm flex space-x-3">
+                            {pdf.bookId && (
+                              <Link
+                                href={`/admin/manage-episodes/${pdf.bookId}`}
+                                className="text-[#FF0000] hover:text-white"
+                              >
+                                Episodes
+                              </Link>
+                            )}
+                            <button
+                              onClick={() => handleConvertPdf(pdf)}
+                              className="text-[#FF0000] hover:text-white"
+                            >
+                              {pdf.bookId ? 'Convert Again' : 'Convert to Book'}
+                            </button>
                             <button
                               onClick={() => handleDeletePdf(pdf)}
                               className="text-[#FF0000] hover:text-white"
@@ -0,0 +1,493 @@
+/**
+ * @file MusicLibraryManager.tsx
+ * @description Admin UI for the background music catalog (`musicTracks` collection). Admins upload tracks, tag them
+ * with categories, BPM, intensity range, loopability and license details, preview them, and retire tracks that should
+ * no longer be used. Files of the legacy `POCBackgroundMusic/` R2 library can be imported in one step.
+ * @integration Rendered on `/admin/music` and in the "Music Library" tab of `AdminDashboard`. Narration picks music
+ * from the active tracks through `backgroundMusicService.ts` (browser) and `fetchBackgroundMusic` (server).
+ */
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  MusicTrack,
+  MusicCategory,
+  MusicTrackInput,
+  MUSIC_CATEGORIES,
+  getMusicTracks,
+  createMusicTrack,
+  addMusicTrack,
+  updateMusicTrack,
+  setMusicTrackStatus
+} from '@/firebase/musicTrackService';
+import { getLegacyMusicTrackCandidates } from '@/firebase/backgroundMusicService';
+
+// Licenses offered in the license field (free text is allowed too)
+const COMMON_LICENSES = ['CC0', 'CC BY 4.0', 'CC BY-SA 4.0', 'Royalty-free', 'Purchased license', 'Original work'];
+
+const EMPTY_FORM: MusicTrackInput = {
+  title: '',
+  categories: [],
+  intensityMin: 1,
+  intensityMax: 10,
+  loopable: false,
+  license: '',
+  attribution: '',
+  duration: 0
+};
+
+/**
+ * Reads the duration of an audio file or URL in the browser
+ * @param src Object URL or URL of the audio
+ * @returns Promise resolving to the duration in seconds (0 when it cannot be read)
+ */
+const measureAudioDuration = (src: string): Promise<number> =>
+  new Promise(resolve => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => resolve(isFinite(audio.duration) ? Math.round(audio.duration * 10) / 10 : 0);
+    audio.onerror = () => resolve(0);
+    audio.src = src;
+  });
+
+/**
+ * Formats a duration in seconds as m:ss
+ */
+const formatDuration = (seconds: number): string => {
+  if (!seconds) return '—';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export default function MusicLibraryManager() {
+  const [tracks, setTracks] = useState<MusicTrack[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<MusicCategory | 'all'>('all');
+  const [showRetired, setShowRetired] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingTrack, setEditingTrack] = useState<MusicTrack | null>(null);
+  const [form, setForm] = useState<MusicTrackInput>(EMPTY_FORM);
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [previewTrackId, setPreviewTrackId] = useState<string | null>(null);
+  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  const loadTracks = async () => {
+    try {
+      setLoading(true);
+      setTracks(await getMusicTracks(true));
+    } catch (err) {
+      console.error('Error loading music tracks:', err);
+      setError('Failed to load the music library');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTracks();
+    const previewAudio = previewAudioRef.current;
+    return () => {
+      previewAudio?.pause();
+    };
+  }, []);
+
+  const filteredTracks = tracks.filter(track =>
+    (showRetired || track.status === 'active') &&
+    (categoryFilter === 'all' || track.categories.includes(categoryFilter))
+  );
+
+  const openForm = (track: MusicTrack | null) => {
+    setEditingTrack(track);
+    setForm(track ? {
+      title: track.title,
+      categories: track.categories,
+      bpm: track.bpm,
+      intensityMin: track.intensityMin,
+      intensityMax: track.intensityMax,
+      loopable: track.loopable,
+      license: track.license,
+      attribution: track.attribution || '',
+      duration: track.duration
+    } : EMPTY_FORM);
+    setFile(null);
+    setError(null);
+    setMessage(null);
+    setShowForm(true);
+  };
+
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    if (!selected) return;
+
+    // Default the title to the file name and read the duration from the file
+    const objectUrl = URL.createObjectURL(selected);
+    const duration = await measureAudioDuration(objectUrl);
+    URL.revokeObjectURL(objectUrl);
+    setForm(prev => ({
+      ...prev,
+      title: prev.title || selected.name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' '),
+      duration
+    }));
+  };
+
+  const toggleCategory = (category: MusicCategory) => {
+    setForm(prev => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter(c => c !== category)
+        : [...prev.categories, category]
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTrack && !file) {
+      setError('Choose an audio file to upload');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingTrack?.id) {
+        await updateMusicTrack(editingTrack.id, form);
+        setMessage(`Updated "${form.title}"`);
+      } else if (file) {
+        await createMusicTrack(file, form);
+        setMessage(`Added "${form.title}" to the library`);
+      }
+      setShowForm(false);
+      await loadTracks();
+    } catch (err) {
+      console.error('Error saving music track:', err);
+      setError(`Failed to save track: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleRetired = async (track: MusicTrack) => {
+    if (!track.id) return;
+    const retire = track.status === 'active';
+    if (retire && !window.confirm(`Retire "${track.title}"? It will no longer be used for new narrations.`)) return;
+
+    try {
+      await setMusicTrackStatus(track.id, retire ? 'retired' : 'active');
+      setMessage(retire ? `Retired "${track.title}"` : `Restored "${track.title}"`);
+      await loadTracks();
+    } catch (err) {
+      console.error('Error changing track status:', err);
+      setError(`Failed to update track: ${(err as Error).message}`);
+    }
+  };
+
+  const handlePreview = (track: MusicTrack) => {
+    const audio = previewAudioRef.current;
+    if (!audio) return;
+
+    if (previewTrackId === track.id) {
+      audio.pause();
+      setPreviewTrackId(null);
+      return;
+    }
+
+    audio.src = track.url;
+    audio.loop = track.loopable;
+    audio.play().catch(err => {
+      console.error('Error playing preview:', err);
+      setError('Could not play this track');
+    });
+    setPreviewTrackId(track.id || null);
+  };
+
+  const handleImportLegacy = async () => {
+    try {
+      setImporting(true);
+      setError(null);
+      setMessage(null);
+
+      const candidates = await getLegacyMusicTrackCandidates(tracks.map(track => track.storagePath));
+      for (const candidate of candidates) {
+        await addMusicTrack({ ...candidate, duration: await measureAudioDuration(candidate.url) });
+      }
+
+      setMessage(candidates.length > 0
+        ? `Imported ${candidates.length} legacy track${candidates.length === 1 ? '' : 's'}. Review their tags and licenses.`
+        : 'All legacy tracks are already in the library');
+      await loadTracks();
+    } catch (err) {
+      console.error('Error importing legacy music:', err);
+      setError(`Failed to import legacy music: ${(err as Error).message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <audio ref={previewAudioRef} onEnded={() => setPreviewTrackId(null)} className="hidden" />
+
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <h2 className="text-2xl font-bold text-white">Music Library</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value as MusicCategory | 'all')}
+            className="px-4 py-2 border border-[#333333] rounded-lg bg-[#1F1F1F] text-white"
+          >
+            <option value="all">All categories</option>
+            {MUSIC_CATEGORIES.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <label className="flex items-center text-sm text-white">
+            <input
+              type="checkbox"
+              checked={showRetired}
+              onChange={(e) => setShowRetired(e.target.checked)}
+              className="mr-2"
+            />
+            Show retired
+          </label>
+          <button
+            onClick={handleImportLegacy}
+            disabled={importing || loading}
+            className="px-4 py-2 bg-black text-[#FF0000] border border-[#FF0000] rounded hover:bg-[#1F1F1F] transition-colors disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : 'Import Legacy Library'}
+          </button>
+          <button
+            onClick={() => openForm(null)}
+            className="px-4 py-2 bg-[#FF0000] text-white rounded hover:bg-[#CC0000] transition-colors"
+          >
+            Upload Track
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 border border-red-700 text-white rounded">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 bg-green-900 border border-green-700 text-white rounded">{message}</div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mb-6 p-4 bg-black border border-[#333333] rounded-lg space-y-4">
+          <h3 className="text-lg font-semibold text-white">
+            {editingTrack ? `Edit "${editingTrack.title}"` : 'Upload Track'}
+          </h3>
+
+          {!editingTrack && (
+            <input
+              type="file"
+              accept="audio/*"
+              onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+              className="block w-full text-sm text-white"
+            />
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm text-gray-300">
+              Title
+              <input
+                type="text"
+                value={form.title}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                required
+              />
+            </label>
+            <label className="block text-sm text-gray-300">
+              BPM
+              <input
+                type="number"
+                min={20}
+                max={300}
+                value={form.bpm ?? ''}
+                onChange={(e) => setForm(prev => ({ ...prev, bpm: e.target.value ? Number(e.target.value) : undefined }))}
+                className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+              />
+            </label>
+            <label className="block text-sm text-gray-300">
+              Intensity range (1-10)
+              <div className="mt-1 flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={form.intensityMin}
+                  onChange={(e) => setForm(prev => ({ ...prev, intensityMin: Number(e.target.value) }))}
+                  className="w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                />
+                <span className="text-gray-400">to</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={form.intensityMax}
+                  onChange={(e) => setForm(prev => ({ ...prev, intensityMax: Number(e.target.value) }))}
+                  className="w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                />
+              </div>
+            </label>
+            <label className="block text-sm text-gray-300">
+              Duration (seconds)
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={form.duration}
+                onChange={(e) => setForm(prev => ({ ...prev, duration: Number(e.target.value) }))}
+                className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+              />
+            </label>
+            <label className="block text-sm text-gray-300">
+              License
+              <input
+                type="text"
+                list="music-licenses"
+                value={form.license}
+                onChange={(e) => setForm(prev => ({ ...prev, license: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+                required
+              />
+              <datalist id="music-licenses">
+                {COMMON_LICENSES.map(license => <option key={license} value={license} />)}
+              </datalist>
+            </label>
+            <label className="block text-sm text-gray-300">
+              Attribution
+              <input
+                type="text"
+                value={form.attribution || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, attribution: e.target.value }))}
+                placeholder='e.g. "Night Walk" by Jane Doe (CC BY 4.0)'
+                className="mt-1 w-full px-3 py-2 bg-[#1F1F1F] border border-[#333333] rounded text-white"
+              />
+            </label>
+          </div>
+
+          <div>
+            <span className="block text-sm text-gray-300 mb-2">Categories</span>
+            <div className="flex flex-wrap gap-2">
+              {MUSIC_CATEGORIES.map(category => (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => toggleCategory(category)}
+                  className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                    form.categories.includes(category)
+                      ? 'bg-[#FF0000] border-[#FF0000] text-white'
+                      : 'bg-black border-[#333333] text-white hover:border-[#FF0000]'
+                  }`}
+                >
+                  {category}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-white">
+            <input
+              type="checkbox"
+              checked={form.loopable}
+              onChange={(e) => setForm(prev => ({ ...prev, loopable: e.target.checked }))}
+              className="mr-2"
+            />
+            Loops seamlessly
+          </label>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-[#333333] text-white rounded hover:bg-[#444444] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-[#FF0000] text-white rounded hover:bg-[#CC0000] transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingTrack ? 'Save Changes' : 'Upload'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-[#FF0000]"></div>
+        </div>
+      ) : filteredTracks.length === 0 ? (
+        <div className="p-6 border border-dashed border-[#333333] rounded-lg text-center text-gray-400">
+          No tracks found. Upload a track or import the legacy library.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-[#1F1F1F] rounded-lg overflow-hidden border border-[#333333]">
+            <thead className="bg-black">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Track</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Categories</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Intensity</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">BPM</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Length</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">License</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {filteredTracks.map(track => (
+                <tr key={track.id} className={track.status === 'retired' ? 'opacity-50' : ''}>
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-white">{track.title}</div>
+                    <div className="text-xs text-gray-400">
+                      {track.loopable ? 'Loopable' : 'Not loopable'}
+                      {track.status === 'retired' && ' · Retired'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {track.categories.map(category => (
+                        <span key={category} className="px-2 py-1 bg-black text-[#FF0000] border border-[#FF0000] rounded-full text-xs">
+                          {category}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-white">{track.intensityMin}–{track.intensityMax}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-white">{track.bpm || '—'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-white">{formatDuration(track.duration)}</td>
+                  <td className="px-6 py-4 text-white">
+                    <div>{track.license}</div>
+                    {track.attribution && <div className="text-xs text-gray-400">{track.attribution}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="flex space-x-3">
+                      <button onClick={() => handlePreview(track)} className="text-[#FF0000] hover:text-white">
+                        {previewTrackId === track.id ? 'Stop' : 'Preview'}
+                      </button>
+                      <button onClick={() => openForm(track)} className="text-[#FF0000] hover:text-white">
+                        Edit
+                      </button>
+                      <button onClick={() => handleToggleRetired(track)} className="text-[#FF0000] hover:text-white">
+                        {track.status === 'active' ? 'Retire' : 'Restore'}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
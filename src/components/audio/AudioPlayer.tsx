@@ -3,6 +3,12 @@
 import { useState, useRef, useEffect } from 'react';
 import { debugAudioUrl } from '@/utils/audioDebugger';
 import { ensureR2Url, ensureR2HttpsUrl, validateAudioUrl, normalizeAudioUrl } from '@/utils/audioUtils';
+import { FaMoon } from 'react-icons/fa';
+import { usePlayback } from '@/context/PlaybackContext';
+import { usePlayerSettings } from '@/context/PlayerSettingsContext';
+import { PLAYBACK_RATES, PlayerOptionsPanel, SkipButton, formatSleepTimerRemaining, getNextPlaybackRate } from './PlayerOptions';
+import { useSleepTimer } from './useSleepTimer';
+import { usePlayerShortcuts } from './usePlayerShortcuts';
 
 // Central function for normalizing R2 audio URLs to CDN URLs
 export const normalizeR2AudioUrl = (url: string) => {
@@ -24,6 +30,8 @@ interface AudioPlayerProps {
   showWaveform?: boolean;
   showMetadata?: boolean;
   onEnded?: () => void;
+  onTimeUpdate?: (currentTime: number, duration: number) => void; // Called as playback progresses or after a seek
+  seekRequest?: { time: number; id: number } | null; // Seek to `time` and play; a new `id` repeats the seek
 }
 
 const AudioPlayer = ({ 
@@ -32,7 +40,9 @@ const AudioPlayer = ({
   showPlaybackSpeed = true,
   showWaveform = false,
   showMetadata = false,
-  onEnded
+  onEnded,
+  onTimeUpdate: onTimeUpdateProp,
+  seekRequest
 }: AudioPlayerProps) => {
   // Debug log to check URL type received by AudioPlayer
   console.log("🔊 AudioPlayer received URL:", audioUrl);
@@ -41,11 +51,19 @@ const AudioPlayer = ({
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [playbackRate, setPlaybackRate] = useState(1);
-  const [volume, setVolume] = useState(1);
+  const { settings, updateSettings } = usePlayerSettings();
+  const { playbackRate, volume, skipBackSeconds, skipForwardSeconds } = settings;
+  const { currentItem: globalPlaybackItem } = usePlayback();
+  const { sleepTimer, remainingSeconds, startSleepTimer, cancelSleepTimer } = useSleepTimer(audioRef, volume);
+  const [showOptions, setShowOptions] = useState(false);
+  // Whether this was the last audio element on the page to start playing
+  const [isActive, setIsActive] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [audioFormat, setAudioFormat] = useState<string | null>(null);
+  // Kept in a ref so a new callback on every parent render does not reload the audio
+  const onTimeUpdateRef = useRef(onTimeUpdateProp);
+  onTimeUpdateRef.current = onTimeUpdateProp;
 
   // Initialize audio element
   useEffect(() => {
@@ -81,8 +99,13 @@ const AudioPlayer = ({
     // Handle time update
     const onTimeUpdate = () => {
       setCurrentTime(audio.currentTime);
+      onTimeUpdateRef.current?.(audio.currentTime, audio.duration || 0);
     };
     
+    // Follow pauses made outside the controls, such as by the sleep timer
+    const onPlay = () => setIsPlaying(true);
+    const onPause = () => setIsPlaying(false);
+
     // Handle audio ended
     const onAudioEnded = () => {
       setIsPlaying(false);
@@ -115,6 +138,8 @@ const AudioPlayer = ({
     // Add event listeners
     audio.addEventListener('loadedmetadata', onLoadedMetadata);
     audio.addEventListener('timeupdate', onTimeUpdate);
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('pause', onPause);
     audio.addEventListener('ended', onAudioEnded);
     audio.addEventListener('error', onError as EventListener);
     
@@ -122,10 +147,45 @@ const AudioPlayer = ({
     return () => {
       audio.removeEventListener('loadedmetadata', onLoadedMetadata);
       audio.removeEventListener('timeupdate', onTimeUpdate);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('pause', onPause);
       audio.removeEventListener('ended', onAudioEnded);
       audio.removeEventListener('error', onError as EventListener);
     };
   }, [audioUrl, audioRef, onEnded]);
+
+  // Apply the listener's preferred speed and volume
+  useEffect(() => {
+    if (!audioRef.current) return;
+    audioRef.current.defaultPlaybackRate = playbackRate;
+    audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate, audioUrl]);
+
+  useEffect(() => {
+    // While the sleep timer is fading out, it owns the volume
+    if (audioRef.current && !sleepTimer) audioRef.current.volume = volume;
+  }, [volume, sleepTimer]);
+
+  // Track which player started last, so only it answers keyboard shortcuts
+  useEffect(() => {
+    const onAnyPlay = (e: Event) => setIsActive(e.target === audioRef.current);
+    // Media events do not bubble, so listen in the capture phase
+    document.addEventListener('play', onAnyPlay, true);
+    return () => document.removeEventListener('play', onAnyPlay, true);
+  }, []);
+
+  // Seek when the parent requests it (e.g. a paragraph was tapped in the reader)
+  useEffect(() => {
+    if (!seekRequest || !audioRef.current) return;
+
+    const audio = audioRef.current;
+    audio.currentTime = seekRequest.time;
+    setCurrentTime(seekRequest.time);
+    audio.play().then(() => setIsPlaying(true)).catch(err => {
+      console.warn('Play prevented by browser:', err);
+      setIsPlaying(false);
+    });
+  }, [seekRequest]);
   
   // Handle play/pause
   const togglePlayPause = (e?: React.MouseEvent) => {
@@ -150,6 +210,24 @@ const AudioPlayer = ({
     }
   };
   
+  // Skip by the listener's skip intervals
+  const skipBy = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const time = Math.min(audio.duration || 0, Math.max(0, audio.currentTime + seconds));
+    audio.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  // The global player takes the shortcuts while it has a narration loaded
+  usePlayerShortcuts({
+    togglePlay: () => togglePlayPause(),
+    skipBack: () => skipBy(-skipBackSeconds),
+    skipForward: () => skipBy(skipForwardSeconds),
+    changeVolume: (delta) => updateSettings({ volume: Math.min(1, Math.max(0, volume + delta)) }),
+    changePlaybackRate: (direction) => updateSettings({ playbackRate: getNextPlaybackRate(playbackRate, direction) })
+  }, isActive && !globalPlaybackItem && !error);
+  
   // Handle seek
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!audioRef.current) return;
@@ -171,9 +249,7 @@ const AudioPlayer = ({
     e.preventDefault();
     e.stopPropagation();
     
-    const newVolume = parseFloat(e.target.value);
-    audioRef.current.volume = newVolume;
-    setVolume(newVolume);
+    updateSettings({ volume: parseFloat(e.target.value) });
   };
   
   // Handle playback rate change
@@ -184,8 +260,7 @@ const AudioPlayer = ({
     e.preventDefault();
     e.stopPropagation();
     
-    audioRef.current.playbackRate = rate;
-    setPlaybackRate(rate);
+    updateSettings({ playbackRate: rate });
   };
   
   // Format time (seconds to MM:SS)
@@ -226,6 +301,7 @@ const AudioPlayer = ({
         <>
           {/* Controls */}
           <div className="flex items-center mb-3" onClick={(e) => e.stopPropagation()}>
+            <SkipButton direction="back" seconds={skipBackSeconds} onClick={() => skipBy(-skipBackSeconds)} className="mr-1" />
             <button
               onClick={(e) => togglePlayPause(e)}
               className="w-10 h-10 flex items-center justify-center bg-primary rounded-full text-white hover:bg-primary-dark transition-colors"
@@ -242,6 +318,7 @@ const AudioPlayer = ({
                 </svg>
               )}
             </button>
+            <SkipButton direction="forward" seconds={skipForwardSeconds} onClick={() => skipBy(skipForwardSeconds)} className="ml-1" />
             
             <div className="flex-1 mx-4">
               <input
@@ -290,12 +367,35 @@ const AudioPlayer = ({
                 />
               </div>
             </div>
+
+            <button
+              onClick={() => setShowOptions(!showOptions)}
+              className={`h-8 px-2 flex items-center gap-1 text-xs ${
+                sleepTimer || showOptions ? 'text-primary-light' : 'text-gray-300 hover:text-white'
+              }`}
+              aria-label="Sleep timer and skip settings"
+              title="Sleep timer and skip settings"
+              type="button"
+            >
+              <FaMoon className="h-4 w-4" />
+              {sleepTimer && (sleepTimer.option === 'chapter' ? 'Chapter' : formatSleepTimerRemaining(remainingSeconds))}
+            </button>
           </div>
+
+          {showOptions && (
+            <PlayerOptionsPanel
+              sleepTimer={sleepTimer}
+              sleepTimerRemaining={remainingSeconds}
+              onStartSleepTimer={startSleepTimer}
+              onCancelSleepTimer={cancelSleepTimer}
+              className="mb-3 p-3 bg-[#1F1F1F] rounded-lg"
+            />
+          )}
           
           {/* Playback Speed */}
           {showPlaybackSpeed && (
             <div className="flex justify-center gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
-              {[0.5, 0.75, 1, 1.25, 1.5, 2].map((rate) => (
+              {PLAYBACK_RATES.map((rate) => (
                 <button
                   key={rate}
                   onClick={(e) => handlePlaybackRateChange(rate, e)}
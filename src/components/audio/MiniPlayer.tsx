@@ -0,0 +1,258 @@
+/**
+ * @file This file defines the MiniPlayer component, the player docked to the bottom of every
+ * page while a narration is loaded. It shows the book and chapter playing with play/pause and
+ * next/previous chapter controls, and expands into a full player view with the seek bar,
+ * playback speed, volume, sleep timer, skip intervals and the chapter queue.
+ *
+ * @integration Rendered once in the root layout inside `PlaybackProvider`, which owns the audio
+ * element, so playback continues across route changes. Pages start playback through
+ * `usePlayback().playBook`. Renders nothing while the queue is empty.
+ */
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { FaMoon } from 'react-icons/fa';
+import { usePlayback } from '@/context/PlaybackContext';
+import PlaybackControls from './PlaybackControls';
+import { PlayerOptionsPanel, formatSleepTimerRemaining } from './PlayerOptions';
+
+/**
+ * Gets the CDN URL of a book thumbnail
+ */
+const getThumbnailSrc = (thumbnailUrl?: string): string => {
+  if (!thumbnailUrl) return '/images/book-placeholder.jpg';
+  return thumbnailUrl.includes('cdn.tunetalez.com')
+    ? thumbnailUrl
+    : `https://cdn.tunetalez.com/thumbnails/book/${thumbnailUrl.split('/').pop()}`;
+};
+
+const MiniPlayer = () => {
+  const {
+    queue,
+    currentIndex,
+    currentItem,
+    isPlaying,
+    isLoading,
+    currentTime,
+    duration,
+    volume,
+    sleepTimer,
+    sleepTimerRemaining,
+    isExpanded,
+    togglePlay,
+    next,
+    previous,
+    playQueueItem,
+    setVolume,
+    startSleepTimer,
+    cancelSleepTimer,
+    setExpanded,
+    stop
+  } = usePlayback();
+
+  if (!currentItem) return null;
+
+  const progressPercent = duration > 0 ? Math.min(100, (currentTime / duration) * 100) : 0;
+
+  return (
+    <>
+      {/* Keeps the end of the page clear of the docked player */}
+      <div className="h-20" aria-hidden="true" />
+
+      {isExpanded && (
+        <div className="fixed inset-0 z-[60] bg-gradient-to-b from-[#2D2D2D] to-[#121212] text-white overflow-y-auto">
+          <div className="max-w-xl mx-auto px-6 py-6 flex flex-col min-h-full">
+            <div className="flex items-center justify-between mb-6">
+              <button
+                type="button"
+                onClick={() => setExpanded(false)}
+                className="text-gray-300 hover:text-white p-2"
+                aria-label="Collapse player"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+              </button>
+              <span className="text-xs uppercase tracking-wider text-gray-400">Now Playing</span>
+              <Link
+                href={`/book/${currentItem.bookId}`}
+                onClick={() => setExpanded(false)}
+                className="text-sm text-primary hover:text-primary-light"
+              >
+                Open book
+              </Link>
+            </div>
+
+            <div className="relative w-56 h-72 mx-auto mb-6 rounded-lg overflow-hidden shadow-2xl">
+              <Image
+                src={getThumbnailSrc(currentItem.thumbnailUrl)}
+                alt={currentItem.bookTitle}
+                fill
+                className="object-cover"
+                sizes="224px"
+              />
+            </div>
+
+            <div className="text-center mb-6">
+              <h2 className="text-2xl font-bold truncate">{currentItem.chapterTitle || currentItem.bookTitle}</h2>
+              <p className="text-gray-400 truncate">
+                {currentItem.chapterTitle ? currentItem.bookTitle : currentItem.author}
+              </p>
+            </div>
+
+            <PlaybackControls size="large" showPlaybackSpeed className="mb-4" />
+
+            <div className="flex items-center gap-3 mb-6">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217z" clipRule="evenodd" />
+              </svg>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={volume}
+                onChange={(e) => setVolume(parseFloat(e.target.value))}
+                className="flex-1 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-primary"
+                aria-label="Volume"
+              />
+            </div>
+
+            <PlayerOptionsPanel
+              sleepTimer={sleepTimer}
+              sleepTimerRemaining={sleepTimerRemaining}
+              onStartSleepTimer={startSleepTimer}
+              onCancelSleepTimer={cancelSleepTimer}
+              className="mb-8"
+            />
+
+            {queue.length > 1 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-300 mb-2">Chapters</h3>
+                <div className="space-y-1">
+                  {queue.map((item, index) => (
+                    <button
+                      key={item.chapterId || index}
+                      type="button"
+                      onClick={() => playQueueItem(index)}
+                      className={`w-full text-left p-3 rounded-md text-sm transition-colors ${
+                        index === currentIndex
+                          ? 'bg-primary text-white'
+                          : 'bg-[#333333] text-gray-300 hover:bg-[#444444]'
+                      }`}
+                    >
+                      <span className="block truncate">
+                        <span className="text-white font-medium mr-2">{index + 1}.</span>
+                        {item.chapterTitle}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="fixed bottom-0 left-0 right-0 md:left-20 z-40 bg-[#1F1F1F] border-t border-gray-800 shadow-2xl">
+        {/* Playback progress */}
+        <div className="h-1 bg-gray-700">
+          <div className="h-full bg-primary transition-[width] duration-300" style={{ width: `${progressPercent}%` }}></div>
+        </div>
+
+        <div className="flex items-center gap-3 pl-16 pr-3 md:pl-4 py-2">
+          <button
+            type="button"
+            onClick={() => setExpanded(true)}
+            className="flex items-center gap-3 flex-1 min-w-0 text-left"
+            aria-label="Expand player"
+          >
+            <div className="relative w-12 h-12 flex-shrink-0 rounded overflow-hidden">
+              <Image
+                src={getThumbnailSrc(currentItem.thumbnailUrl)}
+                alt={currentItem.bookTitle}
+                fill
+                className="object-cover"
+                sizes="48px"
+              />
+            </div>
+            <div className="min-w-0">
+              <p className="text-white text-sm font-semibold truncate">{currentItem.chapterTitle || currentItem.bookTitle}</p>
+              <p className="text-gray-400 text-xs truncate">
+                {currentItem.chapterTitle ? currentItem.bookTitle : currentItem.author}
+              </p>
+            </div>
+          </button>
+
+          <div className="flex items-center gap-2 md:gap-4">
+            {sleepTimer && (
+              <button
+                type="button"
+                onClick={() => setExpanded(true)}
+                className="hidden sm:flex items-center gap-1 text-xs text-primary-light"
+                aria-label="Sleep timer"
+                title="Sleep timer"
+              >
+                <FaMoon />
+                {sleepTimer.option === 'chapter' ? 'Chapter' : formatSleepTimerRemaining(sleepTimerRemaining)}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={previous}
+              className="text-gray-300 hover:text-white transition-colors"
+              aria-label="Previous chapter"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M8.445 14.832A1 1 0 0010 14v-2.798l5.445 3.63A1 1 0 0017 14V6a1 1 0 00-1.555-.832L10 8.798V6a1 1 0 00-1.555-.832l-6 4a1 1 0 000 1.664l6 4z" />
+              </svg>
+            </button>
+            <button
+              type="button"
+              onClick={togglePlay}
+              disabled={isLoading}
+              className="w-10 h-10 flex items-center justify-center bg-primary rounded-full text-white hover:bg-primary-dark transition-colors disabled:opacity-60"
+              aria-label={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isLoading ? (
+                <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white"></div>
+              ) : isPlaying ? (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                </svg>
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={next}
+              disabled={currentIndex >= queue.length - 1}
+              className="text-gray-300 hover:text-white disabled:opacity-40 transition-colors"
+              aria-label="Next chapter"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M4.555 5.168A1 1 0 003 6v8a1 1 0 001.555.832L10 11.202V14a1 1 0 001.555.832l6-4a1 1 0 000-1.664l-6-4A1 1 0 0010 6v2.798l-5.445-3.63z" />
+              </svg>
+            </button>
+            <button
+              type="button"
+              onClick={stop}
+              className="text-gray-500 hover:text-white transition-colors md:ml-2"
+              aria-label="Close player"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MiniPlayer;
@@ -0,0 +1,147 @@
+/**
+ * @file This file defines the PlaybackControls component, the transport controls of the
+ * global player: previous/next chapter, skip back/forward, play/pause, a seek bar and optional
+ * playback speed.
+ *
+ * @integration Bound to `PlaybackContext`, so every instance controls the same audio element.
+ * Used in the expanded view of the `MiniPlayer` and in the sticky header of the book page.
+ */
+'use client';
+
+import { usePlayback } from '@/context/PlaybackContext';
+import { PLAYBACK_RATES, SkipButton } from './PlayerOptions';
+
+interface PlaybackControlsProps {
+  className?: string;
+  showPlaybackSpeed?: boolean;
+  size?: 'small' | 'large';
+}
+
+/**
+ * Formats a time in seconds as m:ss
+ */
+export const formatPlaybackTime = (time: number): string => {
+  if (!isFinite(time) || time < 0) return '0:00';
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+};
+
+const PlaybackControls = ({ className = '', showPlaybackSpeed = false, size = 'small' }: PlaybackControlsProps) => {
+  const {
+    queue,
+    currentIndex,
+    isPlaying,
+    isLoading,
+    error,
+    currentTime,
+    duration,
+    playbackRate,
+    skipBackSeconds,
+    skipForwardSeconds,
+    togglePlay,
+    seek,
+    next,
+    previous,
+    skipBack,
+    skipForward,
+    setPlaybackRate
+  } = usePlayback();
+
+  const playButtonSize = size === 'large' ? 'w-14 h-14' : 'w-10 h-10';
+  const iconSize = size === 'large' ? 'h-7 w-7' : 'h-5 w-5';
+
+  if (error) {
+    return <div className={`text-red-500 text-center text-sm ${className}`}>{error}</div>;
+  }
+
+  return (
+    <div className={className} onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-center gap-4 mb-2">
+        <button
+          type="button"
+          onClick={previous}
+          disabled={currentIndex < 0}
+          className="text-gray-300 hover:text-white disabled:opacity-40 transition-colors"
+          aria-label="Previous chapter"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={iconSize} viewBox="0 0 20 20" fill="currentColor">
+            <path d="M8.445 14.832A1 1 0 0010 14v-2.798l5.445 3.63A1 1 0 0017 14V6a1 1 0 00-1.555-.832L10 8.798V6a1 1 0 00-1.555-.832l-6 4a1 1 0 000 1.664l6 4z" />
+          </svg>
+        </button>
+
+        <SkipButton direction="back" seconds={skipBackSeconds} onClick={skipBack} disabled={currentIndex < 0} />
+
+        <button
+          type="button"
+          onClick={togglePlay}
+          disabled={isLoading}
+          className={`${playButtonSize} flex items-center justify-center bg-primary rounded-full text-white hover:bg-primary-dark transition-colors disabled:opacity-60`}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white"></div>
+          ) : isPlaying ? (
+            <svg xmlns="http://www.w3.org/2000/svg" className={iconSize} viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+            </svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" className={iconSize} viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+            </svg>
+          )}
+        </button>
+
+        <SkipButton direction="forward" seconds={skipForwardSeconds} onClick={skipForward} disabled={currentIndex < 0} />
+
+        <button
+          type="button"
+          onClick={next}
+          disabled={currentIndex < 0 || currentIndex >= queue.length - 1}
+          className="text-gray-300 hover:text-white disabled:opacity-40 transition-colors"
+          aria-label="Next chapter"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={iconSize} viewBox="0 0 20 20" fill="currentColor">
+            <path d="M4.555 5.168A1 1 0 003 6v8a1 1 0 001.555.832L10 11.202V14a1 1 0 001.555.832l6-4a1 1 0 000-1.664l-6-4A1 1 0 0010 6v2.798l-5.445-3.63z" />
+          </svg>
+        </button>
+      </div>
+
+      <input
+        type="range"
+        min="0"
+        max={duration || 0}
+        value={currentTime}
+        step="0.1"
+        onChange={(e) => seek(parseFloat(e.target.value))}
+        className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-primary"
+        aria-label="Seek"
+      />
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{formatPlaybackTime(currentTime)}</span>
+        <span>{formatPlaybackTime(duration)}</span>
+      </div>
+
+      {showPlaybackSpeed && (
+        <div className="flex justify-center gap-2 mt-3">
+          {PLAYBACK_RATES.map((rate) => (
+            <button
+              key={rate}
+              type="button"
+              onClick={() => setPlaybackRate(rate)}
+              className={`text-xs px-2 py-1 rounded ${
+                playbackRate === rate
+                  ? 'bg-primary text-white'
+                  : 'bg-[#3a3a3a] text-gray-300 hover:bg-[#4a4a4a]'
+              }`}
+            >
+              {rate}x
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackControls;
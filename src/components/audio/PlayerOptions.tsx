@@ -0,0 +1,173 @@
+/**
+ * @file This file defines the listening options shared by the audio players: the sleep timer
+ * menu, the skip interval settings and the skip back/forward buttons, along with the playback
+ * speed steps used by the speed buttons and shortcuts.
+ *
+ * @integration Used by the expanded `MiniPlayer`, `PlaybackControls` and `AudioPlayer`. Skip
+ * intervals are read from and saved to `PlayerSettingsContext`; the sleep timer itself runs in
+ * `useSleepTimer`, owned by the player it stops.
+ */
+'use client';
+
+import { FaMoon, FaUndoAlt, FaRedoAlt } from 'react-icons/fa';
+import { usePlayerSettings } from '@/context/PlayerSettingsContext';
+import { SLEEP_TIMER_OPTIONS, SleepTimer, SleepTimerOption } from './useSleepTimer';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const SKIP_INTERVAL_OPTIONS = [5, 10, 15, 30, 45, 60];
+
+/**
+ * Gets the playback speed one step faster or slower than `rate`
+ * @param rate Current playback speed
+ * @param direction 1 for faster, -1 for slower
+ * @returns The next speed, clamped to the available speeds
+ */
+export const getNextPlaybackRate = (rate: number, direction: 1 | -1): number => {
+  const index = PLAYBACK_RATES.findIndex(r => r >= rate);
+  const currentIndex = index === -1 ? PLAYBACK_RATES.length - 1 : index;
+  const nextIndex = Math.min(PLAYBACK_RATES.length - 1, Math.max(0, currentIndex + direction));
+  return PLAYBACK_RATES[nextIndex];
+};
+
+/**
+ * Formats the time left on a sleep timer as m:ss
+ */
+export const formatSleepTimerRemaining = (seconds: number | null): string => {
+  if (seconds === null) return '';
+  const total = Math.ceil(seconds);
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+const getSleepTimerLabel = (option: SleepTimerOption): string =>
+  option === 'chapter' ? 'End of chapter' : `${option} min`;
+
+interface SkipButtonProps {
+  direction: 'back' | 'forward';
+  seconds: number;
+  onClick: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Button that skips back or forward by the listener's skip interval
+ */
+export const SkipButton = ({ direction, seconds, onClick, disabled = false, className = '' }: SkipButtonProps) => {
+  const label = direction === 'back'
+    ? `Skip back ${seconds}s (J / ←)`
+    : `Skip forward ${seconds}s (L / →)`;
+  const Icon = direction === 'back' ? FaUndoAlt : FaRedoAlt;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onClick();
+      }}
+      disabled={disabled}
+      className={`relative flex items-center justify-center w-8 h-8 text-gray-300 hover:text-white disabled:opacity-40 transition-colors ${className}`}
+      aria-label={label}
+      title={label}
+    >
+      <Icon className="h-5 w-5" />
+      <span className="absolute text-[9px] font-bold leading-none">{seconds}</span>
+    </button>
+  );
+};
+
+interface PlayerOptionsPanelProps {
+  sleepTimer: SleepTimer | null;
+  sleepTimerRemaining: number | null;
+  onStartSleepTimer: (option: SleepTimerOption) => void;
+  onCancelSleepTimer: () => void;
+  className?: string;
+}
+
+/**
+ * Sleep timer choices and skip interval settings
+ */
+export const PlayerOptionsPanel = ({
+  sleepTimer,
+  sleepTimerRemaining,
+  onStartSleepTimer,
+  onCancelSleepTimer,
+  className = ''
+}: PlayerOptionsPanelProps) => {
+  const { settings, updateSettings } = usePlayerSettings();
+
+  return (
+    <div className={`space-y-4 ${className}`} onClick={(e) => e.stopPropagation()}>
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+            <FaMoon className="text-primary-light" /> Sleep timer
+          </h3>
+          {sleepTimer && (
+            <span className="text-xs text-primary-light">
+              {sleepTimer.option === 'chapter' ? 'End of chapter' : formatSleepTimerRemaining(sleepTimerRemaining)}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {SLEEP_TIMER_OPTIONS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onStartSleepTimer(option)}
+              className={`text-xs px-2 py-1 rounded ${
+                sleepTimer?.option === option
+                  ? 'bg-primary text-white'
+                  : 'bg-[#3a3a3a] text-gray-300 hover:bg-[#4a4a4a]'
+              }`}
+            >
+              {getSleepTimerLabel(option)}
+            </button>
+          ))}
+          {sleepTimer && (
+            <button
+              type="button"
+              onClick={onCancelSleepTimer}
+              className="text-xs px-2 py-1 rounded text-gray-400 hover:text-white"
+            >
+              Off
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-2">Skip back</span>
+          <select
+            value={settings.skipBackSeconds}
+            onChange={(e) => updateSettings({ skipBackSeconds: parseInt(e.target.value, 10) })}
+            className="w-full bg-[#333333] border border-gray-700 rounded-md px-2 py-1 text-sm text-white"
+          >
+            {SKIP_INTERVAL_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>{seconds} seconds</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-sm font-semibold text-gray-300 mb-2">Skip forward</span>
+          <select
+            value={settings.skipForwardSeconds}
+            onChange={(e) => updateSettings({ skipForwardSeconds: parseInt(e.target.value, 10) })}
+            className="w-full bg-[#333333] border border-gray-700 rounded-md px-2 py-1 text-sm text-white"
+          >
+            {SKIP_INTERVAL_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>{seconds} seconds</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Shortcuts: Space or K play/pause · J/L or ←/→ skip · Shift+↑/↓ volume · &lt; / &gt; speed
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+/**
+ * @file Publishes the playing narration to the Media Session API, so lock screens, notification
+ * shades, headsets and hardware media keys show the book cover, chapter and author and can
+ * play, pause, seek and change chapter.
+ *
+ * @integration Used by `PlaybackContext` for the global player. The position shown by the OS is
+ * refreshed from the audio element whenever it loads, seeks, changes speed, plays or pauses.
+ */
+'use client';
+
+import { RefObject, useEffect, useRef } from 'react';
+import { getCoverCdnUrl } from '@/utils/offlineDownloads';
+
+// What the OS shows for the playing narration
+export interface MediaSessionItem {
+  bookTitle: string;
+  author?: string;
+  thumbnailUrl?: string;
+  chapterTitle?: string;
+}
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  skipBack: (offset?: number) => void;     // `offset` in seconds when the OS asks for a specific jump
+  skipForward: (offset?: number) => void;
+  previous?: () => void;                   // Unset hides the previous track control
+  next?: () => void;                       // Unset hides the next track control
+  stop: () => void;
+}
+
+const isMediaSessionSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+/**
+ * Registers an action handler, ignoring actions the browser does not support
+ */
+const setActionHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Older browsers throw for actions they do not know (e.g. 'seekto')
+  }
+};
+
+/**
+ * Keeps the Media Session in step with an audio element
+ * @param audioRef The player's audio element
+ * @param item The narration playing, or null when nothing is loaded
+ * @param isPlaying Whether the narration is playing
+ * @param handlers Actions for the OS controls
+ */
+export const useMediaSession = (
+  audioRef: RefObject<HTMLAudioElement | null>,
+  item: MediaSessionItem | null,
+  isPlaying: boolean,
+  handlers: MediaSessionHandlers
+) => {
+  // Kept in a ref so new handlers on every render do not re-register the actions
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const hasPrevious = !!handlers.previous;
+  const hasNext = !!handlers.next;
+
+  // Title, artist and cover
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    if (!item) {
+      navigator.mediaSession.metadata = null;
+      navigator.mediaSession.playbackState = 'none';
+      return;
+    }
+
+    const coverUrl = getCoverCdnUrl(item.thumbnailUrl) || `${window.location.origin}/images/book-placeholder.jpg`;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: item.chapterTitle || item.bookTitle,
+      artist: item.author || '',
+      album: item.bookTitle,
+      artwork: [{ src: coverUrl, sizes: '512x512', type: 'image/jpeg' }]
+    });
+  }, [item]);
+
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !item) return;
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [isPlaying, item]);
+
+  // Position shown on the lock screen; the OS extrapolates it between updates
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!isMediaSessionSupported() || !audio || !navigator.mediaSession.setPositionState) return;
+
+    const updatePositionState = () => {
+      if (!isFinite(audio.duration) || audio.duration <= 0) return;
+      try {
+        navigator.mediaSession.setPositionState({
+          duration: audio.duration,
+          playbackRate: audio.playbackRate || 1,
+          position: Math.min(audio.currentTime, audio.duration)
+        });
+      } catch (err) {
+        console.warn('Could not update media position:', err);
+      }
+    };
+
+    const events = ['loadedmetadata', 'seeked', 'ratechange', 'play', 'pause'];
+    events.forEach(event => audio.addEventListener(event, updatePositionState));
+    return () => events.forEach(event => audio.removeEventListener(event, updatePositionState));
+  }, [audioRef]);
+
+  // Lock screen, headset and media key actions
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !item) return;
+
+    setActionHandler('play', () => handlersRef.current.play());
+    setActionHandler('pause', () => handlersRef.current.pause());
+    setActionHandler('stop', () => handlersRef.current.stop());
+    setActionHandler('seekbackward', (details) => handlersRef.current.skipBack(details.seekOffset));
+    setActionHandler('seekforward', (details) => handlersRef.current.skipForward(details.seekOffset));
+    setActionHandler('seekto', (details) => {
+      if (details.seekTime !== undefined) handlersRef.current.seek(details.seekTime);
+    });
+    setActionHandler('previoustrack', hasPrevious ? () => handlersRef.current.previous?.() : null);
+    setActionHandler('nexttrack', hasNext ? () => handlersRef.current.next?.() : null);
+
+    return () => {
+      const actions: MediaSessionAction[] = [
+        'play', 'pause', 'stop', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack'
+      ];
+      actions.forEach(action => setActionHandler(action, null));
+    };
+  }, [item, hasPrevious, hasNext]);
+};
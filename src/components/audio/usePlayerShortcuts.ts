@@ -0,0 +1,90 @@
+/**
+ * @file Keyboard shortcuts shared by the audio players:
+ * Space or K play/pause, J or ← skip back, L or → skip forward, Shift+↑/↓ volume,
+ * Shift+. and Shift+, (> and <) faster and slower.
+ *
+ * @integration Used by `PlaybackContext` while a narration is loaded in the global player, and by
+ * `AudioPlayer` while the global player is empty. Keys typed into form fields are ignored.
+ */
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export interface PlayerShortcutHandlers {
+  togglePlay: () => void;
+  skipBack: () => void;
+  skipForward: () => void;
+  changeVolume: (delta: number) => void;
+  changePlaybackRate: (direction: 1 | -1) => void;
+}
+
+// Volume change of one ↑/↓ press
+const VOLUME_STEP = 0.1;
+
+/**
+ * Whether a key event was meant for a field, editor or focused control rather than the player
+ */
+const isTypingTarget = (e: KeyboardEvent): boolean => {
+  const target = e.target;
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  // Space already clicks a focused button or link
+  return e.key === ' ' && ['BUTTON', 'A'].includes(target.tagName);
+};
+
+/**
+ * Handles the player keyboard shortcuts while `enabled`
+ */
+export const usePlayerShortcuts = (handlers: PlayerShortcutHandlers, enabled: boolean) => {
+  // Kept in a ref so new handlers on every render do not re-register the listener
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e)) return;
+
+      const { togglePlay, skipBack, skipForward, changeVolume, changePlaybackRate } = handlersRef.current;
+      switch (e.key) {
+        case ' ':
+        case 'k':
+        case 'K':
+          togglePlay();
+          break;
+        case 'j':
+        case 'J':
+        case 'ArrowLeft':
+          skipBack();
+          break;
+        case 'l':
+        case 'L':
+        case 'ArrowRight':
+          skipForward();
+          break;
+        // Without Shift the arrows keep scrolling the page
+        case 'ArrowUp':
+          if (!e.shiftKey) return;
+          changeVolume(VOLUME_STEP);
+          break;
+        case 'ArrowDown':
+          if (!e.shiftKey) return;
+          changeVolume(-VOLUME_STEP);
+          break;
+        case '>':
+          changePlaybackRate(1);
+          break;
+        case '<':
+          changePlaybackRate(-1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
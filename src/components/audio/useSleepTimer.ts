@@ -0,0 +1,84 @@
+/**
+ * @file Sleep timer shared by the audio players. Stops playback after a number of minutes or at
+ * the end of the chapter, fading the volume out over the last seconds.
+ *
+ * @integration Used by `PlaybackContext` (global player) and `AudioPlayer`. The global player
+ * checks `sleepTimer.option === 'chapter'` when a chapter ends, so it does not move on to the next.
+ */
+'use client';
+
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+// Seconds over which the volume fades out before the timer stops playback
+const SLEEP_FADE_SECONDS = 10;
+
+// Minutes, or the end of the chapter
+export type SleepTimerOption = number | 'chapter';
+
+export const SLEEP_TIMER_OPTIONS: SleepTimerOption[] = [5, 10, 15, 30, 45, 60, 'chapter'];
+
+export interface SleepTimer {
+  option: SleepTimerOption;
+  endsAt?: number;  // When a minutes timer stops playback (ms since epoch)
+}
+
+/**
+ * Runs a sleep timer on an audio element
+ * @param audioRef The player's audio element
+ * @param volume The listener's volume, restored after the fade-out
+ * @returns The running timer, the seconds left, and functions to start and cancel it
+ */
+export const useSleepTimer = (audioRef: RefObject<HTMLAudioElement | null>, volume: number) => {
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+
+  const startSleepTimer = useCallback((option: SleepTimerOption) => {
+    setSleepTimer(option === 'chapter' ? { option } : { option, endsAt: Date.now() + option * 60 * 1000 });
+  }, []);
+
+  const cancelSleepTimer = useCallback(() => setSleepTimer(null), []);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!sleepTimer || !audio) {
+      setRemainingSeconds(null);
+      return;
+    }
+
+    const tick = () => {
+      const secondsLeft = sleepTimer.endsAt !== undefined
+        ? (sleepTimer.endsAt - Date.now()) / 1000
+        : (audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+      if (!isFinite(secondsLeft)) return;
+
+      setRemainingSeconds(Math.max(0, secondsLeft));
+
+      // The end of a chapter is handled by the 'ended' event
+      if (secondsLeft <= 0 && sleepTimer.endsAt !== undefined) {
+        audio.pause();
+        audio.volume = volume;
+        setSleepTimer(null);
+        return;
+      }
+
+      audio.volume = secondsLeft < SLEEP_FADE_SECONDS
+        ? volume * Math.max(0, secondsLeft) / SLEEP_FADE_SECONDS
+        : volume;
+    };
+
+    const onEnded = () => {
+      if (sleepTimer.option === 'chapter') setSleepTimer(null);
+    };
+
+    tick();
+    const interval = setInterval(tick, 250);
+    audio.addEventListener('ended', onEnded);
+    return () => {
+      clearInterval(interval);
+      audio.removeEventListener('ended', onEnded);
+      audio.volume = volume;
+    };
+  }, [sleepTimer, volume, audioRef]);
+
+  return { sleepTimer, remainingSeconds, startSleepTimer, cancelSleepTimer };
+};
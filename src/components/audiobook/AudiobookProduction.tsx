@@ -1,8 +1,16 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { generateAudio, arrayBufferToBlob, extractContentMetadata, ContentMetadata } from '@/services/openai';
-import { uploadAudioNarration } from '@/firebase/services';
+import {
+  generateAudio,
+  arrayBufferToBlob,
+  extractContentMetadata,
+  ContentMetadata,
+  NARRATION_TTS_VOICE,
+  NARRATION_TTS_SPEED,
+  NARRATION_TTS_PROVIDER
+} from '@/services/openai';
+import { uploadAudioNarration, getBookById } from '@/firebase/services';
 import AudioPlayer from '@/components/audio/AudioPlayer';
 import { 
   getRandomBackgroundMusicForMetadata,
@@ -14,6 +22,8 @@ import {
   estimateParagraphTimings,
   ParagraphTiming
 } from '@/utils/audioStitcher';
+import { getOrCreateParagraphAudio } from '@/utils/paragraphAudioCache';
+import { encodeAudioBlob, buildAudioTagMetadata, AudioEncodingOptions, DEFAULT_AUDIO_ENCODING } from '@/utils/audioEncoding';
 // Using stitchAudioWithBackground instead of processAudioWithNodeLibs
 
 interface AudiobookProductionProps {
@@ -22,6 +32,7 @@ interface AudiobookProductionProps {
   onSuccess?: (audioUrl: string) => void;
   onError?: (error: Error) => void;
   className?: string;
+  audioEncoding?: Partial<AudioEncodingOptions>; // Format and bitrate of the uploaded audiobook
 }
 
 const AudiobookProduction = ({ 
@@ -29,7 +40,8 @@ const AudiobookProduction = ({
   bookId, 
   onSuccess, 
   onError,
-  className = ''
+  className = '',
+  audioEncoding = DEFAULT_AUDIO_ENCODING
 }: AudiobookProductionProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
@@ -41,6 +53,7 @@ const AudiobookProduction = ({
   const [segments, setSegments] = useState<{text: string, metadata: ContentMetadata}[]>([]);
   const [segmentAudios, setSegmentAudios] = useState<Blob[]>([]);
   const [finalAudio, setFinalAudio] = useState<Blob | null>(null);
+  const [cachedSegmentCount, setCachedSegmentCount] = useState<number>(0);
 
   const handleGenerateAudiobook = async () => {
     if (!text.trim()) {
@@ -53,6 +66,7 @@ const AudiobookProduction = ({
       setIsGenerating(true);
       setError(null);
       setCurrentStep('segmenting-text');
+      setCachedSegmentCount(0);
 
       // Step 1: Split text into coherent segments (paragraphs) using $ as primary delimiter
       const paragraphs = text.split(/\$/).filter(p => p.trim().length > 0);
@@ -108,6 +122,10 @@ const AudiobookProduction = ({
       let currentTime = 0;
       const processedSegments: Blob[] = [];
       
+      // Music is seeded by book so a regenerated audiobook gets the same tracks, and no track repeats when avoidable
+      const musicSeed = bookId ? `${bookId}:audiobook` : undefined;
+      const usedMusicTrackIds: string[] = [];
+      
       console.log('Implementing sequential paragraph processing pipeline');
       
       // Process each paragraph sequentially
@@ -116,11 +134,22 @@ const AudiobookProduction = ({
         console.log(`Processing paragraph ${i+1}/${segmentsWithMetadata.length}...`);
         console.log(`Paragraph mood: ${segment.metadata.mood}, genre: ${segment.metadata.genre}`);
         
-        // STEP 1: Generate TTS narration for this paragraph
+        // STEP 1: Generate TTS narration for this paragraph (reused from the cache when unchanged)
         console.log(`STEP 1: Generating TTS narration for paragraph ${i+1}...`);
-        const audioBuffer = await generateAudio(segment.text);
-        const narrationBlob = arrayBufferToBlob(audioBuffer);
-        console.log(`TTS narration generated, size: ${narrationBlob.size} bytes`);
+        const narration = await getOrCreateParagraphAudio(
+          {
+            text: segment.text,
+            voice: NARRATION_TTS_VOICE,
+            speed: NARRATION_TTS_SPEED,
+            provider: NARRATION_TTS_PROVIDER
+          },
+          async () => arrayBufferToBlob(await generateAudio(segment.text))
+        );
+        const narrationBlob = narration.blob;
+        if (narration.cached) {
+          setCachedSegmentCount(count => count + 1);
+        }
+        console.log(`TTS narration ${narration.cached ? 'reused from cache' : 'generated'}, size: ${narrationBlob.size} bytes`);
         
         // STEP 2: Add silence from Firebase if not the last paragraph
         console.log(`STEP 2: Adding silence after paragraph ${i+1}...`);
@@ -148,8 +177,13 @@ const AudiobookProduction = ({
         
         // STEP 3: Select background music based on paragraph's mood
         console.log(`STEP 3: Selecting background music for paragraph ${i+1} with mood: ${segment.metadata.mood}`);
-        const backgroundMusic = await getRandomBackgroundMusicForMetadata(segment.metadata);
+        const backgroundMusic = await getRandomBackgroundMusicForMetadata(segment.metadata, {
+          ...(musicSeed && { seed: `${musicSeed}:${i}` }),
+          usedTrackIds: usedMusicTrackIds
+        });
+        if (backgroundMusic.trackId) usedMusicTrackIds.push(backgroundMusic.trackId);
         console.log('Selected music: ' + backgroundMusic.filename + ' (' + backgroundMusic.category + ')');
+        if (backgroundMusic.rationale) console.log(backgroundMusic.rationale);
         
         // STEP 4: Add background music to narration with silence
         console.log(`STEP 4: Adding background music to paragraph ${i+1}...`);
@@ -257,11 +291,23 @@ const AudiobookProduction = ({
       // Set the final audio
       setFinalAudio(finalAudioBlob);
       
-      // Step 5: Upload to Firebase
+      // Step 5: Encode to a compressed, tagged file (keep the WAV if encoding fails)
+      setCurrentStep('encoding');
+      let finalAudioToUpload: Blob = finalAudioBlob;
+      try {
+        const book = bookId ? await getBookById(bookId) : null;
+        finalAudioToUpload = await encodeAudioBlob(finalAudioBlob, {
+          ...audioEncoding,
+          ...(book && { metadata: buildAudioTagMetadata(book) })
+        });
+      } catch (encodeError) {
+        console.error('Error encoding audiobook, uploading WAV instead:', encodeError);
+      }
+      
+      // Step 6: Upload to Firebase
       setCurrentStep('uploading');
       setIsUploading(true);
       
-      const finalAudioToUpload = finalAudioBlob;
       const uploadedUrl = await uploadAudioNarration(
         finalAudioToUpload,
         bookId || `audiobook_${Date.now()}`
@@ -421,6 +467,8 @@ const AudiobookProduction = ({
           return `Processing segments (${segments.length > 0 ? `${segmentAudios.length}/${segments.length}` : '...'})...`;
         case 'concatenating-segments':
           return 'Concatenating segments...';
+        case 'encoding':
+          return 'Encoding audio...';
         case 'uploading':
           return `Uploading (${uploadProgress.toFixed(0)}%)...`;
         default:
@@ -466,6 +514,11 @@ const AudiobookProduction = ({
           <p className="text-sm text-green-500 mb-1">
             Audiobook generated successfully!
           </p>
+          {cachedSegmentCount > 0 && (
+            <p className="text-xs text-gray-500 mb-1">
+              Reused narration for {cachedSegmentCount} of {segments.length} unchanged paragraphs.
+            </p>
+          )}
           <h3 className="text-lg font-medium mt-2 mb-1">Continuous Playback</h3>
           <p className="text-sm text-gray-600 mb-2">All paragraphs with appropriate background music will play continuously</p>
           <AudioPlayer 
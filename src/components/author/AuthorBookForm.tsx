@@ -1,9 +1,10 @@
 'use client';
 
 import BookForm from '@/components/book/BookForm';
+import { BookDocument } from '@/firebase/services';
 
 interface AuthorBookFormProps {
-  onSuccess: () => void;
+  onSuccess: (book: BookDocument) => void;
 }
 
 export default function AuthorBookForm({ onSuccess }: AuthorBookFormProps) {
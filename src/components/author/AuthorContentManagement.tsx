@@ -3,95 +3,57 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { db } from '@/firebase/config';
-import { collection, getDocs, query, orderBy, where } from 'firebase/firestore';
-import { BookDocument, deleteBook } from '@/firebase/services';
+import { BookPageCursor, BookSummary, PublishStatus, deleteBook, getBookPage, getBookTotals, updateBookStatus } from '@/firebase/services';
 
 import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
 import AuthorBookForm from './AuthorBookForm';
+import PublishStatusBadge from '@/components/book/PublishStatusBadge';
+import PublishControls from '@/components/book/PublishControls';
+
+const BOOKS_PAGE_SIZE = 20;
 
 export default function AuthorContentManagement() {
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const router = useRouter();
-  const [books, setBooks] = useState<BookDocument[]>([]);
+  const [books, setBooks] = useState<BookSummary[]>([]);
+  const [totals, setTotals] = useState({ books: 0, likes: 0, saves: 0 });
+  // Cursor each visited page starts after (null for the first page)
+  const [pageCursors, setPageCursors] = useState<(BookPageCursor | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<BookPageCursor | null>(null);
 
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [showBookForm, setShowBookForm] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
-  // Fetch author's books
-  const fetchAuthorContent = async () => {
+  // Fetch a page of the author's books, starting after the cursor of the last visited page
+  const fetchAuthorContent = async (cursors: (BookPageCursor | null)[] = [null]) => {
     if (!user) {
       console.log('❌ No user found, skipping fetch');
       return;
     }
 
     console.log('🔍 Fetching books for author:', user.uid);
-    console.log('📧 User email:', user.email);
 
     try {
       setLoading(true);
       setErrorMessage(null);
 
-      // First, try with orderBy
-      try {
-        const booksQuery = query(
-          collection(db, 'books'),
-          where('authorId', '==', user.uid),
-          orderBy('createdAt', 'desc')
-        );
-        console.log('📚 Executing query with orderBy...');
-        const booksSnapshot = await getDocs(booksQuery);
-        console.log('✅ Query successful. Found', booksSnapshot.size, 'books');
-
-        const booksList = booksSnapshot.docs.map(doc => {
-          const data = doc.data();
-          console.log('📖 Book found:', doc.id, data.title);
-          return {
-            ...data,
-            id: doc.id
-          } as BookDocument;
-        });
-
-        setBooks(booksList);
-        console.log('✅ Books set in state:', booksList.length);
-      } catch (orderByError: any) {
-        // If orderBy fails (missing index), try without it
-        console.warn('⚠️ Query with orderBy failed, trying without orderBy:', orderByError.message);
-
-        const booksQuery = query(
-          collection(db, 'books'),
-          where('authorId', '==', user.uid)
-        );
-        console.log('📚 Executing query without orderBy...');
-        const booksSnapshot = await getDocs(booksQuery);
-        console.log('✅ Query successful. Found', booksSnapshot.size, 'books');
-
-        const booksList = booksSnapshot.docs.map(doc => {
-          const data = doc.data();
-          console.log('📖 Book found:', doc.id, data.title);
-          return {
-            ...data,
-            id: doc.id
-          } as BookDocument;
-        });
+      const [page, bookTotals] = await Promise.all([
+        getBookPage({ authorId: user.uid, pageSize: BOOKS_PAGE_SIZE, cursor: cursors[cursors.length - 1], includeUnpublished: true }),
+        getBookTotals({ authorId: user.uid })
+      ]);
+      console.log('✅ Query successful. Found', page.books.length, 'books');
 
-        // Sort manually by createdAt
-        booksList.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
-
-        setBooks(booksList);
-        console.log('✅ Books set in state:', booksList.length);
-        setErrorMessage('Note: Books loaded successfully but Firestore index may be missing for optimal performance.');
-      }
-
-      setLoading(false);
-    } catch (error: any) {
+      setBooks(page.books);
+      setNextCursor(page.nextCursor);
+      setPageCursors(cursors);
+      setTotals(bookTotals);
+    } catch (error) {
       console.error('❌ Error fetching author content:', error);
-      console.error('Error code:', error.code);
-      console.error('Error message:', error.message);
-      setErrorMessage(`Failed to load books: ${error.message}`);
+      setErrorMessage(`Failed to load books: ${(error as Error).message}`);
+    } finally {
       setLoading(false);
     }
   };
@@ -101,18 +63,25 @@ export default function AuthorContentManagement() {
     fetchAuthorContent();
   }, [user]);
 
-  const handleDeleteBook = async (book: BookDocument) => {
+  const handleDeleteBook = async (book: BookSummary) => {
     if (window.confirm(`Are you sure you want to delete the book "${book.title}"?`)) {
       try {
         await deleteBook(book);
-        setBooks(prevBooks => prevBooks.filter(b => b.id !== book.id));
+        // Reload the page so it fills up with the books after it
+        fetchAuthorContent(pageCursors);
       } catch (error) {
         console.error('Error deleting book:', error);
       }
     }
   };
 
-  const handleEditBook = (book: BookDocument) => {
+  // Submit a draft for review, withdraw it or unpublish a book; PublishControls reports failures
+  const handleStatusChange = async (book: BookSummary, status: PublishStatus, publishAt?: number) => {
+    await updateBookStatus(book.id!, status, publishAt);
+    setBooks(prevBooks => prevBooks.map(b => (b.id === book.id ? { ...b, status, publishAt } : b)));
+  };
+
+  const handleEditBook = (book: BookSummary) => {
     // Navigate to the manage episodes page where you can edit the book
     console.log('📝 Navigating to edit book:', book.id);
     router.push(`/manage-episodes/${book.id}`);
@@ -129,11 +98,6 @@ export default function AuthorContentManagement() {
     book.author.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  // Calculate total episodes across all books
-  const totalEpisodes = books.reduce((sum, book) => sum + (book.chapters?.length || 0), 0);
-
-
-
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -170,7 +134,7 @@ export default function AuthorContentManagement() {
               <div className="relative">
                 <input
                   type="text"
-                  placeholder="Search my content..."
+                  placeholder="Search this page..."
                   className="px-4 py-2 border border-[#333333] rounded-lg bg-[#1F1F1F] text-white focus:outline-none focus:ring-2 focus:ring-[#FF0000]"
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
@@ -190,7 +154,7 @@ export default function AuthorContentManagement() {
           <div className="mb-4 p-3 bg-[#2a2a2a] border border-[#444444] rounded text-xs">
             <p className="text-gray-400">
               <strong>Debug Info:</strong> User ID: {user?.uid || 'Not logged in'} |
-              Books Found: {books.length} |
+              Books Found: {totals.books} |
               Filtered Books: {filteredBooks.length}
             </p>
           </div>
@@ -199,15 +163,15 @@ export default function AuthorContentManagement() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
               <div className="bg-[#1F1F1F] border border-[#333333] rounded-lg p-4">
                 <h4 className="text-sm font-medium text-gray-400">Total Books</h4>
-                <p className="text-2xl font-bold text-[#FF0000]">{books.length}</p>
+                <p className="text-2xl font-bold text-[#FF0000]">{totals.books}</p>
               </div>
               <div className="bg-[#1F1F1F] border border-[#333333] rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-400">Total Episodes</h4>
-                <p className="text-2xl font-bold text-[#FF0000]">{totalEpisodes}</p>
+                <h4 className="text-sm font-medium text-gray-400">Total Likes</h4>
+                <p className="text-2xl font-bold text-[#FF0000]">{totals.likes}</p>
               </div>
               <div className="bg-[#1F1F1F] border border-[#333333] rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-400">Avg Episodes/Book</h4>
-                <p className="text-2xl font-bold text-[#FF0000]">{books.length > 0 ? Math.round(totalEpisodes / books.length) : 0}</p>
+                <h4 className="text-sm font-medium text-gray-400">Total Saves</h4>
+                <p className="text-2xl font-bold text-[#FF0000]">{totals.saves}</p>
               </div>
             </div>
             <div className="overflow-x-auto">
@@ -215,6 +179,7 @@ export default function AuthorContentManagement() {
                 <thead className="bg-black">
                   <tr>
                     <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Book</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Status</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Episodes</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Created</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-[#FF0000] uppercase tracking-wider">Actions</th>
@@ -223,7 +188,7 @@ export default function AuthorContentManagement() {
                 <tbody className="divide-y divide-gray-700">
                   {filteredBooks.length === 0 ? (
                     <tr>
-                      <td colSpan={4} className="px-6 py-8 text-center text-gray-400">
+                      <td colSpan={5} className="px-6 py-8 text-center text-gray-400">
                         {books.length === 0 ? (
                           <div>
                             <p className="text-lg mb-2">📚 No books found</p>
@@ -255,9 +220,13 @@ export default function AuthorContentManagement() {
                             <div className="font-medium text-white">{book.title}</div>
                           </div>
                         </td>
+                        <td className="px-6 py-4">
+                          <PublishStatusBadge item={book} className="mb-2" />
+                          <PublishControls item={book} canPublish={isAdmin} onChange={(status, publishAt) => handleStatusChange(book, status, publishAt)} />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className="px-2 py-1 bg-black text-[#FF0000] border border-[#FF0000] rounded-full text-xs">
-                            {book.chapters?.length || 0} episodes
+                            {book.chapterCount} episodes
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-white">
@@ -292,6 +261,23 @@ export default function AuthorContentManagement() {
                 </tbody>
               </table>
             </div>
+            <div className="flex justify-between items-center mt-4">
+              <button
+                onClick={() => fetchAuthorContent(pageCursors.slice(0, -1))}
+                disabled={pageCursors.length === 1}
+                className="px-4 py-2 bg-black text-white border border-[#333333] rounded hover:border-[#FF0000] transition-colors disabled:opacity-40"
+              >
+                ← Previous
+              </button>
+              <span className="text-sm text-gray-400">Page {pageCursors.length}</span>
+              <button
+                onClick={() => nextCursor && fetchAuthorContent([...pageCursors, nextCursor])}
+                disabled={!nextCursor}
+                className="px-4 py-2 bg-black text-white border border-[#333333] rounded hover:border-[#FF0000] transition-colors disabled:opacity-40"
+              >
+                Next →
+              </button>
+            </div>
           </div>
         </>
       )}
@@ -4,22 +4,32 @@ import { useState } from 'react';
 import AuthorStats from './AuthorStats';
 import AuthorContentManagement from './AuthorContentManagement';
 import AuthorBookForm from './AuthorBookForm';
+import BookImport from '@/components/book/BookImport';
+import { BookDocument, PublishStatus } from '@/firebase/services';
 
 
-type TabType = 'stats' | 'content' | 'write';
+type TabType = 'stats' | 'content' | 'write' | 'import';
+
+// What the author is told once a book is saved, by the status it was saved with
+const SAVED_MESSAGES: Record<PublishStatus, { title: string; detail: string }> = {
+  draft: { title: 'Draft Saved', detail: 'Only you and admins can see it. Submit it for review from My Content when it is ready.' },
+  inReview: { title: 'Book Submitted for Review', detail: 'An admin will review it before readers can see it. It shows as “In review” in My Content.' },
+  scheduled: { title: 'Book Scheduled', detail: 'Readers will see it once its publish time comes.' },
+  published: { title: 'Book Published Successfully!', detail: 'Readers can find it now.' }
+};
 
 export default function AuthorDashboard() {
   const [activeTab, setActiveTab] = useState<TabType>('stats');
-  const [bookSuccess, setBookSuccess] = useState(false);
+  const [savedStatus, setSavedStatus] = useState<PublishStatus | null>(null);
 
   // Handle successful book creation
-  const handleBookSuccess = () => {
-    setBookSuccess(true);
-    // Reset after 2 seconds
+  const handleBookSuccess = (book: BookDocument) => {
+    setSavedStatus(book.status || 'draft');
+    // Reset after 4 seconds, leaving time to read where the book went
     setTimeout(() => {
-      setBookSuccess(false);
+      setSavedStatus(null);
       setActiveTab('content');
-    }, 2000);
+    }, 4000);
   };
   
  
@@ -58,6 +68,16 @@ export default function AuthorDashboard() {
         >
           Write Book
         </button>
+        <button
+          onClick={() => setActiveTab('import')}
+          className={`px-6 py-3 text-sm font-medium ${
+            activeTab === 'import'
+              ? 'border-b-2 border-[#FF0000] text-[#FF0000]'
+              : 'text-white hover:bg-[#303030] transition-colors'
+          }`}
+        >
+          Import Book
+        </button>
       </div>
 
       {/* Tab Content */}
@@ -65,15 +85,27 @@ export default function AuthorDashboard() {
         {activeTab === 'stats' && <AuthorStats />}
         {activeTab === 'content' && <AuthorContentManagement />}
         {activeTab === 'write' && (
-          bookSuccess ? (
+          savedStatus ? (
             <div className="max-w-md mx-auto p-6 bg-[#303030] border border-[#FF0000] rounded-lg text-center">
-              <h2 className="text-2xl font-bold text-white mb-2">Book Published Successfully!</h2>
+              <h2 className="text-2xl font-bold text-white mb-2">{SAVED_MESSAGES[savedStatus].title}</h2>
+              <p className="text-gray-300 mb-2">{SAVED_MESSAGES[savedStatus].detail}</p>
               <p className="text-gray-300">Redirecting to my content...</p>
             </div>
           ) : (
             <AuthorBookForm onSuccess={handleBookSuccess} />
           )
         )}
+        {activeTab === 'import' && (
+          savedStatus ? (
+            <div className="max-w-md mx-auto p-6 bg-[#303030] border border-[#FF0000] rounded-lg text-center">
+              <h2 className="text-2xl font-bold text-white mb-2">Book Imported Successfully!</h2>
+              <p className="text-gray-300 mb-2">{SAVED_MESSAGES[savedStatus].detail}</p>
+              <p className="text-gray-300">Redirecting to my content...</p>
+            </div>
+          ) : (
+            <BookImport onSuccess={handleBookSuccess} />
+          )
+        )}
       </div>
     </div>
   );
@@ -41,11 +41,11 @@ export default function AuthorStats() {
         const booksSnapshot = await getDocs(booksQuery);
         const bookIds = booksSnapshot.docs.map(doc => doc.id);
         
-        // Count total episodes across all books
+        // Count total episodes across all books (counted on the book once its chapters are in the subcollection)
         let totalEpisodes = 0;
         booksSnapshot.forEach(doc => {
           const book = doc.data();
-          totalEpisodes += book.chapters?.length || 0;
+          totalEpisodes += book.chapters?.length ?? book.chapterCount ?? 0;
         });
 
         // Get total likes for author's books
@@ -78,7 +78,7 @@ export default function AuthorStats() {
         let recentEpisodes = 0;
         recentBooksSnapshot.forEach(doc => {
           const book = doc.data();
-          recentEpisodes += book.chapters?.length || 0;
+          recentEpisodes += book.chapters?.length ?? book.chapterCount ?? 0;
         });
 
         // Get recent likes (last 7 days)
@@ -0,0 +1,189 @@
+/**
+ * @file This file defines the AnnotationsPanel component, which lists the reader's bookmarks and
+ * highlights in the chapter on screen. Each entry jumps back to its paragraph or narration time,
+ * and can carry a note. The panel can also bookmark the current narration time.
+ *
+ * @integration Used on the `/book/[id]` and `/read/[id]` pages with `useBookAnnotations`.
+ * `AnnotationItem` is shared with the "My notes" page (`/notes`).
+ */
+'use client';
+
+import { useState } from 'react';
+import { FaBookmark, FaHighlighter, FaTrash } from 'react-icons/fa';
+import { Annotation } from '@/firebase/annotationService';
+import { formatPlaybackTime } from '@/components/audio/PlaybackControls';
+
+interface AnnotationItemProps {
+  annotation: Annotation;
+  onJump: (annotation: Annotation) => void;
+  onUpdateNote: (annotationId: string, note: string) => void;
+  onDelete: (annotationId: string) => void;
+}
+
+/**
+ * A bookmark or highlight with its note
+ */
+export const AnnotationItem = ({ annotation, onJump, onUpdateNote, onDelete }: AnnotationItemProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [note, setNote] = useState(annotation.note || '');
+
+  const handleSave = () => {
+    if (annotation.id) onUpdateNote(annotation.id, note);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="bg-[#333333] rounded-md p-3 text-sm">
+      <div className="flex items-start gap-2">
+        {annotation.type === 'highlight'
+          ? <FaHighlighter className="text-yellow-300 mt-1 flex-shrink-0" />
+          : <FaBookmark className="text-primary mt-1 flex-shrink-0" />}
+        <button
+          type="button"
+          onClick={() => onJump(annotation)}
+          className="flex-1 min-w-0 text-left text-gray-200 hover:text-white"
+          title="Go to this point"
+        >
+          {annotation.chapterTitle && (
+            <span className="block text-xs text-gray-400 truncate">{annotation.chapterTitle}</span>
+          )}
+          {annotation.text ? (
+            <span className={`line-clamp-3 ${annotation.type === 'highlight' ? 'italic' : ''}`}>
+              {annotation.type === 'highlight' ? `“${annotation.text}”` : annotation.text}
+            </span>
+          ) : (
+            <span>Bookmark</span>
+          )}
+          {annotation.audioTime !== undefined && (
+            <span className="block text-xs text-primary-light mt-1">at {formatPlaybackTime(annotation.audioTime)}</span>
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={() => annotation.id && onDelete(annotation.id)}
+          className="p-1 text-gray-500 hover:text-red-500 transition-colors"
+          aria-label="Delete"
+        >
+          <FaTrash className="h-3 w-3" />
+        </button>
+      </div>
+
+      {isEditing ? (
+        <div className="mt-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            className="w-full bg-[#1F1F1F] border border-gray-700 rounded-md p-2 text-white text-sm"
+            placeholder="Write a note..."
+            autoFocus
+          />
+          <div className="flex justify-end gap-2 mt-1">
+            <button
+              type="button"
+              onClick={() => {
+                setNote(annotation.note || '');
+                setIsEditing(false);
+              }}
+              className="text-xs px-2 py-1 text-gray-400 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="text-xs px-3 py-1 bg-primary text-white rounded hover:bg-primary-dark"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : annotation.note ? (
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="block w-full text-left mt-2 pl-6 text-gray-300 whitespace-pre-wrap hover:text-white"
+          title="Edit note"
+        >
+          {annotation.note}
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="mt-1 pl-6 text-xs text-gray-400 hover:text-primary-light"
+        >
+          + Add note
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[];
+  onJump: (annotation: Annotation) => void;
+  onUpdateNote: (annotationId: string, note: string) => void;
+  onDelete: (annotationId: string) => void;
+  onBookmarkTime?: () => void;  // Shown while the narration of this content is playing
+  currentTime?: number;
+  error?: string | null;
+  className?: string;
+}
+
+const AnnotationsPanel = ({
+  annotations,
+  onJump,
+  onUpdateNote,
+  onDelete,
+  onBookmarkTime,
+  currentTime = 0,
+  error,
+  className = ''
+}: AnnotationsPanelProps) => {
+  // In reading order
+  const sortedAnnotations = [...annotations].sort((a, b) =>
+    (a.paragraphIndex ?? Infinity) - (b.paragraphIndex ?? Infinity)
+    || (a.audioTime ?? 0) - (b.audioTime ?? 0)
+    || a.createdAt - b.createdAt
+  );
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-bold text-white">Notes</h2>
+        {onBookmarkTime && (
+          <button
+            type="button"
+            onClick={onBookmarkTime}
+            className="flex items-center gap-1 text-xs bg-primary text-white px-2 py-1 rounded hover:bg-primary-dark transition-colors"
+          >
+            <FaBookmark /> Bookmark {formatPlaybackTime(currentTime)}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+
+      {sortedAnnotations.length > 0 ? (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {sortedAnnotations.map((annotation) => (
+            <AnnotationItem
+              key={annotation.id}
+              annotation={annotation}
+              onJump={onJump}
+              onUpdateNote={onUpdateNote}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          Select text to highlight it, or use the bookmark beside a paragraph.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationsPanel;
@@ -0,0 +1,65 @@
+/**
+ * @file This file defines the BecauseYouLikedRails component, which shows the signed-in
+ * user books picked from what they liked, saved and listened to: a "Picked for you" rail
+ * and a "Because you liked…" rail for each of their latest likes.
+ *
+ * @integration Used on the homepage below Continue Listening. Recommendations come from
+ * `/api/recommendations` with the user's ID token, which blends tag and mood similarity with what other
+ * readers liked (see utils/recommendations).
+ * Renders nothing for signed-out users or users without likes, saves or listening.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { UserRecommendations } from '@/utils/recommendations';
+import RecommendationRail from './RecommendationRail';
+
+const BecauseYouLikedRails = () => {
+  const { user } = useAuth();
+  const [recommendations, setRecommendations] = useState<UserRecommendations | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setRecommendations(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchRecommendations = async () => {
+      try {
+        const res = await fetch('/api/recommendations', {
+          headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to get recommendations');
+        if (!cancelled) setRecommendations(data);
+      } catch (err) {
+        console.error('Error fetching recommendations:', err);
+      }
+    };
+
+    fetchRecommendations();
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (!recommendations) return null;
+
+  return (
+    <>
+      <RecommendationRail label="Picked for you" books={recommendations.forYou} />
+      {recommendations.becauseYouLiked.map(rail => (
+        <RecommendationRail
+          key={rail.seed.id}
+          label={`Because you liked “${rail.seed.title}”`}
+          books={rail.books}
+          showReasons={false}
+        />
+      ))}
+    </>
+  );
+};
+
+export default BecauseYouLikedRails;
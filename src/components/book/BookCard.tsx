@@ -19,9 +19,12 @@ import LikeButton from './LikeButton';
 import SaveButton from './SaveButton';
 import ShareButton from './ShareButton';
 
+// Fields the card shows; full books, summaries and recommendations all have them
+export type BookCardBook = Pick<BookDocument, 'id' | 'title' | 'author' | 'thumbnailUrl' | 'tags'>;
+
 interface BookCardProps {
-  book: BookDocument;
-  onDelete?: (book: BookDocument) => void;
+  book: BookCardBook;
+  onDelete?: (book: BookCardBook) => void;
   isLandingPage?: boolean;
 }
 
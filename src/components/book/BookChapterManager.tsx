@@ -1,9 +1,14 @@
 /**
  * @file This file defines the BookChapterManager component, a client-side React component
  * for managing the chapters of a book. It allows for adding, updating, deleting, and
- * reordering chapters.
+ * reordering chapters, for editing the book's voice casting for multi-voice narration,
+ * for moving the book and each chapter through the publishing lifecycle, and for browsing
+ * and restoring the revisions of each chapter.
  *
  * @see ChapterEditor
+ * @see VoiceCastingEditor
+ * @see PublishControls
+ * @see RevisionHistory
  *
  * @integration This component is typically used on a book editing page, where an author
  * or administrator can manage the content of a book. It fetches the book data and
@@ -12,8 +17,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { BookDocument, Chapter, getBookById, addChapter, updateChapter, deleteChapter, reorderChapters } from '@/firebase/services';
+import { BookDocument, Chapter, PublishStatus, getBookById, addChapter, updateChapter, deleteChapter, reorderChapters, updateBookStatus, updateChapterStatus } from '@/firebase/services';
+import { useAuth } from '@/context/AuthContext';
 import ChapterEditor from './ChapterEditor';
+import VoiceCastingEditor from './VoiceCastingEditor';
+import PublishStatusBadge from './PublishStatusBadge';
+import PublishControls from './PublishControls';
+import RevisionHistory from './RevisionHistory';
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
 
 interface BookChapterManagerProps {
@@ -22,6 +32,7 @@ interface BookChapterManagerProps {
 }
 
 const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
+  const { isAdmin } = useAuth();
   const [book, setBook] = useState<BookDocument | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -34,6 +45,16 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
   });
   const [saving, setSaving] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Episodes ('new' for the one being added) whose unsaved text came from "Write with AI"
+  const [aiRewrittenIds, setAiRewrittenIds] = useState<string[]>([]);
+
+  const markAiRewritten = (id: string) => {
+    setAiRewrittenIds(ids => (ids.includes(id) ? ids : [...ids, id]));
+  };
+
+  const clearAiRewritten = (id: string) => {
+    setAiRewrittenIds(ids => ids.filter(rewrittenId => rewrittenId !== id));
+  };
 
   // Fetch book data
   useEffect(() => {
@@ -79,10 +100,13 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
         title: newChapter.title,
         content: newChapter.content,
         order: chapters.length, // Add to the end
-        audioUrl: newChapter.audioUrl || '' // Include audioUrl when adding
-      });
+        audioUrl: newChapter.audioUrl || '', // Include audioUrl when adding
+        ...(newChapter.audioUrl && newChapter.timingManifest && { timingManifest: newChapter.timingManifest }),
+        ...(newChapter.audioUrl && newChapter.musicSelections && { musicSelections: newChapter.musicSelections })
+      }, aiRewrittenIds.includes('new') ? 'aiRewrite' : 'manual');
 
       // Update local state
+      clearAiRewritten('new');
       setChapters([...chapters, addedChapter]);
       setIsAddingChapter(false);
       setNewChapter({ title: '', content: '', order: 0 });
@@ -122,10 +146,13 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
       const updatedChapter = await updateChapter(bookId, chapter.id, {
         title: chapter.title,
         content: chapter.content,
-        audioUrl: chapter.audioUrl || '' // Include audioUrl in updates
-      });
+        audioUrl: chapter.audioUrl || '', // Include audioUrl in updates
+        ...(chapter.audioUrl && chapter.timingManifest && { timingManifest: chapter.timingManifest }),
+        ...(chapter.audioUrl && chapter.musicSelections && { musicSelections: chapter.musicSelections })
+      }, aiRewrittenIds.includes(chapter.id) ? 'aiRewrite' : 'manual');
 
       // Update local state
+      clearAiRewritten(chapter.id);
       const updatedChapters = [...chapters];
       updatedChapters[index] = updatedChapter;
       setChapters(updatedChapters);
@@ -188,6 +215,37 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
     }
   };
 
+  // Handle publishing, scheduling or unpublishing the book; PublishControls reports failures
+  const handleBookStatusChange = async (status: PublishStatus, publishAt?: number) => {
+    if (!book) return;
+    await updateBookStatus(bookId, status, publishAt);
+    setBook({ ...book, status, publishAt });
+  };
+
+  // Handle publishing, scheduling or unpublishing a chapter, keeping its unsaved edits
+  const handleChapterStatusChange = async (index: number, status: PublishStatus, publishAt?: number) => {
+    const chapter = chapters[index];
+    if (!chapter?.id) return;
+    await updateChapterStatus(bookId, chapter.id, status, publishAt);
+    const updatedChapters = [...chapters];
+    updatedChapters[index] = { ...chapter, status, publishAt };
+    setChapters(updatedChapters);
+  };
+
+  // Handle restoring a revision; the editor is remounted with the restored text
+  const handleRevisionRestored = (index: number, restoredChapter: Chapter) => {
+    const updatedChapters = [...chapters];
+    updatedChapters[index] = restoredChapter;
+    setChapters(updatedChapters);
+    if (restoredChapter.id) clearAiRewritten(restoredChapter.id);
+    setSuccessMessage('Episode restored successfully!');
+
+    // Clear success message after 3 seconds
+    setTimeout(() => {
+      setSuccessMessage(null);
+    }, 3000);
+  };
+
   // Handle reordering chapters
   const handleDragEnd = async (result: any) => {
     if (!result.destination || !bookId) return; // Dropped outside the list
@@ -274,6 +332,25 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
         </div>
       )}
 
+      {/* Publishing */}
+      {book && (
+        <div className="mb-6 p-4 border border-gray-700 rounded-lg bg-[#222222] flex flex-wrap items-center gap-3">
+          <span className="font-semibold">Book status</span>
+          <PublishStatusBadge item={book} />
+          <PublishControls item={book} canPublish={isAdmin} onChange={handleBookStatusChange} className="ml-auto" />
+        </div>
+      )}
+
+      {/* Voice Casting */}
+      {book && (
+        <VoiceCastingEditor
+          bookId={bookId}
+          storyText={chapters.map(chapter => chapter.content).join('\n\n') || book.content || ''}
+          voiceCasting={book.voiceCasting}
+          onSaved={(voiceCasting) => setBook({ ...book, voiceCasting })}
+        />
+      )}
+
       {/* Add New Chapter Form */}
       {isAddingChapter && (
         <div className="mb-6 p-4 border border-gray-700 rounded-lg bg-[#222222]">
@@ -282,6 +359,8 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
             chapter={newChapter}
             onChange={setNewChapter}
             isNew={true}
+            voiceCasting={book?.voiceCasting}
+            onAiRewrite={() => markAiRewritten('new')}
           />
           <div className="flex justify-end mt-4">
             <button
@@ -336,6 +415,7 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
                             </div>
                             <div className="flex-grow">
                               <ChapterEditor
+                                key={chapter.lastRevisionId || chapter.id}
                                 chapter={chapter}
                                 onChange={(updatedChapter) => {
                                   const updatedChapters = [...chapters];
@@ -343,8 +423,17 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
                                   setChapters(updatedChapters);
                                 }}
                                 onDelete={() => handleDeleteChapter(index)}
+                                voiceCasting={book?.voiceCasting}
+                                onAiRewrite={() => chapter.id && markAiRewritten(chapter.id)}
                               />
-                              <div className="flex justify-end mt-2">
+                              <div className="flex flex-wrap justify-end items-center gap-2 mt-2">
+                                <PublishStatusBadge item={chapter} />
+                                <PublishControls
+                                  item={chapter}
+                                  canPublish={isAdmin}
+                                  onChange={(status, publishAt) => handleChapterStatusChange(index, status, publishAt)}
+                                  className="mr-auto"
+                                />
                                 <button
                                   onClick={() => handleUpdateChapter(index)}
                                   className="px-4 py-2 bg-primary text-white rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
@@ -353,6 +442,11 @@ const BookChapterManager = ({ bookId, onSuccess }: BookChapterManagerProps) => {
                                   {saving ? 'Saving...' : 'Save Changes'}
                                 </button>
                               </div>
+                              <RevisionHistory
+                                bookId={bookId}
+                                chapter={chapter}
+                                onRestored={(restoredChapter) => handleRevisionRestored(index, restoredChapter)}
+                              />
                             </div>
                           </div>
                         </div>
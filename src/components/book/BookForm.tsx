@@ -13,7 +13,7 @@
 'use client';
 
 import { useState, useRef, useEffect, ChangeEvent, FormEvent } from 'react';
-import { uploadBookThumbnail, createBook, Chapter, BookDocument } from '@/firebase/services';
+import { uploadBookThumbnail, createBook, Chapter, BookDocument, NarrationTimingManifest, PublishStatus } from '@/firebase/services';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import TextAlign from '@tiptap/extension-text-align';
@@ -23,13 +23,14 @@ import ChaptersManager from './ChaptersManager';
 import EnhancedAudioNarrationButton from './EnhancedAudioNarrationButton';
 import { generateImageFromPrompt, generateConciseSummary, dataUrlToFile, rewriteAsStory } from '@/services/gemini';
 import { useAuth } from '@/context/AuthContext';
+import PublishStatusField, { CREATE_SUBMIT_LABELS, getDefaultCreateStatus } from './PublishStatusField';
 
 interface BookFormProps {
-  onSuccess?: () => void;
+  onSuccess?: (book: BookDocument) => void;
 }
 
 // Tiptap MenuBar component
-const MenuBar = ({ editor }: { editor: any }) => {
+const MenuBar = ({ editor, onAiRewrite }: { editor: any; onAiRewrite?: () => void }) => {
   if (!editor) {
     return null;
   }
@@ -58,6 +59,7 @@ const MenuBar = ({ editor }: { editor: any }) => {
 
       // Update the editor with the rewritten content
       editor.commands.setContent(rewrittenContent);
+      onAiRewrite?.();
 
       // Re-enable editing
       editor.setEditable(true);
@@ -187,7 +189,7 @@ const MenuBar = ({ editor }: { editor: any }) => {
 }
 
 const BookForm = ({ onSuccess }: BookFormProps) => {
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const [title, setTitle] = useState('');
   const [titleError, setTitleError] = useState<string>('');
   const [content, setContent] = useState<string>('');
@@ -212,7 +214,11 @@ const BookForm = ({ onSuccess }: BookFormProps) => {
   const [publishMode, setPublishMode] = useState<'single' | 'episodes'>('single');
   const [bookId, setBookId] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [timingManifest, setTimingManifest] = useState<NarrationTimingManifest | null>(null);
   const [wordCount, setWordCount] = useState(0);
+  // Set when "Write with AI" rewrote the content, so the next save is recorded as an AI rewrite
+  const [aiRewritten, setAiRewritten] = useState(false);
+  const [status, setStatus] = useState<PublishStatus>(getDefaultCreateStatus(isAdmin));
 
   // Handle thumbnail selection
   const handleThumbnailChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -355,6 +361,11 @@ const BookForm = ({ onSuccess }: BookFormProps) => {
     }
   }, [uploading, editor]);
 
+  // The role loads after the form, so the default status follows it
+  useEffect(() => {
+    setStatus(getDefaultCreateStatus(isAdmin));
+  }, [isAdmin]);
+
   // Function to count words in HTML content
   const countWords = (htmlContent: string): number => {
     // Remove HTML tags and count words
@@ -504,12 +515,17 @@ const BookForm = ({ onSuccess }: BookFormProps) => {
         tags,
         thumbnailUrl,
         chapters: finalChapters,
-        audioUrl: audioUrl || '' // Ensure audioUrl is never undefined
+        audioUrl: audioUrl || '', // Ensure audioUrl is never undefined
+        ...(audioUrl && timingManifest && { timingManifest }),
+        // Authors submit for review or keep a draft; only admins publish
+        status: isAdmin ? status : status === 'draft' ? 'draft' : 'inReview'
       };
 
-      const result = await createBook(bookData);
+      const result = await createBook(bookData, aiRewritten ? 'aiRewrite' : 'manual');
 
       console.log('Book created successfully:', result);
+      // The rewrite is recorded; later saves are the author's own
+      setAiRewritten(false);
 
       // Store the book ID for audio narration
       if (result.id) {
@@ -529,7 +545,7 @@ const BookForm = ({ onSuccess }: BookFormProps) => {
 
       // Call onSuccess callback if provided
       if (onSuccess) {
-        onSuccess();
+        onSuccess(result);
       }
 
     } catch (err: any) {
@@ -767,7 +783,10 @@ const BookForm = ({ onSuccess }: BookFormProps) => {
                 <EnhancedAudioNarrationButton
                   text={content.replace(/<[^>]*>/g, ' ')} // Strip HTML tags for narration
                   bookId={bookId || undefined}
-                  onSuccess={(url) => setAudioUrl(url)}
+                  onSuccess={(url, manifest) => {
+                    setAudioUrl(url);
+                    setTimingManifest(manifest || null);
+                  }}
                   className="text-sm"
                 />
               )}
@@ -781,7 +800,7 @@ const BookForm = ({ onSuccess }: BookFormProps) => {
                 </div>
               ) : (
                 <div className="bg-[#2a2a2a]">
-                  <MenuBar editor={editor} />
+                  <MenuBar editor={editor} onAiRewrite={() => setAiRewritten(true)} />
                   <EditorContent editor={editor} className="prose-invert" />
                 </div>
               )}
@@ -827,13 +846,16 @@ const BookForm = ({ onSuccess }: BookFormProps) => {
           </div>
         )}
 
+        {/* Publish status */}
+        <PublishStatusField value={status} onChange={setStatus} canPublish={isAdmin} disabled={uploading} />
+
         {/* Submit Button */}
         <button
           type="submit"
           disabled={uploading}
           className="w-full bg-primary text-white py-2 px-4 rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
-          {uploading ? 'Publishing...' : 'Publish Book'}
+          {uploading ? 'Saving...' : CREATE_SUBMIT_LABELS[status]}
           <span className="ml-2">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
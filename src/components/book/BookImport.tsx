@@ -0,0 +1,495 @@
+/**
+ * @file This file defines the BookImport component, which creates a book from an EPUB or Word
+ * (.docx) file, or converts an uploaded PDF. The file is read in the browser; its title, author,
+ * description, subjects, cover and chapters fill a preview where the author adjusts the details,
+ * renames, reorders, merges or leaves out chapters, and chooses whether paragraphs are marked
+ * for narration.
+ *
+ * @integration Shown in the "Import Book" tab of the author and admin dashboards, and for the
+ * "Convert to Book" action on PDFs in `ContentManagement`. Files are parsed by utils/bookImport,
+ * PDFs by utils/pdfImport. The book is saved with `createBook` as a draft, its chapters starting
+ * their revision history as imported (see firebase/revisionService); a converted PDF and its
+ * book point to each other through `bookId` and `sourcePdfId`.
+ */
+'use client';
+
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import Image from 'next/image';
+import { createBook, updatePdf, uploadBookThumbnail, BookDocument, Chapter, PdfDocument } from '@/firebase/services';
+import { IMPORT_FILE_ACCEPT, ImportFormat, ImportedBook, importBookFile, markNarrationParagraphs } from '@/utils/bookImport';
+import { importPdfBook } from '@/utils/pdfImport';
+import { useAuth } from '@/context/AuthContext';
+
+interface BookImportProps {
+  onSuccess?: (book: BookDocument) => void;
+  pdf?: PdfDocument; // Converts this PDF instead of asking for a file
+}
+
+// A chapter in the preview
+interface ChapterDraft {
+  key: number; // Stays the same when chapters are moved or merged
+  title: string;
+  content: string;
+  included: boolean;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-[#2a2a2a] text-white';
+const smallButtonClass = 'px-2 py-1 rounded text-xs bg-[#333333] text-gray-200 hover:bg-[#444444] transition-colors disabled:opacity-50';
+
+const countWords = (html: string) => html.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length;
+
+const BookImport = ({ onSuccess, pdf }: BookImportProps) => {
+  const { user, profile } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [reading, setReading] = useState(false);
+  const [pageProgress, setPageProgress] = useState<{ read: number; total: number } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const [title, setTitle] = useState('');
+  const [author, setAuthor] = useState('');
+  const [description, setDescription] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [cover, setCover] = useState<File | null>(null);
+  const [chapters, setChapters] = useState<ChapterDraft[]>([]);
+  const [markParagraphs, setMarkParagraphs] = useState(true);
+  const [previewKey, setPreviewKey] = useState<number | null>(null);
+
+  const coverPreview = useMemo(() => (cover ? URL.createObjectURL(cover) : null), [cover]);
+  useEffect(() => () => {
+    if (coverPreview) URL.revokeObjectURL(coverPreview);
+  }, [coverPreview]);
+
+  const includedCount = chapters.filter(chapter => chapter.included).length;
+
+  const reset = () => {
+    setFileName('');
+    setFormat(null);
+    setTitle('');
+    setAuthor('');
+    setDescription('');
+    setTagsInput('');
+    setCover(null);
+    setChapters([]);
+    setPreviewKey(null);
+    setUploadProgress(0);
+  };
+
+  const showImportedBook = (book: ImportedBook, name: string) => {
+    setFileName(name);
+    setFormat(book.format);
+    setTitle(book.title);
+    setAuthor(book.author);
+    setDescription(book.description);
+    setTagsInput(book.tags.join(', '));
+    setCover(book.cover);
+    setChapters(book.chapters.map((chapter, index) => ({ ...chapter, key: index, included: true })));
+    setPreviewKey(null);
+  };
+
+  // Converting starts as soon as a PDF is given; the details saved with the PDF win over its metadata
+  useEffect(() => {
+    if (!pdf) return;
+
+    let cancelled = false;
+    const convertPdf = async () => {
+      const name = pdf.name || `${pdf.title}.pdf`;
+      try {
+        setReading(true);
+        setError(null);
+        const book = await importPdfBook(pdf.fileUrl, name, (read, total) => {
+          if (!cancelled) setPageProgress({ read, total });
+        });
+        let cover = book.cover;
+        if (pdf.thumbnailUrl) {
+          try {
+            const response = await fetch(pdf.thumbnailUrl);
+            const blob = await response.blob();
+            if (response.ok) cover = new File([blob], pdf.thumbnailUrl.split('/').pop()?.split('?')[0] || 'cover', { type: blob.type });
+          } catch (err) {
+            console.warn('Could not load the PDF thumbnail, using its first page as cover:', err);
+          }
+        }
+
+        if (cancelled) return;
+        // Unlike files, the author is not defaulted to whoever converts the PDF, often an admin
+        showImportedBook({
+          ...book,
+          title: pdf.title || book.title,
+          author: pdf.author && pdf.author !== 'Unknown' ? pdf.author : book.author,
+          description: pdf.description || book.description,
+          tags: pdf.tags?.length ? pdf.tags : book.tags,
+          cover
+        }, name);
+      } catch (err) {
+        console.error('Error converting PDF:', err);
+        if (!cancelled) setError(`Failed to convert ${name}: ${(err as Error).message}`);
+      } finally {
+        if (!cancelled) {
+          setReading(false);
+          setPageProgress(null);
+        }
+      }
+    };
+
+    convertPdf();
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be chosen again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setReading(true);
+      setError(null);
+      const book = await importBookFile(file);
+      showImportedBook({ ...book, author: book.author || profile?.displayName || '' }, file.name);
+    } catch (err) {
+      console.error('Error importing book:', err);
+      setError(`Failed to read ${file.name}: ${(err as Error).message}`);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleCoverChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.includes('image/')) {
+      setError('Please select an image file');
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      setError('Image size should be less than 5MB');
+      return;
+    }
+
+    setCover(file);
+    setError(null);
+  };
+
+  const updateDraft = (key: number, changes: Partial<ChapterDraft>) => {
+    setChapters(prev => prev.map(chapter => (chapter.key === key ? { ...chapter, ...changes } : chapter)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setChapters(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  // Join a chapter to the one before it, for files that split a chapter over several parts
+  const mergeIntoPrevious = (index: number) => {
+    setChapters(prev => {
+      const next = [...prev];
+      next[index - 1] = { ...next[index - 1], content: next[index - 1].content + next[index].content };
+      next.splice(index, 1);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!user) {
+      setError('You must be logged in to import a book');
+      return;
+    }
+
+    const includedChapters = chapters.filter(chapter => chapter.included);
+    const tags = tagsInput
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0);
+
+    if (!title.trim()) {
+      setError('Please enter a book title');
+      return;
+    }
+    if (!author.trim()) {
+      setError('Please enter an author name');
+      return;
+    }
+    if (!description.trim()) {
+      setError('Please enter a book description/summary');
+      return;
+    }
+    if (tags.length === 0) {
+      setError('Please add at least one tag');
+      return;
+    }
+    if (!cover) {
+      setError('Please select a cover image');
+      return;
+    }
+    if (includedChapters.length === 0) {
+      setError('Please include at least one chapter');
+      return;
+    }
+    if (includedChapters.some(chapter => !chapter.title.trim())) {
+      setError('Every included chapter needs a title');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const thumbnailUrl = await uploadBookThumbnail(cover, progress => {
+        setUploadProgress(progress);
+      });
+
+      const timestamp = Date.now();
+      const bookChapters: Chapter[] = includedChapters.map((chapter, index) => ({
+        title: chapter.title.trim(),
+        content: markParagraphs ? markNarrationParagraphs(chapter.content) : chapter.content,
+        order: index,
+        createdAt: timestamp,
+        audioUrl: ''
+      }));
+
+      const book = await createBook({
+        title: title.trim(),
+        content: '',
+        description: description.trim(),
+        author: author.trim(),
+        authorId: user.uid,
+        tags,
+        thumbnailUrl,
+        chapters: bookChapters,
+        audioUrl: '',
+        ...(pdf?.id ? { sourcePdfId: pdf.id } : {})
+      }, 'import');
+      if (pdf?.id) await updatePdf(pdf.id, { bookId: book.id });
+
+      reset();
+      onSuccess?.(book);
+    } catch (err) {
+      console.error('Error creating imported book:', err);
+      setError(`Failed to create book: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-[#1F1F1F] rounded-lg shadow-md text-white">
+      <h2 className="text-2xl font-bold mb-2">{pdf ? 'Convert a PDF to a Book' : 'Import a Book'}</h2>
+      <p className="text-sm text-gray-400 mb-6">
+        {pdf
+          ? 'The text of each page is read from the PDF, without running headers, footers and page numbers, and split into chapters at its headings. Check the chapters before the book is created.'
+          : 'Create a book from an EPUB or Word (.docx) file. Its chapters, title, author and cover are read from the file, and you can adjust them before the book is created.'}
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900 border border-red-700 text-white rounded">
+          {error}
+        </div>
+      )}
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        className="hidden"
+        accept={IMPORT_FILE_ACCEPT}
+        disabled={reading || saving}
+      />
+
+      {chapters.length === 0 && pdf ? (
+        <div className="p-8 border-2 border-dashed border-gray-600 rounded-lg text-center text-gray-300">
+          {reading
+            ? pageProgress
+              ? `Reading page ${pageProgress.read} of ${pageProgress.total}...`
+              : 'Opening PDF...'
+            : `${pdf.name || pdf.title} could not be converted.`}
+        </div>
+      ) : chapters.length === 0 ? (
+        <div className="p-8 border-2 border-dashed border-gray-600 rounded-lg text-center">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={reading}
+            className="px-4 py-2 bg-primary text-white rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {reading ? 'Reading file...' : 'Choose EPUB or DOCX File'}
+          </button>
+          <p className="text-sm text-gray-400 mt-3">
+            EPUB chapters follow the book&apos;s table of contents; Word documents are split at their headings.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-6 p-3 bg-[#2a2a2a] rounded">
+            <span className="text-sm text-gray-300">
+              Read from <span className="font-medium text-white">{fileName}</span>
+              {format && ` (${format.toUpperCase()})`}: {chapters.length} chapters
+            </span>
+            {!pdf && (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={reading || saving}
+                className="px-3 py-1 text-sm bg-[#333333] text-white rounded hover:bg-[#444444] transition-colors disabled:opacity-50"
+              >
+                {reading ? 'Reading file...' : 'Choose Another File'}
+              </button>
+            )}
+          </div>
+
+          <div className="grid md:grid-cols-[1fr_auto] gap-6 mb-6">
+            <div>
+              <div className="mb-4">
+                <label htmlFor="import-title" className="block text-sm font-medium text-gray-300 mb-1">
+                  Book Title *
+                </label>
+                <input id="import-title" type="text" value={title} onChange={e => setTitle(e.target.value)} className={inputClass} disabled={saving} />
+              </div>
+              <div className="mb-4">
+                <label htmlFor="import-author" className="block text-sm font-medium text-gray-300 mb-1">
+                  Author Name *
+                </label>
+                <input id="import-author" type="text" value={author} onChange={e => setAuthor(e.target.value)} className={inputClass} disabled={saving} />
+              </div>
+              <div className="mb-4">
+                <label htmlFor="import-description" className="block text-sm font-medium text-gray-300 mb-1">
+                  Book Description/Summary *
+                </label>
+                <textarea
+                  id="import-description"
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                  className={inputClass}
+                  rows={4}
+                  placeholder="Enter a summary or description of your book"
+                  disabled={saving}
+                />
+              </div>
+              <div className="mb-4">
+                <label htmlFor="import-tags" className="block text-sm font-medium text-gray-300 mb-1">
+                  Tags (comma separated) *
+                </label>
+                <input
+                  id="import-tags"
+                  type="text"
+                  value={tagsInput}
+                  onChange={e => setTagsInput(e.target.value)}
+                  className={inputClass}
+                  placeholder="fiction, fantasy, adventure"
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col items-center gap-2">
+              <span className="text-sm font-medium text-gray-300">Cover *</span>
+              <div className="relative aspect-[9/16] h-60 border border-gray-600 rounded overflow-hidden bg-[#2a2a2a]">
+                {coverPreview ? (
+                  <Image src={coverPreview} alt="Cover preview" fill unoptimized className="object-cover" />
+                ) : (
+                  <span className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-gray-400">
+                    {pdf ? 'The PDF has no cover' : 'The file has no cover'}
+                  </span>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => coverInputRef.current?.click()}
+                disabled={saving}
+                className="px-4 py-2 bg-[#333333] text-white rounded hover:bg-[#444444] transition-colors disabled:bg-[#222222]"
+              >
+                {cover ? 'Replace Image' : 'Select Image'}
+              </button>
+              <input type="file" ref={coverInputRef} onChange={handleCoverChange} className="hidden" accept="image/*" disabled={saving} />
+            </div>
+          </div>
+
+          <label className="flex items-start gap-2 mb-6 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={markParagraphs}
+              onChange={e => setMarkParagraphs(e.target.checked)}
+              disabled={saving}
+              className="mt-1"
+            />
+            <span>
+              Mark every paragraph for narration. Adds the <code className="px-1 bg-[#333333] rounded">$</code> paragraph
+              delimiter, so each paragraph is narrated on its own.
+            </span>
+          </label>
+
+          <h3 className="text-lg font-semibold mb-2">Chapters ({includedCount} of {chapters.length} included)</h3>
+          <ul className="space-y-2 mb-6">
+            {chapters.map((chapter, index) => (
+              <li key={chapter.key} className={`p-3 rounded border border-gray-700 ${chapter.included ? 'bg-[#2a2a2a]' : 'bg-[#222222] opacity-60'}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={chapter.included}
+                    onChange={e => updateDraft(chapter.key, { included: e.target.checked })}
+                    disabled={saving}
+                    title="Include this chapter"
+                  />
+                  <span className="w-8 text-right text-sm text-gray-400">{index + 1}.</span>
+                  <input
+                    type="text"
+                    value={chapter.title}
+                    onChange={e => updateDraft(chapter.key, { title: e.target.value })}
+                    className="flex-1 min-w-[12rem] px-2 py-1 border border-gray-600 rounded bg-[#1F1F1F] text-white text-sm"
+                    disabled={saving}
+                  />
+                  <span className="text-xs text-gray-400">{countWords(chapter.content)} words</span>
+                  <button type="button" onClick={() => moveDraft(index, -1)} disabled={saving || index === 0} className={smallButtonClass} title="Move up">
+                    ↑
+                  </button>
+                  <button type="button" onClick={() => moveDraft(index, 1)} disabled={saving || index === chapters.length - 1} className={smallButtonClass} title="Move down">
+                    ↓
+                  </button>
+                  <button type="button" onClick={() => mergeIntoPrevious(index)} disabled={saving || index === 0} className={smallButtonClass} title="Add this text to the end of the chapter above">
+                    Merge Up
+                  </button>
+                  <button type="button" onClick={() => setPreviewKey(previewKey === chapter.key ? null : chapter.key)} className={smallButtonClass}>
+                    {previewKey === chapter.key ? 'Hide' : 'Preview'}
+                  </button>
+                </div>
+                {previewKey === chapter.key && (
+                  // The content is rebuilt from escaped text and a fixed set of tags, see utils/bookImport
+                  <div
+                    className="mt-3 p-4 max-h-96 overflow-y-auto rounded bg-[#1F1F1F] prose prose-invert max-w-none text-white"
+                    dangerouslySetInnerHTML={{ __html: chapter.content }}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={saving || reading}
+              className="px-6 py-2 bg-primary text-white rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {saving ? `Creating... ${uploadProgress > 0 && uploadProgress < 100 ? `${Math.round(uploadProgress)}%` : ''}` : 'Create Book'}
+            </button>
+            <span className="text-sm text-gray-400">The book starts as a draft; publish it from your content list.</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BookImport;
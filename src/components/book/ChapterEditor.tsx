@@ -23,7 +23,7 @@ import StarterKit from '@tiptap/starter-kit';
 import TextAlign from '@tiptap/extension-text-align';
 import Underline from '@tiptap/extension-underline';
 import Placeholder from '@tiptap/extension-placeholder';
-import { Chapter } from '@/firebase/services';
+import { Chapter, VoiceCasting } from '@/firebase/services';
 
 import EnhancedAudioNarrationButton from './EnhancedAudioNarrationButton';
 import { traceAudioUrl } from '@/utils/audioDebugger';
@@ -37,10 +37,12 @@ interface ChapterEditorProps {
   isNew?: boolean;
   episodeNumber?: number;
   useEnhancedNarration?: boolean;
+  voiceCasting?: VoiceCasting; // Character voices of the book for multi-voice narration
+  onAiRewrite?: () => void; // Called when "Write with AI" replaced the content, so the save is recorded as an AI rewrite
 }
 
 // Tiptap MenuBar component - reused from BookForm
-const MenuBar = ({ editor }: { editor: any }) => {
+const MenuBar = ({ editor, onAiRewrite }: { editor: any; onAiRewrite?: () => void }) => {
   if (!editor) {
     return null;
   }
@@ -69,6 +71,7 @@ const MenuBar = ({ editor }: { editor: any }) => {
 
       // Update the editor with the rewritten content
       editor.commands.setContent(rewrittenContent);
+      onAiRewrite?.();
 
       // Re-enable editing
       editor.setEditable(true);
@@ -203,7 +206,9 @@ const ChapterEditor = ({
   onDelete,
   isNew = false,
   episodeNumber = 1,
-  useEnhancedNarration = true
+  useEnhancedNarration = true,
+  voiceCasting,
+  onAiRewrite
 }: ChapterEditorProps) => {
   const [title, setTitle] = useState(chapter.title || '');
   const [content, setContent] = useState(chapter.content || '');
@@ -309,12 +314,15 @@ const ChapterEditor = ({
                 text={content.replace(/<[^>]*>/g, ' ')} // Strip HTML tags for narration
                 bookId={chapter.bookId as string}
                 chapterId={chapter.id}
-                onSuccess={(audioUrl) => {
+                voiceCasting={voiceCasting}
+                onSuccess={(audioUrl, timingManifest, musicSelections) => {
                   // Trace the audio URL to ensure it's a Firebase Storage URL
                   const tracedUrl = traceAudioUrl(audioUrl, 'ChapterEditor.onSuccessEnhanced');
                   onChange({
                     ...chapter,
-                    audioUrl: tracedUrl
+                    audioUrl: tracedUrl,
+                    ...(timingManifest && { timingManifest }),
+                    ...(musicSelections && { musicSelections })
                   });
                 }}
               />
@@ -322,12 +330,15 @@ const ChapterEditor = ({
               <EnhancedAudioNarrationButton
                 bookId={chapter.bookId || ''}
                 text={content.replace(/<[^>]*>/g, ' ')} // Strip HTML tags for narration
-                onSuccess={(audioUrl) => {
+                voiceCasting={voiceCasting}
+                onSuccess={(audioUrl, timingManifest, musicSelections) => {
                   // Trace the audio URL to ensure it's a Firebase Storage URL
                   const tracedUrl = traceAudioUrl(audioUrl, 'ChapterEditor.onSuccessNewEpisode');
                   onChange({
                     ...chapter,
-                    audioUrl: tracedUrl
+                    audioUrl: tracedUrl,
+                    ...(timingManifest && { timingManifest }),
+                    ...(musicSelections && { musicSelections })
                   });
                 }}
                 className="text-sm"
@@ -384,7 +395,7 @@ const ChapterEditor = ({
             </div>
           ) : (
             <div className="bg-[#2a2a2a]">
-              <MenuBar editor={editor} />
+              <MenuBar editor={editor} onAiRewrite={onAiRewrite} />
               <EditorContent editor={editor} className="prose-invert" />
             </div>
           )}
@@ -0,0 +1,140 @@
+/**
+ * @file This file defines the ContinueListeningRail component, a client-side React
+ * component that shows the books the signed-in user was most recently reading or
+ * listening to, with the chapter they were on and how far into its narration they got.
+ *
+ * @integration Used on the homepage above the featured collection. Progress is saved
+ * by the book page and the global player (see progressService), so the rail reflects
+ * listening on any device. The rail loads its own books, since the homepage only
+ * loads a page of summaries at a time.
+ * Renders nothing for signed-out users or users without saved progress.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { BookDocument, getBookById } from '@/firebase/services';
+import { getReaderView } from '@/utils/publishing';
+import { ReadingProgress, getRecentReadingProgress } from '@/firebase/progressService';
+import { useAuth } from '@/context/AuthContext';
+
+interface ContinueListeningRailProps {
+  maxItems?: number;
+}
+
+interface ContinueListeningItem {
+  book: BookDocument;
+  progress: ReadingProgress;
+  chapterTitle?: string;
+  percent: number;
+}
+
+/**
+ * Formats a position in seconds as m:ss
+ */
+const formatPosition = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds < 10 ? '0' : ''}${remainingSeconds}`;
+};
+
+const ContinueListeningRail = ({ maxItems = 10 }: ContinueListeningRailProps) => {
+  const { user } = useAuth();
+  const [progressList, setProgressList] = useState<ReadingProgress[]>([]);
+  const [books, setBooks] = useState<BookDocument[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      setProgressList([]);
+      setBooks([]);
+      return;
+    }
+
+    const fetchProgress = async () => {
+      try {
+        const recent = await getRecentReadingProgress(user.uid, maxItems);
+        const progressBooks = await Promise.all(recent.map(progress => getBookById(progress.bookId)));
+        // Books unpublished since they were listened to are skipped, like deleted ones
+        const readerBooks = progressBooks.map(book => (book ? getReaderView(book) : null));
+        setBooks(readerBooks.filter((book): book is BookDocument => !!book));
+        setProgressList(recent);
+      } catch (err) {
+        console.error('Error fetching reading progress:', err);
+      }
+    };
+
+    fetchProgress();
+  }, [user, maxItems]);
+
+  // Progress of books that no longer exist is skipped
+  const items: ContinueListeningItem[] = progressList.reduce<ContinueListeningItem[]>((result, progress) => {
+    const book = books.find(b => b.id === progress.bookId);
+    if (!book) return result;
+
+    const chapter = progress.chapterId ? book.chapters?.find(c => c.id === progress.chapterId) : undefined;
+    const percent = progress.audioDuration
+      ? Math.min(100, Math.round(((progress.audioPosition || 0) / progress.audioDuration) * 100))
+      : Math.round((progress.scrollPosition || 0) * 100);
+
+    result.push({ book, progress, chapterTitle: chapter?.title, percent });
+    return result;
+  }, []);
+
+  if (items.length === 0) return null;
+
+  return (
+    <section id="continue-listening" className="mb-8 pt-16">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-8 animate-fade-in">
+        <div className="mb-6 md:mb-0 animate-slide-up">
+          <div className="flex items-center mb-2">
+            <div className="w-10 h-1 bg-gradient-to-r from-primary to-orange rounded mr-3"></div>
+            <span className="text-primary-light uppercase tracking-wider text-sm font-semibold">Continue Listening</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto px-4 pb-4">
+        {items.map(({ book, progress, chapterTitle, percent }, index) => (
+          <Link
+            key={book.id}
+            href={`/book/${book.id}`}
+            className={`flex-shrink-0 w-72 flex bg-gray-900/30 backdrop-blur-sm rounded-xl overflow-hidden border border-gray-800 hover:border-primary/50 transition-all duration-300 hover:shadow-xl hover:shadow-primary/20 animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}
+          >
+            <div className="relative w-20 h-28 flex-shrink-0">
+              <Image
+                src={book.thumbnailUrl ?
+                  (book.thumbnailUrl.includes('cdn.tunetalez.com') ?
+                    book.thumbnailUrl :
+                    `https://cdn.tunetalez.com/thumbnails/book/${book.thumbnailUrl.split('/').pop()}`
+                  ) :
+                  '/images/book-placeholder.jpg'
+                }
+                alt={book.title}
+                fill
+                className="object-cover"
+                sizes="80px"
+              />
+            </div>
+            <div className="flex-1 min-w-0 p-3 flex flex-col justify-between">
+              <div>
+                <h3 className="text-white font-semibold truncate">{book.title}</h3>
+                {chapterTitle && <p className="text-gray-400 text-sm truncate">{chapterTitle}</p>}
+              </div>
+              <div>
+                <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-primary rounded-full" style={{ width: `${percent}%` }}></div>
+                </div>
+                <p className="text-gray-500 text-xs mt-1">
+                  {progress.audioPosition > 0 ? `Resume at ${formatPosition(progress.audioPosition)}` : `${percent}% read`}
+                </p>
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ContinueListeningRail;
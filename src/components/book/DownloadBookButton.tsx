@@ -0,0 +1,119 @@
+/**
+ * @file This file defines the DownloadBookButton component, which downloads a book's narration,
+ * text and cover for offline listening, shows the download progress, and removes the download.
+ *
+ * @integration Used on the book page. Downloads are managed by `utils/offlineDownloads.ts` and
+ * listed on the `/downloads` page. Renders nothing in browsers without offline support.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaCheckCircle, FaDownload } from 'react-icons/fa';
+import { BookDocument } from '@/firebase/services';
+import {
+  DownloadProgress,
+  DownloadedBook,
+  deleteDownloadedBook,
+  downloadBook,
+  formatDownloadSize,
+  getDownloadedBook,
+  isOfflineDownloadSupported
+} from '@/utils/offlineDownloads';
+
+interface DownloadBookButtonProps {
+  book: BookDocument;
+  className?: string;
+}
+
+const DownloadBookButton = ({ book, className = '' }: DownloadBookButtonProps) => {
+  const [supported, setSupported] = useState(false);
+  const [download, setDownload] = useState<DownloadedBook | null>(null);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!book.id || !isOfflineDownloadSupported()) return;
+    setSupported(true);
+
+    const checkDownload = async () => {
+      try {
+        setDownload(await getDownloadedBook(book.id!));
+      } catch (err) {
+        console.error('Error checking download:', err);
+      }
+    };
+
+    checkDownload();
+  }, [book.id]);
+
+  if (!supported) return null;
+
+  const handleDownload = async () => {
+    setError(null);
+    setProgress({ completed: 0, total: 1, label: 'Starting' });
+    try {
+      setDownload(await downloadBook(book, setProgress));
+    } catch (err) {
+      setError(`Download failed: ${(err as Error).message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!book.id || !window.confirm(`Remove the download of "${book.title}"?`)) return;
+
+    setError(null);
+    try {
+      await deleteDownloadedBook(book.id);
+      setDownload(null);
+    } catch (err) {
+      setError(`Failed to remove download: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className={className}>
+      {progress ? (
+        <div className="bg-[#333333] rounded-md p-3">
+          <div className="flex justify-between text-xs text-gray-300 mb-1">
+            <span className="truncate mr-2">Downloading {progress.label}</span>
+            <span>{progress.completed}/{progress.total}</span>
+          </div>
+          <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary rounded-full transition-[width] duration-300"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      ) : download ? (
+        <div className="flex items-center justify-between bg-[#333333] rounded-md px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 text-green-400">
+            <FaCheckCircle />
+            Downloaded · {formatDownloadSize(download.totalSize)}
+          </span>
+          <button
+            type="button"
+            onClick={handleRemove}
+            className="text-gray-400 hover:text-white text-xs"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="flex items-center justify-center gap-2 w-full bg-[#333333] text-white py-2 px-4 rounded-md hover:bg-[#444444] transition-colors text-sm"
+        >
+          <FaDownload />
+          Download Book
+        </button>
+      )}
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default DownloadBookButton;
@@ -9,39 +9,177 @@
  * @see ParagraphMetadataExtractor
  * @see stitchAudioWithBackground
  * @see getRandomBackgroundMusicForMetadata
+ * @see splitDialogueSpans
  *
  * @integration This component is used in views where high-quality audio narration is required,
  * such as the `BookForm` or `ChapterEditor`. It takes the text content, along with a
  * `bookId` or `chapterId`, and handles the entire audio generation and uploading
- * process, providing detailed progress feedback to the user.
+ * process, providing detailed progress feedback to the user. Texts of more than
+ * BROWSER_PARAGRAPH_LIMIT paragraphs of a saved book are narrated by a narration job
+ * on the server instead (`/api/narration`), which the button polls for progress.
  */
 'use client';
 
 import { useState } from 'react';
-import { generateAudio, arrayBufferToBlob, ContentMetadata } from '@/services/openai';
-import { uploadAudioNarration, updateBookAudio, updateChapterAudio } from '@/firebase/services';
+import { useAuth } from '@/context/AuthContext';
+import { generateAudio, arrayBufferToBlob, ContentMetadata, NARRATION_TTS_VOICE, NARRATION_TTS_SPEED, NARRATION_TTS_PROVIDER } from '@/services/openai';
+import { uploadAudioNarration, updateBookAudio, updateChapterAudio, getBookById, NarrationTimingManifest, VoiceCasting, BackgroundMusicSelection } from '@/firebase/services';
 import AudioPlayer from '@/components/audio/AudioPlayer';
 import { ensureR2Url, ensureR2HttpsUrl } from '@/utils/audioUtils';
 import { getBackgroundMusicForMetadata, getRandomBackgroundMusicForMetadata, BackgroundMusic } from '@/firebase/backgroundMusicService';
 import { stitchAudioWithBackground, estimateParagraphTimings, ParagraphTiming } from '@/utils/audioStitcher';
 import { extractParagraphMetadata } from './ParagraphMetadataExtractor';
-import { concatenateAudioBlobs } from '@/utils/audioConcat';
+import { concatenateAudioBlobsWithTimings, PARAGRAPH_GAP_DURATION } from '@/utils/audioConcat';
+import { TARGET_LOUDNESS_LUFS } from '@/utils/audioDynamics';
+import { buildTimingManifest, splitNarratedContent } from '@/utils/narrationTiming';
+import { getOrCreateParagraphAudio } from '@/utils/paragraphAudioCache';
+import { splitDialogueSpans, hasMultipleVoices, splitSpeechText, NarrationSpan } from '@/utils/voiceCasting';
+import { encodeAudioBlob, buildAudioTagMetadata, AudioEncodingOptions, DEFAULT_AUDIO_ENCODING } from '@/utils/audioEncoding';
+import { getUsedMusicTrackIds } from '@/utils/musicSelection';
+import type { NarrationJob } from '@/firebase/narrationJobService';
+
+// Pause between the narrator and dialogue spans of a paragraph, in seconds
+const DIALOGUE_SPAN_GAP = 0.25;
+
+// Texts with more paragraphs are narrated by a narration job on the server (see /api/narration) when the
+// book is saved, rather than in the tab
+const BROWSER_PARAGRAPH_LIMIT = 15;
+
+// How often a narration job is polled, in milliseconds
+const JOB_POLL_INTERVAL = 3000;
+
+/**
+ * Narrates a paragraph, giving quoted dialogue the voices of the cast characters.
+ * Each span is cached on its own, so editing one line only re-synthesizes that line.
+ * @param text Paragraph text
+ * @param voiceCasting Casting table of the book (optional)
+ * @returns Paragraph audio and whether every span was reused from the cache
+ */
+const narrateParagraph = async (
+  text: string,
+  voiceCasting?: VoiceCasting
+): Promise<{ blob: Blob; cached: boolean; spans: NarrationSpan[] }> => {
+  // Browser narration goes through the OpenAI speech proxy, so only OpenAI castings apply
+  const spans: NarrationSpan[] = hasMultipleVoices(voiceCasting) && voiceCasting.provider === NARRATION_TTS_PROVIDER
+    ? splitDialogueSpans(text, voiceCasting)
+    : [{ text, speaker: null, voice: NARRATION_TTS_VOICE }];
+
+  const narrations = [];
+  for (const span of spans) {
+    // Spans over the speech API input limit are narrated in chunks, joined without a pause
+    const chunks = [];
+    for (const chunk of splitSpeechText(span.text)) {
+      chunks.push(await getOrCreateParagraphAudio(
+        {
+          text: chunk,
+          voice: span.voice,
+          speed: NARRATION_TTS_SPEED,
+          provider: NARRATION_TTS_PROVIDER
+        },
+        async () => arrayBufferToBlob(await generateAudio(chunk, 7, span.voice))
+      ));
+    }
+    narrations.push(chunks.length === 1 ? chunks[0] : {
+      blob: (await concatenateAudioBlobsWithTimings(chunks.map(chunk => chunk.blob), 0)).blob,
+      cached: chunks.every(chunk => chunk.cached)
+    });
+  }
+
+  const cached = narrations.every(narration => narration.cached);
+  if (narrations.length === 1) {
+    return { blob: narrations[0].blob, cached, spans };
+  }
+
+  const { blob } = await concatenateAudioBlobsWithTimings(narrations.map(narration => narration.blob), DIALOGUE_SPAN_GAP);
+  return { blob, cached, spans };
+};
+
+/**
+ * Narrates a text with a narration job on the server and waits for it to finish. The job is not given the
+ * chapter, so, as with narration in the browser, saving the narration is left to the caller.
+ * @param idToken ID token of the signed-in user
+ * @param body Request body of POST /api/narration
+ * @param onProgress Called with the job every time it is polled
+ * @returns Promise resolving to the completed job
+ */
+const narrateWithJob = async (
+  idToken: string,
+  body: { text: string; bookId: string; options: Record<string, unknown> },
+  onProgress: (job: NarrationJob) => void
+): Promise<NarrationJob> => {
+  const request = async (url: string, init?: RequestInit) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` }
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Narration job request failed');
+    return data;
+  };
+
+  const { jobId } = await request('/api/narration', { method: 'POST', body: JSON.stringify(body) });
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL));
+    const job: NarrationJob & { stale: boolean } = await request(`/api/narration/jobs/${jobId}`);
+    onProgress(job);
+
+    if (job.status === 'completed') return job;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `Narration job ${job.status}`);
+    }
+    if (job.stale) throw new Error('The narration job stopped responding, please try again');
+  }
+};
 
 interface ParagraphData {
   text: string;
   metadata?: ContentMetadata;
   audioUrl?: string;
   backgroundMusic?: BackgroundMusic;
+  cached?: boolean; // Narration reused from the paragraph audio cache
 }
 
+/**
+ * Encodes the stitched narration for upload, tagged with the book's title, chapter, author and cover.
+ * The WAV is uploaded as-is when encoding fails, so a narration is never lost.
+ * @param blob Stitched narration (WAV)
+ * @param encoding Format and bitrate
+ * @param bookId ID of the narrated book, if it exists yet
+ * @param chapterId ID of the narrated chapter
+ * @returns Promise resolving to the audio to upload
+ */
+const encodeNarration = async (
+  blob: Blob,
+  encoding: Partial<AudioEncodingOptions>,
+  bookId?: string,
+  chapterId?: string
+): Promise<Blob> => {
+  try {
+    const book = bookId ? await getBookById(bookId) : null;
+    return await encodeAudioBlob(blob, {
+      ...encoding,
+      ...(book && { metadata: buildAudioTagMetadata(book, chapterId) })
+    });
+  } catch (err) {
+    console.error('Error encoding narration, uploading WAV instead:', err);
+    return blob;
+  }
+};
+
 interface EnhancedAudioNarrationButtonProps {
   text: string;
   bookId?: string;
   chapterId?: string;
-  onSuccess?: (audioUrl: string) => void;
+  onSuccess?: (
+    audioUrl: string,
+    timingManifest?: NarrationTimingManifest,
+    musicSelections?: BackgroundMusicSelection[] // Background music of each paragraph, with the reason it was chosen
+  ) => void;
   onError?: (error: Error) => void;
   className?: string;
   enableBackgroundMusic?: boolean;
+  voiceCasting?: VoiceCasting; // Character voices for multi-voice dialogue
+  audioEncoding?: Partial<AudioEncodingOptions>; // Format and bitrate of the uploaded narration
 }
 
 const EnhancedAudioNarrationButton = ({ 
@@ -51,8 +189,11 @@ const EnhancedAudioNarrationButton = ({
   onSuccess, 
   onError,
   className = '',
-  enableBackgroundMusic = true
+  enableBackgroundMusic = true,
+  voiceCasting,
+  audioEncoding = DEFAULT_AUDIO_ENCODING
 }: EnhancedAudioNarrationButtonProps) => {
+  const { user } = useAuth();
   const [isGenerating, setIsGenerating] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -63,6 +204,7 @@ const EnhancedAudioNarrationButton = ({
   const [totalParagraphs, setTotalParagraphs] = useState<number>(0);
   const [paragraphs, setParagraphs] = useState<ParagraphData[]>([]);
   const [showParagraphDetails, setShowParagraphDetails] = useState<boolean>(false);
+  const [cachedParagraphCount, setCachedParagraphCount] = useState<number>(0);
 
   const handleGenerateNarration = async () => {
     if (!text.trim()) {
@@ -78,31 +220,17 @@ const EnhancedAudioNarrationButton = ({
       setCurrentStep('segmenting-text');
       setParagraphs([]);
       setCombinedAudioUrl(null);
+      setCachedParagraphCount(0);
 
-      // Step 1: Split text into paragraphs
-      // First normalize line breaks to ensure consistent splitting
-      const normalizedText = text.replace(/\r\n/g, '\n');
-      
-      // Primary splitting strategy: Use $ symbol as paragraph delimiter
-      let textParagraphs = normalizedText.split(/\$/).filter(p => p.trim().length > 0);
+      // Step 1: Split text into paragraphs on the $ delimiter only, as the reader does,
+      // so the paragraph indices of the timing manifest match the paragraphs it highlights
+      const textParagraphs = splitNarratedContent(text.replace(/\r\n/g, '\n'));
       console.log(`Found ${textParagraphs.length} paragraphs using $ symbol as delimiter`);
-      
-      // If we only found one paragraph, try alternative splitting methods
-      if (textParagraphs.length <= 1 && normalizedText.length > 500) {
-        console.log("Only one paragraph found with $ symbol, trying alternative splitting methods");
-        
-        // Try splitting by double line breaks (legacy method)
-        const doubleBreakParagraphs = normalizedText.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-        if (doubleBreakParagraphs.length > 1) {
-          console.log(`Found ${doubleBreakParagraphs.length} paragraphs using double line breaks`);
-          textParagraphs = doubleBreakParagraphs;
-        }
-      }
-      
-      // Limit to maximum 15 paragraphs for performance
-      if (textParagraphs.length > 15) {
-        console.log(`Limiting from ${textParagraphs.length} to 15 paragraphs for performance`);
-        textParagraphs = textParagraphs.slice(0, 15);
+
+      // Long texts of saved books are narrated on the server; the job always mixes in background music
+      if (textParagraphs.length > BROWSER_PARAGRAPH_LIMIT && enableBackgroundMusic && bookId && user) {
+        await handleJobNarration(textParagraphs, bookId, await user.getIdToken());
+        return;
       }
       
       setTotalParagraphs(textParagraphs.length);
@@ -117,6 +245,12 @@ const EnhancedAudioNarrationButton = ({
       const initialParagraphs = textParagraphs.map(text => ({ text }));
       setParagraphs(initialParagraphs);
 
+      // Music is seeded by book and chapter so regenerating a chapter picks the same tracks,
+      // and tracks used by the book's other chapters are avoided
+      const book = enableBackgroundMusic && bookId ? await getBookById(bookId).catch(() => null) : null;
+      const musicSeed = bookId ? `${bookId}:${chapterId || 'book'}` : undefined;
+      const usedMusicTrackIds = getUsedMusicTrackIds(book, chapterId);
+
       // Step 2: Process each paragraph individually
       const processedParagraphs: ParagraphData[] = [];
       const processedAudioBlobs: Blob[] = [];
@@ -147,10 +281,16 @@ const EnhancedAudioNarrationButton = ({
           }
         }
         
-        // Step 2.2: Generate TTS audio for this paragraph
+        // Step 2.2: Generate TTS audio for this paragraph, reusing cached audio for unchanged paragraphs
         console.log(`Generating TTS for paragraph ${i + 1}...`);
-        const audioBuffer = await generateAudio(paragraphText);
-        const narrationBlob = arrayBufferToBlob(audioBuffer);
+        const narration = await narrateParagraph(paragraphText, voiceCasting);
+        if (narration.spans.length > 1) {
+          console.log(`Paragraph ${i + 1} narrated with voices: ${narration.spans.map(span => span.voice).join(', ')}`);
+        }
+        const narrationBlob = narration.blob;
+        if (narration.cached) {
+          setCachedParagraphCount(count => count + 1);
+        }
         
         // Step 2.3: Get background music for this paragraph
         let backgroundMusic: BackgroundMusic | undefined;
@@ -159,7 +299,11 @@ const EnhancedAudioNarrationButton = ({
         if (enableBackgroundMusic && paragraphMetadata) {
           try {
             console.log(`Fetching background music for paragraph ${i + 1} with mood: ${paragraphMetadata.mood}...`);
-            backgroundMusic = await getRandomBackgroundMusicForMetadata(paragraphMetadata);
+            backgroundMusic = await getRandomBackgroundMusicForMetadata(paragraphMetadata, {
+              ...(musicSeed && { seed: `${musicSeed}:${i}` }),
+              usedTrackIds: usedMusicTrackIds
+            });
+            if (backgroundMusic.trackId) usedMusicTrackIds.push(backgroundMusic.trackId);
             console.log(`Selected background music for paragraph ${i + 1}:`, backgroundMusic);
             
             // Step 2.4: Mix narration with background music
@@ -182,7 +326,8 @@ const EnhancedAudioNarrationButton = ({
         processedParagraphs.push({
           text: paragraphText,
           metadata: paragraphMetadata,
-          backgroundMusic
+          backgroundMusic,
+          cached: narration.cached
         });
         
         // Update state to show progress
@@ -191,7 +336,8 @@ const EnhancedAudioNarrationButton = ({
           updated[i] = {
             text: paragraphText,
             metadata: paragraphMetadata,
-            backgroundMusic
+            backgroundMusic,
+            cached: narration.cached
           };
           return updated;
         });
@@ -208,10 +354,35 @@ const EnhancedAudioNarrationButton = ({
         console.log(`Processed paragraph ${i+1}: ${p.text.substring(0, 30)}... | Mood: ${p.metadata?.mood || 'unknown'} | Has background music: ${!!p.backgroundMusic}`);
       });
       
-      const finalAudioBlob = await concatenateAudioBlobs(processedAudioBlobs);
+      // Normalize the whole narration so paragraphs with and without music play at the same loudness
+      const { blob: finalAudioBlob, durations, gap } = await concatenateAudioBlobsWithTimings(
+        processedAudioBlobs,
+        PARAGRAPH_GAP_DURATION,
+        TARGET_LOUDNESS_LUFS
+      );
       console.log('Audio concatenation complete, final size:', finalAudioBlob.size);
       
-      // Step 4: Upload the final audio to Firebase
+      // Record where each paragraph starts so readers can follow along with the narration
+      const timingManifest = buildTimingManifest(durations, gap);
+
+      // Record which music each paragraph got and why
+      const musicSelections: BackgroundMusicSelection[] = processedParagraphs.flatMap((paragraph, index) =>
+        paragraph.backgroundMusic
+          ? [{
+              paragraphIndex: index,
+              ...(paragraph.backgroundMusic.trackId && { trackId: paragraph.backgroundMusic.trackId }),
+              title: paragraph.backgroundMusic.title || paragraph.backgroundMusic.filename,
+              category: paragraph.backgroundMusic.category,
+              ...(paragraph.backgroundMusic.score !== undefined && { score: paragraph.backgroundMusic.score }),
+              rationale: paragraph.backgroundMusic.rationale || ''
+            }]
+          : []
+      );
+      
+      // Step 4: Encode and upload the final audio to Firebase
+      setCurrentStep('encoding');
+      const encodedAudioBlob = await encodeNarration(finalAudioBlob, audioEncoding, bookId, chapterId);
+      
       setCurrentStep('uploading');
       setIsUploading(true);
       
@@ -221,7 +392,7 @@ const EnhancedAudioNarrationButton = ({
       
       console.log('Uploading final audio to Firebase...');
       const storageUrl = await uploadAudioNarration(
-        finalAudioBlob,
+        encodedAudioBlob,
         tempId,
         chapterId || tempChapterId,
         (progress) => {
@@ -254,8 +425,8 @@ const EnhancedAudioNarrationButton = ({
       // Step 6: Only call success callback with the URL, don't update the book/chapter
       // This prevents automatic publishing when just playing narration
       
-      // Call success callback with the audio URL
-      if (onSuccess) onSuccess(validUrl);
+      // Call success callback with the audio URL, paragraph timings and music selections
+      if (onSuccess) onSuccess(validUrl, timingManifest, musicSelections.length > 0 ? musicSelections : undefined);
       
       setIsUploading(false);
     } catch (err: any) {
@@ -271,6 +442,49 @@ const EnhancedAudioNarrationButton = ({
 
 
 
+  /**
+   * Narrates the paragraphs with a narration job, showing its progress like browser narration
+   * @param textParagraphs Paragraphs of the text
+   * @param bookId ID of the narrated book
+   * @param idToken ID token of the signed-in user
+   */
+  const handleJobNarration = async (textParagraphs: string[], bookId: string, idToken: string) => {
+    console.log(`Narrating ${textParagraphs.length} paragraphs with a narration job`);
+    setCurrentStep('narration-job');
+    setTotalParagraphs(textParagraphs.length);
+    setCurrentParagraphIndex(0);
+    setParagraphs(textParagraphs.map(text => ({ text })));
+
+    const job = await narrateWithJob(
+      idToken,
+      {
+        text,
+        bookId,
+        options: {
+          encoding: audioEncoding,
+          musicSeed: `${bookId}:${chapterId || 'book'}`,
+          ...(voiceCasting && { casting: voiceCasting })
+        }
+      },
+      ({ completedParagraphs }) => setCurrentParagraphIndex(completedParagraphs)
+    );
+
+    setParagraphs(textParagraphs.map((text, index) => {
+      const paragraph = job.paragraphs.find(p => p.index === index);
+      return {
+        text,
+        ...(paragraph?.mood && {
+          metadata: { mood: paragraph.mood, genre: paragraph.genre || '', intensity: paragraph.intensity || 5, tempo: '' }
+        })
+      };
+    }));
+    setCombinedAudioUrl(job.url!);
+    setCurrentStep('complete');
+
+    const musicSelections = job.paragraphs.filter(p => p.music).map(p => p.music!);
+    if (onSuccess) onSuccess(job.url!, job.timingManifest, musicSelections.length > 0 ? musicSelections : undefined);
+  };
+
   // Handle click to prevent form submission
   const handleButtonClick = (e: React.MouseEvent) => {
     e.preventDefault();  // Prevent form submission
@@ -286,6 +500,10 @@ const EnhancedAudioNarrationButton = ({
           return 'Analyzing text...';
         case 'concatenating-audio':
           return 'Combining audio segments...';
+        case 'encoding':
+          return 'Encoding audio...';
+        case 'narration-job':
+          return `Narrating on the server... ${currentParagraphIndex}/${totalParagraphs} paragraphs`;
         case 'uploading':
           return `Uploading... ${Math.round(uploadProgress)}%`;
         default:
@@ -342,6 +560,11 @@ const EnhancedAudioNarrationButton = ({
           <p className="text-sm text-green-500 mb-1">
             Audio generated successfully with paragraph-specific background music!
           </p>
+          {cachedParagraphCount > 0 && (
+            <p className="text-xs text-gray-400 mb-1">
+              Reused narration for {cachedParagraphCount} of {paragraphs.length} unchanged paragraphs.
+            </p>
+          )}
           <div className="audio-player-container" onClick={(e) => e.stopPropagation()}>
             <AudioPlayer audioUrl={combinedAudioUrl} />
           </div>
@@ -378,15 +601,23 @@ const EnhancedAudioNarrationButton = ({
                             {paragraph.metadata.mood} mood, {paragraph.metadata.genre} genre
                           </span>
                         )}
+                        {paragraph.cached && (
+                          <span className="ml-1 text-xs text-green-400">(reused)</span>
+                        )}
                       </p>
                       <p className="text-xs text-gray-400 mb-2 line-clamp-2">
                         {paragraph.text.substring(0, 100)}
                         {paragraph.text.length > 100 ? '...' : ''}
                       </p>
                       {paragraph.backgroundMusic && (
-                        <p className="text-xs text-blue-400">
-                          Background music: {paragraph.backgroundMusic.category} - {paragraph.backgroundMusic.filename}
-                        </p>
+                        <>
+                          <p className="text-xs text-blue-400">
+                            Background music: {paragraph.backgroundMusic.category} - {paragraph.backgroundMusic.title || paragraph.backgroundMusic.filename}
+                          </p>
+                          {paragraph.backgroundMusic.rationale && (
+                            <p className="text-xs text-gray-400 mt-1">{paragraph.backgroundMusic.rationale}</p>
+                          )}
+                        </>
                       )}
                     </div>
                   ))}
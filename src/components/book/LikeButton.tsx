@@ -13,6 +13,7 @@ import React, { useState, useEffect } from 'react';
 import { FaHeart, FaRegHeart } from 'react-icons/fa';
 import { useAuth } from '@/context/AuthContext';
 import { db } from '@/firebase/config';
+import { updateBookCounter } from '@/firebase/services';
 import { collection, query, where, getDocs, addDoc, deleteDoc, doc } from 'firebase/firestore';
 import { usePathname, useRouter } from 'next/navigation';
 
@@ -77,6 +78,7 @@ export default function LikeButton({ bookId, className = '' }: LikeButtonProps)
       if (isLiked && likeId) {
         // Unlike the book
         await deleteDoc(doc(db, 'likes', likeId));
+        await updateBookCounter(bookId, 'likeCount', -1);
         setIsLiked(false);
         setLikeId(null);
       } else {
@@ -86,6 +88,7 @@ export default function LikeButton({ bookId, className = '' }: LikeButtonProps)
           bookId,
           createdAt: new Date()
         });
+        await updateBookCounter(bookId, 'likeCount', 1);
         setIsLiked(true);
         setLikeId(newLike.id);
       }
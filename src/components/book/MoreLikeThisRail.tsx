@@ -0,0 +1,45 @@
+/**
+ * @file This file defines the MoreLikeThisRail component, which lists the books most
+ * similar to a book: sharing its tags, author or chapter moods, or liked by the same readers.
+ *
+ * @integration Used at the bottom of the book page. Books come from
+ * `/api/recommendations?bookId=` (see utils/recommendations).
+ * Renders nothing when no similar book is found.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RecommendedBook } from '@/utils/recommendations';
+import RecommendationRail from './RecommendationRail';
+
+interface MoreLikeThisRailProps {
+  bookId: string;
+}
+
+const MoreLikeThisRail = ({ bookId }: MoreLikeThisRailProps) => {
+  const [books, setBooks] = useState<RecommendedBook[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchSimilarBooks = async () => {
+      try {
+        const res = await fetch(`/api/recommendations?bookId=${encodeURIComponent(bookId)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to get similar books');
+        if (!cancelled) setBooks(data.books);
+      } catch (err) {
+        console.error('Error fetching similar books:', err);
+      }
+    };
+
+    setBooks([]);
+    fetchSimilarBooks();
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId]);
+
+  return <RecommendationRail label="More like this" books={books} />;
+};
+
+export default MoreLikeThisRail;
@@ -0,0 +1,221 @@
+/**
+ * @file This file defines the NarrationSyncedText component, which renders book or chapter content
+ * paragraph by paragraph and keeps it in sync with the narration. The paragraph being spoken is
+ * highlighted and scrolled into view, and tapping a paragraph seeks the narration to its start.
+ *
+ * @integration This component is used on the `/read/[id]` page together with the `AudioPlayer`,
+ * which reports its playback position through `onTimeUpdate` and seeks through `seekRequest`, and on
+ * the `/book/[id]` page with the global player of `PlaybackContext`. Timings come from the narration's timing manifest (see `utils/narrationTiming.ts`);
+ * narrations made before manifests existed fall back to `estimateParagraphTimings`.
+ *
+ * Signed-in readers can also bookmark a paragraph and highlight text selected within one. The
+ * parent stores them (see `useBookAnnotations`) and passes them back in through `annotations`.
+ */
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FaBookmark, FaRegBookmark, FaHighlighter } from 'react-icons/fa';
+import { NarrationTimingManifest, ParagraphTimingEntry } from '@/firebase/services';
+import { Annotation } from '@/firebase/annotationService';
+import { getParagraphExcerpt, markHighlightedPassages } from '@/utils/annotationHighlights';
+import { estimateParagraphTimings } from '@/utils/audioStitcher';
+import { findParagraphAtTime, splitNarratedContent } from '@/utils/narrationTiming';
+
+interface NarrationSyncedTextProps {
+  content: string; // Content HTML using `$` as the paragraph delimiter
+  timingManifest?: NarrationTimingManifest;
+  currentTime: number; // Narration playback position in seconds
+  duration: number;    // Narration duration in seconds (used when there is no manifest)
+  onSeek?: (time: number) => void;
+  className?: string;
+  annotations?: Annotation[];  // The reader's bookmarks and highlights in this content
+  onToggleBookmark?: (paragraphIndex: number, excerpt: string) => void;
+  onHighlight?: (paragraphIndex: number, text: string) => void;
+  focusRequest?: { index: number; id: number } | null; // Scroll to paragraph `index`; a new `id` repeats it
+}
+
+// Text selected within one paragraph, with where to show the highlight button
+interface ParagraphSelection {
+  index: number;
+  text: string;
+  top: number;
+  left: number;
+}
+
+// How long a paragraph jumped to stays emphasized, in milliseconds
+const FOCUS_FLASH_DURATION = 2000;
+
+const NarrationSyncedText = ({
+  content,
+  timingManifest,
+  currentTime,
+  duration,
+  onSeek,
+  className = '',
+  annotations = [],
+  onToggleBookmark,
+  onHighlight,
+  focusRequest
+}: NarrationSyncedTextProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const paragraphRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [selection, setSelection] = useState<ParagraphSelection | null>(null);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const paragraphs = useMemo(() => splitNarratedContent(content), [content]);
+
+  const timings = useMemo<ParagraphTimingEntry[]>(() => {
+    if (timingManifest?.paragraphs?.length) {
+      return timingManifest.paragraphs;
+    }
+    if (duration > 0) {
+      const texts = paragraphs.map(paragraph => paragraph.replace(/<[^>]*>/g, ' '));
+      return estimateParagraphTimings(texts, duration).map(({ index, start, end }) => ({ index, start, end }));
+    }
+    return [];
+  }, [timingManifest, paragraphs, duration]);
+
+  // Nothing to follow until playback has started
+  const activeIndex = currentTime > 0 ? findParagraphAtTime(timings, currentTime) : -1;
+  const syncEnabled = paragraphs.length > 1 && timings.length > 0;
+  const annotationsEnabled = !!(onToggleBookmark || onHighlight);
+
+  const bookmarkedIndexes = useMemo(() => new Set(
+    annotations
+      .filter(annotation => annotation.type === 'bookmark' && annotation.paragraphIndex !== undefined)
+      .map(annotation => annotation.paragraphIndex!)
+  ), [annotations]);
+
+  // Paragraph HTML with the reader's highlighted passages marked
+  const highlightedParagraphs = useMemo(() => paragraphs.map((paragraph, index) => {
+    const passages = annotations
+      .filter(annotation => annotation.type === 'highlight' && annotation.paragraphIndex === index && annotation.text)
+      .map(annotation => annotation.text!);
+    return { html: passages.length > 0 ? markHighlightedPassages(paragraph, passages) : paragraph, isHighlighted: passages.length > 0 };
+  }), [paragraphs, annotations]);
+
+  // Keep the spoken paragraph in view
+  useEffect(() => {
+    if (!syncEnabled || activeIndex < 0) return;
+    paragraphRefs.current[activeIndex]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeIndex, syncEnabled]);
+
+  // Jump to a paragraph, e.g. a bookmark opened from "My notes"
+  useEffect(() => {
+    if (!focusRequest) return;
+    paragraphRefs.current[focusRequest.index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFocusedIndex(focusRequest.index);
+    const timeout = setTimeout(() => setFocusedIndex(null), FOCUS_FLASH_DURATION);
+    return () => clearTimeout(timeout);
+  }, [focusRequest]);
+
+  // Offer to highlight text once the reader has selected it within one paragraph
+  const handleSelectionEnd = () => {
+    if (!onHighlight) return;
+
+    // Wait for the browser to finish updating the selection
+    setTimeout(() => {
+      const windowSelection = window.getSelection();
+      const container = containerRef.current;
+      const text = windowSelection?.toString().trim();
+      if (!windowSelection || windowSelection.isCollapsed || !text || !container) {
+        setSelection(null);
+        return;
+      }
+
+      const findParagraph = (node: Node | null) =>
+        (node instanceof Element ? node : node?.parentElement)?.closest<HTMLElement>('[data-paragraph-index]');
+      const anchorParagraph = findParagraph(windowSelection.anchorNode);
+      if (!anchorParagraph || anchorParagraph !== findParagraph(windowSelection.focusNode)) {
+        setSelection(null);
+        return;
+      }
+
+      const rect = windowSelection.getRangeAt(0).getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      setSelection({
+        index: Number(anchorParagraph.dataset.paragraphIndex),
+        text,
+        top: rect.top - containerRect.top,
+        left: rect.left - containerRect.left + rect.width / 2
+      });
+    }, 0);
+  };
+
+  const handleHighlight = () => {
+    if (!selection) return;
+    onHighlight?.(selection.index, selection.text);
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  if (!syncEnabled && !annotationsEnabled) {
+    return <div className={className} dangerouslySetInnerHTML={{ __html: paragraphs.join('') }} />;
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative [&_mark]:bg-yellow-300/30 [&_mark]:text-inherit [&_mark]:rounded-sm ${className}`}
+      onMouseUp={handleSelectionEnd}
+      onTouchEnd={handleSelectionEnd}
+    >
+      {paragraphs.map((paragraph, index) => {
+        const timing = syncEnabled ? timings.find(t => t.index === index) : undefined;
+        const isBookmarked = bookmarkedIndexes.has(index);
+        const { html, isHighlighted } = highlightedParagraphs[index];
+        return (
+          <div
+            key={index}
+            ref={element => { paragraphRefs.current[index] = element; }}
+            data-paragraph-index={index}
+            onClick={() => {
+              // Selecting text to highlight should not restart the narration
+              if (window.getSelection()?.isCollapsed === false) return;
+              if (timing) onSeek?.(timing.start);
+            }}
+            className={`group relative rounded-md px-2 -mx-2 transition-colors ${
+              timing && onSeek ? 'cursor-pointer hover:bg-white/5' : ''
+            } ${index === activeIndex ? 'bg-primary/20' : ''} ${
+              index === focusedIndex ? 'ring-2 ring-primary' : ''
+            } ${isHighlighted ? 'shadow-[inset_2px_0_0_rgba(253,224,71,0.6)]' : ''}`}
+            title={timing && onSeek ? 'Play from here' : undefined}
+          >
+            <div dangerouslySetInnerHTML={{ __html: html }} />
+            {onToggleBookmark && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleBookmark(index, getParagraphExcerpt(paragraph));
+                }}
+                className={`absolute top-1 -right-1 p-1 transition-opacity ${
+                  isBookmarked ? 'text-primary opacity-100' : 'text-gray-400 hover:text-white opacity-0 group-hover:opacity-100'
+                }`}
+                aria-label={isBookmarked ? 'Remove bookmark' : 'Bookmark this paragraph'}
+                title={isBookmarked ? 'Remove bookmark' : 'Bookmark this paragraph'}
+              >
+                {isBookmarked ? <FaBookmark /> : <FaRegBookmark />}
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {selection && (
+        <button
+          type="button"
+          // Keep the selection while the button is pressed
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={handleHighlight}
+          className="absolute z-10 -translate-x-1/2 -translate-y-full -mt-2 flex items-center gap-2 bg-[#333333] text-white text-sm px-3 py-1.5 rounded-lg shadow-lg hover:bg-[#444444]"
+          style={{ top: selection.top, left: selection.left }}
+        >
+          <FaHighlighter className="text-yellow-300" />
+          Highlight
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default NarrationSyncedText;
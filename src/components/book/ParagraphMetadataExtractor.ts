@@ -17,17 +17,14 @@ import { ContentMetadata } from '@/services/openai';
 
 // Use environment variables for API keys
 const OPENAI_API_KEY = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
-const TEXT_MODEL = 'gpt-3.5-turbo';
+export const PARAGRAPH_METADATA_MODEL = 'gpt-3.5-turbo';
 
 /**
- * Extract metadata for a single paragraph
- * @param paragraphText The paragraph text to analyze
- * @returns Promise resolving to paragraph metadata
+ * System prompt used to classify paragraphs into `ContentMetadata`.
+ * Shared with the server-side classifiers in `utils/paragraphMetadataClassifier.ts`
+ * so that browser and server narration agree on the same schema.
  */
-export const extractParagraphMetadata = async (paragraphText: string): Promise<ContentMetadata> => {
-  try {
-    // Create a system prompt for the analysis
-    const systemPrompt = `
+export const PARAGRAPH_METADATA_SYSTEM_PROMPT = `
       You are an expert content analyzer that extracts emotional metadata from text.
       Analyze the provided paragraph and extract the following information:
       - mood: The primary emotional tone (e.g., suspense, happy, sad, thriller, romantic)
@@ -44,7 +41,14 @@ export const extractParagraphMetadata = async (paragraphText: string): Promise<C
         "tempo": "medium"
       }
     `;
-    
+
+/**
+ * Extract metadata for a single paragraph
+ * @param paragraphText The paragraph text to analyze
+ * @returns Promise resolving to paragraph metadata
+ */
+export const extractParagraphMetadata = async (paragraphText: string): Promise<ContentMetadata> => {
+  try {
     // Create the prompt with the paragraph
     const userPrompt = `Analyze this paragraph: ${paragraphText}`;
     
@@ -55,9 +59,9 @@ export const extractParagraphMetadata = async (paragraphText: string): Promise<C
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: TEXT_MODEL,
+        model: PARAGRAPH_METADATA_MODEL,
         messages: [
-          { role: 'system', content: systemPrompt },
+          { role: 'system', content: PARAGRAPH_METADATA_SYSTEM_PROMPT },
           { role: 'user', content: userPrompt }
         ],
         temperature: 0.3, // Lower temperature for more consistent results
@@ -0,0 +1,134 @@
+/**
+ * @file This file defines the PublishControls component, the buttons that move a book or
+ * chapter through the publishing lifecycle. Admins publish now, schedule a time, return to
+ * draft and unpublish; authors submit their drafts for review, withdraw them and unpublish.
+ *
+ * @integration Used in the admin and author book tables and in the chapter manager, next to a
+ * `PublishStatusBadge`. The parent saves the change (`updateBookStatus`, `updateChapterStatus`)
+ * in `onChange` and refreshes what it shows.
+ */
+'use client';
+
+import { useState } from 'react';
+import { PublishStatus } from '@/firebase/services';
+import { Publishable, getEffectiveStatus } from '@/utils/publishing';
+
+interface PublishControlsProps {
+  item: Publishable; // Book, book summary or chapter
+  canPublish: boolean; // Admins publish and schedule; authors submit for review
+  onChange: (status: PublishStatus, publishAt?: number) => Promise<void>;
+  className?: string;
+}
+
+interface PublishAction {
+  label: string;
+  status: PublishStatus;
+  primary?: boolean;
+}
+
+/**
+ * Formats a time for a datetime-local input, which works in local time
+ */
+const toDateTimeLocal = (time: number) => {
+  const date = new Date(time);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+/**
+ * Gets the actions available from a status, scheduling aside
+ */
+const getActions = (status: PublishStatus, canPublish: boolean): PublishAction[] => {
+  if (status === 'published') return [{ label: 'Unpublish', status: 'draft' }];
+
+  if (canPublish) {
+    return [
+      { label: 'Publish now', status: 'published', primary: true },
+      ...(status !== 'draft' ? [{ label: status === 'scheduled' ? 'Cancel schedule' : 'Return to draft', status: 'draft' as const }] : [])
+    ];
+  }
+
+  return status === 'draft'
+    ? [{ label: 'Submit for review', status: 'inReview', primary: true }]
+    : [{ label: 'Withdraw', status: 'draft' }];
+};
+
+const PublishControls = ({ item, canPublish, onChange, className = '' }: PublishControlsProps) => {
+  const [saving, setSaving] = useState(false);
+  const [scheduling, setScheduling] = useState(false);
+  const [publishAt, setPublishAt] = useState('');
+  const status = getEffectiveStatus(item);
+
+  const handleChange = async (newStatus: PublishStatus, time?: number) => {
+    setSaving(true);
+    try {
+      await onChange(newStatus, time);
+      setScheduling(false);
+    } catch (err) {
+      window.alert(`Failed to update the publishing status: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openScheduler = () => {
+    // Start from the current schedule, or an hour from now
+    setPublishAt(toDateTimeLocal(status === 'scheduled' && item.publishAt ? item.publishAt : Date.now() + 60 * 60 * 1000));
+    setScheduling(true);
+  };
+
+  const handleSchedule = () => {
+    const time = new Date(publishAt).getTime();
+    if (!publishAt || isNaN(time) || time <= Date.now()) {
+      window.alert('Choose a time in the future.');
+      return;
+    }
+    handleChange('scheduled', time);
+  };
+
+  const buttonClass = (primary?: boolean) =>
+    `px-2 py-1 rounded text-xs transition-colors disabled:opacity-50 ${
+      primary ? 'bg-primary text-white hover:bg-primary-dark' : 'bg-[#333333] text-gray-200 hover:bg-[#444444]'
+    }`;
+
+  if (scheduling) {
+    return (
+      <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+        <input
+          type="datetime-local"
+          value={publishAt}
+          onChange={e => setPublishAt(e.target.value)}
+          className="px-2 py-1 rounded text-xs bg-[#1F1F1F] text-white border border-gray-600"
+        />
+        <button onClick={handleSchedule} disabled={saving} className={buttonClass(true)}>
+          {saving ? 'Saving...' : 'Schedule'}
+        </button>
+        <button onClick={() => setScheduling(false)} disabled={saving} className={buttonClass()}>
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      {getActions(status, canPublish).map(action => (
+        <button
+          key={action.label}
+          onClick={() => handleChange(action.status)}
+          disabled={saving}
+          className={buttonClass(action.primary)}
+        >
+          {action.label}
+        </button>
+      ))}
+      {canPublish && status !== 'published' && (
+        <button onClick={openScheduler} disabled={saving} className={buttonClass()}>
+          {status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PublishControls;
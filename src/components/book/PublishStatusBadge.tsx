@@ -0,0 +1,44 @@
+/**
+ * @file This file defines the PublishStatusBadge component, a small colored label telling
+ * authors and admins where a book or chapter is in the publishing lifecycle: Draft, In review,
+ * Scheduled (with the time it goes public) or Published.
+ *
+ * @integration Shown in the admin and author book tables, the chapter manager and on the book
+ * page for the people who can see unpublished content. Readers never see it, since unpublished
+ * content is hidden from them (see utils/publishing).
+ */
+'use client';
+
+import { PublishStatus } from '@/firebase/services';
+import { PUBLISH_STATUS_LABELS, Publishable, getEffectiveStatus } from '@/utils/publishing';
+
+interface PublishStatusBadgeProps {
+  item: Publishable; // Book, book summary or chapter
+  className?: string;
+}
+
+const STATUS_STYLES: Record<PublishStatus, string> = {
+  draft: 'bg-gray-700 text-gray-200',
+  inReview: 'bg-amber-900 text-amber-200',
+  scheduled: 'bg-blue-900 text-blue-200',
+  published: 'bg-green-900 text-green-200'
+};
+
+/**
+ * Formats the time a scheduled item goes public
+ */
+export const formatPublishAt = (publishAt: number) =>
+  new Date(publishAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const PublishStatusBadge = ({ item, className = '' }: PublishStatusBadgeProps) => {
+  const status = getEffectiveStatus(item);
+
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded text-xs font-semibold whitespace-nowrap ${STATUS_STYLES[status]} ${className}`}>
+      {PUBLISH_STATUS_LABELS[status]}
+      {status === 'scheduled' && item.publishAt && ` · ${formatPublishAt(item.publishAt)}`}
+    </span>
+  );
+};
+
+export default PublishStatusBadge;
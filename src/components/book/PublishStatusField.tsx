@@ -0,0 +1,89 @@
+/**
+ * @file This file defines the PublishStatusField component, the choice of what happens to a new
+ * book when its form is saved. Admins publish it right away or save it as a draft; authors submit
+ * it for review or save it as a draft, and are told who publishes it and where to follow it.
+ *
+ * @integration Used by the creation forms (`BookForm`, `AdminBookForm`, `AdminDirectUploadForm`),
+ * which pass the chosen status to `createBook` and label their submit button with
+ * `CREATE_SUBMIT_LABELS`. Later changes go through `PublishControls`.
+ */
+'use client';
+
+import { PublishStatus } from '@/firebase/services';
+
+interface PublishStatusFieldProps {
+  value: PublishStatus;
+  onChange: (status: PublishStatus) => void;
+  canPublish: boolean; // Admins publish; authors submit for review
+  disabled?: boolean;
+}
+
+interface StatusOption {
+  status: PublishStatus;
+  label: string;
+  help: string;
+}
+
+const ADMIN_OPTIONS: StatusOption[] = [
+  { status: 'published', label: 'Publish now', help: 'Readers can find the book as soon as it is saved.' },
+  { status: 'draft', label: 'Save as draft', help: 'Only the author and admins see the book until it is published from Content Management.' }
+];
+
+const AUTHOR_OPTIONS: StatusOption[] = [
+  {
+    status: 'inReview',
+    label: 'Submit for review',
+    help: 'An admin reviews the book before readers can see it. Until then it shows as “In review” in My Content.'
+  },
+  {
+    status: 'draft',
+    label: 'Save as draft',
+    help: 'Only you and admins see the book. Submit it for review from My Content when it is ready.'
+  }
+];
+
+// Submit button label of a creation form for each status
+export const CREATE_SUBMIT_LABELS: Record<PublishStatus, string> = {
+  draft: 'Save Draft',
+  inReview: 'Submit for Review',
+  scheduled: 'Schedule Book',
+  published: 'Publish Book'
+};
+
+/**
+ * Gets the status a new book gets unless the form changes it
+ * @param canPublish Whether the user may publish
+ */
+export const getDefaultCreateStatus = (canPublish: boolean): PublishStatus =>
+  canPublish ? 'published' : 'inReview';
+
+const PublishStatusField = ({ value, onChange, canPublish, disabled = false }: PublishStatusFieldProps) => {
+  const options = canPublish ? ADMIN_OPTIONS : AUTHOR_OPTIONS;
+  const selected = options.find(option => option.status === value);
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        When saved
+      </label>
+      <div className="flex flex-wrap gap-4">
+        {options.map(option => (
+          <label key={option.status} className="flex items-center gap-2 text-sm text-gray-200">
+            <input
+              type="radio"
+              name="publish-status"
+              value={option.status}
+              checked={value === option.status}
+              onChange={() => onChange(option.status)}
+              disabled={disabled}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      {selected && <p className="text-xs text-gray-400 mt-1">{selected.help}</p>}
+    </div>
+  );
+};
+
+export default PublishStatusField;
@@ -0,0 +1,44 @@
+/**
+ * @file This file defines the RecommendationRail component, a horizontally scrolling
+ * row of recommended books, each with the reason it is recommended.
+ *
+ * @integration Rendered by `BecauseYouLikedRails` on the homepage and `MoreLikeThisRail`
+ * on the book page, which fetch the books from `/api/recommendations`.
+ * Renders nothing without books.
+ */
+'use client';
+
+import BookCard from './BookCard';
+import { RecommendedBook } from '@/utils/recommendations';
+
+interface RecommendationRailProps {
+  label: string;
+  books: RecommendedBook[];
+  showReasons?: boolean; // Show why each book is recommended under its card
+}
+
+const RecommendationRail = ({ label, books, showReasons = true }: RecommendationRailProps) => {
+  if (books.length === 0) return null;
+
+  return (
+    <section className="mb-8 pt-8">
+      <div className="flex items-center mb-6 animate-fade-in">
+        <div className="w-10 h-1 bg-gradient-to-r from-primary to-orange rounded mr-3"></div>
+        <span className="text-primary-light uppercase tracking-wider text-sm font-semibold">{label}</span>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto px-4 pb-4">
+        {books.map((book, index) => (
+          <div key={book.id} className={`flex-shrink-0 w-40 md:w-48 animate-fade-in stagger-${Math.min(index % 5 + 1, 5)}`}>
+            <BookCard book={book} isLandingPage={true} />
+            {showReasons && (
+              <p className="text-gray-500 text-xs mt-2 line-clamp-2">{book.reason}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RecommendationRail;
@@ -0,0 +1,238 @@
+/**
+ * @file This file defines the RevisionHistory component, the saved versions of a chapter:
+ * when and by whom each was saved and how (edit, AI rewrite, import, restore), a side-by-side
+ * diff against the version before it or the current text, and restoring a version.
+ *
+ * @integration Used under each episode in `BookChapterManager`. Revisions are recorded by
+ * `addChapter`, `updateChapter`, `updateBook` and `createBook` (see firebase/revisionService);
+ * restoring goes through `restoreChapterRevision`, which saves the restored text as a new
+ * revision and keeps or clears the narration as the user chose.
+ */
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Chapter, RestoreNarration, restoreChapterRevision } from '@/firebase/services';
+import { ChapterRevision, REVISION_SOURCE_LABELS, getChapterRevisions } from '@/firebase/revisionService';
+import { DiffSegment, diffTexts, summarizeDiff } from '@/utils/textDiff';
+
+interface RevisionHistoryProps {
+  bookId: string;
+  chapter: Chapter;
+  onRestored: (chapter: Chapter) => void;
+}
+
+// What the selected revision is compared with
+type CompareTarget = 'previous' | 'current';
+
+const formatRevisionTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const DiffText = ({ segments, changedClass }: { segments?: DiffSegment[]; changedClass: string }) => (
+  <>
+    {segments?.map((segment, index) => (
+      <span key={index} className={segment.changed ? changedClass : undefined}>{segment.text}</span>
+    ))}
+  </>
+);
+
+const RevisionHistory = ({ bookId, chapter, onRestored }: RevisionHistoryProps) => {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<ChapterRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('previous');
+  const [narration, setNarration] = useState<RestoreNarration>('keep');
+  const [restoring, setRestoring] = useState(false);
+
+  // Reload when opened and after every save, which adds a revision
+  useEffect(() => {
+    if (!open || !chapter.id) return;
+
+    let cancelled = false;
+    const fetchRevisions = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const chapterRevisions = await getChapterRevisions(bookId, chapter.id!);
+        if (!cancelled) setRevisions(chapterRevisions);
+      } catch (err) {
+        console.error('Error fetching revisions:', err);
+        if (!cancelled) setError(`Failed to load revisions: ${(err as Error).message}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, bookId, chapter.id, chapter.lastRevisionId]);
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const isCurrent = !!selected && selected.id === chapter.lastRevisionId;
+  // Narration of the current text matches the selected version only if it was recorded for it
+  const narrationMatches = !!selected?.audioUrl && selected.audioUrl === chapter.audioUrl;
+
+  // Older text on the left, newer on the right
+  const diffRows = useMemo(() => {
+    if (!selected) return [];
+    if (compareTo === 'current') return diffTexts(selected.content, chapter.content || '');
+    const before = revisions[selectedIndex + 1];
+    return diffTexts(before ? before.content : '', selected.content);
+  }, [selected, selectedIndex, compareTo, revisions, chapter.content]);
+  const summary = summarizeDiff(diffRows);
+
+  const handleSelect = (revision: ChapterRevision) => {
+    setSelectedId(revision.id === selectedId ? null : revision.id || null);
+    setNarration(revision.audioUrl && revision.audioUrl === chapter.audioUrl ? 'keep' : 'clear');
+  };
+
+  const handleRestore = async () => {
+    if (!selected || !chapter.id) return;
+    if (!window.confirm(`Restore the version of ${formatRevisionTime(selected.createdAt)}? Unsaved changes to this episode will be lost.`)) {
+      return;
+    }
+
+    try {
+      setRestoring(true);
+      setError(null);
+      const restored = await restoreChapterRevision(bookId, chapter.id, selected, chapter.audioUrl ? narration : 'keep');
+      setSelectedId(null);
+      onRestored(restored);
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError(`Failed to restore the revision: ${(err as Error).message}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (!chapter.id) return null;
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-sm text-gray-300 hover:text-white"
+      >
+        {open ? '▾' : '▸'} Revision history{open && !loading ? ` (${revisions.length})` : ''}
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 border border-gray-700 rounded-lg bg-[#1a1a1a]">
+          {error && (
+            <div className="mb-3 p-2 bg-red-900 border border-red-700 text-white rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-gray-400 text-sm">Loading revisions...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-gray-400 text-sm">No revisions yet. The next save starts the history.</p>
+          ) : (
+            <ul className="space-y-1 max-h-60 overflow-y-auto">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(revision)}
+                    className={`w-full text-left px-3 py-2 rounded text-sm flex flex-wrap items-center gap-2 transition-colors ${
+                      revision.id === selectedId ? 'bg-primary text-white' : 'bg-[#2a2a2a] text-gray-300 hover:bg-[#333333]'
+                    }`}
+                  >
+                    <span className="font-medium">{formatRevisionTime(revision.createdAt)}</span>
+                    <span className="px-2 py-0.5 rounded bg-black text-xs">{REVISION_SOURCE_LABELS[revision.source]}</span>
+                    {revision.authorName && <span className="text-xs opacity-80">by {revision.authorName}</span>}
+                    {revision.audioUrl && <span className="text-xs opacity-80" title="Narration recorded for this version">🔊</span>}
+                    {revision.id === chapter.lastRevisionId && (
+                      <span className="ml-auto px-2 py-0.5 rounded bg-green-900 text-green-200 text-xs">Current</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selected && (
+            <div className="mt-4">
+              <div className="flex flex-wrap items-center gap-3 mb-2 text-sm">
+                <label className="text-gray-300">
+                  Compare with{' '}
+                  <select
+                    value={compareTo}
+                    onChange={e => setCompareTo(e.target.value as CompareTarget)}
+                    className="ml-1 px-2 py-1 rounded bg-[#2a2a2a] text-white border border-gray-600"
+                  >
+                    <option value="previous">the version before</option>
+                    <option value="current">the text in the editor</option>
+                  </select>
+                </label>
+                <span className="text-gray-400">
+                  {summary.changed} changed, {summary.added} added, {summary.removed} removed paragraphs
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-xs text-gray-400 mb-1">
+                <span>{compareTo === 'current' ? 'This version' : selectedIndex + 1 < revisions.length ? 'Version before' : 'Empty'}</span>
+                <span>{compareTo === 'current' ? 'Text in the editor' : 'This version'}</span>
+              </div>
+              <div className="max-h-96 overflow-y-auto border border-gray-700 rounded">
+                {diffRows.length === 0 ? (
+                  <p className="p-3 text-gray-400 text-sm">No text.</p>
+                ) : (
+                  diffRows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-2 border-b border-gray-800 last:border-b-0 text-sm">
+                      <p className={`p-2 whitespace-pre-wrap ${row.type === 'same' ? 'text-gray-400' : 'text-gray-200'} ${row.left && row.type !== 'same' ? 'bg-red-950' : ''}`}>
+                        <DiffText segments={row.left} changedClass="bg-red-800 text-white rounded-sm" />
+                      </p>
+                      <p className={`p-2 whitespace-pre-wrap border-l border-gray-800 ${row.type === 'same' ? 'text-gray-400' : 'text-gray-200'} ${row.right && row.type !== 'same' ? 'bg-green-950' : ''}`}>
+                        <DiffText segments={row.right} changedClass="bg-green-800 text-white rounded-sm" />
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {!isCurrent && (
+                <div className="mt-3 p-3 border border-gray-700 rounded bg-[#222222] text-sm">
+                  {chapter.audioUrl && (
+                    <fieldset className="mb-3">
+                      <legend className="text-gray-300 mb-1">
+                        {narrationMatches
+                          ? 'The current narration was recorded for this version.'
+                          : 'The current narration was recorded for different text.'}
+                      </legend>
+                      <label className="flex items-center gap-2 text-gray-300">
+                        <input type="radio" checked={narration === 'keep'} onChange={() => setNarration('keep')} />
+                        Keep the current narration
+                      </label>
+                      <label className="flex items-center gap-2 text-gray-300">
+                        <input type="radio" checked={narration === 'clear'} onChange={() => setNarration('clear')} />
+                        Remove the narration so it can be recorded again
+                      </label>
+                    </fieldset>
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleRestore}
+                    disabled={restoring}
+                    className="px-4 py-2 bg-primary text-white rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    {restoring ? 'Restoring...' : 'Restore this version'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -13,6 +13,7 @@ import React, { useState, useEffect } from 'react';
 import { FaBookmark, FaRegBookmark } from 'react-icons/fa';
 import { useAuth } from '@/context/AuthContext';
 import { db } from '@/firebase/config';
+import { updateBookCounter } from '@/firebase/services';
 import { collection, query, where, getDocs, addDoc, deleteDoc, doc } from 'firebase/firestore';
 import { usePathname, useRouter } from 'next/navigation';
 
@@ -77,6 +78,7 @@ export default function SaveButton({ bookId, className = '' }: SaveButtonProps)
       if (isSaved && bookmarkId) {
         // Unsave the book
         await deleteDoc(doc(db, 'bookmarks', bookmarkId));
+        await updateBookCounter(bookId, 'saveCount', -1);
         setIsSaved(false);
         setBookmarkId(null);
       } else {
@@ -86,6 +88,7 @@ export default function SaveButton({ bookId, className = '' }: SaveButtonProps)
           bookId,
           createdAt: new Date()
         });
+        await updateBookCounter(bookId, 'saveCount', 1);
         setIsSaved(true);
         setBookmarkId(newBookmark.id);
       }
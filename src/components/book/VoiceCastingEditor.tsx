@@ -0,0 +1,249 @@
+/**
+ * @file This file defines the VoiceCastingEditor component, a client-side React component
+ * for editing a book's voice casting table. Authors can detect the story's characters with
+ * `analyzeStory`, assign each character a TTS voice, choose the narrator voice, and save the
+ * table on the book so every narration of the book uses the same cast.
+ *
+ * @see createVoiceCasting
+ * @see EnhancedAudioNarrationButton
+ *
+ * @integration This component is used in `BookChapterManager.tsx`. The saved casting is stored
+ * on `BookDocument.voiceCasting` and passed to the narration buttons of each episode; server
+ * narration jobs read it from the book directly.
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { VoiceCasting, VoiceCastingEntry, updateBookVoiceCasting } from '@/firebase/services';
+import { analyzeStory } from '@/services/gemini';
+import { createVoiceCasting, TTS_PROVIDER_VOICES } from '@/utils/voiceCasting';
+
+interface VoiceCastingEditorProps {
+  bookId: string;
+  storyText: string; // Story content used to detect characters
+  voiceCasting?: VoiceCasting;
+  onSaved?: (voiceCasting: VoiceCasting) => void;
+}
+
+// Maximum story length sent for character detection
+const MAX_ANALYSIS_LENGTH = 20000;
+
+const VoiceCastingEditor = ({ bookId, storyText, voiceCasting, onSaved }: VoiceCastingEditorProps) => {
+  const [casting, setCasting] = useState<VoiceCasting>(voiceCasting || createVoiceCasting([]));
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Reset when a different casting is loaded
+  useEffect(() => {
+    if (voiceCasting) setCasting(voiceCasting);
+  }, [voiceCasting]);
+
+  const voices = TTS_PROVIDER_VOICES[casting.provider] || TTS_PROVIDER_VOICES.openai;
+
+  const updateEntry = (index: number, updates: Partial<VoiceCastingEntry>) => {
+    setCasting(prev => ({
+      ...prev,
+      characters: prev.characters.map((entry, i) => (i === index ? { ...entry, ...updates } : entry))
+    }));
+  };
+
+  const handleProviderChange = (provider: string) => {
+    // Voices do not carry over between providers, so recast everyone
+    const recast = createVoiceCasting(
+      casting.characters.map(entry => ({ name: entry.character, role: entry.role })),
+      { provider }
+    );
+    setCasting(recast);
+  };
+
+  const handleDetectCharacters = async () => {
+    const text = storyText.replace(/<[^>]*>/g, ' ').replace(/\$/g, ' ').trim();
+    if (!text) {
+      setError('Add some story content before detecting characters');
+      return;
+    }
+
+    try {
+      setIsDetecting(true);
+      setError(null);
+      setMessage(null);
+
+      const analysis = await analyzeStory(text.substring(0, MAX_ANALYSIS_LENGTH));
+      const updated = createVoiceCasting(analysis.characters || [], { existing: casting });
+      const added = updated.characters.length - casting.characters.length;
+
+      setCasting(updated);
+      setMessage(added > 0 ? `Found ${added} new character${added === 1 ? '' : 's'}` : 'No new characters found');
+    } catch (err) {
+      console.error('Error detecting characters:', err);
+      setError(`Failed to detect characters: ${(err as Error).message || 'Please try again.'}`);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      setMessage(null);
+
+      const cleaned = {
+        ...casting,
+        characters: casting.characters
+          .map(entry => ({ ...entry, character: entry.character.trim() }))
+          .filter(entry => entry.character.length > 0)
+      };
+      const saved = await updateBookVoiceCasting(bookId, cleaned);
+
+      setCasting(saved);
+      setMessage('Voice casting saved. New narrations will use these voices.');
+      if (onSaved) onSaved(saved);
+    } catch (err) {
+      console.error('Error saving voice casting:', err);
+      setError(`Failed to save voice casting: ${(err as Error).message || 'Please try again.'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 border border-gray-700 rounded-lg bg-[#222222]">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xl font-bold">Voice Casting</h3>
+        <button
+          type="button"
+          onClick={handleDetectCharacters}
+          className="px-3 py-1 text-sm bg-[#5A3E85] text-white rounded hover:bg-[#6E4A9E] transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+          disabled={isDetecting || isSaving}
+        >
+          {isDetecting ? 'Detecting...' : 'Detect Characters'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Quoted dialogue is narrated with the voice of the character who speaks it. Everything else uses the narrator voice.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <label className="block text-sm text-gray-300">
+          Voice provider
+          <select
+            value={casting.provider}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            className="mt-1 w-full px-3 py-2 bg-[#2a2a2a] border border-gray-600 rounded-md text-white"
+          >
+            {Object.keys(TTS_PROVIDER_VOICES).map(provider => (
+              <option key={provider} value={provider}>{provider}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm text-gray-300">
+          Narrator voice
+          <select
+            value={casting.narratorVoice}
+            onChange={(e) => setCasting(prev => ({ ...prev, narratorVoice: e.target.value }))}
+            className="mt-1 w-full px-3 py-2 bg-[#2a2a2a] border border-gray-600 rounded-md text-white"
+          >
+            {voices.map(voice => (
+              <option key={voice} value={voice}>{voice}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {casting.characters.length === 0 ? (
+        <div className="p-3 border border-dashed border-gray-600 rounded text-center text-gray-400 text-sm mb-4">
+          No characters cast yet. Detect them from the story or add them manually.
+        </div>
+      ) : (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="pb-2 font-medium">Character</th>
+              <th className="pb-2 font-medium">Role</th>
+              <th className="pb-2 font-medium">Voice</th>
+              <th className="pb-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {casting.characters.map((entry, index) => (
+              <tr key={index} className="border-t border-gray-700">
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={entry.character}
+                    onChange={(e) => updateEntry(index, { character: e.target.value })}
+                    className="w-full px-2 py-1 bg-[#2a2a2a] border border-gray-600 rounded text-white"
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={entry.role || ''}
+                    onChange={(e) => updateEntry(index, { role: e.target.value })}
+                    className="w-full px-2 py-1 bg-[#2a2a2a] border border-gray-600 rounded text-white"
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  <select
+                    value={entry.voice}
+                    onChange={(e) => updateEntry(index, { voice: e.target.value })}
+                    className="w-full px-2 py-1 bg-[#2a2a2a] border border-gray-600 rounded text-white"
+                  >
+                    {voices.map(voice => (
+                      <option key={voice} value={voice}>
+                        {voice}{voice === casting.narratorVoice ? ' (narrator)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => setCasting(prev => ({ ...prev, characters: prev.characters.filter((_, i) => i !== index) }))}
+                    className="text-red-400 hover:text-red-300"
+                    aria-label={`Remove ${entry.character}`}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-900 border border-red-700 text-white rounded text-sm">{error}</div>
+      )}
+      {message && (
+        <div className="mb-3 p-2 bg-green-900 border border-green-700 text-white rounded text-sm">{message}</div>
+      )}
+
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={() => setCasting(prev => ({
+            ...prev,
+            characters: [...prev.characters, { character: '', voice: voices.find(v => v !== prev.narratorVoice) || voices[0] }]
+          }))}
+          className="px-3 py-1 text-sm bg-[#333333] text-white rounded hover:bg-[#444444] transition-colors"
+        >
+          Add Character
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="px-4 py-2 bg-primary text-white rounded hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          disabled={isSaving || isDetecting}
+        >
+          {isSaving ? 'Saving...' : 'Save Casting'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceCastingEditor;
@@ -0,0 +1,92 @@
+/**
+ * @file Loads and edits the signed-in reader's bookmarks and highlights in one book.
+ *
+ * @integration Used by the `/book/[id]` and `/read/[id]` pages, which pass the annotations of the
+ * content on screen to `NarrationSyncedText` and list them in `AnnotationsPanel`. The same
+ * entries are listed across books on the "My notes" page.
+ */
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Annotation,
+  NewAnnotation,
+  addAnnotation,
+  deleteAnnotation,
+  getBookAnnotations,
+  updateAnnotationNote
+} from '@/firebase/annotationService';
+
+/**
+ * Manages the reader's annotations in a book
+ * @param bookId Book to load annotations for
+ * @returns The annotations and functions to add, remove and annotate them
+ */
+export const useBookAnnotations = (bookId?: string) => {
+  const { user } = useAuth();
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !bookId) {
+      setAnnotations([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchAnnotations = async () => {
+      try {
+        const bookAnnotations = await getBookAnnotations(user.uid, bookId);
+        if (!cancelled) setAnnotations(bookAnnotations);
+      } catch (err) {
+        console.error('Error fetching annotations:', err);
+      }
+    };
+
+    fetchAnnotations();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, bookId]);
+
+  const add = useCallback(async (annotation: NewAnnotation): Promise<Annotation | null> => {
+    if (!user) return null;
+    try {
+      setError(null);
+      const saved = await addAnnotation(user.uid, annotation);
+      setAnnotations(prev => [...prev, saved]);
+      return saved;
+    } catch (err) {
+      console.error('Error saving annotation:', err);
+      setError('Failed to save. Please try again.');
+      return null;
+    }
+  }, [user]);
+
+  const remove = useCallback(async (annotationId: string) => {
+    try {
+      setError(null);
+      await deleteAnnotation(annotationId);
+      setAnnotations(prev => prev.filter(annotation => annotation.id !== annotationId));
+    } catch (err) {
+      console.error('Error deleting annotation:', err);
+      setError('Failed to delete. Please try again.');
+    }
+  }, []);
+
+  const updateNote = useCallback(async (annotationId: string, note: string) => {
+    try {
+      setError(null);
+      await updateAnnotationNote(annotationId, note);
+      setAnnotations(prev => prev.map(annotation =>
+        annotation.id === annotationId ? { ...annotation, note: note.trim(), updatedAt: Date.now() } : annotation
+      ));
+    } catch (err) {
+      console.error('Error updating note:', err);
+      setError('Failed to save note. Please try again.');
+    }
+  }, []);
+
+  return { annotations, error, add, remove, updateNote };
+};
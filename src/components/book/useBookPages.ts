@@ -0,0 +1,108 @@
+/**
+ * @file Loads book summaries one page at a time, for lists that grow as the reader scrolls.
+ *
+ * @integration Used by the homepage. Pages come from `getBookPage`, so they are sorted and
+ * filtered by Firestore; `useInfiniteScroll` loads the next page when a marker below the
+ * list scrolls into view.
+ */
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BookPageCursor, BookPageOptions, BookSummary, getBookPage } from '@/firebase/services';
+
+interface BookPagesState {
+  books: BookSummary[];
+  loading: boolean;       // Loading the first page
+  loadingMore: boolean;   // Loading a later page
+  hasMore: boolean;
+  error: string | null;
+  loadMore: () => void;
+  reload: () => void;
+}
+
+/**
+ * Lists the books matching the options, adding a page on each `loadMore`
+ * @param options Sort, page size and filters; changing them starts again from the first page
+ */
+export const useBookPages = ({ sort, pageSize, tag, authorId }: Omit<BookPageOptions, 'cursor'> = {}): BookPagesState => {
+  const [books, setBooks] = useState<BookSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<BookPageCursor | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Pages of earlier options that arrive late are dropped
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    const fetchFirstPage = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const page = await getBookPage({ sort, pageSize, tag, authorId });
+        if (id !== requestId.current) return;
+        setBooks(page.books);
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        console.error('Error fetching books:', err);
+        if (id === requestId.current) setError('Failed to load books. Please try again later.');
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    };
+
+    fetchFirstPage();
+  }, [sort, pageSize, tag, authorId, reloadCount]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loading || loadingMore) return;
+
+    const id = requestId.current;
+    const fetchNextPage = async () => {
+      try {
+        setLoadingMore(true);
+        const page = await getBookPage({ sort, pageSize, tag, authorId, cursor: nextCursor });
+        if (id !== requestId.current) return;
+        setBooks(prev => [...prev, ...page.books]);
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        console.error('Error fetching more books:', err);
+        if (id === requestId.current) setError('Failed to load more books.');
+      } finally {
+        setLoadingMore(false);
+      }
+    };
+
+    fetchNextPage();
+  }, [nextCursor, loading, loadingMore, sort, pageSize, tag, authorId]);
+
+  const reload = useCallback(() => setReloadCount(prev => prev + 1), []);
+
+  return { books, loading, loadingMore, hasMore: !!nextCursor, error, loadMore, reload };
+};
+
+/**
+ * Calls `onReachEnd` when the returned ref's element scrolls near the viewport
+ * @param onReachEnd Usually `loadMore` of `useBookPages`
+ * @param enabled False once there is nothing more to load
+ * @returns Ref for an element placed after the list
+ */
+export const useInfiniteScroll = (onReachEnd: () => void, enabled: boolean) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !enabled) return;
+
+    // Starts loading a little before the reader reaches the end of the list
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onReachEnd();
+    }, { rootMargin: '400px 0px' });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [onReachEnd, enabled]);
+
+  return sentinelRef;
+};
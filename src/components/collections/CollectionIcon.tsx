@@ -0,0 +1,33 @@
+/**
+ * @file Renders the icon chosen for a collection in the sidebars and on its page.
+ *
+ * @integration Icon names are stored on `BookCollection.icon` and picked in `CollectionsManager`.
+ */
+import { IconType } from 'react-icons';
+import { FaBook, FaChild, FaHeart, FaMusic, FaRocket, FaStar } from 'react-icons/fa';
+import { GiCrossedSwords } from 'react-icons/gi';
+import { IoSchool } from 'react-icons/io5';
+import { CollectionIconName } from '@/firebase/collectionService';
+
+export const COLLECTION_ICONS: Record<CollectionIconName, IconType> = {
+  book: FaBook,
+  history: GiCrossedSwords,
+  academics: IoSchool,
+  romance: FaHeart,
+  'sci-fi': FaRocket,
+  star: FaStar,
+  music: FaMusic,
+  child: FaChild
+};
+
+interface CollectionIconProps {
+  name?: CollectionIconName;
+  className?: string;
+}
+
+const CollectionIcon = ({ name, className }: CollectionIconProps) => {
+  const Icon = (name && COLLECTION_ICONS[name]) || FaBook;
+  return <Icon className={className} />;
+};
+
+export default CollectionIcon;
@@ -0,0 +1,62 @@
+/**
+ * @file Loads the curated collections listed in the sidebars.
+ *
+ * @integration Used by `Sidebar` and `LandingSidebar`. Both share one request per page load;
+ * `CollectionsManager` calls `refreshCollections` after an admin changes the collections.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookCollection, getCollections } from '@/firebase/collectionService';
+
+// Shared by every sidebar on the page
+let collectionsRequest: Promise<BookCollection[]> | null = null;
+const listeners = new Set<(collections: BookCollection[]) => void>();
+
+const loadCollections = (): Promise<BookCollection[]> => {
+  if (!collectionsRequest) {
+    collectionsRequest = getCollections().catch(error => {
+      collectionsRequest = null;
+      throw error;
+    });
+  }
+  return collectionsRequest;
+};
+
+/**
+ * Reloads the collections and updates every sidebar showing them
+ */
+export const refreshCollections = async (): Promise<void> => {
+  collectionsRequest = null;
+  try {
+    const collections = await loadCollections();
+    listeners.forEach(listener => listener(collections));
+  } catch (err) {
+    console.error('Error refreshing collections:', err);
+  }
+};
+
+/**
+ * Gets the collections in sidebar order
+ * @returns The collections, empty until they are loaded
+ */
+export const useCollections = (): BookCollection[] => {
+  const [collections, setCollections] = useState<BookCollection[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listeners.add(setCollections);
+    loadCollections()
+      .then(loaded => {
+        if (!cancelled) setCollections(loaded);
+      })
+      .catch(err => console.error('Error loading collections:', err));
+
+    return () => {
+      cancelled = true;
+      listeners.delete(setCollections);
+    };
+  }, []);
+
+  return collections;
+};
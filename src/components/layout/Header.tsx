@@ -32,15 +32,17 @@ function HeaderContent({ isOpen, setIsOpen }: HeaderProps) {
     setDropdownOpen(!dropdownOpen);
   };
 
-  // Initialize search input from URL if on homepage
+  const isSearchPage = pathname?.replace(/\/$/, '') === '/search';
+
+  // Initialize search input from URL if on the search page
   useEffect(() => {
-    if (pathname === '/') {
+    if (isSearchPage) {
       const q = searchParams?.get('q');
       if (q) {
         setSearchInput(q);
       }
     }
-  }, [pathname, searchParams]);
+  }, [isSearchPage, searchParams]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -56,21 +58,21 @@ function HeaderContent({ isOpen, setIsOpen }: HeaderProps) {
     };
   }, []);
 
+  // Search URL for a query, keeping the facet filters already chosen on the search page
+  const getSearchUrl = (value: string) => {
+    const params = new URLSearchParams(isSearchPage ? searchParams?.toString() : '');
+    if (value.trim()) {
+      params.set('q', value.trim());
+    } else {
+      params.delete('q');
+    }
+    return `/search/?${params.toString()}`;
+  };
+
   // Handle search submission
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-
-    if (pathname === '/') {
-      // Update URL with search query
-      const params = new URLSearchParams();
-      if (searchInput.trim()) {
-        params.set('q', searchInput.trim());
-      }
-      router.push(`/?${params.toString()}`);
-    } else {
-      // Navigate to home page with search query
-      router.push(`/?q=${encodeURIComponent(searchInput.trim())}`);
-    }
+    router.push(getSearchUrl(searchInput));
   };
 
   // Handle real-time search as user types
@@ -78,16 +80,12 @@ function HeaderContent({ isOpen, setIsOpen }: HeaderProps) {
     const value = e.target.value;
     setSearchInput(value);
 
-    // Only trigger real-time search on the homepage
-    if (pathname === '/') {
+    // Only trigger real-time search on the search page
+    if (isSearchPage) {
       // Use a small delay to prevent excessive URL updates
       clearTimeout((window as any).searchTimeout);
       (window as any).searchTimeout = setTimeout(() => {
-        const params = new URLSearchParams();
-        if (value.trim()) {
-          params.set('q', value.trim());
-        }
-        router.push(`/?${params.toString()}`, { scroll: false });
+        router.replace(getSearchUrl(value), { scroll: false });
       }, 300);
     }
   };
@@ -120,7 +118,7 @@ function HeaderContent({ isOpen, setIsOpen }: HeaderProps) {
               type="text"
               value={searchInput}
               onChange={handleSearchInputChange}
-              placeholder="Search books and PDFs..."
+              placeholder="Search books, chapters and authors..."
               className="w-full bg-[#121212] border border-[#303030] rounded-full py-2 pl-10 pr-4 text-white focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent transition-all"
               suppressHydrationWarning
             />
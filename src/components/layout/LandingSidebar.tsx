@@ -4,10 +4,10 @@ import React, { useState } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
 import { usePathname } from 'next/navigation';
-import { FaHome, FaHeart, FaBookmark, FaBars, FaTimes, FaBook, FaRocket } from 'react-icons/fa';
-import { GiCrossedSwords } from 'react-icons/gi';
-import { IoSchool } from 'react-icons/io5';
+import { FaHome, FaHeart, FaBookmark, FaBars, FaTimes, FaBook, FaDownload, FaStickyNote } from 'react-icons/fa';
 import Logo from './Logo';
+import CollectionIcon from '@/components/collections/CollectionIcon';
+import { useCollections } from '@/components/collections/useCollections';
 
 interface LandingSidebarProps {
   isOpen?: boolean;
@@ -17,9 +17,10 @@ const LandingSidebar: React.FC<LandingSidebarProps> = ({ isOpen = true }) => {
   const { user, profile, isAdmin } = useAuth();
   const pathname = usePathname();
   const [mobileOpen, setMobileOpen] = useState(false);
+  const collections = useCollections();
   
   const isActive = (path: string) => {
-    return pathname === path;
+    return pathname === path || pathname === `${path}/`;
   };
 
   // Determine if sidebar should be visible
@@ -76,56 +77,49 @@ const LandingSidebar: React.FC<LandingSidebarProps> = ({ isOpen = true }) => {
                   <span className="text-xs mt-1 text-gray-400 group-hover:text-white">Saved</span>
                 </Link>
               </li>
-              <li className="w-full px-4 my-2">
-                <div className="h-px bg-gray-700/50 w-full"></div>
-              </li>
-              <li>
-                <Link 
-                  href="/history" 
-                  className="flex flex-col items-center justify-center transition-all duration-300 group"
-                >
-                  <div className={`${isActive('/history') ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-3 rounded-lg transition-all duration-300 flex items-center justify-center w-12 h-12`}>
-                    <GiCrossedSwords className="h-5 w-5" />
-                  </div>
-                  <span className="text-xs mt-1 text-gray-400 group-hover:text-white">History</span>
-                </Link>
-              </li>
-              
               <li>
                 <Link 
-                  href="/academics" 
+                  href="/notes" 
                   className="flex flex-col items-center justify-center transition-all duration-300 group"
                 >
-                  <div className={`${isActive('/academics') ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-3 rounded-lg transition-all duration-300 flex items-center justify-center w-12 h-12`}>
-                    <IoSchool className="h-5 w-5" />
+                  <div className={`${isActive('/notes') ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-3 rounded-lg transition-all duration-300 flex items-center justify-center w-12 h-12`}>
+                    <FaStickyNote className="h-5 w-5" />
                   </div>
-                  <span className="text-xs mt-1 text-gray-400 group-hover:text-white">Academics</span>
+                  <span className="text-xs mt-1 text-gray-400 group-hover:text-white">Notes</span>
                 </Link>
               </li>
-              
-              <li>
-                <Link 
-                  href="/romance" 
-                  className="flex flex-col items-center justify-center transition-all duration-300 group"
-                >
-                  <div className={`${isActive('/romance') ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-3 rounded-lg transition-all duration-300 flex items-center justify-center w-12 h-12`}>
-                    <FaHeart className="h-5 w-5" />
-                  </div>
-                  <span className="text-xs mt-1 text-gray-400 group-hover:text-white">Romance</span>
-                </Link>
-              </li>
-              
               <li>
                 <Link 
-                  href="/sci-fi" 
+                  href="/downloads" 
                   className="flex flex-col items-center justify-center transition-all duration-300 group"
                 >
-                  <div className={`${isActive('/sci-fi') ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-3 rounded-lg transition-all duration-300 flex items-center justify-center w-12 h-12`}>
-                    <FaRocket className="h-5 w-5" />
+                  <div className={`${isActive('/downloads') ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-3 rounded-lg transition-all duration-300 flex items-center justify-center w-12 h-12`}>
+                    <FaDownload className="h-5 w-5" />
                   </div>
-                  <span className="text-xs mt-1 text-gray-400 group-hover:text-white">Sci-Fi</span>
+                  <span className="text-xs mt-1 text-gray-400 group-hover:text-white">Downloads</span>
                 </Link>
               </li>
+              {collections.length > 0 && (
+                <li className="w-full px-4 my-2">
+                  <div className="h-px bg-gray-700/50 w-full"></div>
+                </li>
+              )}
+              {collections.map((bookCollection) => {
+                const href = `/collections/${bookCollection.slug}`;
+                return (
+                  <li key={bookCollection.id}>
+                    <Link 
+                      href={href} 
+                      className="flex flex-col items-center justify-center transition-all duration-300 group"
+                    >
+                      <div className={`${isActive(href) ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-3 rounded-lg transition-all duration-300 flex items-center justify-center w-12 h-12`}>
+                        <CollectionIcon name={bookCollection.icon} className="h-5 w-5" />
+                      </div>
+                      <span className="text-xs mt-1 text-gray-400 group-hover:text-white text-center">{bookCollection.shortTitle || bookCollection.title}</span>
+                    </Link>
+                  </li>
+                );
+              })}
               
             </ul>
           </nav>
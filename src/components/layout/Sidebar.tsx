@@ -6,6 +6,8 @@ import { useAuth } from '@/context/AuthContext';
 import { usePathname } from 'next/navigation';
 import { FaHome, FaHeart, FaBookmark, FaUpload, FaBook, FaFileAlt, FaUser, FaCog, FaSignOutAlt } from 'react-icons/fa';
 import Logo from './Logo';
+import CollectionIcon from '@/components/collections/CollectionIcon';
+import { useCollections } from '@/components/collections/useCollections';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -15,13 +17,14 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
   const { user, profile, isAdmin, logout } = useAuth();
   const [collapsed, setCollapsed] = useState(false);
   const pathname = usePathname();
+  const collections = useCollections();
   
   const toggleCollapse = () => {
     setCollapsed(!collapsed);
   };
   
   const isActive = (path: string) => {
-    return pathname === path;
+    return pathname === path || pathname === `${path}/`;
   };
   
   return (
@@ -135,8 +138,40 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
               </Link>
             </li>
           </ul>
-          
-          
+
+          {collections.length > 0 && (
+            <>
+              <div className={`${!collapsed ? 'mt-6 mb-3 px-2' : 'mt-6 mb-3 text-center'}`}>
+                {!collapsed ? (
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Collections</h3>
+                ) : (
+                  <div className="h-1 w-6 mx-auto bg-gray-700/50 rounded-full"></div>
+                )}
+              </div>
+              <ul className="space-y-1">
+                {collections.map((bookCollection) => {
+                  const href = `/collections/${bookCollection.slug}`;
+                  return (
+                    <li key={bookCollection.id}>
+                      <Link 
+                        href={href} 
+                        className={`flex items-center py-3 px-4 rounded-lg transition-all duration-300 group ${isActive(href) 
+                          ? 'bg-primary/10 text-primary font-medium' 
+                          : 'text-gray-300 hover:bg-gray-800/60 hover:text-white'}`}
+                        title={collapsed ? bookCollection.title : undefined}
+                      >
+                        <div className={`${isActive(href) ? 'bg-primary/20 text-primary' : 'bg-gray-800/50 text-gray-400 group-hover:bg-gray-700/70 group-hover:text-gray-200'} p-2 rounded-lg mr-3 transition-all duration-300 flex items-center justify-center w-8 h-8`}>
+                          <CollectionIcon name={bookCollection.icon} className="h-4 w-4" />
+                        </div>
+                        {!collapsed && <span className="truncate">{bookCollection.shortTitle || bookCollection.title}</span>}
+                        {isActive(href) && <div className="ml-auto w-1.5 h-8 bg-primary rounded-full"></div>}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
         </nav>
         
         {/* Spacer to push footer to bottom */}
@@ -0,0 +1,501 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { BookDocument, NarrationTimingManifest } from '@/firebase/services';
+import { saveReadingProgress } from '@/firebase/progressService';
+import { normalizeR2AudioUrl } from '@/components/audio/AudioPlayer';
+import { getNextPlaybackRate } from '@/components/audio/PlayerOptions';
+import { SleepTimer, SleepTimerOption, useSleepTimer } from '@/components/audio/useSleepTimer';
+import { usePlayerShortcuts } from '@/components/audio/usePlayerShortcuts';
+import { useMediaSession } from '@/components/audio/useMediaSession';
+import { useAuth } from './AuthContext';
+import { usePlayerSettings } from './PlayerSettingsContext';
+
+// How often the narration position is saved while playing, in milliseconds
+const PROGRESS_SAVE_INTERVAL = 15000;
+
+// Within this many seconds of the start, "previous" goes to the previous chapter instead of restarting
+const PREVIOUS_RESTART_THRESHOLD = 3;
+
+// A narration in the play queue
+export interface PlaybackQueueItem {
+  bookId: string;
+  bookTitle: string;
+  author?: string;
+  thumbnailUrl?: string;
+  chapterId?: string;      // Unset for books narrated as a whole
+  chapterTitle?: string;
+  audioUrl: string;
+  timingManifest?: NarrationTimingManifest;
+}
+
+export interface PlayBookOptions {
+  startTime?: number;  // Position in seconds to start the chapter from
+  autoplay?: boolean;  // Defaults to true
+}
+
+interface PlaybackContextType {
+  queue: PlaybackQueueItem[];
+  currentIndex: number;
+  currentItem: PlaybackQueueItem | null;
+  isPlaying: boolean;
+  isLoading: boolean;
+  error: string | null;
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+  volume: number;
+  skipBackSeconds: number;
+  skipForwardSeconds: number;
+  sleepTimer: SleepTimer | null;
+  sleepTimerRemaining: number | null;  // Seconds until the sleep timer stops playback
+  isExpanded: boolean;
+  playBook: (book: BookDocument, chapterId?: string, options?: PlayBookOptions) => void;
+  playQueueItem: (index: number, startTime?: number) => void;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (time: number, startPlaying?: boolean) => void;
+  next: () => void;
+  previous: () => void;
+  skipBack: (seconds?: number) => void;     // Defaults to the listener's skip interval
+  skipForward: (seconds?: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  setVolume: (volume: number) => void;
+  startSleepTimer: (option: SleepTimerOption) => void;
+  cancelSleepTimer: () => void;
+  setExpanded: (expanded: boolean) => void;
+  stop: () => void;
+}
+
+const PlaybackContext = createContext<PlaybackContextType>({
+  queue: [],
+  currentIndex: -1,
+  currentItem: null,
+  isPlaying: false,
+  isLoading: false,
+  error: null,
+  currentTime: 0,
+  duration: 0,
+  playbackRate: 1,
+  volume: 1,
+  skipBackSeconds: 15,
+  skipForwardSeconds: 30,
+  sleepTimer: null,
+  sleepTimerRemaining: null,
+  isExpanded: false,
+  playBook: () => { },
+  playQueueItem: () => { },
+  play: () => { },
+  pause: () => { },
+  togglePlay: () => { },
+  seek: () => { },
+  next: () => { },
+  previous: () => { },
+  skipBack: () => { },
+  skipForward: () => { },
+  setPlaybackRate: () => { },
+  setVolume: () => { },
+  startSleepTimer: () => { },
+  cancelSleepTimer: () => { },
+  setExpanded: () => { },
+  stop: () => { },
+});
+
+export const usePlayback = () => useContext(PlaybackContext);
+
+/**
+ * Builds the play queue of a book: its narrated chapters in chapter order,
+ * or the book narration itself when it has no narrated chapters
+ * @param book Book to queue
+ * @returns Queue items (empty when nothing in the book is narrated)
+ */
+export const buildBookQueue = (book: BookDocument): PlaybackQueueItem[] => {
+  const bookInfo = {
+    bookId: book.id || '',
+    bookTitle: book.title,
+    author: book.author,
+    thumbnailUrl: book.thumbnailUrl
+  };
+
+  // Blob URLs only exist in the browser that created them
+  const chapterItems = [...(book.chapters || [])]
+    .sort((a, b) => a.order - b.order)
+    .filter(chapter => chapter.audioUrl && !chapter.audioUrl.startsWith('blob:'))
+    .map(chapter => ({
+      ...bookInfo,
+      chapterId: chapter.id,
+      chapterTitle: chapter.title,
+      audioUrl: chapter.audioUrl!,
+      timingManifest: chapter.timingManifest
+    }));
+
+  if (chapterItems.length > 0) return chapterItems;
+  if (book.audioUrl && !book.audioUrl.startsWith('blob:')) {
+    return [{ ...bookInfo, audioUrl: book.audioUrl, timingManifest: book.timingManifest }];
+  }
+  return [];
+};
+
+export const PlaybackProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const { settings, updateSettings } = usePlayerSettings();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [queue, setQueue] = useState<PlaybackQueueItem[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isExpanded, setExpanded] = useState(false);
+  // Where to start and whether to play once the next source has loaded
+  const pendingStartRef = useRef<{ time: number; autoplay: boolean }>({ time: 0, autoplay: true });
+  const progressDirtyRef = useRef(false);
+  const { sleepTimer, remainingSeconds, startSleepTimer, cancelSleepTimer } = useSleepTimer(audioRef, settings.volume);
+  // Read when a chapter ends, so an end-of-chapter timer is seen before it clears itself
+  const sleepTimerRef = useRef(sleepTimer);
+  sleepTimerRef.current = sleepTimer;
+
+  const currentItem = currentIndex >= 0 ? queue[currentIndex] || null : null;
+  const currentAudioUrl = currentItem?.audioUrl;
+
+  // Save the narration position of the playing chapter to the listener's reading progress
+  const saveProgress = useCallback(async () => {
+    const audio = audioRef.current;
+    if (!user || !currentItem?.bookId || !audio) return;
+
+    progressDirtyRef.current = false;
+    try {
+      await saveReadingProgress(user.uid, currentItem.bookId, {
+        chapterId: currentItem.chapterId,
+        audioPosition: audio.currentTime,
+        audioDuration: audio.duration || 0
+      });
+    } catch (err) {
+      console.error('Error saving playback progress:', err);
+      progressDirtyRef.current = true;
+    }
+  }, [user, currentItem?.bookId, currentItem?.chapterId]);
+
+  const startPlayback = useCallback(() => {
+    audioRef.current?.play().catch(err => {
+      console.warn('Play prevented by browser:', err);
+      setIsPlaying(false);
+    });
+  }, []);
+
+  // Apply the listener's speed and volume to the audio element
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = settings.playbackRate;
+    audio.playbackRate = settings.playbackRate;
+  }, [settings.playbackRate, currentAudioUrl]);
+
+  useEffect(() => {
+    // While the sleep timer is fading out, it owns the volume
+    if (audioRef.current && !sleepTimer) audioRef.current.volume = settings.volume;
+  }, [settings.volume, sleepTimer]);
+
+  // Load the source of the current queue item
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (!currentAudioUrl) {
+      audio.removeAttribute('src');
+      audio.load();
+      return;
+    }
+
+    const finalUrl = normalizeR2AudioUrl(currentAudioUrl);
+    if (!finalUrl) {
+      setError('Invalid audio URL');
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+    setCurrentTime(0);
+    setDuration(0);
+    audio.src = finalUrl;
+    audio.load();
+  }, [currentAudioUrl]);
+
+  // Follow the audio element
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const onLoadedMetadata = () => {
+      setDuration(audio.duration);
+      setIsLoading(false);
+
+      const { time, autoplay } = pendingStartRef.current;
+      if (time > 0 && time < audio.duration) {
+        audio.currentTime = time;
+        setCurrentTime(time);
+      }
+      pendingStartRef.current = { time: 0, autoplay: true };
+      if (autoplay) startPlayback();
+    };
+
+    const onTimeUpdate = () => {
+      setCurrentTime(audio.currentTime);
+      progressDirtyRef.current = true;
+    };
+
+    const onPlay = () => setIsPlaying(true);
+
+    const onPause = () => {
+      setIsPlaying(false);
+      saveProgress();
+    };
+
+    // Continue with the next chapter of the queue, unless the sleep timer stops at the end of this one
+    const onEnded = () => {
+      setIsPlaying(false);
+      saveProgress();
+      if (sleepTimerRef.current?.option === 'chapter') return;
+      if (currentIndex < queue.length - 1) {
+        pendingStartRef.current = { time: 0, autoplay: true };
+        setCurrentIndex(currentIndex + 1);
+      }
+    };
+
+    const onError = () => {
+      if (!audio.getAttribute('src')) return;
+
+      let errorMessage = 'Audio playback error';
+      if (audio.error) {
+        switch (audio.error.code) {
+          case MediaError.MEDIA_ERR_NETWORK:
+            errorMessage = 'Network error: Failed to load audio file. Check your internet connection.';
+            break;
+          case MediaError.MEDIA_ERR_DECODE:
+          case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+            errorMessage = 'Audio format error: The file format is not supported or the file is corrupted.';
+            break;
+          default:
+            errorMessage = `Audio error (code: ${audio.error.code})`;
+        }
+      }
+
+      console.error(`${errorMessage} URL: ${audio.src}`);
+      setError(errorMessage);
+      setIsLoading(false);
+      setIsPlaying(false);
+    };
+
+    audio.addEventListener('loadedmetadata', onLoadedMetadata);
+    audio.addEventListener('timeupdate', onTimeUpdate);
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('pause', onPause);
+    audio.addEventListener('ended', onEnded);
+    audio.addEventListener('error', onError);
+
+    return () => {
+      audio.removeEventListener('loadedmetadata', onLoadedMetadata);
+      audio.removeEventListener('timeupdate', onTimeUpdate);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('pause', onPause);
+      audio.removeEventListener('ended', onEnded);
+      audio.removeEventListener('error', onError);
+    };
+  }, [currentIndex, queue.length, saveProgress, startPlayback]);
+
+  // Save periodically while playing, and when the page is hidden
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const saveIfChanged = () => {
+      if (progressDirtyRef.current) saveProgress();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveIfChanged();
+    };
+
+    const interval = setInterval(saveIfChanged, PROGRESS_SAVE_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isPlaying, saveProgress]);
+
+  const playQueueItem = useCallback((index: number, startTime: number = 0) => {
+    if (index < 0 || index >= queue.length) return;
+
+    if (index === currentIndex && audioRef.current) {
+      audioRef.current.currentTime = startTime;
+      setCurrentTime(startTime);
+      startPlayback();
+      return;
+    }
+
+    // The position of the chapter being left is kept before switching
+    if (isPlaying) saveProgress();
+
+    pendingStartRef.current = { time: startTime, autoplay: true };
+    setCurrentIndex(index);
+  }, [queue.length, currentIndex, isPlaying, saveProgress, startPlayback]);
+
+  const playBook = useCallback((book: BookDocument, chapterId?: string, options: PlayBookOptions = {}) => {
+    const { startTime = 0, autoplay = true } = options;
+    const bookQueue = buildBookQueue(book);
+    if (bookQueue.length === 0) return;
+
+    const index = Math.max(0, chapterId ? bookQueue.findIndex(item => item.chapterId === chapterId) : 0);
+    const item = bookQueue[index];
+
+    // Same narration already loaded: only move the position
+    if (currentItem && currentItem.audioUrl === item.audioUrl && audioRef.current) {
+      setQueue(bookQueue);
+      setCurrentIndex(index);
+      audioRef.current.currentTime = startTime;
+      setCurrentTime(startTime);
+      if (autoplay) startPlayback();
+      return;
+    }
+
+    // The position of the chapter being left is kept before switching
+    if (isPlaying) saveProgress();
+
+    pendingStartRef.current = { time: startTime, autoplay };
+    setQueue(bookQueue);
+    setCurrentIndex(index);
+  }, [currentItem, isPlaying, saveProgress, startPlayback]);
+
+  const play = useCallback(() => startPlayback(), [startPlayback]);
+
+  const pause = useCallback(() => audioRef.current?.pause(), []);
+
+  const togglePlay = useCallback(() => {
+    if (!audioRef.current) return;
+    if (audioRef.current.paused) {
+      startPlayback();
+    } else {
+      audioRef.current.pause();
+    }
+  }, [startPlayback]);
+
+  const seek = useCallback((time: number, startPlaying: boolean = false) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+    if (startPlaying) startPlayback();
+  }, [startPlayback]);
+
+  const next = useCallback(() => {
+    if (currentIndex < queue.length - 1) {
+      playQueueItem(currentIndex + 1);
+    }
+  }, [currentIndex, queue.length, playQueueItem]);
+
+  // Restarts the chapter, or goes to the previous one when already at its start
+  const previous = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio && (audio.currentTime > PREVIOUS_RESTART_THRESHOLD || currentIndex === 0)) {
+      seek(0);
+      return;
+    }
+    playQueueItem(currentIndex - 1);
+  }, [currentIndex, seek, playQueueItem]);
+
+  const skipBack = useCallback((seconds: number = settings.skipBackSeconds) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    seek(Math.max(0, audio.currentTime - seconds));
+  }, [seek, settings.skipBackSeconds]);
+
+  const skipForward = useCallback((seconds: number = settings.skipForwardSeconds) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    seek(Math.min(audio.duration || 0, audio.currentTime + seconds));
+  }, [seek, settings.skipForwardSeconds]);
+
+  // Speed and volume are listener preferences, saved to their profile
+  const setPlaybackRate = useCallback((rate: number) => {
+    updateSettings({ playbackRate: rate });
+  }, [updateSettings]);
+
+  const setVolume = useCallback((newVolume: number) => {
+    updateSettings({ volume: Math.min(1, Math.max(0, newVolume)) });
+  }, [updateSettings]);
+
+  usePlayerShortcuts({
+    togglePlay,
+    skipBack,
+    skipForward,
+    changeVolume: (delta) => setVolume(settings.volume + delta),
+    changePlaybackRate: (direction) => setPlaybackRate(getNextPlaybackRate(settings.playbackRate, direction))
+  }, !!currentItem);
+
+  // Close the player, keeping the position reached
+  const stop = useCallback(() => {
+    audioRef.current?.pause();
+    cancelSleepTimer();
+    setQueue([]);
+    setCurrentIndex(-1);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+    setError(null);
+    setExpanded(false);
+  }, [cancelSleepTimer]);
+
+  // Lock screen and headset controls
+  useMediaSession(audioRef, currentItem, isPlaying, {
+    play,
+    pause,
+    seek,
+    skipBack,
+    skipForward,
+    previous: currentItem ? previous : undefined,
+    next: currentIndex < queue.length - 1 ? next : undefined,
+    stop
+  });
+
+  return (
+    <PlaybackContext.Provider
+      value={{
+        queue,
+        currentIndex,
+        currentItem,
+        isPlaying,
+        isLoading,
+        error,
+        currentTime,
+        duration,
+        playbackRate: settings.playbackRate,
+        volume: settings.volume,
+        skipBackSeconds: settings.skipBackSeconds,
+        skipForwardSeconds: settings.skipForwardSeconds,
+        sleepTimer,
+        sleepTimerRemaining: remainingSeconds,
+        isExpanded,
+        playBook,
+        playQueueItem,
+        play,
+        pause,
+        togglePlay,
+        seek,
+        next,
+        previous,
+        skipBack,
+        skipForward,
+        setPlaybackRate,
+        setVolume,
+        startSleepTimer,
+        cancelSleepTimer,
+        setExpanded,
+        stop,
+      }}
+    >
+      {/* The single audio element shared by every page */}
+      <audio ref={audioRef} preload="metadata" className="hidden" />
+      {children}
+    </PlaybackContext.Provider>
+  );
+};
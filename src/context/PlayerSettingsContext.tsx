@@ -0,0 +1,78 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { DEFAULT_PLAYER_SETTINGS, PlayerSettings, updateUserProfile } from '@/firebase/services';
+import { useAuth } from './AuthContext';
+
+// Wait for this long after the last change before saving, so dragging a slider saves once
+const SETTINGS_SAVE_DELAY = 1000;
+
+interface PlayerSettingsContextType {
+  settings: PlayerSettings;
+  updateSettings: (updates: Partial<PlayerSettings>) => void;
+}
+
+const PlayerSettingsContext = createContext<PlayerSettingsContextType>({
+  settings: DEFAULT_PLAYER_SETTINGS,
+  updateSettings: () => { },
+});
+
+export const usePlayerSettings = () => useContext(PlayerSettingsContext);
+
+/**
+ * Provides the listener's preferred speed, volume and skip intervals. Signed-in
+ * listeners keep them in their user profile, so they follow them to every device.
+ */
+export const PlayerSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const { user, profile } = useAuth();
+  const [settings, setSettings] = useState<PlayerSettings>(DEFAULT_PLAYER_SETTINGS);
+  const settingsRef = useRef(settings);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Listener whose settings are waiting for the save delay
+  const pendingSaveUidRef = useRef<string | null>(null);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  const profileUid = profile?.uid || null;
+
+  // Save the pending settings now instead of after the delay
+  const flushSettingsSave = useCallback(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+
+    const uid = pendingSaveUidRef.current;
+    pendingSaveUidRef.current = null;
+    if (!uid) return;
+
+    updateUserProfile(uid, { playerSettings: settingsRef.current }).catch(err => {
+      console.error('Error saving player settings:', err);
+    });
+  }, []);
+
+  // Apply the settings saved in the profile when a listener signs in or out. Other profile
+  // updates (including the save below) must not replace changes made since.
+  useEffect(() => {
+    flushSettingsSave();
+    const next = { ...DEFAULT_PLAYER_SETTINGS, ...profileRef.current?.playerSettings };
+    settingsRef.current = next;
+    setSettings(next);
+  }, [profileUid, flushSettingsSave]);
+
+  useEffect(() => flushSettingsSave, [flushSettingsSave]);
+
+  const updateSettings = useCallback((updates: Partial<PlayerSettings>) => {
+    const next = { ...settingsRef.current, ...updates };
+    settingsRef.current = next;
+    setSettings(next);
+
+    if (!user) return;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    pendingSaveUidRef.current = user.uid;
+    saveTimerRef.current = setTimeout(flushSettingsSave, SETTINGS_SAVE_DELAY);
+  }, [user, flushSettingsSave]);
+
+  return (
+    <PlayerSettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </PlayerSettingsContext.Provider>
+  );
+};
@@ -0,0 +1,44 @@
+/**
+ * @file admin.ts
+ * @description Firebase Admin SDK for API routes: verifies the ID token sent by the browser and
+ * reads data the client security rules keep private.
+ * @integration Server only. On Cloud Functions the default service account is used; elsewhere set
+ * GOOGLE_APPLICATION_CREDENTIALS. Browsers send `Authorization: Bearer <user.getIdToken()>`.
+ */
+import { App, getApps, initializeApp } from 'firebase-admin/app';
+import { DecodedIdToken, getAuth } from 'firebase-admin/auth';
+import { Firestore, getFirestore } from 'firebase-admin/firestore';
+import { UserProfile } from './services';
+
+const PROJECT_ID = 'tune-tales-7bc34';
+
+const getAdminApp = (): App => getApps()[0] || initializeApp({ projectId: PROJECT_ID });
+
+export const getAdminDb = (): Firestore => getFirestore(getAdminApp());
+
+/**
+ * Gets the signed-in user of an API request from its `Authorization: Bearer` ID token
+ * @param request Incoming request
+ * @returns The verified token, or null when it is missing, expired or invalid
+ */
+export const getRequestUser = async (request: Request): Promise<DecodedIdToken | null> => {
+  const match = /^Bearer (.+)$/.exec(request.headers.get('authorization') || '');
+  if (!match) return null;
+
+  try {
+    return await getAuth(getAdminApp()).verifyIdToken(match[1]);
+  } catch (err) {
+    console.warn('Invalid ID token:', (err as Error).message);
+    return null;
+  }
+};
+
+/**
+ * Gets the role saved in a user's profile
+ * @param uid User ID
+ * @returns The role, or null when the user has no profile
+ */
+export const getUserRole = async (uid: string): Promise<UserProfile['role'] | null> => {
+  const snapshot = await getAdminDb().collection('users').doc(uid).get();
+  return snapshot.exists ? (snapshot.get('role') as UserProfile['role']) : null;
+};
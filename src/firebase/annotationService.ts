@@ -0,0 +1,111 @@
+import { collection, doc, getDocs, query, where, addDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { db } from './config';
+
+// A bookmark marks a place to come back to; a highlight marks a passage of text
+export type AnnotationType = 'bookmark' | 'highlight';
+
+// A reader's bookmark or highlight inside a book, stored in the 'annotations' collection.
+// Whole-book saves made with SaveButton live in 'bookmarks' instead.
+export interface Annotation {
+  id?: string;
+  userId: string;
+  bookId: string;
+  bookTitle: string;         // Kept so "My notes" can group entries without loading every book
+  chapterId?: string;        // Unset for books read as a whole on /read/[id]
+  chapterTitle?: string;
+  type: AnnotationType;
+  paragraphIndex?: number;   // Narrated paragraph (see splitNarratedContent)
+  audioTime?: number;        // Narration position in seconds
+  text?: string;             // Highlighted passage, or the start of the bookmarked paragraph
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Fields given when a reader adds a bookmark or highlight
+export type NewAnnotation = Omit<Annotation, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+const ANNOTATIONS_COLLECTION = 'annotations';
+
+// Add a bookmark or highlight for a user
+export const addAnnotation = async (userId: string, annotation: NewAnnotation): Promise<Annotation> => {
+  try {
+    const now = Date.now();
+    const annotationDoc: Omit<Annotation, 'id'> = {
+      userId,
+      bookId: annotation.bookId,
+      bookTitle: annotation.bookTitle,
+      type: annotation.type,
+      ...(annotation.chapterId && { chapterId: annotation.chapterId }),
+      ...(annotation.chapterTitle && { chapterTitle: annotation.chapterTitle }),
+      ...(annotation.paragraphIndex !== undefined && { paragraphIndex: annotation.paragraphIndex }),
+      ...(annotation.audioTime !== undefined && { audioTime: Math.max(0, annotation.audioTime) }),
+      ...(annotation.text && { text: annotation.text }),
+      ...(annotation.note && { note: annotation.note }),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const docRef = await addDoc(collection(db, ANNOTATIONS_COLLECTION), annotationDoc);
+    return { id: docRef.id, ...annotationDoc };
+  } catch (error) {
+    console.error('Error adding annotation:', error);
+    throw error;
+  }
+};
+
+// Set or clear the note of a bookmark or highlight
+export const updateAnnotationNote = async (annotationId: string, note: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, ANNOTATIONS_COLLECTION, annotationId), {
+      note: note.trim(),
+      updatedAt: Date.now()
+    });
+  } catch (error) {
+    console.error('Error updating annotation note:', error);
+    throw error;
+  }
+};
+
+// Remove a bookmark or highlight
+export const deleteAnnotation = async (annotationId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, ANNOTATIONS_COLLECTION, annotationId));
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    throw error;
+  }
+};
+
+// Get all of a user's bookmarks and highlights, most recent first
+export const getUserAnnotations = async (userId: string): Promise<Annotation[]> => {
+  try {
+    // Sorted here so the query does not need a composite index
+    const q = query(collection(db, ANNOTATIONS_COLLECTION), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Annotation))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Error getting annotations:', error);
+    throw error;
+  }
+};
+
+// Get a user's bookmarks and highlights in one book
+export const getBookAnnotations = async (userId: string, bookId: string): Promise<Annotation[]> => {
+  try {
+    const q = query(
+      collection(db, ANNOTATIONS_COLLECTION),
+      where('userId', '==', userId),
+      where('bookId', '==', bookId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Annotation));
+  } catch (error) {
+    console.error('Error getting book annotations:', error);
+    throw error;
+  }
+};
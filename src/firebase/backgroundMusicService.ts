@@ -4,9 +4,18 @@ import { ContentMetadata } from '@/services/openai';
 import { r2Client } from '@/r2/config';
 import { getFileUrlFromR2, fileExistsInR2 } from '@/r2/services';
 import { ListObjectsV2Command, ListObjectsV2CommandOutput } from '@aws-sdk/client-s3';
+import {
+  MusicCategory,
+  MusicTrack,
+  MusicTrackInput,
+  MUSIC_CATEGORIES,
+  LEGACY_MUSIC_FOLDERS,
+  mapMoodToMusicCategory,
+  selectMusicTrackForContext
+} from './musicTrackService';
+import { MusicSelection, MusicSelectionContext, MusicSelectionOptions } from '@/utils/musicSelection';
 
-// Background music categories
-export type MusicCategory = 'Horror' | 'Suspence' | 'Happy' | 'Clam' | 'Historic' | 'Romantic' | 'Mystery' | 'Sad';
+export type { MusicCategory } from './musicTrackService';
 
 // Background music file structure
 export interface BackgroundMusic {
@@ -14,44 +23,68 @@ export interface BackgroundMusic {
   category: MusicCategory;
   index: number;
   filename: string;
+  trackId?: string;     // ID in the musicTracks catalog (legacy library files have none)
+  title?: string;
+  attribution?: string; // Credit line required by the track's license
+  score?: number;       // Selection score (0-1) of catalog tracks
+  rationale?: string;   // Why the music was chosen, shown to authors
 }
 
-// Map mood from metadata to music category
-const mapMoodToCategory = (mood: string): MusicCategory => {
-  // Normalize the mood to lowercase for case-insensitive matching
-  const normalizedMood = mood.toLowerCase();
-  
-  // Map various moods to our available categories based on requirements
-  if (normalizedMood.includes('horror') || normalizedMood.includes('scary') || normalizedMood.includes('terrifying')) {
-    return 'Horror';
-  } else if (normalizedMood.includes('suspense') || normalizedMood.includes('tension') || normalizedMood.includes('anxious') || normalizedMood.includes('tense') || normalizedMood.includes('drama')) {
-    return 'Suspence';
-  } else if (normalizedMood.includes('happy') || normalizedMood.includes('joyful') || normalizedMood.includes('cheerful')) {
-    return 'Happy';
-  } else if (normalizedMood.includes('calm') || normalizedMood.includes('peaceful') || normalizedMood.includes('serene') || normalizedMood.includes('tranquil')) {
-    return 'Clam';
-  } else if (normalizedMood.includes('historic') || normalizedMood.includes('ancient') || normalizedMood.includes('old') || normalizedMood.includes('traditional')) {
-    return 'Historic';
-  } else if (normalizedMood.includes('romantic') || normalizedMood.includes('love') || normalizedMood.includes('passionate')) {
-    return 'Romantic';
-  } else if (normalizedMood.includes('mystery') || normalizedMood.includes('enigmatic') || normalizedMood.includes('puzzling') || normalizedMood.includes('curious')) {
-    return 'Mystery';
-  } else if (normalizedMood.includes('sad') || normalizedMood.includes('melancholy') || normalizedMood.includes('melancholic') || normalizedMood.includes('sorrowful') || normalizedMood.includes('depressing') || normalizedMood.includes('despair')) {
-    return 'Sad';
-  } else if (normalizedMood.includes('drama')) {
-    // For drama genre, randomly select between Suspence and Horror
-    const options: MusicCategory[] = ['Suspence', 'Horror'];
-    return options[Math.floor(Math.random() * options.length)];
+// Legacy library files are numbered 1-7 by rising intensity
+const LEGACY_TRACKS_PER_CATEGORY = 7;
+
+/**
+ * Converts a catalog selection to the BackgroundMusic structure used by the narration components
+ * @param selection Selected catalog track with its score and rationale
+ */
+const selectionToBackgroundMusic = ({ track, category, score, rationale }: MusicSelection): BackgroundMusic => ({
+  url: track.url,
+  category,
+  index: 1,
+  filename: track.storagePath.split('/').pop() || track.title,
+  ...(track.id && { trackId: track.id }),
+  title: track.title,
+  ...(track.attribution && { attribution: track.attribution }),
+  score: Math.round(score.total * 100) / 100,
+  rationale
+});
+
+/**
+ * Selects the best scoring track for a paragraph from the musicTracks catalog
+ * @param context Paragraph metadata, seed and the tracks already used in the book
+ * @returns The selected music, or null when the catalog has no active tracks
+ */
+const selectCatalogMusic = async (context: MusicSelectionContext): Promise<BackgroundMusic | null> => {
+  try {
+    const selection = await selectMusicTrackForContext(context);
+    if (!selection) {
+      console.warn('The music catalog has no active tracks, falling back to the legacy library');
+      return null;
+    }
+
+    console.log(`Selected catalog track: ${selection.rationale}`);
+    return selectionToBackgroundMusic(selection);
+  } catch (error) {
+    console.error('Error querying the music catalog:', error);
+    return null;
   }
-  
-  // Default to Suspence if no match is found (removed Neutral as default)
-  console.warn(`No direct match found for mood: ${mood}. Defaulting to Suspence.`);
-  return 'Suspence';
 };
 
+/**
+ * Builds the selection context of a paragraph from its metadata
+ */
+const getSelectionContext = (metadata: ContentMetadata, options: MusicSelectionOptions): MusicSelectionContext => ({
+  mood: metadata.mood,
+  intensity: metadata.intensity,
+  tempo: metadata.tempo,
+  genre: metadata.genre,
+  ...options
+});
 
-// Helper function to get background music with fallback options
+// Helper function to get background music from the legacy R2 library with fallback options
 const getBackgroundMusicWithFallback = async (category: MusicCategory, musicIndex: number): Promise<BackgroundMusic> => {
+  const folder = LEGACY_MUSIC_FOLDERS[category];
+
   // Try to get the music file with the calculated index
   // If not found, try other indices in descending order of preference
   const indexesToTry = [
@@ -69,12 +102,12 @@ const getBackgroundMusicWithFallback = async (category: MusicCategory, musicInde
   for (const idx of indexesToTry) {
     try {
       // Try both uppercase and lowercase file extensions
-      const filenameUppercase = `${category}_${idx}.MP3`;
-      const filenameLowercase = `${category}_${idx}.mp3`;
+      const filenameUppercase = `${folder}_${idx}.MP3`;
+      const filenameLowercase = `${folder}_${idx}.mp3`;
       
       // First try uppercase extension
       try {
-        const pathUppercase = `POCBackgroundMusic/${category}/${filenameUppercase}`;
+        const pathUppercase = `POCBackgroundMusic/${folder}/${filenameUppercase}`;
         console.log(`Trying to access: ${pathUppercase}`);
         
         // Check if file exists in R2
@@ -88,7 +121,7 @@ const getBackgroundMusicWithFallback = async (category: MusicCategory, musicInde
           break;
         } else {
           // Try lowercase extension
-          const pathLowercase = `POCBackgroundMusic/${category}/${filenameLowercase}`;
+          const pathLowercase = `POCBackgroundMusic/${folder}/${filenameLowercase}`;
           console.log(`Trying to access: ${pathLowercase}`);
           
           const existsLowercase = await fileExistsInR2(pathLowercase);
@@ -100,7 +133,7 @@ const getBackgroundMusicWithFallback = async (category: MusicCategory, musicInde
             console.log(`Found background music file with lowercase extension: ${filenameLowercase}`);
             break;
           } else {
-            console.warn(`Background music file not found with either case: ${category}_${idx}.MP3 or ${category}_${idx}.mp3`);
+            console.warn(`Background music file not found with either case: ${folder}_${idx}.MP3 or ${folder}_${idx}.mp3`);
             continue; // Try next index
           }
         }
@@ -117,17 +150,18 @@ const getBackgroundMusicWithFallback = async (category: MusicCategory, musicInde
   
   // If no file was found after trying all indices, try a different category
   if (!found) {
-    const fallbackCategories: MusicCategory[] = ['Suspence', 'Happy', 'Thriller', 'Horror']
-      .filter(c => c !== category) as MusicCategory[];
+    const fallbackCategories = (['Suspense', 'Happy', 'Horror'] as MusicCategory[])
+      .filter(c => c !== category);
     
     for (const fallbackCategory of fallbackCategories) {
+      const fallbackFolder = LEGACY_MUSIC_FOLDERS[fallbackCategory];
       // Try both uppercase and lowercase file extensions for fallback
-      const filenameUppercase = `${fallbackCategory}_1.MP3`;
-      const filenameLowercase = `${fallbackCategory}_1.mp3`;
+      const filenameUppercase = `${fallbackFolder}_1.MP3`;
+      const filenameLowercase = `${fallbackFolder}_1.mp3`;
       
       // First try uppercase extension
       try {
-        const pathUppercase = `POCBackgroundMusic/${fallbackCategory}/${filenameUppercase}`;
+        const pathUppercase = `POCBackgroundMusic/${fallbackFolder}/${filenameUppercase}`;
         console.log(`Trying fallback with uppercase extension: ${pathUppercase}`);
         
         const existsUppercase = await fileExistsInR2(pathUppercase);
@@ -142,7 +176,7 @@ const getBackgroundMusicWithFallback = async (category: MusicCategory, musicInde
           };
         } else {
           // Try lowercase extension
-          const pathLowercase = `POCBackgroundMusic/${fallbackCategory}/${filenameLowercase}`;
+          const pathLowercase = `POCBackgroundMusic/${fallbackFolder}/${filenameLowercase}`;
           console.log(`Trying fallback with lowercase extension: ${pathLowercase}`);
           
           const existsLowercase = await fileExistsInR2(pathLowercase);
@@ -156,7 +190,7 @@ const getBackgroundMusicWithFallback = async (category: MusicCategory, musicInde
               filename: filenameLowercase
             };
           } else {
-            console.warn(`Fallback music file not found with either case: ${fallbackCategory}_1.MP3 or ${fallbackCategory}_1.mp3`);
+            console.warn(`Fallback music file not found with either case: ${fallbackFolder}_1.MP3 or ${fallbackFolder}_1.mp3`);
             continue; // Try next category
           }
         }
@@ -178,36 +212,54 @@ const getBackgroundMusicWithFallback = async (category: MusicCategory, musicInde
   };
 };
 
-// Get background music based on metadata
-export const getBackgroundMusicForMetadata = async (metadata: ContentMetadata): Promise<BackgroundMusic> => {
+// Get background music for a paragraph: the best scoring catalog track, then the legacy library
+const getMusicForContext = async (context: MusicSelectionContext): Promise<BackgroundMusic> => {
+  const catalogMusic = await selectCatalogMusic(context);
+  if (catalogMusic) return catalogMusic;
+
+  // Map intensity from 1-10 scale to 1-7 scale for the legacy files
+  const intensity = context.intensity || 5;
+  const musicIndex = Math.max(1, Math.min(LEGACY_TRACKS_PER_CATEGORY, Math.ceil(intensity / 10 * LEGACY_TRACKS_PER_CATEGORY)));
+  const music = await getBackgroundMusicWithFallback(mapMoodToMusicCategory(context.mood), musicIndex);
+  return {
+    ...music,
+    rationale: `The music catalog has no tracks yet: legacy ${music.category} file ${music.index} was used for intensity ${intensity}.`
+  };
+};
+
+/**
+ * Gets background music based on metadata. Without a seed the same metadata always gets the same track.
+ * @param metadata Content metadata (mood, intensity, tempo and genre are scored)
+ * @param options Seed and the tracks already used in the book
+ * @returns Promise resolving to a BackgroundMusic object
+ */
+export const getBackgroundMusicForMetadata = async (
+  metadata: ContentMetadata,
+  options: MusicSelectionOptions = {}
+): Promise<BackgroundMusic> => {
   try {
-    // Map the mood to a category
-    const category = mapMoodToCategory(metadata.mood);
-    
-    // Choose a music index based on intensity (1-7)
-    // Map intensity from 1-10 scale to 1-7 scale for our files
-    const musicIndex = Math.max(1, Math.min(7, Math.ceil(metadata.intensity / 10 * 7)));
-    
-    // Get background music with fallback options
-    return await getBackgroundMusicWithFallback(category, musicIndex);
+    return await getMusicForContext(getSelectionContext(metadata, { seed: '', ...options }));
   } catch (error) {
     console.error('Error fetching background music:', error);
     // Return a hardcoded fallback music object when all else fails
     return {
       url: '/fallback-music.mp3', // This should be a local file in your public directory
-      category: 'Suspence',
+      category: 'Suspense',
       index: 1,
       filename: 'fallback-music.mp3'
     };
   }
 };
 
-// Get multiple background music tracks for paragraph-level analysis
-export const getBackgroundMusicForParagraphs = async (metadata: ContentMetadata): Promise<BackgroundMusic[]> => {
+// Get multiple background music tracks for paragraph-level analysis, without repeating tracks between moods
+export const getBackgroundMusicForParagraphs = async (
+  metadata: ContentMetadata,
+  options: MusicSelectionOptions = {}
+): Promise<BackgroundMusic[]> => {
   try {
     // If no paragraph moods are available, just get one track for the overall mood
     if (!metadata.paragraphMoods || metadata.paragraphMoods.length === 0) {
-      const music = await getBackgroundMusicForMetadata(metadata);
+      const music = await getBackgroundMusicForMetadata(metadata, options);
       return [music];
     }
     
@@ -216,12 +268,11 @@ export const getBackgroundMusicForParagraphs = async (metadata: ContentMetadata)
     
     // Map to store music by mood
     const musicByMood = new Map<string, BackgroundMusic>();
+    const usedTrackIds = [...(options.usedTrackIds || [])];
     
     // Fetch music for each unique mood
     for (const mood of uniqueMoods) {
       try {
-        const category = mapMoodToCategory(mood);
-        
         // Find the paragraph with this mood that has the highest intensity
         const paragraphWithMood = metadata.paragraphMoods
           .filter(p => p.mood === mood)
@@ -235,11 +286,11 @@ export const getBackgroundMusicForParagraphs = async (metadata: ContentMetadata)
         // Use transition intensity if available, otherwise use overall intensity
         const intensity = paragraphWithMood.transition?.intensity || metadata.intensity;
         
-        // Map intensity to music index (1-7)
-        const musicIndex = Math.max(1, Math.min(7, Math.ceil(intensity / 10 * 7)));
-        
-        // Get background music with fallback options
-        const music = await getBackgroundMusicWithFallback(category, musicIndex);
+        // Get background music from the catalog, with the legacy library as fallback
+        const music = await getMusicForContext(
+          getSelectionContext({ ...metadata, mood, intensity }, { seed: '', ...options, usedTrackIds })
+        );
+        if (music.trackId) usedTrackIds.push(music.trackId);
         
         // Store the music by mood
         musicByMood.set(mood, music);
@@ -252,7 +303,7 @@ export const getBackgroundMusicForParagraphs = async (metadata: ContentMetadata)
     // If we couldn't get any music, get at least one track
     if (musicByMood.size === 0) {
       try {
-        const defaultMusic = await getBackgroundMusicForMetadata(metadata);
+        const defaultMusic = await getBackgroundMusicForMetadata(metadata, options);
         musicByMood.set(metadata.mood, defaultMusic);
       } catch (err) {
         console.error('Failed to get default background music:', err);
@@ -278,7 +329,7 @@ export const getBackgroundMusicForParagraphs = async (metadata: ContentMetadata)
   }
 };
 
-// List all available background music categories
+// List all available background music categories (folders of the legacy R2 library)
 export const listBackgroundMusicCategories = async (): Promise<string[]> => {
   try {
     const command = new ListObjectsV2Command({
@@ -310,7 +361,7 @@ export const listBackgroundMusicCategories = async (): Promise<string[]> => {
   }
 };
 
-// List all music files in a category
+// List all music files in a folder of the legacy R2 library
 export const listBackgroundMusicInCategory = async (category: string): Promise<string[]> => {
   try {
     const command = new ListObjectsV2Command({
@@ -341,16 +392,17 @@ export const listBackgroundMusicInCategory = async (category: string): Promise<s
 };
 
 /**
- * Gets a random background music file from a specific category
- * @param category The category to get music from (Horror, Suspence, Happy, Thriller)
+ * Gets a random background music file from a specific category of the legacy library
+ * @param category The category to get music from
  * @returns Promise resolving to a BackgroundMusic object
  */
 export const getRandomBackgroundMusic = async (category: MusicCategory): Promise<BackgroundMusic> => {
+  const folder = LEGACY_MUSIC_FOLDERS[category];
   try {
     console.log(`Getting random background music from category: ${category}`);
     
     // List all files in the category
-    const files = await listBackgroundMusicInCategory(category);
+    const files = await listBackgroundMusicInCategory(folder);
     
     // Filter for MP3 files (both uppercase and lowercase extensions)
     const mp3Files = files.filter(filename => 
@@ -369,7 +421,7 @@ export const getRandomBackgroundMusic = async (category: MusicCategory): Promise
     console.log(`Selected random file: ${randomFileName} from category: ${category}`);
     
     // Get download URL
-    const path = `POCBackgroundMusic/${category}/${randomFileName}`;
+    const path = `POCBackgroundMusic/${folder}/${randomFileName}`;
     const url = await getFileUrlFromR2(path);
     
     // Extract index from filename (e.g., "Happy_3.mp3" -> 3)
@@ -387,8 +439,8 @@ export const getRandomBackgroundMusic = async (category: MusicCategory): Promise
     
     // Try fallback categories if the specified category fails
     try {
-      const fallbackCategories: MusicCategory[] = ['Suspence', 'Happy', 'Thriller', 'Horror']
-        .filter(c => c !== category) as MusicCategory[];
+      const fallbackCategories = (['Suspense', 'Happy', 'Horror'] as MusicCategory[])
+        .filter(c => c !== category);
       
       for (const fallbackCategory of fallbackCategories) {
         try {
@@ -409,17 +461,30 @@ export const getRandomBackgroundMusic = async (category: MusicCategory): Promise
 };
 
 /**
- * Gets a random background music file based on content metadata
- * @param metadata Content metadata containing mood information
+ * Gets background music based on content metadata, breaking ties between equally fitting tracks at random
+ * unless a seed is given
+ * @param metadata Content metadata (mood, intensity, tempo and genre are scored)
+ * @param options Seed and the tracks already used in the book
  * @returns Promise resolving to a BackgroundMusic object
  */
-export const getRandomBackgroundMusicForMetadata = async (metadata: ContentMetadata): Promise<BackgroundMusic> => {
+export const getRandomBackgroundMusicForMetadata = async (
+  metadata: ContentMetadata,
+  options: MusicSelectionOptions = {}
+): Promise<BackgroundMusic> => {
   // Map the mood to a category
-  const category = mapMoodToCategory(metadata.mood);
+  const category = mapMoodToMusicCategory(metadata.mood);
   
   try {
+    // Prefer the best scoring track from the catalog
+    const catalogMusic = await selectCatalogMusic(getSelectionContext(metadata, options));
+    if (catalogMusic) return catalogMusic;
+    
     // Get random music from the mapped category
-    return await getRandomBackgroundMusic(category);
+    const music = await getRandomBackgroundMusic(category);
+    return {
+      ...music,
+      rationale: `The music catalog has no tracks yet: a random legacy ${music.category} file was used.`
+    };
   } catch (error) {
     console.error(`Error getting random music for mood ${metadata.mood}:`, error);
     throw error;
@@ -431,11 +496,14 @@ export const getRandomBackgroundMusicForMetadata = async (metadata: ContentMetad
  * @param metadata Content metadata containing paragraph-level mood information
  * @returns Promise resolving to an array of BackgroundMusic objects
  */
-export const getRandomBackgroundMusicForParagraphs = async (metadata: ContentMetadata): Promise<BackgroundMusic[]> => {
+export const getRandomBackgroundMusicForParagraphs = async (
+  metadata: ContentMetadata,
+  options: MusicSelectionOptions = {}
+): Promise<BackgroundMusic[]> => {
   try {
     // If no paragraph moods are available, just get one track for the overall mood
     if (!metadata.paragraphMoods || metadata.paragraphMoods.length === 0) {
-      const music = await getRandomBackgroundMusicForMetadata(metadata);
+      const music = await getRandomBackgroundMusicForMetadata(metadata, options);
       return [music];
     }
     
@@ -444,14 +512,14 @@ export const getRandomBackgroundMusicForParagraphs = async (metadata: ContentMet
     
     // Map to store music by mood
     const musicByMood = new Map<string, BackgroundMusic>();
+    const usedTrackIds = [...(options.usedTrackIds || [])];
     
     // Fetch music for each unique mood
     for (const mood of uniqueMoods) {
       try {
-        const category = mapMoodToCategory(mood);
-        
-        // Get random music for this mood category
-        const music = await getRandomBackgroundMusic(category);
+        // Get music for this mood, from the catalog when it has tracks
+        const music = await getRandomBackgroundMusicForMetadata({ ...metadata, mood }, { ...options, usedTrackIds });
+        if (music.trackId) usedTrackIds.push(music.trackId);
         
         // Store the music by mood
         musicByMood.set(mood, music);
@@ -464,7 +532,7 @@ export const getRandomBackgroundMusicForParagraphs = async (metadata: ContentMet
     // If we couldn't get any music, get at least one track
     if (musicByMood.size === 0) {
       try {
-        const defaultMusic = await getRandomBackgroundMusicForMetadata(metadata);
+        const defaultMusic = await getRandomBackgroundMusicForMetadata(metadata, options);
         musicByMood.set(metadata.mood, defaultMusic);
       } catch (err) {
         console.error('Failed to get default background music:', err);
@@ -489,3 +557,51 @@ export const getRandomBackgroundMusicForParagraphs = async (metadata: ContentMet
     throw error;
   }
 };
+
+/**
+ * Lists the files of the legacy R2 library that are not in the catalog yet, with tags derived from
+ * their folder and number, so they can be imported into the musicTracks catalog
+ * @param existingStoragePaths Storage paths already in the catalog
+ * @returns Promise resolving to the tracks to import (duration is 0 until measured)
+ */
+export const getLegacyMusicTrackCandidates = async (
+  existingStoragePaths: string[]
+): Promise<(MusicTrackInput & Pick<MusicTrack, 'url' | 'storagePath'>)[]> => {
+  try {
+    const existing = new Set(existingStoragePaths);
+    const candidates: (MusicTrackInput & Pick<MusicTrack, 'url' | 'storagePath'>)[] = [];
+
+    for (const category of MUSIC_CATEGORIES) {
+      const folder = LEGACY_MUSIC_FOLDERS[category];
+      const files = await listBackgroundMusicInCategory(folder);
+
+      for (const filename of files.filter(name => name.toLowerCase().endsWith('.mp3'))) {
+        const storagePath = `POCBackgroundMusic/${folder}/${filename}`;
+        if (existing.has(storagePath)) continue;
+
+        // File n was used for intensities whose 1-7 index is n
+        const match = filename.match(/(\d+)\.mp3$/i);
+        const index = match ? Math.max(1, Math.min(LEGACY_TRACKS_PER_CATEGORY, parseInt(match[1]))) : 1;
+        const intensityMin = Math.floor((index - 1) * 10 / LEGACY_TRACKS_PER_CATEGORY) + 1;
+        const intensityMax = index === LEGACY_TRACKS_PER_CATEGORY ? 10 : Math.floor(index * 10 / LEGACY_TRACKS_PER_CATEGORY);
+
+        candidates.push({
+          title: `${category} ${index}`,
+          url: await getFileUrlFromR2(storagePath),
+          storagePath,
+          categories: [category],
+          intensityMin,
+          intensityMax: Math.max(intensityMin, intensityMax),
+          loopable: false,
+          license: 'Unknown',
+          duration: 0
+        });
+      }
+    }
+
+    return candidates;
+  } catch (error) {
+    console.error('Error listing legacy background music:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,328 @@
+import {
+  collection,
+  addDoc,
+  doc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  writeBatch,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from './config';
+import { BookDocument, getBookById } from './services';
+import { isPublished } from '@/utils/publishing';
+
+// How a collection picks its books: every book with a tag, or a list curated by hand
+export type CollectionRuleType = 'tag' | 'manual';
+
+// Orders a collection page can be sorted in; 'curated' is the order of a manual list
+export type CollectionSort = 'curated' | 'newest' | 'oldest' | 'title';
+
+// Icons a collection can show in the sidebars (see `CollectionIcon`)
+export type CollectionIconName = 'book' | 'history' | 'academics' | 'romance' | 'sci-fi' | 'star' | 'music' | 'child';
+
+export const COLLECTION_ICON_NAMES: CollectionIconName[] = ['book', 'history', 'academics', 'romance', 'sci-fi', 'star', 'music', 'child'];
+
+// Curated genre or collection page stored in the 'collections' collection, shown at /collections/{slug}
+export interface BookCollection {
+  id?: string;
+  title: string;
+  slug: string;                 // URL segment, unique: lowercase letters, digits and dashes
+  shortTitle?: string;          // Label in the sidebars (defaults to the title)
+  description: string;
+  heroImageUrl?: string;
+  icon: CollectionIconName;
+  ruleType: CollectionRuleType;
+  tag?: string;                 // Tag rule: books carrying this tag (exact, as on the books)
+  bookIds: string[];            // Manual rule: books in their curated order
+  order: number;                // Position in the sidebars, ascending
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Fields an admin can set when adding or editing a collection
+export type BookCollectionInput = Pick<
+  BookCollection,
+  'title' | 'slug' | 'shortTitle' | 'description' | 'heroImageUrl' | 'icon' | 'ruleType' | 'tag' | 'bookIds'
+>;
+
+// The genre pages that used to be hard-coded routes, kept at the same slugs
+export const DEFAULT_COLLECTIONS: BookCollectionInput[] = [
+  {
+    title: 'History',
+    slug: 'history',
+    description: 'Explore our collection of historical books featuring significant events, influential figures, and fascinating stories from the past.',
+    icon: 'history',
+    ruleType: 'tag',
+    tag: 'History',
+    bookIds: []
+  },
+  {
+    title: 'Academic Books',
+    slug: 'academics',
+    shortTitle: 'Academics',
+    description: 'Explore our collection of academic books covering a wide range of subjects. Perfect for students, researchers, and lifelong learners.',
+    icon: 'academics',
+    ruleType: 'tag',
+    tag: 'Academic',
+    bookIds: []
+  },
+  {
+    title: 'Romance Books',
+    slug: 'romance',
+    shortTitle: 'Romance',
+    description: 'Discover our collection of romance novels featuring captivating love stories, passionate characters, and emotional journeys.',
+    icon: 'romance',
+    ruleType: 'tag',
+    tag: 'Romance',
+    bookIds: []
+  },
+  {
+    title: 'Science Fiction',
+    slug: 'sci-fi',
+    shortTitle: 'Sci-Fi',
+    description: 'Explore our collection of science fiction books featuring futuristic worlds, advanced technology, space exploration, and thought-provoking concepts.',
+    icon: 'sci-fi',
+    ruleType: 'tag',
+    tag: 'Sci-Fi',
+    bookIds: []
+  }
+];
+
+// R2 prefix for collection hero images
+export const COLLECTION_IMAGE_STORAGE_PREFIX = 'collections/hero';
+
+const COLLECTIONS_COLLECTION = 'collections';
+
+/**
+ * Turns a title into a URL slug
+ * @param title Collection title
+ * @returns Lowercase words joined by dashes, e.g. "Sci-Fi & Fantasy" -> "sci-fi-fantasy"
+ */
+export const slugifyCollectionTitle = (title: string): string =>
+  title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Validates collection fields before they are written
+ * @param input Collection fields
+ * @returns Cleaned fields (undefined optional fields removed, since Firestore rejects them)
+ */
+const sanitizeCollectionInput = (input: Partial<BookCollectionInput>): Partial<BookCollectionInput> => {
+  if (input.title !== undefined && !input.title.trim()) {
+    throw new Error('Collection title is required');
+  }
+  if (input.slug !== undefined && !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(input.slug)) {
+    throw new Error('The slug may only contain lowercase letters, digits and dashes');
+  }
+  if (input.ruleType === 'tag' && !input.tag?.trim()) {
+    throw new Error('Choose the tag of the books in this collection');
+  }
+
+  const cleaned: Partial<BookCollectionInput> = { ...input };
+  if (input.title !== undefined) cleaned.title = input.title.trim();
+  if (input.shortTitle !== undefined) cleaned.shortTitle = input.shortTitle.trim();
+  if (input.description !== undefined) cleaned.description = input.description.trim();
+  if (input.tag !== undefined) cleaned.tag = input.tag.trim();
+  if (input.bookIds !== undefined) cleaned.bookIds = Array.from(new Set(input.bookIds));
+
+  (Object.keys(cleaned) as (keyof BookCollectionInput)[]).forEach(key => {
+    if (cleaned[key] === undefined || cleaned[key] === '') delete cleaned[key];
+  });
+  return cleaned;
+};
+
+/**
+ * Reads a collection document, defaulting fields added after it was written
+ */
+const toBookCollection = (docSnap: QueryDocumentSnapshot): BookCollection => {
+  const data = docSnap.data();
+  return { ...data, id: docSnap.id, bookIds: data.bookIds || [] } as BookCollection;
+};
+
+// Get every collection in sidebar order
+export const getCollections = async (): Promise<BookCollection[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, COLLECTIONS_COLLECTION));
+    return querySnapshot.docs
+      .map(toBookCollection)
+      .sort((a, b) => a.order - b.order || a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Error getting collections:', error);
+    throw error;
+  }
+};
+
+/**
+ * Finds the stored collection using a slug
+ */
+const findStoredCollection = async (slug: string): Promise<BookCollection | null> => {
+  const querySnapshot = await getDocs(query(collection(db, COLLECTIONS_COLLECTION), where('slug', '==', slug)));
+  return querySnapshot.empty ? null : toBookCollection(querySnapshot.docs[0]);
+};
+
+// Get a collection by its slug
+export const getCollectionBySlug = async (slug: string): Promise<BookCollection | null> => {
+  try {
+    const stored = await findStoredCollection(slug);
+    if (stored) return stored;
+
+    // The old genre URLs redirect here, so their pages work before the defaults are added
+    const index = DEFAULT_COLLECTIONS.findIndex(defaults => defaults.slug === slug);
+    return index < 0 ? null : { ...DEFAULT_COLLECTIONS[index], order: index, createdAt: 0, updatedAt: 0 };
+  } catch (error) {
+    console.error('Error getting collection:', error);
+    throw error;
+  }
+};
+
+/**
+ * Throws when another collection already uses a slug
+ */
+const assertSlugAvailable = async (slug: string, collectionId?: string): Promise<void> => {
+  const existing = await findStoredCollection(slug);
+  if (existing && existing.id !== collectionId) {
+    throw new Error(`The slug "${slug}" is already used by "${existing.title}"`);
+  }
+};
+
+// Add a collection at the end of the sidebars
+export const createCollection = async (input: BookCollectionInput): Promise<BookCollection> => {
+  try {
+    const cleaned = sanitizeCollectionInput(input);
+    await assertSlugAvailable(input.slug);
+
+    const collections = await getCollections();
+    const timestamp = Date.now();
+    const collectionDoc = {
+      bookIds: [],
+      ...cleaned,
+      order: collections.length > 0 ? collections[collections.length - 1].order + 1 : 0,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    } as Omit<BookCollection, 'id'>;
+
+    const docRef = await addDoc(collection(db, COLLECTIONS_COLLECTION), collectionDoc);
+    return { ...collectionDoc, id: docRef.id };
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    throw error;
+  }
+};
+
+// Update the fields of a collection
+export const updateCollection = async (collectionId: string, updates: Partial<BookCollectionInput>): Promise<void> => {
+  try {
+    const cleaned = sanitizeCollectionInput(updates);
+    if (updates.slug !== undefined) await assertSlugAvailable(updates.slug, collectionId);
+
+    // Optional fields that were emptied are removed from the document
+    const cleared = (['shortTitle', 'heroImageUrl', 'tag'] as const)
+      .filter(key => key in updates && cleaned[key] === undefined)
+      .reduce<Record<string, ReturnType<typeof deleteField>>>((fields, key) => ({ ...fields, [key]: deleteField() }), {});
+
+    await updateDoc(doc(db, COLLECTIONS_COLLECTION, collectionId), {
+      ...cleaned,
+      ...cleared,
+      updatedAt: Date.now()
+    });
+  } catch (error) {
+    console.error('Error updating collection:', error);
+    throw error;
+  }
+};
+
+// Delete a collection (its books are not affected)
+export const deleteCollection = async (collectionId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, COLLECTIONS_COLLECTION, collectionId));
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    throw error;
+  }
+};
+
+// Save the sidebar order of the collections
+export const reorderCollections = async (collectionIds: string[]): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    collectionIds.forEach((collectionId, order) => {
+      batch.update(doc(db, COLLECTIONS_COLLECTION, collectionId), { order });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error reordering collections:', error);
+    throw error;
+  }
+};
+
+/**
+ * Adds the default genre collections whose slugs are not taken yet
+ * @returns The collections that were added
+ */
+export const createDefaultCollections = async (): Promise<BookCollection[]> => {
+  try {
+    const existingSlugs = new Set((await getCollections()).map(bookCollection => bookCollection.slug));
+    const created: BookCollection[] = [];
+    for (const input of DEFAULT_COLLECTIONS.filter(defaults => !existingSlugs.has(defaults.slug))) {
+      created.push(await createCollection(input));
+    }
+    return created;
+  } catch (error) {
+    console.error('Error creating default collections:', error);
+    throw error;
+  }
+};
+
+/**
+ * Sorts the books of a collection
+ * @param books Books in the collection's own order (curated order for manual lists)
+ * @param sort Requested order
+ */
+export const sortCollectionBooks = (books: BookDocument[], sort: CollectionSort): BookDocument[] => {
+  switch (sort) {
+    case 'newest':
+      return [...books].sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+    case 'oldest':
+      return [...books].sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+    case 'title':
+      return [...books].sort((a, b) => (a.title || '').localeCompare(b.title || ''));
+    default:
+      return books;
+  }
+};
+
+// Get the books of a collection, following its rule
+export const getCollectionBooks = async (bookCollection: BookCollection, sort: CollectionSort = 'curated'): Promise<BookDocument[]> => {
+  try {
+    let books: BookDocument[];
+    if (bookCollection.ruleType === 'manual') {
+      // Books deleted since they were added to the list are skipped
+      const listed = await Promise.all(bookCollection.bookIds.map(bookId => getBookById(bookId)));
+      books = listed.filter((book): book is BookDocument => !!book);
+    } else {
+      const querySnapshot = await getDocs(query(
+        collection(db, 'books'),
+        where('tags', 'array-contains', bookCollection.tag || '')
+      ));
+      // Tag collections have no curated order; they list the newest books first
+      books = sortCollectionBooks(
+        querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as BookDocument)),
+        'newest'
+      );
+    }
+    // Readers only see published books, whichever rule listed them
+    const now = Date.now();
+    return sortCollectionBooks(books.filter(book => isPublished(book, now)), sort);
+  } catch (error) {
+    console.error('Error getting collection books:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,6 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp, getApps } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
+import { getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager, Firestore } from 'firebase/firestore';
 import { getAuth } from 'firebase/auth';
 
 // Your web app's Firebase configuration
@@ -33,7 +33,22 @@ if (typeof window !== 'undefined') {
 
 // Initialize Firebase
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApps()[0];
-const db = getFirestore(app);
+
+// In the browser, Firestore keeps a local copy of the data read and queues writes made
+// offline (e.g. listening progress) until the connection is back
+const createFirestore = (): Firestore => {
+  if (typeof window === 'undefined') return getFirestore(app);
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+    });
+  } catch {
+    // Already initialized (e.g. after a hot reload)
+    return getFirestore(app);
+  }
+};
+
+const db = createFirestore();
 const auth = getAuth(app);
 
 export { app, db, auth };
\ No newline at end of file
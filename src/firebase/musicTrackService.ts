@@ -0,0 +1,205 @@
+import { collection, addDoc, doc, getDocs, updateDoc } from 'firebase/firestore';
+import { db } from './config';
+import { MusicSelection, MusicSelectionContext, getMoodAffinities, selectMusicTrack } from '@/utils/musicSelection';
+
+// Background music categories
+export type MusicCategory = 'Horror' | 'Suspense' | 'Happy' | 'Calm' | 'Historic' | 'Romantic' | 'Mystery' | 'Sad';
+
+export const MUSIC_CATEGORIES: MusicCategory[] = ['Horror', 'Suspense', 'Happy', 'Calm', 'Historic', 'Romantic', 'Mystery', 'Sad'];
+
+// Folder of each category in the legacy R2 library (POCBackgroundMusic/<folder>/<folder>_<n>.mp3),
+// which was created with misspelled folder names
+export const LEGACY_MUSIC_FOLDERS: Record<MusicCategory, string> = {
+  Horror: 'Horror',
+  Suspense: 'Suspence',
+  Happy: 'Happy',
+  Calm: 'Clam',
+  Historic: 'Historic',
+  Romantic: 'Romantic',
+  Mystery: 'Mystery',
+  Sad: 'Sad'
+};
+
+// R2 prefix for tracks uploaded through the music library
+export const MUSIC_TRACK_STORAGE_PREFIX = 'background-music/tracks';
+
+// Lifecycle of a track: retired tracks stay in the catalog but are never selected
+export type MusicTrackStatus = 'active' | 'retired';
+
+// Background music track stored in the 'musicTracks' collection
+export interface MusicTrack {
+  id?: string;
+  title: string;
+  url: string;
+  storagePath: string;         // R2 object key of the audio file
+  categories: MusicCategory[];
+  bpm?: number;
+  intensityMin: number;        // Lowest paragraph intensity (1-10) the track suits
+  intensityMax: number;        // Highest paragraph intensity (1-10) the track suits
+  loopable: boolean;           // Loops seamlessly under long paragraphs
+  license: string;             // e.g. 'CC0', 'CC BY 4.0', 'Royalty-free (Pixabay)'
+  attribution?: string;        // Credit line required by the license
+  duration: number;            // Length in seconds
+  status: MusicTrackStatus;
+  createdAt: number;
+  updatedAt: number;
+  retiredAt?: number;
+}
+
+// Fields an admin can set when adding or editing a track
+export type MusicTrackInput = Pick<
+  MusicTrack,
+  'title' | 'categories' | 'bpm' | 'intensityMin' | 'intensityMax' | 'loopable' | 'license' | 'attribution' | 'duration'
+>;
+
+const MUSIC_TRACKS_COLLECTION = 'musicTracks';
+
+/**
+ * Maps a paragraph mood to the music category that fits it best
+ * @param mood Mood from the content or paragraph metadata
+ * @returns The category with the highest mood affinity (Suspense when no word of the mood is known)
+ */
+export const mapMoodToMusicCategory = (mood: string): MusicCategory => {
+  const affinities = getMoodAffinities(mood);
+  const best = MUSIC_CATEGORIES.reduce<MusicCategory | null>(
+    (current, category) => ((affinities[category] || 0) > (current ? affinities[current] || 0 : 0) ? category : current),
+    null
+  );
+
+  if (!best) {
+    console.warn(`No direct match found for mood: ${mood}. Defaulting to Suspense.`);
+    return 'Suspense';
+  }
+  return best;
+};
+
+/**
+ * Clamps an intensity to the 1-10 scale used by the catalog
+ */
+const clampIntensity = (value: number): number => Math.max(1, Math.min(10, Math.round(value)));
+
+/**
+ * Validates track fields before they are written
+ * @param input Track fields
+ * @returns Cleaned fields (undefined optional fields removed, since Firestore rejects them)
+ */
+const sanitizeMusicTrackInput = (input: Partial<MusicTrackInput>): Partial<MusicTrackInput> => {
+  if (input.title !== undefined && !input.title.trim()) {
+    throw new Error('Track title is required');
+  }
+  if (input.categories !== undefined && input.categories.length === 0) {
+    throw new Error('Select at least one category');
+  }
+
+  const cleaned: Partial<MusicTrackInput> = { ...input };
+  if (input.title !== undefined) cleaned.title = input.title.trim();
+  if (input.categories !== undefined) {
+    cleaned.categories = input.categories.filter(category => MUSIC_CATEGORIES.includes(category));
+  }
+  if (input.intensityMin !== undefined) cleaned.intensityMin = clampIntensity(input.intensityMin);
+  if (input.intensityMax !== undefined) cleaned.intensityMax = clampIntensity(input.intensityMax);
+  if (cleaned.intensityMin !== undefined && cleaned.intensityMax !== undefined && cleaned.intensityMin > cleaned.intensityMax) {
+    [cleaned.intensityMin, cleaned.intensityMax] = [cleaned.intensityMax, cleaned.intensityMin];
+  }
+
+  (Object.keys(cleaned) as (keyof MusicTrackInput)[]).forEach(key => {
+    if (cleaned[key] === undefined || cleaned[key] === '') delete cleaned[key];
+  });
+  return cleaned;
+};
+
+// Upload an audio file to R2 and add it to the catalog
+export const createMusicTrack = async (file: File, input: MusicTrackInput): Promise<MusicTrack> => {
+  try {
+    const safeName = file.name.replace(/[^A-Za-z0-9._-]/g, '_');
+    const storagePath = `${MUSIC_TRACK_STORAGE_PREFIX}/${Date.now()}_${safeName}`;
+
+    const { uploadFileToR2 } = await import('@/r2/services');
+    const url = await uploadFileToR2(file, storagePath);
+
+    return await addMusicTrack({ ...input, url, storagePath });
+  } catch (error) {
+    console.error('Error creating music track:', error);
+    throw error;
+  }
+};
+
+// Add a track whose audio is already stored in R2
+export const addMusicTrack = async (
+  track: MusicTrackInput & Pick<MusicTrack, 'url' | 'storagePath'>
+): Promise<MusicTrack> => {
+  try {
+    const timestamp = Date.now();
+    const trackDoc = {
+      intensityMin: 1,
+      intensityMax: 10,
+      ...sanitizeMusicTrackInput(track),
+      url: track.url,
+      storagePath: track.storagePath,
+      loopable: !!track.loopable,
+      status: 'active',
+      createdAt: timestamp,
+      updatedAt: timestamp
+    } as Omit<MusicTrack, 'id'>;
+
+    const docRef = await addDoc(collection(db, MUSIC_TRACKS_COLLECTION), trackDoc);
+    return { ...trackDoc, id: docRef.id };
+  } catch (error) {
+    console.error('Error adding music track:', error);
+    throw error;
+  }
+};
+
+// Get every track in the catalog, newest first
+export const getMusicTracks = async (includeRetired: boolean = true): Promise<MusicTrack[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, MUSIC_TRACKS_COLLECTION));
+    const tracks = querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as MusicTrack));
+
+    return tracks
+      .filter(track => includeRetired || track.status !== 'retired')
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Error getting music tracks:', error);
+    throw error;
+  }
+};
+
+// Update the tags of a track
+export const updateMusicTrack = async (trackId: string, updates: Partial<MusicTrackInput>): Promise<void> => {
+  try {
+    await updateDoc(doc(db, MUSIC_TRACKS_COLLECTION, trackId), {
+      ...sanitizeMusicTrackInput(updates),
+      updatedAt: Date.now()
+    });
+  } catch (error) {
+    console.error('Error updating music track:', error);
+    throw error;
+  }
+};
+
+// Retire a track so it is no longer selected, or bring it back
+export const setMusicTrackStatus = async (trackId: string, status: MusicTrackStatus): Promise<void> => {
+  try {
+    const timestamp = Date.now();
+    await updateDoc(doc(db, MUSIC_TRACKS_COLLECTION, trackId), {
+      status,
+      updatedAt: timestamp,
+      ...(status === 'retired' && { retiredAt: timestamp })
+    });
+  } catch (error) {
+    console.error('Error changing music track status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Selects the catalog track that best fits a paragraph
+ * @param context Paragraph mood, intensity, tempo and genre, with the seed and the tracks already used in the book
+ * @returns The selection with its rationale, or null when the catalog has no active tracks
+ */
+export const selectMusicTrackForContext = async (context: MusicSelectionContext): Promise<MusicSelection | null> => {
+  // The catalog is small, so every active track is ranked rather than only those of the mood's category
+  const tracks = await getMusicTracks(false);
+  return selectMusicTrack(tracks, context);
+};
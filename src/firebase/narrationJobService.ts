@@ -0,0 +1,282 @@
+import { getAdminDb, getUserRole } from './admin';
+import type { NarrationTimingManifest, BackgroundMusicSelection } from './services';
+
+// Jobs are only read and written by the server (see the narrationJobs rules in firestore.rules)
+const NARRATION_JOBS_COLLECTION = 'narrationJobs';
+
+const getJobRef = (jobId: string) => getAdminDb().collection(NARRATION_JOBS_COLLECTION).doc(jobId);
+
+// Overall state of a narration job
+export type NarrationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// State of a single paragraph within a job
+export type NarrationParagraphStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Per-paragraph progress of a narration job
+export interface NarrationJobParagraph {
+  index: number;
+  status: NarrationParagraphStatus;
+  attempts: number;
+  url?: string;    // Uploaded paragraph audio once completed
+  error?: string;  // Last error when failed
+  mood?: string;
+  genre?: string;
+  intensity?: number;
+  music?: BackgroundMusicSelection; // Background music selected for the paragraph
+}
+
+// Narration job document stored in the 'narrationJobs' collection
+export interface NarrationJob {
+  id?: string;
+  userId: string;     // Who started the job
+  bookId: string;
+  chapterId?: string; // When set, the chapter's audio is updated on completion
+  text: string;
+  options: Record<string, unknown>; // NarrationOptions passed to the narration service
+  status: NarrationJobStatus;
+  paragraphs: NarrationJobParagraph[];
+  totalParagraphs: number;
+  completedParagraphs: number;
+  progress: number; // 0-100
+  url?: string;     // Final stitched narration URL
+  paragraphUrls?: string[];
+  timingManifest?: NarrationTimingManifest; // Paragraph timings within url
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  attempt?: number;     // Run that owns the job, bumped whenever a run claims it; older runs stop
+  heartbeatAt?: number; // Last sign of life of the running attempt
+}
+
+// Statuses that will not change without a retry
+export const FINISHED_NARRATION_JOB_STATUSES: NarrationJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// A queued or running job without a heartbeat for this long lost its run (e.g. the request timed out)
+export const NARRATION_JOB_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Tells whether a job that has not finished lost its run, so it can be claimed again
+ */
+export const isNarrationJobStale = (job: NarrationJob, now: number = Date.now()): boolean =>
+  (job.status === 'queued' || job.status === 'running')
+  && now - (job.heartbeatAt || job.updatedAt) > NARRATION_JOB_LEASE_MS;
+
+// Create a queued narration job
+export const createNarrationJob = async (
+  job: Pick<NarrationJob, 'userId' | 'bookId' | 'chapterId' | 'text' | 'options'>
+): Promise<NarrationJob> => {
+  try {
+    const timestamp = Date.now();
+    const jobDoc: Omit<NarrationJob, 'id'> = {
+      userId: job.userId,
+      bookId: job.bookId,
+      ...(job.chapterId && { chapterId: job.chapterId }),
+      text: job.text,
+      options: job.options || {},
+      status: 'queued',
+      paragraphs: [],
+      totalParagraphs: 0,
+      completedParagraphs: 0,
+      progress: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    const docRef = await getAdminDb().collection(NARRATION_JOBS_COLLECTION).add(jobDoc);
+    return { ...jobDoc, id: docRef.id };
+  } catch (error) {
+    console.error('Error creating narration job:', error);
+    throw error;
+  }
+};
+
+// Get a narration job by ID
+export const getNarrationJob = async (jobId: string): Promise<NarrationJob | null> => {
+  try {
+    const docSnap = await getJobRef(jobId).get();
+
+    if (docSnap.exists) {
+      return { id: docSnap.id, ...docSnap.data() } as NarrationJob;
+    } else {
+      return null;
+    }
+  } catch (error) {
+    console.error('Error getting narration job:', error);
+    throw error;
+  }
+};
+
+// Update a narration job and refresh its updatedAt timestamp
+export const updateNarrationJob = async (
+  jobId: string,
+  updates: Partial<Omit<NarrationJob, 'id' | 'createdAt'>>
+): Promise<void> => {
+  try {
+    if (!jobId) throw new Error('Job ID is required');
+
+    await getJobRef(jobId).update({
+      ...updates,
+      updatedAt: Date.now()
+    });
+  } catch (error) {
+    console.error('Error updating narration job:', error);
+    throw error;
+  }
+};
+
+// Claim a queued job, or a running one whose run went stale, for a new attempt.
+// Returns the job as claimed, or null when it is finished or another run holds it.
+export const claimNarrationJob = async (jobId: string): Promise<NarrationJob | null> => {
+  try {
+    const jobRef = getJobRef(jobId);
+    return await getAdminDb().runTransaction(async transaction => {
+      const jobSnap = await transaction.get(jobRef);
+      if (!jobSnap.exists) return null;
+
+      const job = { id: jobSnap.id, ...jobSnap.data() } as NarrationJob;
+      const timestamp = Date.now();
+      // A queued job is free until its first heartbeat; a running one only once its lease expired
+      const claimable = (job.status === 'queued' && !job.heartbeatAt) || isNarrationJobStale(job, timestamp);
+      if (!claimable) return null;
+
+      const claim = {
+        status: 'running' as NarrationJobStatus,
+        attempt: (job.attempt || 0) + 1,
+        heartbeatAt: timestamp,
+        startedAt: job.startedAt || timestamp,
+        updatedAt: timestamp
+      };
+      transaction.update(jobRef, claim);
+      return { ...job, ...claim };
+    });
+  } catch (error) {
+    console.error('Error claiming narration job:', error);
+    throw error;
+  }
+};
+
+// Update a job on behalf of one attempt, refreshing its heartbeat. Returns false, writing nothing,
+// when the job was cancelled, retried or claimed by another attempt since.
+export const updateNarrationJobAttempt = async (
+  jobId: string,
+  attempt: number,
+  updates: Partial<Omit<NarrationJob, 'id' | 'createdAt' | 'attempt'>>
+): Promise<boolean> => {
+  try {
+    const jobRef = getJobRef(jobId);
+    return await getAdminDb().runTransaction(async transaction => {
+      const jobSnap = await transaction.get(jobRef);
+      const job = jobSnap.data() as NarrationJob | undefined;
+      if (!job || job.attempt !== attempt || job.status !== 'running') return false;
+
+      const timestamp = Date.now();
+      transaction.update(jobRef, { ...updates, heartbeatAt: timestamp, updatedAt: timestamp });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error updating narration job attempt:', error);
+    throw error;
+  }
+};
+
+// Hand a running job back to the queue between paragraphs, for the next run to carry on with.
+// Returns false when the attempt no longer owns the job.
+export const releaseNarrationJobAttempt = async (jobId: string, attempt: number): Promise<boolean> => {
+  try {
+    const jobRef = getJobRef(jobId);
+    return await getAdminDb().runTransaction(async transaction => {
+      const jobSnap = await transaction.get(jobRef);
+      const job = jobSnap.data() as NarrationJob | undefined;
+      if (!job || job.attempt !== attempt || job.status !== 'running') return false;
+
+      // Without a heartbeat the queued job can be claimed at once
+      transaction.update(jobRef, { status: 'queued', heartbeatAt: 0, updatedAt: Date.now() });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error releasing narration job attempt:', error);
+    throw error;
+  }
+};
+
+// Cancel a narration job that has not finished yet
+export const cancelNarrationJob = async (jobId: string): Promise<NarrationJob> => {
+  try {
+    const job = await getNarrationJob(jobId);
+    if (!job) {
+      throw new Error('Narration job not found');
+    }
+
+    if (FINISHED_NARRATION_JOB_STATUSES.includes(job.status)) {
+      return job;
+    }
+
+    const timestamp = Date.now();
+    await updateNarrationJob(jobId, { status: 'cancelled', completedAt: timestamp });
+    return { ...job, status: 'cancelled', completedAt: timestamp, updatedAt: timestamp };
+  } catch (error) {
+    console.error('Error cancelling narration job:', error);
+    throw error;
+  }
+};
+
+/**
+ * Tells whether a job can be retried: it failed, was cancelled, or lost its run
+ */
+export const canRetryNarrationJob = (job: NarrationJob, now: number = Date.now()): boolean =>
+  job.status === 'failed' || job.status === 'cancelled' || isNarrationJobStale(job, now);
+
+// Re-queue a failed, cancelled or stale job; completed paragraphs are kept so they are not narrated again
+export const requeueNarrationJob = async (jobId: string): Promise<NarrationJob> => {
+  try {
+    const job = await getNarrationJob(jobId);
+    if (!job) {
+      throw new Error('Narration job not found');
+    }
+
+    if (!canRetryNarrationJob(job)) {
+      throw new Error(`Only failed, cancelled or stale jobs can be retried (status: ${job.status})`);
+    }
+
+    const paragraphs = job.paragraphs.map(paragraph =>
+      paragraph.status === 'completed'
+        ? paragraph
+        : { ...paragraph, status: 'pending' as NarrationParagraphStatus, attempts: 0 }
+    );
+
+    // The heartbeat is cleared so the retry can claim the job at once
+    const updates = {
+      status: 'queued' as NarrationJobStatus,
+      paragraphs,
+      error: '',
+      completedAt: 0,
+      heartbeatAt: 0
+    };
+    await updateNarrationJob(jobId, updates);
+    return { ...job, ...updates };
+  } catch (error) {
+    console.error('Error re-queueing narration job:', error);
+    throw error;
+  }
+};
+
+/**
+ * Tells whether a user may narrate a book: its author or an admin, as narration is paid work
+ * @param bookId Book to narrate
+ * @param uid Signed-in user
+ */
+export const canNarrateBook = async (bookId: string, uid: string): Promise<boolean> => {
+  const bookSnap = await getAdminDb().collection('books').doc(bookId).get();
+  if (bookSnap.exists && bookSnap.get('authorId') === uid) return true;
+  return (await getUserRole(uid)) === 'admin';
+};
+
+/**
+ * Tells whether a user may follow, retry or cancel a job: who started it, the book's author or an admin
+ * @param job Narration job
+ * @param uid Signed-in user
+ */
+export const canManageNarrationJob = async (job: NarrationJob, uid: string): Promise<boolean> =>
+  job.userId === uid || canNarrateBook(job.bookId, uid);
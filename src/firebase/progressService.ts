@@ -0,0 +1,90 @@
+import { collection, doc, getDoc, getDocs, query, where, setDoc, deleteDoc } from 'firebase/firestore';
+import { db } from './config';
+
+// Where a reader left off in a book, stored in the 'progress' collection
+export interface ReadingProgress {
+  id?: string;             // `${userId}_${bookId}`
+  userId: string;
+  bookId: string;
+  chapterId?: string;      // Chapter being read (books without chapters have none)
+  audioPosition: number;   // Narration position in seconds
+  audioDuration?: number;  // Narration length in seconds, to show how far along the reader is
+  scrollPosition?: number; // Scroll offset of the reading pane as a fraction (0-1) of its scrollable height (unset until the book page saves it)
+  updatedAt: number;
+}
+
+// Fields saved by the reader; the book page saves the scroll position and the player the narration position
+export type ReadingProgressUpdate = Partial<Pick<ReadingProgress, 'chapterId' | 'audioPosition' | 'audioDuration' | 'scrollPosition'>>;
+
+const PROGRESS_COLLECTION = 'progress';
+
+/**
+ * Gets the ID of the progress document of a user and book
+ */
+const getProgressId = (userId: string, bookId: string): string => `${userId}_${bookId}`;
+
+// Save where a user is in a book; fields left out keep their saved values
+export const saveReadingProgress = async (
+  userId: string,
+  bookId: string,
+  progress: ReadingProgressUpdate
+): Promise<void> => {
+  try {
+    const progressDoc: Partial<ReadingProgress> = {
+      userId,
+      bookId,
+      ...(progress.chapterId && { chapterId: progress.chapterId }),
+      ...(progress.audioPosition !== undefined && { audioPosition: Math.max(0, progress.audioPosition || 0) }),
+      ...(progress.audioDuration !== undefined && {
+        audioDuration: isFinite(progress.audioDuration) ? Math.max(0, progress.audioDuration) : 0
+      }),
+      ...(progress.scrollPosition !== undefined && {
+        scrollPosition: Math.max(0, Math.min(1, progress.scrollPosition || 0))
+      }),
+      updatedAt: Date.now()
+    };
+
+    await setDoc(doc(db, PROGRESS_COLLECTION, getProgressId(userId, bookId)), progressDoc, { merge: true });
+  } catch (error) {
+    console.error('Error saving reading progress:', error);
+    throw error;
+  }
+};
+
+// Get where a user left off in a book
+export const getReadingProgress = async (userId: string, bookId: string): Promise<ReadingProgress | null> => {
+  try {
+    const progressSnap = await getDoc(doc(db, PROGRESS_COLLECTION, getProgressId(userId, bookId)));
+    return progressSnap.exists() ? { id: progressSnap.id, ...progressSnap.data() } as ReadingProgress : null;
+  } catch (error) {
+    console.error('Error getting reading progress:', error);
+    throw error;
+  }
+};
+
+// Get the books a user was most recently reading or listening to, most recent first
+export const getRecentReadingProgress = async (userId: string, maxResults: number = 10): Promise<ReadingProgress[]> => {
+  try {
+    // Sorted here so the query does not need a composite index
+    const q = query(collection(db, PROGRESS_COLLECTION), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ReadingProgress))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, maxResults);
+  } catch (error) {
+    console.error('Error getting recent reading progress:', error);
+    throw error;
+  }
+};
+
+// Forget a user's position in a book (e.g. to remove it from "Continue listening")
+export const deleteReadingProgress = async (userId: string, bookId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, PROGRESS_COLLECTION, getProgressId(userId, bookId)));
+  } catch (error) {
+    console.error('Error deleting reading progress:', error);
+    throw error;
+  }
+};
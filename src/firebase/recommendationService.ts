@@ -0,0 +1,120 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from './admin';
+import type { CoLikes, TasteSignal, TasteSignalKind } from '@/utils/recommendations';
+
+// Collections recording what readers did with books, and the kind of signal each holds
+const SIGNAL_COLLECTIONS: { name: string; kind: TasteSignalKind; timeField: string }[] = [
+  { name: 'likes', kind: 'like', timeField: 'createdAt' },
+  { name: 'bookmarks', kind: 'save', timeField: 'createdAt' },
+  { name: 'progress', kind: 'listen', timeField: 'updatedAt' }
+];
+
+// Precomputed co-likes, one document per book: { similarities: { [bookId]: number }, updatedAt }
+const CO_LIKES_COLLECTION = 'coLikes';
+// Only the most similar books are kept, so a document stays small however many books readers share
+const MAX_CO_LIKES_PER_BOOK = 100;
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 400;
+
+/**
+ * Reads a time saved either as a Firestore timestamp (likes, bookmarks) or in milliseconds (progress)
+ */
+const toMillis = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (value instanceof Timestamp) return value.toMillis();
+  return 0;
+};
+
+/**
+ * Reads the likes, saves and reading positions of one reader, or of every reader
+ * @param userId Reader to read the signals of, or every reader when unset
+ */
+const readTasteSignals = async (userId?: string): Promise<TasteSignal[]> => {
+  const db = getAdminDb();
+  const snapshots = await Promise.all(SIGNAL_COLLECTIONS.map(({ name }) =>
+    (userId ? db.collection(name).where('userId', '==', userId) : db.collection(name)).get()
+  ));
+
+  return snapshots.reduce<TasteSignal[]>((signals, snapshot, index) => {
+    const { kind, timeField } = SIGNAL_COLLECTIONS[index];
+    snapshot.docs.forEach(docSnap => {
+      const data = docSnap.data();
+      if (data.userId && data.bookId) {
+        signals.push({ userId: data.userId, bookId: data.bookId, kind, createdAt: toMillis(data[timeField]) });
+      }
+    });
+    return signals;
+  }, []);
+};
+
+// Get the likes, saves and reading positions of one reader
+export const getUserTasteSignals = async (userId: string): Promise<TasteSignal[]> => {
+  try {
+    return await readTasteSignals(userId);
+  } catch (error) {
+    console.error('Error getting taste signals:', error);
+    throw error;
+  }
+};
+
+// Get every like, save and reading position, to compute co-likes from
+export const getAllTasteSignals = async (): Promise<TasteSignal[]> => {
+  try {
+    return await readTasteSignals();
+  } catch (error) {
+    console.error('Error getting taste signals:', error);
+    throw error;
+  }
+};
+
+// Get the precomputed co-likes of every book
+export const getCoLikes = async (): Promise<CoLikes> => {
+  try {
+    const snapshot = await getAdminDb().collection(CO_LIKES_COLLECTION).get();
+    const coLikes: CoLikes = new Map();
+    snapshot.docs.forEach(docSnap => {
+      const similarities: Record<string, number> = docSnap.get('similarities') || {};
+      coLikes.set(docSnap.id, new Map(Object.entries(similarities)));
+    });
+    return coLikes;
+  } catch (error) {
+    console.error('Error getting co-likes:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replaces the precomputed co-likes, removing those of books without any
+ * @param coLikes Result of `computeCoLikes`
+ */
+export const saveCoLikes = async (coLikes: CoLikes): Promise<void> => {
+  try {
+    const db = getAdminDb();
+    const collectionRef = db.collection(CO_LIKES_COLLECTION);
+    const stale = (await collectionRef.select().get()).docs
+      .filter(docSnap => !coLikes.has(docSnap.id))
+      .map(docSnap => docSnap.ref);
+
+    const updatedAt = Date.now();
+    const writes = [
+      ...Array.from(coLikes.entries()).map(([bookId, row]) => {
+        const strongest = Array.from(row.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_CO_LIKES_PER_BOOK);
+        return { ref: collectionRef.doc(bookId), data: { similarities: Object.fromEntries(strongest), updatedAt } };
+      }),
+      ...stale.map(ref => ({ ref, data: null }))
+    ];
+
+    for (let start = 0; start < writes.length; start += BATCH_SIZE) {
+      const batch = db.batch();
+      writes.slice(start, start + BATCH_SIZE).forEach(({ ref, data }) => {
+        if (data) batch.set(ref, data); else batch.delete(ref);
+      });
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error('Error saving co-likes:', error);
+    throw error;
+  }
+};
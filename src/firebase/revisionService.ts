@@ -0,0 +1,99 @@
+import { collection, doc, getDocs, query, where, setDoc, updateDoc, DocumentReference } from 'firebase/firestore';
+import { db, auth } from './config';
+
+// What produced a revision: a save in the editor, the "Write with AI" rewrite, an imported file, or a restore
+export type RevisionSource = 'manual' | 'aiRewrite' | 'import' | 'restore';
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  manual: 'Edited',
+  aiRewrite: 'AI rewrite',
+  import: 'Imported',
+  restore: 'Restored'
+};
+
+// A saved state of a chapter, stored in the 'chapterRevisions' collection.
+// Revisions are only added: restoring one saves a new revision with its text.
+export interface ChapterRevision {
+  id?: string;
+  bookId: string;
+  chapterId: string;
+  title: string;
+  content: string;
+  source: RevisionSource;
+  authorId?: string;         // Who saved it; unset on the original version of chapters written before revisions
+  authorName?: string;
+  audioUrl?: string;         // Narration recorded for exactly this text, if any
+  restoredFromId?: string;   // Restore: the revision whose text was brought back
+  createdAt: number;
+}
+
+// Fields given when a revision is recorded
+export type NewChapterRevision = Omit<ChapterRevision, 'id' | 'authorId' | 'authorName' | 'createdAt'> &
+  Partial<Pick<ChapterRevision, 'authorId' | 'authorName' | 'createdAt'>>;
+
+const REVISIONS_COLLECTION = 'chapterRevisions';
+
+// Reference for a new revision, taken up front so the revision can be written with its chapter
+export const newChapterRevisionRef = (): DocumentReference => doc(collection(db, REVISIONS_COLLECTION));
+
+// Build the stored revision, by the signed-in user unless an author is given
+export const toChapterRevisionDoc = (revision: NewChapterRevision): Omit<ChapterRevision, 'id'> => {
+  const user = auth.currentUser;
+  const authorId = revision.authorId || user?.uid;
+  const authorName = revision.authorName || user?.displayName || user?.email || undefined;
+  return {
+    bookId: revision.bookId,
+    chapterId: revision.chapterId,
+    title: revision.title,
+    content: revision.content,
+    source: revision.source,
+    ...(authorId && { authorId }),
+    ...(authorName && { authorName }),
+    ...(revision.audioUrl && { audioUrl: revision.audioUrl }),
+    ...(revision.restoredFromId && { restoredFromId: revision.restoredFromId }),
+    createdAt: revision.createdAt || Date.now()
+  };
+};
+
+// Record a revision on its own; chapter saves write theirs in the same transaction (see firebase/services)
+export const addChapterRevision = async (revision: NewChapterRevision): Promise<ChapterRevision> => {
+  try {
+    const docRef = newChapterRevisionRef();
+    const revisionDoc = toChapterRevisionDoc(revision);
+    await setDoc(docRef, revisionDoc);
+    return { id: docRef.id, ...revisionDoc };
+  } catch (error) {
+    console.error('Error adding chapter revision:', error);
+    throw error;
+  }
+};
+
+// Get the revisions of a chapter, most recent first
+export const getChapterRevisions = async (bookId: string, chapterId: string): Promise<ChapterRevision[]> => {
+  try {
+    // Sorted here so the query does not need a composite index
+    const q = query(
+      collection(db, REVISIONS_COLLECTION),
+      where('bookId', '==', bookId),
+      where('chapterId', '==', chapterId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ChapterRevision))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Error getting chapter revisions:', error);
+    throw error;
+  }
+};
+
+// Remember the narration recorded for the text of a revision
+export const setRevisionAudio = async (revisionId: string, audioUrl: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, REVISIONS_COLLECTION, revisionId), { audioUrl });
+  } catch (error) {
+    console.error('Error updating revision audio:', error);
+    throw error;
+  }
+};
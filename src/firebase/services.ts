@@ -1,6 +1,9 @@
 import { getAuth, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut as firebaseSignOut, onAuthStateChanged, User } from 'firebase/auth';
-import { getFirestore, collection, addDoc, getDoc, getDocs, doc, query, where, orderBy, deleteDoc, setDoc, updateDoc, DocumentData } from 'firebase/firestore';
+import { getFirestore, collection, addDoc, getDoc, getDocs, doc, query, where, orderBy, limit, startAfter, deleteDoc, setDoc, updateDoc, deleteField, increment, runTransaction, writeBatch, getAggregateFromServer, count, sum, DocumentData, DocumentReference, DocumentSnapshot, QueryConstraint, QueryDocumentSnapshot, Transaction } from 'firebase/firestore';
 import { app, db, auth } from './config';
+import { getAudioFileExtension } from '@/utils/audioEncoding';
+import { getReaderView, isPublished } from '@/utils/publishing';
+import { ChapterRevision, RevisionSource, newChapterRevisionRef, setRevisionAudio, toChapterRevisionDoc } from './revisionService';
 
 // Auth functions
 export const signIn = async (email: string, password: string) => {
@@ -20,6 +23,22 @@ export const getCurrentUser = (): User | null => {
 };
 
 // User functions
+
+// Listening preferences applied to every audio player
+export interface PlayerSettings {
+  playbackRate: number;
+  volume: number;              // 0-1
+  skipBackSeconds: number;
+  skipForwardSeconds: number;
+}
+
+export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
+  playbackRate: 1,
+  volume: 1,
+  skipBackSeconds: 15,
+  skipForwardSeconds: 30
+};
+
 export interface UserProfile {
   id?: string;
   uid: string;
@@ -29,6 +48,7 @@ export interface UserProfile {
   bio?: string;
   phoneNumber?: string;
   role: 'reader' | 'author' | 'admin';
+  playerSettings?: Partial<PlayerSettings>;
   createdAt: number;
 }
 
@@ -132,6 +152,7 @@ export interface PdfDocument {
   tags: string[];
   createdAt: number;
   lastUpdated?: number;
+  bookId?: string; // Book converted from this PDF, see utils/pdfImport
 }
 
 export const uploadPdfFile = async (file: File, onProgress?: (progress: number) => void) => {
@@ -230,6 +251,16 @@ export const getPdfById = async (id: string) => {
   }
 };
 
+// Update a PDF document
+export const updatePdf = async (id: string, updates: Partial<Omit<PdfDocument, 'id' | 'createdAt'>>) => {
+  try {
+    await updateDoc(doc(db, 'pdfs', id), { ...updates, lastUpdated: Date.now() });
+  } catch (error) {
+    console.error('Error updating PDF document:', error);
+    throw error;
+  }
+};
+
 export const deletePdf = async (pdf: PdfDocument) => {
   try {
     // Import R2 services
@@ -261,7 +292,52 @@ export const deletePdf = async (pdf: PdfDocument) => {
   }
 };
 
+// Timing of one narrated paragraph within the final narration audio
+export interface ParagraphTimingEntry {
+  index: number; // Paragraph index in the narrated text ($-delimited)
+  start: number; // Start time in seconds
+  end: number;   // End time in seconds
+}
+
+// Timing manifest produced when a narration is stitched, used to sync the reader with the audio
+export interface NarrationTimingManifest {
+  version: number;
+  source: 'measured' | 'estimated'; // Measured from rendered segment durations, or estimated from text length
+  duration: number; // Total narration duration in seconds
+  gap: number;      // Silence inserted between paragraphs in seconds
+  paragraphs: ParagraphTimingEntry[];
+  createdAt: number;
+}
+
+// Background music selected for one narrated paragraph
+export interface BackgroundMusicSelection {
+  paragraphIndex: number;
+  trackId?: string;  // ID in the musicTracks catalog (legacy library files have none)
+  title?: string;
+  category: string;
+  score?: number;    // Selection score (0-1) of the track
+  rationale: string; // Why the track was chosen, shown to authors
+}
+
+// Voice assigned to one character for multi-voice narration
+export interface VoiceCastingEntry {
+  character: string; // Character name as it appears in the story
+  role?: string;     // Role from the story analysis
+  voice: string;     // TTS voice of the casting provider
+}
+
+// Per-book casting table mapping characters to TTS voices
+export interface VoiceCasting {
+  provider: string;      // TTS provider the voices belong to
+  narratorVoice: string; // Voice for narration and unattributed dialogue
+  characters: VoiceCastingEntry[];
+  updatedAt: number;
+}
+
 // Book functions
+// Lifecycle of a book or chapter; only published ones (and scheduled ones once their time has come) are public
+export type PublishStatus = 'draft' | 'inReview' | 'scheduled' | 'published';
+
 export interface Chapter {
   id?: string;
   bookId?: string; // Reference to the parent book
@@ -271,11 +347,16 @@ export interface Chapter {
   createdAt: number;
   audioUrl?: string; // URL to the narration audio file
   paragraphAudioUrls?: string[]; // URLs for individual paragraph audio files
+  timingManifest?: NarrationTimingManifest; // Paragraph timings within audioUrl
+  musicSelections?: BackgroundMusicSelection[]; // Background music of each narrated paragraph
   episodeMetadata?: {
     mood?: string;
     genre?: string;
     intensity?: number;
   }; // Metadata for the episode
+  status?: PublishStatus; // Unset: public whenever the book is (see utils/publishing)
+  publishAt?: number; // Scheduled: when the chapter goes public
+  lastRevisionId?: string; // Revision holding the current text (see revisionService)
 }
 
 // Interface for Book document
@@ -290,9 +371,21 @@ export interface BookDocument {
   tags: string[];
   thumbnailUrl: string;
   createdAt: number;
-  chapters: Chapter[]; // Array of chapters/episodes
+  chapters: Chapter[]; // Chapters/episodes, stored in the 'chapters' subcollection and filled in on reads
+  chapterCount?: number; // Number of chapters in the subcollection, kept in step by the chapter functions
+  narratedChapterCount?: number; // Number of those chapters with narration audio
+  nextChapterOrder?: number; // Position given to the next chapter added
   lastUpdated?: number; // Track when the book was last updated
   audioUrl?: string; // URL to the narration audio file
+  timingManifest?: NarrationTimingManifest; // Paragraph timings within audioUrl
+  musicSelections?: BackgroundMusicSelection[]; // Background music of each narrated paragraph
+  voiceCasting?: VoiceCasting; // Character voices for multi-voice narration
+  status?: PublishStatus; // Unset on books saved before the lifecycle existed, which are published
+  publishAt?: number; // Scheduled: when the book goes public
+  publishedAt?: number; // When the book was last published or scheduled to go public
+  likeCount?: number; // Number of 'likes' documents, kept in step by LikeButton
+  saveCount?: number; // Number of 'bookmarks' documents, kept in step by SaveButton
+  sourcePdfId?: string; // PDF document the book was converted from
 }
 
 // Upload Book Thumbnail to R2 Storage
@@ -313,11 +406,207 @@ export const uploadBookThumbnail = async (file: File, onProgress?: (progress: nu
   }
 };
 
-// Create a new book in Firestore
-export const createBook = async (book: Omit<BookDocument, 'id' | 'createdAt' | 'lastUpdated'>): Promise<BookDocument> => {
+// Mark the search index of `/api/search` stale after a book changed, so the next search rebuilds it.
+// Only signed-in browsers reach the API route; writes made on the server are picked up when the index expires.
+const markSearchIndexStale = () => {
+  if (typeof window === 'undefined' || !auth.currentUser) return;
+  auth.currentUser.getIdToken()
+    .then(token => fetch('/api/search', { method: 'POST', headers: { Authorization: `Bearer ${token}` } }))
+    .catch(error => {
+      console.warn('Could not refresh the search index:', error);
+    });
+};
+
+// Chapters are stored one document each in the 'chapters' subcollection of their book.
+// Books saved before it existed hold them in the book document until they are migrated
+// (see migrateBookChapters and scripts/migrate-chapters-to-subcollection).
+const CHAPTERS_COLLECTION = 'chapters';
+
+const getChapterRef = (bookId: string, chapterId: string) => doc(db, 'books', bookId, CHAPTERS_COLLECTION, chapterId);
+
+// Writes a document as part of a transaction or batch
+type DocumentWriter = (ref: DocumentReference, data: DocumentData) => void;
+
+const transactionWriter = (transaction: Transaction): DocumentWriter => (ref, data) => {
+  transaction.set(ref, data);
+};
+
+/**
+ * Gives chapters consecutive positions in reading order, with the fields every stored chapter has
+ * @param chapters Chapters as given; chapters sharing a position keep the order they are given in
+ */
+const normalizeChapters = (bookId: string, chapters: Chapter[], timestamp: number): Chapter[] =>
+  chapters
+    .map((chapter, index) => ({ chapter, index, order: typeof chapter.order === 'number' ? chapter.order : index }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ chapter }, order) => ({
+      ...chapter,
+      id: chapter.id || `chapter_${timestamp}_${Math.random().toString(36).substr(2, 9)}`,
+      title: chapter.title,
+      content: chapter.content,
+      order,
+      createdAt: chapter.createdAt || timestamp,
+      audioUrl: chapter.audioUrl || '',
+      bookId
+    }));
+
+/**
+ * Counts kept on the book document, so lists need not read its chapters
+ */
+const getChapterCounters = (chapters: Chapter[]) => ({
+  chapterCount: chapters.length,
+  narratedChapterCount: chapters.filter(chapter => !!chapter.audioUrl).length,
+  nextChapterOrder: chapters.reduce((next, chapter) => Math.max(next, chapter.order + 1), 0)
+});
+
+/**
+ * Change of the narrated chapter count when a chapter is saved; null for a chapter added or deleted
+ */
+const getNarratedChange = (before: Chapter | null, after: Chapter | null) =>
+  (after?.audioUrl ? 1 : 0) - (before?.audioUrl ? 1 : 0);
+
+/**
+ * Reads a book document with its chapters; books not migrated yet still hold them in the document
+ */
+const toBookDocument = (docSnap: DocumentSnapshot<DocumentData>, chapters: Chapter[]): BookDocument => {
+  const data = docSnap.data()!;
+  return { id: docSnap.id, ...data, chapters: Array.isArray(data.chapters) ? data.chapters : chapters } as BookDocument;
+};
+
+// Options of recordChapterRevision
+interface ChapterRevisionOptions {
+  source: RevisionSource;
+  restoredFromId?: string;
+  narrationMatches?: boolean; // Whether the saved narration belongs to the saved text; guessed when unset
+}
+
+/**
+ * Records the text a chapter is saved with in its revision history. A chapter saved before
+ * revisions existed first gets its previous text recorded, so its first edit can be undone too.
+ * The revisions are written with the chapter, so a save that fails or is retried leaves none behind.
+ * @param write Writes to the transaction or batch saving the chapter
+ * @param bookId Book of the chapter
+ * @param book Book as stored before the save
+ * @param previous Chapter as stored before the save, or null for a new chapter
+ * @param saved Chapter as it is being saved
+ * @returns Id of the revision holding the saved text
+ */
+const recordChapterRevision = (
+  write: DocumentWriter,
+  bookId: string,
+  book: BookDocument,
+  previous: Chapter | null,
+  saved: Chapter,
+  options: ChapterRevisionOptions
+): string => {
+  if (previous && !previous.lastRevisionId && previous.content) {
+    write(newChapterRevisionRef(), toChapterRevisionDoc({
+      bookId,
+      chapterId: saved.id!,
+      title: previous.title,
+      content: previous.content,
+      source: 'manual',
+      ...(book.authorId && { authorId: book.authorId }),
+      ...(book.author && { authorName: book.author }),
+      ...(previous.audioUrl && { audioUrl: previous.audioUrl }),
+      createdAt: previous.createdAt || book.createdAt
+    }));
+  }
+
+  // Unless told, the narration belongs to the text when the text is unchanged or the narration was recorded with this save
+  const narrationMatches = options.narrationMatches
+    ?? (!previous || previous.content === saved.content || previous.audioUrl !== saved.audioUrl);
+  const revisionRef = newChapterRevisionRef();
+  write(revisionRef, toChapterRevisionDoc({
+    bookId,
+    chapterId: saved.id!,
+    title: saved.title,
+    content: saved.content,
+    source: options.source,
+    ...(narrationMatches && saved.audioUrl && { audioUrl: saved.audioUrl }),
+    ...(options.restoredFromId && { restoredFromId: options.restoredFromId })
+  }));
+  return revisionRef.id;
+};
+
+// Get the chapters of a book in reading order, from its subcollection
+export const getBookChapters = async (bookId: string): Promise<Chapter[]> => {
+  try {
+    const q = query(collection(db, 'books', bookId, CHAPTERS_COLLECTION), orderBy('order'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id } as Chapter));
+  } catch (error) {
+    console.error('Error getting book chapters:', error);
+    throw error;
+  }
+};
+
+// Move the chapters of a book saved before the subcollection existed out of the book document.
+// Returns whether there was anything to move; the chapter functions call it before they write.
+export const migrateBookChapters = async (bookId: string): Promise<boolean> => {
+  try {
+    const bookRef = doc(db, 'books', bookId);
+    return await runTransaction(db, async transaction => {
+      const bookSnap = await transaction.get(bookRef);
+      if (!bookSnap.exists()) {
+        throw new Error('Book not found');
+      }
+
+      const bookData = bookSnap.data() as BookDocument;
+      if (!Array.isArray(bookData.chapters)) return false;
+
+      // Readers sorted the array by order, so chapters sharing a position keep their place in it
+      const chapters = normalizeChapters(bookId, bookData.chapters, bookData.createdAt || Date.now());
+      chapters.forEach(chapter => transaction.set(getChapterRef(bookId, chapter.id!), chapter));
+      transaction.update(bookRef, {
+        chapters: deleteField(),
+        ...getChapterCounters(chapters)
+      });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error migrating book chapters:', error);
+    throw error;
+  }
+};
+
+/**
+ * Runs a change of one chapter in a transaction, once the chapters of its book are in the subcollection
+ * @param change Makes the writes from the book and the chapter as stored; its result is returned
+ */
+const runChapterTransaction = async <T>(
+  bookId: string,
+  chapterId: string,
+  change: (transaction: Transaction, book: BookDocument, chapter: Chapter) => T
+): Promise<T> => {
+  await migrateBookChapters(bookId);
+
+  return runTransaction(db, async transaction => {
+    const bookSnap = await transaction.get(doc(db, 'books', bookId));
+    const chapterSnap = await transaction.get(getChapterRef(bookId, chapterId));
+
+    if (!bookSnap.exists()) {
+      throw new Error('Book not found');
+    }
+    if (!chapterSnap.exists()) {
+      throw new Error('Chapter not found');
+    }
+
+    return change(transaction, bookSnap.data() as BookDocument, { ...chapterSnap.data(), id: chapterSnap.id } as Chapter);
+  });
+};
+
+// Create a new book in Firestore; its chapters start their revision history with the given source
+export const createBook = async (
+  book: Omit<BookDocument, 'id' | 'createdAt' | 'lastUpdated'>,
+  revisionSource: RevisionSource = 'manual'
+): Promise<BookDocument> => {
   try {
     const timestamp = Date.now();
-    const bookDoc: Omit<BookDocument, 'id'> = {
+    // The id is taken first so the chapters and their revisions can point to the book
+    const docRef = doc(collection(db, 'books'));
+    const chapters = normalizeChapters(docRef.id, book.chapters || [], timestamp);
+    const bookDoc: DocumentData = {
       ...book,
       // Ensure all required fields exist
       title: book.title,
@@ -328,100 +617,399 @@ export const createBook = async (book: Omit<BookDocument, 'id' | 'createdAt' | '
       tags: book.tags || [],
       thumbnailUrl: book.thumbnailUrl,
       audioUrl: book.audioUrl || '',
+      status: book.status || 'draft', // New books stay private unless created published
+      ...(book.status === 'published' && { publishedAt: book.publishedAt || timestamp }),
+      likeCount: 0,
+      saveCount: 0,
+      ...getChapterCounters(chapters),
       createdAt: timestamp,
-      lastUpdated: timestamp,
-      // Ensure chapters array exists and all chapters have required fields
-      chapters: (book.chapters || []).map(chapter => ({
-        ...chapter,
-        id: chapter.id || `chapter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        title: chapter.title,
-        content: chapter.content,
-        order: typeof chapter.order === 'number' ? chapter.order : 0,
-        createdAt: chapter.createdAt || timestamp,
-        audioUrl: chapter.audioUrl || '',
-        bookId: chapter.bookId || ''
-      }))
+      lastUpdated: timestamp
     };
+    // Chapters go to the subcollection, written in the same batch as the book
+    delete bookDoc.chapters;
 
-    const docRef = await addDoc(collection(db, 'books'), bookDoc);
-    return { ...bookDoc, id: docRef.id } as BookDocument;
+    const batch = writeBatch(db);
+    const write: DocumentWriter = (ref, data) => {
+      batch.set(ref, data);
+    };
+    const savedChapters = chapters.map(chapter => {
+      const lastRevisionId = recordChapterRevision(write, docRef.id, { ...bookDoc, id: docRef.id } as BookDocument, null, chapter, { source: revisionSource });
+      const savedChapter = { ...chapter, lastRevisionId };
+      write(getChapterRef(docRef.id, chapter.id!), savedChapter);
+      return savedChapter;
+    });
+    write(docRef, bookDoc);
+
+    await batch.commit();
+    markSearchIndexStale();
+    return { ...bookDoc, id: docRef.id, chapters: savedChapters } as BookDocument;
   } catch (error) {
     console.error('Error creating book:', error);
     throw error;
   }
 };
 
-// Update an existing book in Firestore
-export const updateBook = async (bookId: string, updates: Partial<Omit<BookDocument, 'id' | 'createdAt'>>): Promise<BookDocument> => {
+// Times updateBook lists the chapters when others were added meanwhile
+const MAX_CHAPTER_LIST_ATTEMPTS = 3;
+
+// Update an existing book in Firestore; chapters whose text changed get a revision with the given source
+export const updateBook = async (
+  bookId: string,
+  updates: Partial<Omit<BookDocument, 'id' | 'createdAt'>>,
+  revisionSource: RevisionSource = 'manual'
+): Promise<BookDocument> => {
   try {
     if (!bookId) throw new Error('Book ID is required');
 
-    // Get the current book
     const bookRef = doc(db, 'books', bookId);
-    const bookSnap = await getDoc(bookRef);
+    const { chapters: updatedChapters, ...bookUpdates } = updates;
+    if (updatedChapters) await migrateBookChapters(bookId);
+
+    for (let attempt = 1; ; attempt++) {
+      // Transactions cannot run queries, so the chapters are listed first and read again in the transaction
+      const listedChapterIds = updatedChapters ? (await getBookChapters(bookId)).map(chapter => chapter.id!) : [];
+
+      const saved = await runTransaction(db, async transaction => {
+        const bookSnap = await transaction.get(bookRef);
+        if (!bookSnap.exists()) {
+          throw new Error('Book not found');
+        }
+        const currentBook = bookSnap.data() as BookDocument;
+
+        // Update with new data and set lastUpdated timestamp
+        const timestamp = Date.now();
+        const updateData: Partial<Omit<BookDocument, 'id' | 'chapters'>> = {
+          ...bookUpdates,
+          lastUpdated: timestamp
+        };
 
-    if (!bookSnap.exists()) {
-      throw new Error('Book not found');
+        // Chapters given replace the current ones: they are saved and the chapters left out deleted
+        if (updatedChapters) {
+          const chapterIds = Array.from(new Set([
+            ...listedChapterIds,
+            ...updatedChapters.filter(chapter => chapter.id).map(chapter => chapter.id!)
+          ]));
+          const chapterSnaps = await Promise.all(chapterIds.map(chapterId => transaction.get(getChapterRef(bookId, chapterId))));
+          const currentChapters = chapterSnaps
+            .filter(chapterSnap => chapterSnap.exists())
+            .map(chapterSnap => ({ ...chapterSnap.data(), id: chapterSnap.id } as Chapter));
+
+          // A chapter added since the list was read would be missed: list them again. The last attempt
+          // goes ahead, so a chapter count that is off cannot block saving (the save corrects it).
+          const listChanged = (currentBook.chapterCount ?? currentChapters.length) !== currentChapters.length;
+          if (listChanged && attempt < MAX_CHAPTER_LIST_ATTEMPTS) return false;
+
+          // Record the chapters whose title or text changed; the others keep their current revision
+          const write = transactionWriter(transaction);
+          const chapters = normalizeChapters(bookId, updatedChapters, timestamp).map(chapter => {
+            const previous = currentChapters.find(ch => ch.id === chapter.id) || null;
+            if (previous && previous.title === chapter.title && previous.content === chapter.content) {
+              return previous.lastRevisionId ? { ...chapter, lastRevisionId: previous.lastRevisionId } : chapter;
+            }
+            const lastRevisionId = recordChapterRevision(write, bookId, currentBook, previous, chapter, { source: revisionSource });
+            return { ...chapter, lastRevisionId };
+          });
+
+          chapters.forEach(chapter => write(getChapterRef(bookId, chapter.id!), chapter));
+          currentChapters
+            .filter(current => !chapters.some(chapter => chapter.id === current.id))
+            .forEach(current => transaction.delete(getChapterRef(bookId, current.id!)));
+          Object.assign(updateData, getChapterCounters(chapters));
+        }
+
+        // Ensure audioUrl is never undefined
+        if (updates.audioUrl === undefined) {
+          updateData.audioUrl = currentBook.audioUrl || '';
+        }
+
+        transaction.set(bookRef, updateData, { merge: true });
+        return true;
+      });
+
+      if (saved) break;
     }
+    markSearchIndexStale();
 
-    // Update with new data and set lastUpdated timestamp
-    const timestamp = Date.now();
-    const updateData: any = {
-      ...updates,
-      lastUpdated: timestamp
-    };
+    // Get the updated book
+    return (await getBookById(bookId)) as BookDocument;
+  } catch (error) {
+    console.error('Error updating book:', error);
+    throw error;
+  }
+};
 
-    // If chapters are being updated, ensure all chapters have required fields
-    if (updates.chapters) {
-      updateData.chapters = updates.chapters.map((chapter: Chapter) => ({
-        ...chapter,
-        id: chapter.id || `chapter_${timestamp}_${Math.random().toString(36).substr(2, 9)}`,
-        title: chapter.title,
-        content: chapter.content,
-        order: typeof chapter.order === 'number' ? chapter.order : 0,
-        createdAt: chapter.createdAt || timestamp,
-        audioUrl: chapter.audioUrl || '',
-        bookId: chapter.bookId || bookId
-      }));
-    }
+/**
+ * Reads every book document, newest first, without reading the chapters subcollections:
+ * books not migrated yet still hold their chapters, the others get an empty list
+ */
+const readBookDocuments = async (): Promise<BookDocument[]> => {
+  const q = query(collection(db, 'books'), orderBy('createdAt', 'desc'));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toBookDocument(docSnap, []));
+};
 
-    // Ensure audioUrl is never undefined
-    if (updates.audioUrl === undefined) {
-      const currentData = bookSnap.data();
-      updateData.audioUrl = currentData?.audioUrl || '';
-    }
+// Get all books from Firestore with their chapters, one chapters query per book.
+// Lists that do not need the text use getBookSummaries instead.
+export const getBooks = async (): Promise<BookDocument[]> => {
+  try {
+    const books = await readBookDocuments();
+    return await Promise.all(books.map(async book =>
+      book.chapters.length > 0 ? book : { ...book, chapters: await getBookChapters(book.id!) }
+    ));
+  } catch (error) {
+    console.error('Error getting books:', error);
+    throw error;
+  }
+};
 
-    await setDoc(bookRef, updateData, { merge: true });
+// Options of getPublishedBooks
+export interface PublishedBooksOptions {
+  withChapters?: boolean; // Read the published chapters of each book, one query per book
+}
 
-    // Get the updated book
-    const updatedBookSnap = await getDoc(bookRef);
-    return { id: bookId, ...updatedBookSnap.data() } as BookDocument;
+// Get the books readers may see; with their published chapters only when asked for
+export const getPublishedBooks = async (options: PublishedBooksOptions = {}): Promise<BookDocument[]> => {
+  const now = Date.now();
+  const books = (await readBookDocuments()).filter(book => isPublished(book, now));
+  const withChapters = options.withChapters
+    ? await Promise.all(books.map(async book =>
+      book.chapters.length > 0 ? book : { ...book, chapters: await getBookChapters(book.id!) }
+    ))
+    : books;
+  return withChapters
+    .map(book => getReaderView(book, now))
+    .filter((book): book is BookDocument => book !== null);
+};
+
+// Orders a page of books can be listed in, all descending
+export type BookSort = 'newest' | 'mostLiked' | 'mostSaved' | 'recentlyUpdated';
+
+const BOOK_SORT_FIELDS: Record<BookSort, string> = {
+  newest: 'createdAt',
+  mostLiked: 'likeCount',
+  mostSaved: 'saveCount',
+  recentlyUpdated: 'lastUpdated'
+};
+
+// Book fields for lists and cards: no book or chapter text, narration timings or music
+export type BookSummary = Omit<BookDocument, 'content' | 'chapters' | 'timingManifest' | 'musicSelections' | 'voiceCasting'> & {
+  chapterCount: number;
+  hasAudio: boolean; // The book or one of its chapters is narrated
+};
+
+// Position after the last book of a page; pass it back to get the next page
+export type BookPageCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface BookPageOptions {
+  sort?: BookSort;              // Default 'newest'
+  pageSize?: number;            // Default 20
+  cursor?: BookPageCursor | null; // nextCursor of the previous page; omit for the first page
+  tag?: string;                 // Only books carrying this tag (exact, as on the books)
+  authorId?: string;            // Only books of this author
+  includeUnpublished?: boolean; // Also list drafts, books in review and books scheduled later (for authors and admins)
+}
+
+export interface BookPage {
+  books: BookSummary[];
+  nextCursor: BookPageCursor | null; // null on the last page
+}
+
+/**
+ * Builds the filters of a page query
+ */
+const getBookFilters = (options: Pick<BookPageOptions, 'tag' | 'authorId'>): QueryConstraint[] => [
+  ...(options.tag ? [where('tags', 'array-contains', options.tag)] : []),
+  ...(options.authorId ? [where('authorId', '==', options.authorId)] : [])
+];
+
+// Fields left out of summaries
+const SUMMARY_OMITTED_FIELDS = ['content', 'chapters', 'timingManifest', 'musicSelections', 'voiceCasting'];
+
+/**
+ * Reads a book document as a summary
+ */
+const toBookSummary = (docSnap: QueryDocumentSnapshot<DocumentData>): BookSummary => {
+  // The client SDK always reads whole documents, so content is only dropped here.
+  // Chapters are counted on the book, or in the document of books not migrated yet.
+  const data = docSnap.data();
+  const legacyChapters: Chapter[] | null = Array.isArray(data.chapters) ? data.chapters : null;
+  const summary: DocumentData = {
+    ...data,
+    id: docSnap.id,
+    chapterCount: legacyChapters ? legacyChapters.length : data.chapterCount || 0,
+    hasAudio: !!data.audioUrl || (legacyChapters
+      ? legacyChapters.some(chapter => !!chapter.audioUrl)
+      : (data.narratedChapterCount || 0) > 0)
+  };
+  SUMMARY_OMITTED_FIELDS.forEach(field => delete summary[field]);
+  return summary as BookSummary;
+};
+
+// Get a summary of every book, newest first, without their content and chapters
+export const getBookSummaries = async (): Promise<BookSummary[]> => {
+  try {
+    const q = query(collection(db, 'books'), orderBy('createdAt', 'desc'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(toBookSummary);
   } catch (error) {
-    console.error('Error updating book:', error);
+    console.error('Error getting book summaries:', error);
     throw error;
   }
 };
 
-// Get all books from Firestore
-export const getBooks = async () => {
+// Every publish status, to count the books a status filter keeps
+const PUBLISH_STATUSES: PublishStatus[] = ['draft', 'inReview', 'scheduled', 'published'];
+
+// Whether some books lack the status or a sort field, per filters and sort, checked once per page load
+const unmigratedBookChecks = new Map<string, Promise<boolean>>();
+
+/**
+ * Checks whether some books matching the filters were written before the status or the sort field existed.
+ * Firestore leaves such books out of queries filtering on the status or sorting on the field, so the count
+ * of those queries falls short of the count of all the books.
+ */
+const hasUnmigratedBooks = (options: BookPageOptions, sortField: string): Promise<boolean> => {
+  const key = JSON.stringify([options.tag || null, options.authorId || null, sortField]);
+  if (!unmigratedBookChecks.has(key)) {
+    const filters = getBookFilters(options);
+    const check = Promise.all([
+      getAggregateFromServer(query(collection(db, 'books'), ...filters), { books: count() }),
+      getAggregateFromServer(
+        query(
+          collection(db, 'books'),
+          ...filters,
+          where('status', 'in', PUBLISH_STATUSES),
+          orderBy(sortField, 'desc'),
+          ...(sortField === 'createdAt' ? [] : [orderBy('createdAt', 'desc')])
+        ),
+        { books: count() }
+      )
+    ]).then(([all, migrated]) => all.data().books > migrated.data().books);
+    // A failed check is retried with the next page
+    check.catch(() => unmigratedBookChecks.delete(key));
+    unmigratedBookChecks.set(key, check);
+  }
+  return unmigratedBookChecks.get(key)!;
+};
+
+/**
+ * Gets a page of book summaries sorted and filtered on the client, for books not migrated yet:
+ * a missing status reads as published and a missing count or date as 0
+ */
+const getUnmigratedBookPage = async (options: BookPageOptions, sortField: string, pageSize: number): Promise<BookPage> => {
+  const querySnapshot = await getDocs(query(collection(db, 'books'), ...getBookFilters(options)));
+  const now = Date.now();
+  const sortValue = (docSnap: QueryDocumentSnapshot<DocumentData>, field: string): number => docSnap.get(field) || 0;
+
+  const docs = querySnapshot.docs
+    .filter(docSnap => options.includeUnpublished || isPublished(docSnap.data() as BookDocument, now))
+    .sort((a, b) => sortValue(b, sortField) - sortValue(a, sortField) || sortValue(b, 'createdAt') - sortValue(a, 'createdAt'));
+  const start = options.cursor ? docs.findIndex(docSnap => docSnap.id === options.cursor!.id) + 1 : 0;
+  const pageDocs = docs.slice(start, start + pageSize);
+
+  return {
+    books: pageDocs.map(toBookSummary),
+    nextCursor: start + pageSize < docs.length ? pageDocs[pageDocs.length - 1] : null
+  };
+};
+
+// Get a page of book summaries, sorted on the server
+// While books written before a sort field or the status existed remain, they are sorted on the client
+// instead, reading every matching book; run scripts/backfill-book-fields once to page on the server again
+export const getBookPage = async (options: BookPageOptions = {}): Promise<BookPage> => {
   try {
-    const q = query(collection(db, 'books'), orderBy('createdAt', 'desc'));
+    const sortField = BOOK_SORT_FIELDS[options.sort || 'newest'];
+    const pageSize = options.pageSize || 20;
+
+    if (await hasUnmigratedBooks(options, sortField)) {
+      console.warn('Some books lack the status or sort fields, run scripts/backfill-book-fields to page them on the server');
+      return await getUnmigratedBookPage(options, sortField, pageSize);
+    }
+
+    const q = query(
+      collection(db, 'books'),
+      ...getBookFilters(options),
+      // Books scheduled later are dropped below, as Firestore cannot compare publishAt in the same query
+      ...(options.includeUnpublished ? [] : [where('status', 'in', ['published', 'scheduled'])]),
+      orderBy(sortField, 'desc'),
+      // Books with the same count or date keep a stable order across pages
+      ...(sortField === 'createdAt' ? [] : [orderBy('createdAt', 'desc')]),
+      ...(options.cursor ? [startAfter(options.cursor)] : []),
+      // One extra book tells whether there is a next page
+      limit(pageSize + 1)
+    );
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as BookDocument));
+    const docs = querySnapshot.docs.slice(0, pageSize);
+    const books = docs.map(toBookSummary);
+    const now = Date.now();
+
+    return {
+      // The cursor still follows the documents read, so a page may hold fewer books than asked
+      books: options.includeUnpublished ? books : books.filter(book => isPublished(book, now)),
+      nextCursor: querySnapshot.docs.length > pageSize ? docs[docs.length - 1] : null
+    };
   } catch (error) {
-    console.error('Error getting books:', error);
+    console.error('Error getting book page:', error);
+    throw error;
+  }
+};
+
+// Count the books matching page filters, with their likes and saves, without reading them
+export const getBookTotals = async (
+  options: Pick<BookPageOptions, 'tag' | 'authorId'> = {}
+): Promise<{ books: number; likes: number; saves: number }> => {
+  try {
+    const snapshot = await getAggregateFromServer(
+      query(collection(db, 'books'), ...getBookFilters(options)),
+      { books: count(), likes: sum('likeCount'), saves: sum('saveCount') }
+    );
+    const totals = snapshot.data();
+    return { books: totals.books, likes: totals.likes || 0, saves: totals.saves || 0 };
+  } catch (error) {
+    console.error('Error counting books:', error);
+    throw error;
+  }
+};
+
+// Add to (or, with a negative change, take from) the like or save count of a book
+export const updateBookCounter = async (bookId: string, counter: 'likeCount' | 'saveCount', change: number): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'books', bookId), { [counter]: increment(change) });
+  } catch (error) {
+    console.error('Error updating book counter:', error);
     throw error;
   }
 };
 
-// Get a single book by ID
+// Move a book through its lifecycle; scheduling needs the time it goes public
+export const updateBookStatus = async (bookId: string, status: PublishStatus, publishAt?: number): Promise<void> => {
+  try {
+    if (!bookId) throw new Error('Book ID is required');
+    if (status === 'scheduled' && !publishAt) throw new Error('A publish time is required to schedule a book');
+
+    const timestamp = Date.now();
+    await updateDoc(doc(db, 'books', bookId), {
+      status,
+      publishAt: status === 'scheduled' ? publishAt : deleteField(),
+      ...(status === 'published' ? { publishedAt: timestamp } : {}),
+      ...(status === 'scheduled' ? { publishedAt: publishAt } : {})
+    });
+    markSearchIndexStale();
+  } catch (error) {
+    console.error('Error updating book status:', error);
+    throw error;
+  }
+};
+
+// Get a single book by ID, with its chapters
 export const getBookById = async (id: string): Promise<BookDocument | null> => {
   try {
     const docRef = doc(db, 'books', id);
-    const docSnap = await getDoc(docRef);
+    // The chapters are read alongside; books not migrated yet have none in the subcollection
+    const [docSnap, chapters] = await Promise.all([getDoc(docRef), getBookChapters(id)]);
 
     if (docSnap.exists()) {
-      return { id: docSnap.id, ...docSnap.data() } as BookDocument;
+      return toBookDocument(docSnap, chapters);
     } else {
       return null;
     }
@@ -432,7 +1020,7 @@ export const getBookById = async (id: string): Promise<BookDocument | null> => {
 };
 
 // Delete book from Firestore and R2 Storage
-export const deleteBook = async (book: BookDocument) => {
+export const deleteBook = async (book: Pick<BookDocument, 'id' | 'thumbnailUrl'>) => {
   try {
     // Delete the thumbnail from R2 Storage
     if (book.thumbnailUrl) {
@@ -448,8 +1036,13 @@ export const deleteBook = async (book: BookDocument) => {
       }
     }
 
-    // Delete the document from Firestore
-    await deleteDoc(doc(db, 'books', book.id!));
+    // Delete the document and its chapters from Firestore
+    const chaptersSnapshot = await getDocs(collection(db, 'books', book.id!, CHAPTERS_COLLECTION));
+    const batch = writeBatch(db);
+    chaptersSnapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+    batch.delete(doc(db, 'books', book.id!));
+    await batch.commit();
+    markSearchIndexStale();
 
     return true;
   } catch (error) {
@@ -458,37 +1051,55 @@ export const deleteBook = async (book: BookDocument) => {
   }
 };
 
-// Add a new chapter to a book
-export const addChapter = async (bookId: string, chapter: Omit<Chapter, 'id' | 'createdAt'>): Promise<Chapter> => {
+// Add a new chapter at the end of a book; its revision history starts with the given source
+export const addChapter = async (
+  bookId: string,
+  chapter: Omit<Chapter, 'id' | 'createdAt'>,
+  revisionSource: RevisionSource = 'manual'
+): Promise<Chapter> => {
   try {
     if (!bookId) throw new Error('Book ID is required');
 
-    // Get the current book
+    await migrateBookChapters(bookId);
     const bookRef = doc(db, 'books', bookId);
-    const bookSnap = await getDoc(bookRef);
 
-    if (!bookSnap.exists()) {
-      throw new Error('Book not found');
-    }
+    const newChapter = await runTransaction(db, async transaction => {
+      const bookSnap = await transaction.get(bookRef);
 
-    const bookData = bookSnap.data() as BookDocument;
-    const chapters = bookData.chapters || [];
+      if (!bookSnap.exists()) {
+        throw new Error('Book not found');
+      }
 
-    // Create new chapter with ID and timestamp
-    const newChapter: Chapter = {
-      ...chapter,
-      id: `chapter_${Date.now()}`, // Generate a unique ID
-      createdAt: Date.now(),
-    };
+      const bookData = bookSnap.data() as BookDocument;
+      const timestamp = Date.now();
 
-    // Add chapter to the book
-    const updatedChapters = [...chapters, newChapter];
+      // Create new chapter with ID and timestamp; its position is taken here, so chapters added at the same time get their own
+      const chapterRef = doc(collection(db, 'books', bookId, CHAPTERS_COLLECTION));
+      const addedChapter: Chapter = {
+        ...chapter,
+        id: chapterRef.id,
+        bookId,
+        order: bookData.nextChapterOrder ?? bookData.chapterCount ?? 0,
+        createdAt: timestamp
+      };
+
+      // Chapters added to a public book are drafts until published; the others go public with their book
+      if (!chapter.status && isPublished(bookData)) {
+        addedChapter.status = 'draft';
+      }
 
-    // Update the book document
-    await setDoc(bookRef, {
-      chapters: updatedChapters,
-      lastUpdated: Date.now()
-    }, { merge: true });
+      addedChapter.lastRevisionId = recordChapterRevision(transactionWriter(transaction), bookId, bookData, null, addedChapter, { source: revisionSource });
+
+      transaction.set(chapterRef, addedChapter);
+      transaction.update(bookRef, {
+        chapterCount: increment(1),
+        narratedChapterCount: increment(getNarratedChange(null, addedChapter)),
+        nextChapterOrder: addedChapter.order + 1,
+        lastUpdated: timestamp
+      });
+      return addedChapter;
+    });
+    markSearchIndexStale();
 
     return newChapter;
   } catch (error) {
@@ -497,44 +1108,35 @@ export const addChapter = async (bookId: string, chapter: Omit<Chapter, 'id' | '
   }
 };
 
-// Update an existing chapter
-export const updateChapter = async (bookId: string, chapterId: string, updates: Partial<Omit<Chapter, 'id' | 'createdAt'>>): Promise<Chapter> => {
+// Update an existing chapter; a change of title or text is recorded as a revision with the given source
+export const updateChapter = async (
+  bookId: string,
+  chapterId: string,
+  updates: Partial<Omit<Chapter, 'id' | 'createdAt'>>,
+  revisionSource: RevisionSource = 'manual'
+): Promise<Chapter> => {
   try {
     if (!bookId) throw new Error('Book ID is required');
     if (!chapterId) throw new Error('Chapter ID is required');
 
-    // Get the current book
-    const bookRef = doc(db, 'books', bookId);
-    const bookSnap = await getDoc(bookRef);
+    const updatedChapter = await runChapterTransaction(bookId, chapterId, (transaction, bookData, previous) => {
+      const savedChapter: Chapter = {
+        ...previous,
+        ...updates
+      };
 
-    if (!bookSnap.exists()) {
-      throw new Error('Book not found');
-    }
-
-    const bookData = bookSnap.data() as BookDocument;
-    const chapters = bookData.chapters || [];
-
-    // Find the chapter to update
-    const chapterIndex = chapters.findIndex(ch => ch.id === chapterId);
-    if (chapterIndex === -1) {
-      throw new Error('Chapter not found');
-    }
-
-    // Update the chapter
-    const updatedChapter = {
-      ...chapters[chapterIndex],
-      ...updates
-    };
-
-    // Replace the chapter in the array
-    const updatedChapters = [...chapters];
-    updatedChapters[chapterIndex] = updatedChapter;
+      if (savedChapter.title !== previous.title || savedChapter.content !== previous.content) {
+        savedChapter.lastRevisionId = recordChapterRevision(transactionWriter(transaction), bookId, bookData, previous, savedChapter, { source: revisionSource });
+      }
 
-    // Update the book document
-    await setDoc(bookRef, {
-      chapters: updatedChapters,
-      lastUpdated: Date.now()
-    }, { merge: true });
+      transaction.set(getChapterRef(bookId, chapterId), savedChapter);
+      transaction.update(doc(db, 'books', bookId), {
+        narratedChapterCount: increment(getNarratedChange(previous, savedChapter)),
+        lastUpdated: Date.now()
+      });
+      return savedChapter;
+    });
+    markSearchIndexStale();
 
     return updatedChapter;
   } catch (error) {
@@ -549,71 +1151,132 @@ export const deleteChapter = async (bookId: string, chapterId: string): Promise<
     if (!bookId) throw new Error('Book ID is required');
     if (!chapterId) throw new Error('Chapter ID is required');
 
-    // Get the current book
-    const bookRef = doc(db, 'books', bookId);
-    const bookSnap = await getDoc(bookRef);
-
-    if (!bookSnap.exists()) {
-      throw new Error('Book not found');
-    }
-
-    const bookData = bookSnap.data() as BookDocument;
-    const chapters = bookData.chapters || [];
-
-    // Filter out the chapter to delete
-    const updatedChapters = chapters.filter(ch => ch.id !== chapterId);
-
-    // Update the book document
-    await setDoc(bookRef, {
-      chapters: updatedChapters,
-      lastUpdated: Date.now()
-    }, { merge: true });
+    await runChapterTransaction(bookId, chapterId, (transaction, bookData, chapter) => {
+      transaction.delete(getChapterRef(bookId, chapterId));
+      transaction.update(doc(db, 'books', bookId), {
+        chapterCount: increment(-1),
+        narratedChapterCount: increment(getNarratedChange(chapter, null)),
+        lastUpdated: Date.now()
+      });
+    });
+    markSearchIndexStale();
   } catch (error) {
     console.error('Error deleting chapter:', error);
     throw error;
   }
 };
 
-// Reorder chapters
+// Reorder chapters; chapters deleted in the meantime are skipped
 export const reorderChapters = async (bookId: string, newOrder: string[]): Promise<void> => {
   try {
     if (!bookId) throw new Error('Book ID is required');
 
-    // Get the current book
+    await migrateBookChapters(bookId);
     const bookRef = doc(db, 'books', bookId);
-    const bookSnap = await getDoc(bookRef);
 
-    if (!bookSnap.exists()) {
-      throw new Error('Book not found');
-    }
+    await runTransaction(db, async transaction => {
+      const bookSnap = await transaction.get(bookRef);
 
-    const bookData = bookSnap.data() as BookDocument;
-    const chapters = bookData.chapters || [];
+      if (!bookSnap.exists()) {
+        throw new Error('Book not found');
+      }
+
+      const chapterSnaps = await Promise.all(
+        newOrder.filter(id => !!id).map(id => transaction.get(getChapterRef(bookId, id)))
+      );
+      const chapterRefs = chapterSnaps.filter(chapterSnap => chapterSnap.exists()).map(chapterSnap => chapterSnap.ref);
+
+      // Update the order property
+      chapterRefs.forEach((chapterRef, index) => transaction.update(chapterRef, { order: index }));
+      transaction.update(bookRef, {
+        nextChapterOrder: Math.max((bookSnap.data() as BookDocument).nextChapterOrder ?? 0, chapterRefs.length),
+        lastUpdated: Date.now()
+      });
+    });
+  } catch (error) {
+    console.error('Error reordering chapters:', error);
+    throw error;
+  }
+};
 
-    // Create a map of chapters by ID for quick lookup
-    const chaptersMap = new Map(chapters.map(chapter => [chapter.id, chapter]));
+// Move a chapter through its lifecycle; scheduling needs the time it goes public
+export const updateChapterStatus = async (bookId: string, chapterId: string, status: PublishStatus, publishAt?: number): Promise<Chapter> => {
+  try {
+    if (!bookId) throw new Error('Book ID is required');
+    if (!chapterId) throw new Error('Chapter ID is required');
+    if (status === 'scheduled' && !publishAt) throw new Error('A publish time is required to schedule a chapter');
+
+    const updatedChapter = await runChapterTransaction(bookId, chapterId, (transaction, bookData, chapter) => {
+      transaction.update(getChapterRef(bookId, chapterId), {
+        status,
+        publishAt: status === 'scheduled' ? publishAt : deleteField()
+      });
+
+      const savedChapter: Chapter = { ...chapter, status };
+      if (status === 'scheduled') {
+        savedChapter.publishAt = publishAt;
+      } else {
+        delete savedChapter.publishAt;
+      }
+      return savedChapter;
+    });
+    markSearchIndexStale();
 
-    // Create the new ordered array
-    const reorderedChapters = newOrder
-      .map((id, index) => {
-        const chapter = chaptersMap.get(id);
-        if (!chapter) return null;
+    return updatedChapter;
+  } catch (error) {
+    console.error('Error updating chapter status:', error);
+    throw error;
+  }
+};
 
-        // Update the order property
-        return {
-          ...chapter,
-          order: index
-        };
-      })
-      .filter((chapter): chapter is Chapter => chapter !== null);
+// How restoring a revision treats the narration of the chapter
+export type RestoreNarration = 'keep' | 'clear';
 
-    // Update the book document
-    await setDoc(bookRef, {
-      chapters: reorderedChapters,
-      lastUpdated: Date.now()
-    }, { merge: true });
+// Bring back the title and text of a revision, saved as a new revision. The narration is kept,
+// or cleared so it can be recorded again for the restored text.
+export const restoreChapterRevision = async (
+  bookId: string,
+  chapterId: string,
+  revision: ChapterRevision,
+  narration: RestoreNarration
+): Promise<Chapter> => {
+  try {
+    if (!bookId) throw new Error('Book ID is required');
+    if (!chapterId) throw new Error('Chapter ID is required');
+
+    const restoredChapter = await runChapterTransaction(bookId, chapterId, (transaction, bookData, previous) => {
+      const savedChapter: Chapter = {
+        ...previous,
+        title: revision.title,
+        content: revision.content
+      };
+
+      // Timings and music describe the narration, so they go with it
+      if (narration === 'clear') {
+        savedChapter.audioUrl = '';
+        delete savedChapter.timingManifest;
+        delete savedChapter.musicSelections;
+        delete savedChapter.paragraphAudioUrls;
+      }
+
+      savedChapter.lastRevisionId = recordChapterRevision(transactionWriter(transaction), bookId, bookData, previous, savedChapter, {
+        source: 'restore',
+        restoredFromId: revision.id,
+        narrationMatches: narration === 'keep' && !!revision.audioUrl && revision.audioUrl === previous.audioUrl
+      });
+
+      transaction.set(getChapterRef(bookId, chapterId), savedChapter);
+      transaction.update(doc(db, 'books', bookId), {
+        narratedChapterCount: increment(getNarratedChange(previous, savedChapter)),
+        lastUpdated: Date.now()
+      });
+      return savedChapter;
+    });
+    markSearchIndexStale();
+
+    return restoredChapter;
   } catch (error) {
-    console.error('Error reordering chapters:', error);
+    console.error('Error restoring chapter revision:', error);
     throw error;
   }
 };
@@ -630,7 +1293,7 @@ export const uploadAudioNarration = async (
     console.log('Starting audio upload to R2 Storage:', { bookId, chapterId, fileSize: file.size, retryAttempt });
 
     const timestamp = Date.now();
-    const fileName = `${timestamp}_narration${chapterId ? `_${chapterId}` : ''}.mp3`;
+    const fileName = `${timestamp}_narration${chapterId ? `_${chapterId}` : ''}.${getAudioFileExtension(file.type)}`;
 
     // Create a dedicated 'audio-narrations' directory at the root level to match your structure
     const path = chapterId
@@ -682,6 +1345,7 @@ export const updateBookAudio = async (bookId: string, audioUrl: string): Promise
     };
 
     await setDoc(bookRef, updateData, { merge: true });
+    markSearchIndexStale();
 
     // Get the updated book
     const updatedBookSnap = await getDoc(bookRef);
@@ -698,50 +1362,71 @@ export const updateChapterAudio = async (
   chapterId: string,
   audioUrl: string,
   paragraphAudioUrls?: string[],
-  episodeMetadata?: { mood?: string; genre?: string; intensity?: number }
+  episodeMetadata?: { mood?: string; genre?: string; intensity?: number },
+  timingManifest?: NarrationTimingManifest,
+  musicSelections?: BackgroundMusicSelection[]
 ): Promise<Chapter> => {
   try {
     if (!bookId) throw new Error('Book ID is required');
     if (!chapterId) throw new Error('Chapter ID is required');
 
-    // Get the current book
-    const bookRef = doc(db, 'books', bookId);
-    const bookSnap = await getDoc(bookRef);
+    const updatedChapter = await runChapterTransaction(bookId, chapterId, (transaction, bookData, previous) => {
+      // Update the chapter with audio URL and additional data if provided
+      const savedChapter: Chapter = {
+        ...previous,
+        audioUrl,
+        ...(paragraphAudioUrls && { paragraphAudioUrls }),
+        ...(episodeMetadata && { episodeMetadata }),
+        ...(timingManifest && { timingManifest }),
+        ...(musicSelections && { musicSelections })
+      };
+
+      // A manifest or music from a previous narration no longer matches the new audio
+      if (!timingManifest) {
+        delete savedChapter.timingManifest;
+      }
+      if (!musicSelections) {
+        delete savedChapter.musicSelections;
+      }
 
-    if (!bookSnap.exists()) {
-      throw new Error('Book not found');
+      transaction.set(getChapterRef(bookId, chapterId), savedChapter);
+      transaction.update(doc(db, 'books', bookId), {
+        narratedChapterCount: increment(getNarratedChange(previous, savedChapter)),
+        lastUpdated: Date.now()
+      });
+      return savedChapter;
+    });
+    markSearchIndexStale();
+
+    // The narration was recorded for the current text, so restoring its revision can keep it
+    if (audioUrl && updatedChapter.lastRevisionId) {
+      await setRevisionAudio(updatedChapter.lastRevisionId, audioUrl).catch(error => {
+        console.warn('Could not record the narration of the revision:', error);
+      });
     }
 
-    const bookData = bookSnap.data() as BookDocument;
-    const chapters = bookData.chapters || [];
-
-    // Find the chapter to update
-    const chapterIndex = chapters.findIndex(ch => ch.id === chapterId);
-    if (chapterIndex === -1) {
-      throw new Error('Chapter not found');
-    }
+    return updatedChapter;
+  } catch (error) {
+    console.error('Error updating chapter audio:', error);
+    throw error;
+  }
+};
 
-    // Update the chapter with audio URL and additional data if provided
-    const updatedChapter = {
-      ...chapters[chapterIndex],
-      audioUrl,
-      ...(paragraphAudioUrls && { paragraphAudioUrls }),
-      ...(episodeMetadata && { episodeMetadata })
-    };
+// Save the voice casting table used for multi-voice narration of a book
+export const updateBookVoiceCasting = async (bookId: string, voiceCasting: VoiceCasting): Promise<VoiceCasting> => {
+  try {
+    if (!bookId) throw new Error('Book ID is required');
 
-    // Replace the chapter in the array
-    const updatedChapters = [...chapters];
-    updatedChapters[chapterIndex] = updatedChapter;
+    const updatedCasting = { ...voiceCasting, updatedAt: Date.now() };
 
-    // Update the book document
-    await setDoc(bookRef, {
-      chapters: updatedChapters,
+    await updateDoc(doc(db, 'books', bookId), {
+      voiceCasting: updatedCasting,
       lastUpdated: Date.now()
-    }, { merge: true });
+    });
 
-    return updatedChapter;
+    return updatedCasting;
   } catch (error) {
-    console.error('Error updating chapter audio:', error);
+    console.error('Error updating voice casting:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
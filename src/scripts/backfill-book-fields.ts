@@ -0,0 +1,77 @@
+'use client';
+
+import { collection, getDocs, doc, writeBatch } from 'firebase/firestore';
+import { db } from '@/firebase/config';
+
+/**
+ * This script sets the fields `getBookPage` sorts and filters on for books written before they existed:
+ * likeCount and saveCount from the 'likes' and 'bookmarks' collections, lastUpdated
+ * (from createdAt) where it is missing, and status 'published' where it is missing (books
+ * without a status were public). Firestore leaves a document out of a sorted or filtered query
+ * when it lacks the field, so run it once after deploying paged book lists and the publishing lifecycle.
+ * Until it has run, `getBookPage` still lists those books but reads every book of a list to sort it.
+ * It can be run from the browser console or from a dedicated admin page
+ */
+
+// Firestore allows at most 500 writes in a batch
+const BATCH_SIZE = 500;
+
+/**
+ * Counts the documents of a collection per book
+ */
+const countByBook = async (collectionName: string): Promise<Record<string, number>> => {
+  const snapshot = await getDocs(collection(db, collectionName));
+  return snapshot.docs.reduce<Record<string, number>>((counts, docSnap) => {
+    const { bookId } = docSnap.data();
+    if (bookId) counts[bookId] = (counts[bookId] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+// Function to backfill every book
+export const backfillBookFields = async (): Promise<{ updated: number; total: number }> => {
+  try {
+    console.log('🔍 Counting likes and saves...');
+    const [likeCounts, saveCounts, booksSnapshot] = await Promise.all([
+      countByBook('likes'),
+      countByBook('bookmarks'),
+      getDocs(collection(db, 'books'))
+    ]);
+
+    const updates = booksSnapshot.docs.reduce<{ id: string; fields: Record<string, number | string> }[]>((result, docSnap) => {
+      const book = docSnap.data();
+      const fields: Record<string, number | string> = {};
+      const likeCount = likeCounts[docSnap.id] || 0;
+      const saveCount = saveCounts[docSnap.id] || 0;
+
+      if (book.likeCount !== likeCount) fields.likeCount = likeCount;
+      if (book.saveCount !== saveCount) fields.saveCount = saveCount;
+      if (typeof book.lastUpdated !== 'number') fields.lastUpdated = book.createdAt || Date.now();
+      if (!book.status) fields.status = 'published';
+
+      if (Object.keys(fields).length > 0) result.push({ id: docSnap.id, fields });
+      return result;
+    }, []);
+
+    for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      updates.slice(start, start + BATCH_SIZE).forEach(({ id, fields }) => {
+        batch.update(doc(db, 'books', id), fields);
+      });
+      await batch.commit();
+      console.log(`🔄 Updated ${Math.min(start + BATCH_SIZE, updates.length)} of ${updates.length} books...`);
+    }
+
+    console.log(`✅ Backfilled ${updates.length} of ${booksSnapshot.size} books`);
+    return { updated: updates.length, total: booksSnapshot.size };
+  } catch (error) {
+    console.error('❌ Error backfilling book fields:', error);
+    throw error;
+  }
+};
+
+// Export functions that can be called from the browser console
+// Only attach to window in browser environment
+if (typeof window !== 'undefined') {
+  (window as unknown as { backfillBookFields: typeof backfillBookFields }).backfillBookFields = backfillBookFields;
+}
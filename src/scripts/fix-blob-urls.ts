@@ -1,6 +1,6 @@
 'use client';
 
-import { getBooks, updateBook, BookDocument } from '@/firebase/services';
+import { getBookSummaries, getBookById, updateBook, BookDocument } from '@/firebase/services';
 import { r2Client, bucketName } from '@/r2/config';
 import { uploadFileToR2, getFileUrlFromR2 } from '@/r2/services';
 
@@ -110,13 +110,15 @@ export const fixBookBlobUrls = async (book: BookDocument): Promise<boolean> => {
 export const fixAllBlobUrls = async (): Promise<{ fixed: number, total: number }> => {
   try {
     console.log('🔍 Fetching all books...');
-    const books = await getBooks();
+    const books = await getBookSummaries();
     console.log(`📚 Found ${books.length} books.`);
     
     let fixedCount = 0;
     
     for (let i = 0; i < books.length; i++) {
-      const book = books[i];
+      // Summaries have no content or chapters, which may hold blob URLs too
+      const book = await getBookById(books[i].id!);
+      if (!book) continue;
       console.log(`📖 Processing book ${i + 1}/${books.length}: "${book.title}"...`);
       
       const wasFixed = await fixBookBlobUrls(book);
@@ -0,0 +1,47 @@
+'use client';
+
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/firebase/config';
+import { migrateBookChapters } from '@/firebase/services';
+
+/**
+ * This script moves the chapters of books saved before the 'chapters' subcollection existed
+ * out of the book document, into `books/{bookId}/chapters/{chapterId}`, and sets the chapter
+ * counts lists read. Books are also migrated on their first chapter save, so running it is
+ * only needed to bring every book over at once (for example before dropping the fallback
+ * reads of `getBookById` and `getBooks`). Books already migrated are skipped.
+ * It can be run from the browser console or from a dedicated admin page
+ */
+
+// Function to migrate every book
+export const migrateAllChapters = async (): Promise<{ migrated: number; total: number }> => {
+  try {
+    console.log('🔍 Looking for books with chapters in the book document...');
+    const booksSnapshot = await getDocs(collection(db, 'books'));
+    const legacyBooks = booksSnapshot.docs.filter(docSnap => Array.isArray(docSnap.data().chapters));
+    console.log(`📚 Found ${legacyBooks.length} of ${booksSnapshot.size} books to migrate`);
+
+    // One transaction per book, so a book that fails leaves the others migrated
+    let migrated = 0;
+    for (const docSnap of legacyBooks) {
+      try {
+        if (await migrateBookChapters(docSnap.id)) migrated++;
+        console.log(`🔄 Migrated "${docSnap.data().title}" (${docSnap.data().chapters.length} chapters)`);
+      } catch (error) {
+        console.error(`❌ Error migrating book ${docSnap.id}:`, error);
+      }
+    }
+
+    console.log(`✅ Migrated ${migrated} of ${booksSnapshot.size} books`);
+    return { migrated, total: booksSnapshot.size };
+  } catch (error) {
+    console.error('❌ Error migrating chapters:', error);
+    throw error;
+  }
+};
+
+// Export functions that can be called from the browser console
+// Only attach to window in browser environment
+if (typeof window !== 'undefined') {
+  (window as unknown as { migrateAllChapters: typeof migrateAllChapters }).migrateAllChapters = migrateAllChapters;
+}
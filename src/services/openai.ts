@@ -5,8 +5,17 @@ const OPENAI_API_KEY = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
 const TTS_MODEL = 'gpt-4o-mini-tts';
 const TEXT_MODEL = 'gpt-3.5-turbo';
 
-// Generate audio from text using OpenAI TTS API
-export const generateAudio = async (text: string, pauseDuration: number = 7): Promise<ArrayBuffer> => {
+// Voice settings used by generateAudio; also part of the paragraph audio cache key
+export const NARRATION_TTS_VOICE = 'coral';
+export const NARRATION_TTS_SPEED = 1;
+export const NARRATION_TTS_PROVIDER = 'openai';
+
+// Generate audio from text using OpenAI TTS API (voice defaults to the narrator voice)
+export const generateAudio = async (
+  text: string,
+  pauseDuration: number = 7,
+  voice: string = NARRATION_TTS_VOICE
+): Promise<ArrayBuffer> => {
   try {
     // Split text by $ symbol (primary paragraph delimiter)
     const paragraphs = text.split('$').filter(p => p.trim().length > 0);
@@ -48,7 +57,7 @@ export const generateAudio = async (text: string, pauseDuration: number = 7): Pr
             model: TTS_MODEL,
             input: paragraph,
             instructions: "You are a professional storyteller narrating a story for children and students. Read the following text as if you are narrating it aloud in a calm, engaging, and natural voice. Speak slowly and clearly, with natural pauses between sentences and paragraphs. Add slight breaths and pauses where a real narrator would breathe. Include natural emphasis on important words to make the story engaging. Add subtle human-like sounds such as soft sighs or gentle coughed breaths when appropriate. Vary the intonation to make the narration expressive, not monotone. Keep the pace steady and comfortable, as if telling the story aloud in person. Avoid robotic or overly formal speech. Pause slightly after commas, and more after periods. Use storytelling style: friendly, warm, and captivating. Pause for at least 3 seconds at the end of this paragraph.",
-            voice: 'coral', // Default voice, can be customized
+            voice,
             style: "narration",
             response_format: 'mp3',
           }),
@@ -77,7 +86,7 @@ export const generateAudio = async (text: string, pauseDuration: number = 7): Pr
           model: TTS_MODEL,
           input: text,
           instructions: "You are a professional storyteller narrating a story for children and students. Read the following text as if you are narrating it aloud in a calm, engaging, and natural voice. Speak slowly and clearly, with natural pauses between sentences and paragraphs. Pause for atleast 3 seconds after double full stops (..). Add slight breaths and pauses where a real narrator would breathe. Include natural emphasis on important words to make the story engaging. Add subtle human-like sounds such as soft sighs or gentle coughed breaths when appropriate. Vary the intonation to make the narration expressive, not monotone. Keep the pace steady and comfortable, as if telling the story aloud in person. Avoid robotic or overly formal speech. Pause slightly after commas, and more after periods or paragraph breaks. Use storytelling style: friendly, warm, and captivating.",
-          voice: 'coral', // Default voice, can be customized
+          voice,
           style: "narration",
           response_format: 'mp3',
         }),
@@ -0,0 +1,52 @@
+/**
+ * @file Helpers for showing a reader's bookmarks and highlights in narrated content.
+ *
+ * @integration Used by `NarrationSyncedText`, which renders content one narrated paragraph at a
+ * time (see `splitNarratedContent`), so highlights are matched within a single paragraph.
+ */
+
+// Length of the paragraph excerpt saved with a bookmark
+const EXCERPT_LENGTH = 120;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Wraps the first occurrence of each highlighted passage in a `<mark>`. Passages are only
+ * matched within one run of text, so a highlight spanning formatting tags is left unmarked
+ * (the paragraph itself still shows that it has a highlight).
+ * @param html Paragraph HTML
+ * @param passages Highlighted passages, as selected by the reader
+ * @returns The paragraph HTML with the passages marked
+ */
+export const markHighlightedPassages = (html: string, passages: string[]): string =>
+  passages.reduce((result, passage) => {
+    const needle = escapeHtml(passage.trim());
+    if (!needle) return result;
+
+    const parts = result.split(/(<[^>]*>)/);
+    const partIndex = parts.findIndex(part => !part.startsWith('<') && part.includes(needle));
+    if (partIndex === -1) return result;
+
+    parts[partIndex] = parts[partIndex].replace(needle, `<mark>${needle}</mark>`);
+    return parts.join('');
+  }, html);
+
+/**
+ * Gets the start of a paragraph as plain text, to label a bookmark
+ * @param html Paragraph HTML
+ * @returns Up to EXCERPT_LENGTH characters of the paragraph text
+ */
+export const getParagraphExcerpt = (html: string): string => {
+  const text = html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trim()}…` : text;
+};
@@ -1,3 +1,5 @@
+import { normalizeAudioBufferLoudness } from '@/utils/audioStitcher';
+
 // Helper function to write string to DataView
 const writeString = (view: DataView, offset: number, string: string): void => {
   for (let i = 0; i < string.length; i++) {
@@ -55,10 +57,24 @@ const audioBufferToWav = (buffer: AudioBuffer): Promise<ArrayBuffer> => {
   });
 };
 
-// Concatenate audio blobs into a single blob
-export const concatenateAudioBlobs = async (blobs: Blob[]): Promise<Blob> => {
+// Pause between paragraphs in the concatenated audio, in seconds
+export const PARAGRAPH_GAP_DURATION = 1.5;
+
+// Concatenated audio together with the decoded duration of each input blob
+export interface ConcatenatedAudio {
+  blob: Blob;
+  durations: number[]; // Duration of each input blob in seconds, in order
+  gap: number;         // Pause inserted between consecutive blobs in seconds
+}
+
+// Concatenate audio blobs into a single blob, reporting the duration of each blob.
+// When a target loudness (LUFS) is given, the result is normalized to it.
+export const concatenateAudioBlobsWithTimings = async (
+  blobs: Blob[],
+  gapDuration: number = PARAGRAPH_GAP_DURATION,
+  targetLoudness?: number
+): Promise<ConcatenatedAudio> => {
   if (blobs.length === 0) throw new Error('No audio blobs to concatenate');
-  if (blobs.length === 1) return blobs[0];
   
   // Create audio context
   const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -71,10 +87,13 @@ export const concatenateAudioBlobs = async (blobs: Blob[]): Promise<Blob> => {
       )
     )
   );
+  const durations = buffers.map(buffer => buffer.duration);
+  
+  if (blobs.length === 1 && targetLoudness === undefined) return { blob: blobs[0], durations, gap: 0 };
   
-  // Calculate total duration with 1.5-second gaps between paragraphs
-  const gapDuration = 1.5; // 1.5 seconds gap
-  const totalDuration = buffers.reduce((sum, buffer) => sum + buffer.duration, 0) + (buffers.length - 1) * gapDuration;
+  // Calculate total duration with gaps between paragraphs
+  const gap = buffers.length > 1 ? gapDuration : 0;
+  const totalDuration = buffers.reduce((sum, buffer) => sum + buffer.duration, 0) + (buffers.length - 1) * gap;
   
   // Create offline context for the total duration
   const offlineContext = new OfflineAudioContext({
@@ -83,10 +102,10 @@ export const concatenateAudioBlobs = async (blobs: Blob[]): Promise<Blob> => {
     sampleRate: audioContext.sampleRate
   });
   
-  // Concatenate buffers with 1.5-second gaps
+  // Concatenate buffers with gaps
   let currentTime = 0;
   
-  buffers.forEach((buffer, index) => {
+  buffers.forEach((buffer) => {
     const source = offlineContext.createBufferSource();
     source.buffer = buffer;
     
@@ -97,13 +116,27 @@ export const concatenateAudioBlobs = async (blobs: Blob[]): Promise<Blob> => {
     source.start(currentTime);
     
     // Update current time for next buffer (add gap after each buffer except the last)
-    currentTime += buffer.duration + gapDuration;
+    currentTime += buffer.duration + gap;
   });
   
   // Render audio
   const renderedBuffer = await offlineContext.startRendering();
   
+  // Bring the whole narration to the target loudness
+  if (targetLoudness !== undefined) {
+    normalizeAudioBufferLoudness(renderedBuffer, targetLoudness);
+  }
+  
   // Convert to WAV blob
   const wavArrayBuffer = await audioBufferToWav(renderedBuffer);
-  return new Blob([wavArrayBuffer], { type: 'audio/wav' });
-};
\ No newline at end of file
+  return { blob: new Blob([wavArrayBuffer], { type: 'audio/wav' }), durations, gap };
+};
+
+// Concatenate audio blobs into a single blob
+export const concatenateAudioBlobs = async (blobs: Blob[]): Promise<Blob> => {
+  if (blobs.length === 0) throw new Error('No audio blobs to concatenate');
+  if (blobs.length === 1) return blobs[0];
+  
+  const { blob } = await concatenateAudioBlobsWithTimings(blobs);
+  return blob;
+};
@@ -0,0 +1,280 @@
+/**
+ * @file audioDynamics.ts
+ * @description This file implements the dynamics processing used when narration is mixed with background music:
+ * - Sidechain-style ducking: a speech activity envelope is detected from the narration samples and turned into a
+ *   gain curve that lowers the music while narration is audible and raises it again in silences and paragraph gaps.
+ * - Loudness normalization: the integrated loudness of the final mix is measured following ITU-R BS.1770
+ *   (K-weighting, 400 ms blocks, absolute and relative gating) so the mix can be brought to a target loudness.
+ * @integration
+ * - `audioStitcher.ts` and `audioConcat.ts` (browser) apply the ducking curve and normalization to Web Audio buffers.
+ * - `nodeAudioNarrationService.ts` (server) uses the same targets with ffmpeg's `loudnorm` filter.
+ * This module works on plain sample arrays and has no browser or Node dependencies so it can be used on both sides.
+ */
+
+// Target integrated loudness of a finished narration, in LUFS
+export const TARGET_LOUDNESS_LUFS = -16;
+
+// Maximum true peak allowed by ffmpeg's loudnorm filter, in dBTP
+export const TARGET_TRUE_PEAK_DBTP = -1.5;
+
+// Target loudness range for ffmpeg's loudnorm filter, in LU
+export const TARGET_LOUDNESS_RANGE_LU = 11;
+
+// Maximum sample peak after normalization in the browser, in dBFS
+export const PEAK_CEILING_DBFS = -1;
+
+// Options for building a ducking curve
+export interface DuckingOptions {
+  duckingAmount: number;   // Music reduction while narration is audible, in dB
+  attack: number;          // Time for the music to drop when narration starts, in seconds
+  release: number;         // Time for the music to rise when narration stops, in seconds
+  threshold?: number;      // Narration level counted as speech, in dBFS, default -45
+  hold?: number;           // Pauses shorter than this stay ducked (gaps between words), in seconds, default 0.35
+  resolution?: number;     // Length of one analysis window / curve step, in seconds, default 0.05
+}
+
+const DEFAULT_SPEECH_THRESHOLD_DB = -45;
+const DEFAULT_HOLD_DURATION = 0.35;
+const DEFAULT_CURVE_RESOLUTION = 0.05;
+
+// Below this level a block is ignored by the absolute gate of BS.1770, in LUFS
+const ABSOLUTE_GATE_LUFS = -70;
+// Blocks quieter than the ungated loudness minus this value are ignored, in LU
+const RELATIVE_GATE_LU = 10;
+
+/**
+ * Converts decibels to a linear gain
+ */
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * Converts a linear gain to decibels
+ */
+export const gainToDb = (gain: number): number => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+/**
+ * Detects where narration is audible
+ * @param channels Sample data of each narration channel
+ * @param sampleRate Sample rate of the narration
+ * @param options Threshold, hold time and window length
+ * @returns One entry per analysis window, true when narration is audible
+ */
+export const detectSpeechActivity = (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: Pick<DuckingOptions, 'threshold' | 'hold' | 'resolution'> = {}
+): boolean[] => {
+  const resolution = options.resolution || DEFAULT_CURVE_RESOLUTION;
+  const threshold = dbToGain(options.threshold ?? DEFAULT_SPEECH_THRESHOLD_DB);
+  const windowSize = Math.max(1, Math.round(resolution * sampleRate));
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const windowCount = Math.ceil(length / windowSize);
+  const activity: boolean[] = new Array(windowCount).fill(false);
+
+  for (let w = 0; w < windowCount; w++) {
+    const start = w * windowSize;
+    const end = Math.min(length, start + windowSize);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        sum += data[i] * data[i];
+      }
+    }
+    const rms = Math.sqrt(sum / Math.max(1, (end - start) * channels.length));
+    activity[w] = rms >= threshold;
+  }
+
+  // Bridge short pauses so the music does not pump between words
+  const holdWindows = Math.round((options.hold ?? DEFAULT_HOLD_DURATION) / resolution);
+  let lastActive = -Infinity;
+  for (let w = 0; w < windowCount; w++) {
+    if (activity[w]) {
+      if (w - lastActive > 1 && w - lastActive <= holdWindows + 1) {
+        for (let gap = lastActive + 1; gap < w; gap++) activity[gap] = true;
+      }
+      lastActive = w;
+    }
+  }
+
+  return activity;
+};
+
+/**
+ * Builds the gain curve that ducks background music under the narration. The curve is computed offline, so
+ * the music starts dropping `attack` seconds before the narration starts instead of reacting after it.
+ * @param activity Speech activity from detectSpeechActivity
+ * @param options Ducking amount and timing
+ * @returns Gain values (1 = music at full volume), one per analysis window
+ */
+export const buildDuckingCurve = (activity: boolean[], options: DuckingOptions): Float32Array => {
+  const resolution = options.resolution || DEFAULT_CURVE_RESOLUTION;
+  const duckedGain = dbToGain(-Math.abs(options.duckingAmount));
+  const lookahead = Math.round(options.attack / resolution);
+  const curve = new Float32Array(activity.length);
+
+  // Extend every speech region backwards by the attack time
+  const ducked = activity.slice();
+  activity.forEach((active, w) => {
+    if (active) {
+      for (let ahead = Math.max(0, w - lookahead); ahead < w; ahead++) ducked[ahead] = true;
+    }
+  });
+
+  const attackCoefficient = 1 - Math.exp(-resolution / Math.max(resolution, options.attack / 3));
+  const releaseCoefficient = 1 - Math.exp(-resolution / Math.max(resolution, options.release / 3));
+  let gain = ducked[0] ? duckedGain : 1;
+
+  for (let w = 0; w < ducked.length; w++) {
+    const target = ducked[w] ? duckedGain : 1;
+    gain += (target - gain) * (target < gain ? attackCoefficient : releaseCoefficient);
+    curve[w] = gain;
+  }
+
+  return curve;
+};
+
+/**
+ * Computes the coefficients of the two BS.1770 K-weighting stages for a sample rate. The filters are
+ * derived from their analog prototypes, so they match the coefficients published for 48 kHz.
+ * @param sampleRate Sample rate of the audio
+ * @returns Normalized biquad coefficients of the high shelf and high-pass stages
+ */
+const getKWeightingFilters = (sampleRate: number): { b: number[]; a: number[] }[] => {
+  // Stage 1: high shelf modelling the acoustic effect of the head
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b: [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    a: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+  };
+
+  // Stage 2: high-pass (RLB weighting)
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b: [1, -2, 1],
+    a: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+  };
+
+  return [shelf, highPass];
+};
+
+/**
+ * Applies the BS.1770 K-weighting filter (head-related high shelf followed by a high-pass)
+ * @param data Samples of one channel
+ * @param sampleRate Sample rate of the samples
+ * @returns The weighted samples
+ */
+const applyKWeighting = (data: Float32Array, sampleRate: number): Float32Array => {
+  let input = data;
+  for (const { b, a } of getKWeightingFilters(sampleRate)) {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+      const x0 = input[i];
+      const y0 = b[0] * x0 + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+      output[i] = y0;
+      x2 = x1; x1 = x0;
+      y2 = y1; y1 = y0;
+    }
+    input = output;
+  }
+
+  return input;
+};
+
+/**
+ * Measures the integrated loudness of audio following ITU-R BS.1770
+ * @param channels Sample data of each channel (front channels only)
+ * @param sampleRate Sample rate of the audio
+ * @returns Integrated loudness in LUFS, or -Infinity for silence
+ */
+export const measureIntegratedLoudness = (channels: Float32Array[], sampleRate: number): number => {
+  if (channels.length === 0) return -Infinity;
+
+  const weighted = channels.map(data => applyKWeighting(data, sampleRate));
+  const blockSize = Math.round(0.4 * sampleRate);
+  const step = Math.round(0.1 * sampleRate); // 75% overlap between blocks
+  const length = weighted[0].length;
+  const blockPowers: number[] = [];
+
+  for (let start = 0; start + blockSize <= length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) {
+        sum += data[i] * data[i];
+      }
+      power += sum / blockSize;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter(power => power > 0 && toLoudness(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const relativeGate = toLoudness(mean(aboveAbsolute)) - RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(power => toLoudness(power) > relativeGate);
+  return gated.length > 0 ? toLoudness(mean(gated)) : -Infinity;
+};
+
+/**
+ * Finds the highest absolute sample value
+ * @param channels Sample data of each channel
+ * @returns The sample peak (1 = full scale)
+ */
+export const measureSamplePeak = (channels: Float32Array[]): number => {
+  let peak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+};
+
+/**
+ * Calculates the gain that brings audio to a target loudness without pushing peaks over the ceiling
+ * @param measuredLoudness Integrated loudness of the audio in LUFS
+ * @param peak Sample peak of the audio
+ * @param targetLoudness Target integrated loudness in LUFS
+ * @returns Linear gain to apply (1 when the audio is silent)
+ */
+export const getLoudnessNormalizationGain = (
+  measuredLoudness: number,
+  peak: number,
+  targetLoudness: number = TARGET_LOUDNESS_LUFS
+): number => {
+  if (!isFinite(measuredLoudness) || peak <= 0) return 1;
+
+  const loudnessGain = dbToGain(targetLoudness - measuredLoudness);
+  const peakGain = dbToGain(PEAK_CEILING_DBFS) / peak;
+  return Math.min(loudnessGain, peakGain);
+};
+
+/**
+ * Builds the ffmpeg `loudnorm` filter for a target loudness. Pass the values measured by a first
+ * `print_format=json` pass to run the filter in its more accurate linear two-pass mode.
+ * @param targetLoudness Target integrated loudness in LUFS
+ * @param measured Values reported by the measurement pass
+ * @returns The filter string
+ */
+export const getLoudnormFilter = (
+  targetLoudness: number = TARGET_LOUDNESS_LUFS,
+  measured?: { input_i: string; input_tp: string; input_lra: string; input_thresh: string; target_offset: string }
+): string => {
+  const base = `loudnorm=I=${targetLoudness}:TP=${TARGET_TRUE_PEAK_DBTP}:LRA=${TARGET_LOUDNESS_RANGE_LU}`;
+  if (!measured) return base;
+
+  return `${base}:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}` +
+    `:measured_LRA=${measured.input_lra}:measured_thresh=${measured.input_thresh}` +
+    `:offset=${measured.target_offset}:linear=true`;
+};
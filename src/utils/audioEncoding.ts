@@ -0,0 +1,148 @@
+/**
+ * @file audioEncoding.ts
+ * @description This file defines the audio encoder abstraction used for finished narrations. Narrations are
+ * delivered as MP3 or AAC (M4A) at a configurable bitrate, tagged with ID3/MP4 metadata (book title, chapter
+ * title, author and the book's cover art) so they show up properly in players and download folders.
+ * The actual encoding runs on the server with FFmpeg (`encodeAudioFile` in `nodeAudioEncoder.ts`); the browser
+ * stitcher sends its mixed WAV to `POST /api/audio/encode` through `encodeAudioBlob`.
+ * @integration
+ * - `EnhancedAudioNarrationButton.tsx` and `AudiobookProduction.tsx` encode their stitched narration before upload.
+ * - `narrationJobRunner.ts` passes the encoding options to `concatenateAudioSegments` for server narration jobs.
+ * - `uploadAudioNarration` in `firebase/services.ts` picks the file extension from the encoded blob's MIME type.
+ */
+
+import { BookDocument } from '@/firebase/services';
+
+export type AudioEncodingFormat = 'mp3' | 'aac';
+
+// Tags embedded in the encoded file
+export interface AudioTagMetadata {
+  bookTitle?: string;    // Album
+  chapterTitle?: string; // Track title (falls back to the book title)
+  author?: string;       // Artist / album artist
+  trackNumber?: number;  // Chapter number, 1-based
+  coverUrl?: string;     // Cover art, usually the book's thumbnailUrl
+}
+
+// Options for encoding a narration
+export interface AudioEncodingOptions {
+  format: AudioEncodingFormat;
+  bitrate: number; // Audio bitrate in kbps
+  metadata?: AudioTagMetadata;
+}
+
+// Container, codec and file naming of each output format
+export const AUDIO_ENCODING_FORMATS: Record<AudioEncodingFormat, {
+  extension: string;
+  mimeType: string;
+  codec: string;     // FFmpeg audio encoder
+  container: string; // FFmpeg muxer
+}> = {
+  mp3: { extension: 'mp3', mimeType: 'audio/mpeg', codec: 'libmp3lame', container: 'mp3' },
+  aac: { extension: 'm4a', mimeType: 'audio/mp4', codec: 'aac', container: 'ipod' }
+};
+
+export const DEFAULT_AUDIO_ENCODING: AudioEncodingOptions = {
+  format: 'mp3',
+  bitrate: 128
+};
+
+// Bitrates accepted by the encoders, in kbps
+const MIN_BITRATE = 32;
+const MAX_BITRATE = 320;
+
+/**
+ * Fills in defaults and validates encoding options
+ * @param options Requested encoding options (e.g. from an API request)
+ * @returns Options with a supported format and a bitrate within range
+ */
+export const resolveAudioEncoding = (options?: Partial<AudioEncodingOptions>): AudioEncodingOptions => {
+  const format = options?.format && options.format in AUDIO_ENCODING_FORMATS
+    ? options.format
+    : DEFAULT_AUDIO_ENCODING.format;
+  const requested = Number(options?.bitrate);
+  const bitrate = Number.isFinite(requested) && requested > 0
+    ? Math.round(Math.min(MAX_BITRATE, Math.max(MIN_BITRATE, requested)))
+    : DEFAULT_AUDIO_ENCODING.bitrate;
+
+  return { format, bitrate, ...(options?.metadata && { metadata: options.metadata }) };
+};
+
+/**
+ * Gets the file extension for an audio MIME type
+ * @param mimeType MIME type of the audio
+ * @returns Extension without the dot ('mp3' when the type is unknown)
+ */
+export const getAudioFileExtension = (mimeType?: string): string => {
+  const type = (mimeType || '').toLowerCase();
+  if (type.includes('wav')) return 'wav';
+  const format = Object.values(AUDIO_ENCODING_FORMATS).find(entry => entry.mimeType === type);
+  return format ? format.extension : 'mp3';
+};
+
+/**
+ * Gets the MIME type of an audio file from its path
+ * @param path File path or name
+ * @returns The MIME type ('audio/mpeg' when the extension is unknown)
+ */
+export const getAudioMimeType = (path: string): string => {
+  const extension = path.split('.').pop()?.toLowerCase();
+  if (extension === 'wav') return 'audio/wav';
+  const format = Object.values(AUDIO_ENCODING_FORMATS).find(entry => entry.extension === extension);
+  return format ? format.mimeType : 'audio/mpeg';
+};
+
+/**
+ * Builds the tags of a narration from its book
+ * @param book The narrated book
+ * @param chapterId ID of the narrated chapter, if any
+ * @returns Tag metadata
+ */
+export const buildAudioTagMetadata = (
+  book: Pick<BookDocument, 'title' | 'author' | 'thumbnailUrl' | 'chapters'>,
+  chapterId?: string
+): AudioTagMetadata => {
+  const chapters = [...(book.chapters || [])].sort((a, b) => a.order - b.order);
+  const chapterIndex = chapterId ? chapters.findIndex(chapter => chapter.id === chapterId) : -1;
+
+  return {
+    bookTitle: book.title,
+    author: book.author,
+    ...(book.thumbnailUrl && { coverUrl: book.thumbnailUrl }),
+    ...(chapterIndex >= 0 && {
+      chapterTitle: chapters[chapterIndex].title,
+      trackNumber: chapterIndex + 1
+    })
+  };
+};
+
+/**
+ * Encodes audio in the browser by sending it to the encoding API
+ * @param blob Audio to encode (usually the stitched WAV)
+ * @param options Encoding options
+ * @returns Promise resolving to the encoded audio
+ */
+export const encodeAudioBlob = async (
+  blob: Blob,
+  options: Partial<AudioEncodingOptions> = DEFAULT_AUDIO_ENCODING
+): Promise<Blob> => {
+  const encoding = resolveAudioEncoding(options);
+  const formData = new FormData();
+  formData.append('file', blob, 'narration.wav');
+  formData.append('format', encoding.format);
+  formData.append('bitrate', String(encoding.bitrate));
+  if (encoding.metadata) {
+    formData.append('metadata', JSON.stringify(encoding.metadata));
+  }
+
+  console.log(`Encoding ${blob.size} bytes of audio as ${encoding.format} at ${encoding.bitrate} kbps`);
+  const response = await fetch('/api/audio/encode', { method: 'POST', body: formData });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to encode audio (${response.status})`);
+  }
+
+  const encoded = await response.blob();
+  console.log(`Encoded audio: ${encoded.size} bytes (${Math.round((encoded.size / blob.size) * 100)}% of the input)`);
+  return new Blob([encoded], { type: AUDIO_ENCODING_FORMATS[encoding.format].mimeType });
+};
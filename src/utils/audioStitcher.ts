@@ -3,7 +3,8 @@
  * @description This file provides client-side utilities for stitching and mixing audio files.
  * It is a core component of the enhanced audio generation feature, allowing for dynamic background music
  * that can be synchronized with narration paragraphs. It supports mixing a single narration track with
- * either a single background track or multiple background tracks with crossfades.
+ * either a single background track or multiple background tracks with crossfades. Background music is ducked
+ * under the narration and every mix is normalized to a target loudness (see `audioDynamics.ts`).
  * @integration
  * This utility is used by components that generate enhanced audio narrations, such as:
  * - `EnhancedBookNarrationGenerator.tsx`: To stitch together narration and mood-based background music for a full book.
@@ -13,6 +14,15 @@
 'use client';
 
 import { BackgroundMusic } from '@/firebase/backgroundMusicService';
+import {
+  TARGET_LOUDNESS_LUFS,
+  buildDuckingCurve,
+  detectSpeechActivity,
+  gainToDb,
+  getLoudnessNormalizationGain,
+  measureIntegratedLoudness,
+  measureSamplePeak
+} from '@/utils/audioDynamics';
 
 // Interface for audio segments with timing information
 export interface AudioSegment {
@@ -34,10 +44,14 @@ export interface ParagraphTiming {
 
 // Interface for audio stitching options
 export interface AudioStitchingOptions {
-  backgroundVolume?: number; // Volume level for background music (0-1), default 0.3
+  backgroundVolume?: number; // Volume level for background music (0-1) when nobody speaks, default 0.3
   crossfadeDuration?: number; // Duration of crossfade between music tracks in seconds, default 3
   fadeInDuration?: number; // Duration of fade in at the start in seconds, default 2
   fadeOutDuration?: number; // Duration of fade out at the end in seconds, default 3
+  duckingAmount?: number; // Music reduction while narration is audible in dB, default 10 (0 disables ducking)
+  duckingAttack?: number; // Time for the music to drop when narration starts in seconds, default 0.2
+  duckingRelease?: number; // Time for the music to rise when narration stops in seconds, default 0.8
+  targetLoudness?: number | null; // Integrated loudness of the mix in LUFS, default -16 (null disables normalization)
 }
 
 // Default options
@@ -45,9 +59,98 @@ const DEFAULT_OPTIONS: AudioStitchingOptions = {
   backgroundVolume: 0.3,
   crossfadeDuration: 3,
   fadeInDuration: 2,
-  fadeOutDuration: 3
+  fadeOutDuration: 3,
+  duckingAmount: 10,
+  duckingAttack: 0.2,
+  duckingRelease: 0.8,
+  targetLoudness: TARGET_LOUDNESS_LUFS
 };
 
+// Resolution of the ducking gain curve in seconds
+const DUCKING_CURVE_RESOLUTION = 0.05;
+
+/**
+ * Gets the sample data of every channel of an AudioBuffer
+ */
+const getChannelData = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+
+/**
+ * Creates a gain node that ducks background music under the narration. Route all background music
+ * through the returned node; its gain follows the speech envelope of the narration.
+ * @param context Context the mix is rendered in
+ * @param narrationBuffer Decoded narration, starting at time 0 of the mix
+ * @param options Audio stitching options
+ * @returns The ducking gain node
+ */
+const createDuckingNode = (
+  context: BaseAudioContext,
+  narrationBuffer: AudioBuffer,
+  options: AudioStitchingOptions
+): GainNode => {
+  const duckingNode = context.createGain();
+  const duckingAmount = options.duckingAmount ?? DEFAULT_OPTIONS.duckingAmount!;
+  if (duckingAmount <= 0) return duckingNode;
+
+  const activity = detectSpeechActivity(getChannelData(narrationBuffer), narrationBuffer.sampleRate, {
+    resolution: DUCKING_CURVE_RESOLUTION
+  });
+  const curve = buildDuckingCurve(activity, {
+    duckingAmount,
+    attack: options.duckingAttack ?? DEFAULT_OPTIONS.duckingAttack!,
+    release: options.duckingRelease ?? DEFAULT_OPTIONS.duckingRelease!,
+    resolution: DUCKING_CURVE_RESOLUTION
+  });
+
+  if (curve.length >= 2) {
+    duckingNode.gain.setValueCurveAtTime(curve, 0, curve.length * DUCKING_CURVE_RESOLUTION);
+    console.log(`Ducking background music by ${duckingAmount} dB while narration is audible`, {
+      speechRatio: activity.filter(Boolean).length / activity.length
+    });
+  }
+
+  return duckingNode;
+};
+
+/**
+ * Normalizes an AudioBuffer in place to a target integrated loudness. The gain is limited so that
+ * sample peaks stay below the ceiling, so very dynamic audio may end up slightly quieter than the target.
+ * @param buffer AudioBuffer to normalize (modified in place)
+ * @param targetLoudness Target integrated loudness in LUFS
+ * @returns The linear gain that was applied
+ */
+export const normalizeAudioBufferLoudness = (
+  buffer: AudioBuffer,
+  targetLoudness: number = TARGET_LOUDNESS_LUFS
+): number => {
+  const channels = getChannelData(buffer);
+  const measuredLoudness = measureIntegratedLoudness(channels, buffer.sampleRate);
+  const gain = getLoudnessNormalizationGain(measuredLoudness, measureSamplePeak(channels), targetLoudness);
+
+  if (gain !== 1) {
+    channels.forEach(data => {
+      for (let i = 0; i < data.length; i++) {
+        data[i] *= gain;
+      }
+    });
+  }
+
+  console.log('Loudness normalization:', {
+    measuredLoudness: isFinite(measuredLoudness) ? Number(measuredLoudness.toFixed(1)) : null,
+    targetLoudness,
+    gainDb: Number(gainToDb(gain).toFixed(1))
+  });
+
+  return gain;
+};
+
+/**
+ * Gets the loudness target of a mix from the stitching options
+ * @returns Target in LUFS, or null when normalization is disabled
+ */
+const getTargetLoudness = (options: AudioStitchingOptions): number | null =>
+  options.targetLoudness === undefined ? DEFAULT_OPTIONS.targetLoudness! : options.targetLoudness;
+
 /**
  * Fetches an audio file and decodes it into an AudioBuffer
  * @param source URL or Blob of the audio file
@@ -176,12 +279,16 @@ export const stitchAudioWithBackground = async (
     );
     backgroundGain.gain.linearRampToValueAtTime(0, narrationDuration);
     
+    // Duck the background music while the narration is audible
+    const duckingNode = createDuckingNode(offlineContext, narrationBuffer, options);
+    
     // Connect the nodes
     narrationSourceNode.connect(narrationGain);
     backgroundSourceNode.connect(backgroundGain);
     
     narrationGain.connect(offlineContext.destination);
-    backgroundGain.connect(offlineContext.destination);
+    backgroundGain.connect(duckingNode);
+    duckingNode.connect(offlineContext.destination);
     
     // Log audio parameters for debugging
     console.log('Audio mixing parameters:', {
@@ -213,6 +320,12 @@ export const stitchAudioWithBackground = async (
     console.log('Rendering audio...');
     const renderedBuffer = await offlineContext.startRendering();
     
+    // Bring the mix to the target loudness
+    const targetLoudness = getTargetLoudness(options);
+    if (targetLoudness !== null) {
+      normalizeAudioBufferLoudness(renderedBuffer, targetLoudness);
+    }
+    
     // Convert the rendered buffer to a WAV file
     console.log('Converting to WAV...');
     const wavBlob = await audioBufferToWav(renderedBuffer);
@@ -286,6 +399,10 @@ export const stitchAudioWithMultipleBackgrounds = async (
     const backgroundSources: AudioBufferSourceNode[] = [];
     const backgroundGains: GainNode[] = [];
     
+    // All background tracks are ducked together while the narration is audible
+    const duckingNode = createDuckingNode(offlineContext, narrationBuffer, options);
+    duckingNode.connect(offlineContext.destination);
+    
     // Fetch and decode all background music tracks
     console.log('Fetching and decoding background music tracks...');
     const backgroundBuffers: AudioBuffer[] = [];
@@ -346,7 +463,7 @@ export const stitchAudioWithMultipleBackgrounds = async (
       
       // Connect nodes
       source.connect(gain);
-      gain.connect(offlineContext.destination);
+      gain.connect(duckingNode);
       
       // Set volume automation
       // Fade in
@@ -388,6 +505,12 @@ export const stitchAudioWithMultipleBackgrounds = async (
     console.log('Rendering audio with multiple background tracks...');
     const renderedBuffer = await offlineContext.startRendering();
     
+    // Bring the mix to the target loudness
+    const targetLoudness = getTargetLoudness(options);
+    if (targetLoudness !== null) {
+      normalizeAudioBufferLoudness(renderedBuffer, targetLoudness);
+    }
+    
     // Convert the rendered buffer to a WAV file
     console.log('Converting to WAV...');
     const wavBlob = await audioBufferToWav(renderedBuffer);
@@ -0,0 +1,591 @@
+/**
+ * @file bookImport.ts
+ * @description This file turns an uploaded EPUB or DOCX file into the parts of a book: title, author, description,
+ * tags and cover from the file's metadata, and chapters whose content is the HTML the `ChapterEditor` (Tiptap)
+ * edits. EPUB chapters follow the spine, named after the table of contents or their first heading; a DOCX file,
+ * like an EPUB holding all its text in one document, is split at its top-level headings. Only text and its basic
+ * formatting are kept (paragraphs, headings, lists, quotes, bold, italic, underline, strikethrough); images,
+ * styles and scripts are dropped, and all text is escaped, so the content is safe to render.
+ * @integration `BookImport` previews the result and lets the author adjust it before `createBook`. Runs in the
+ * browser, as it parses markup with `DOMParser`; the files are read with `zipArchive`.
+ */
+
+import { ZipArchive, readZipArchive } from './zipArchive';
+
+export type ImportFormat = 'epub' | 'docx' | 'pdf'; // PDFs are read by pdfImport
+
+// A chapter read from an imported file
+export interface ImportedChapter {
+  title: string;
+  content: string; // Tiptap HTML
+}
+
+// What an imported file gives to prefill a book; fields the file lacks are empty
+export interface ImportedBook {
+  format: ImportFormat;
+  title: string;
+  author: string;
+  description: string;
+  tags: string[];      // EPUB subjects
+  cover: File | null;  // EPUB cover image, or the thumbnail Word saves with a DOCX
+  chapters: ImportedChapter[];
+}
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Value for the accept attribute of the file input
+export const IMPORT_FILE_ACCEPT = `.epub,.docx,application/epub+zip,${DOCX_TYPE}`;
+
+// A top-level block of a chapter: a paragraph, heading, list, quote, code block or rule
+interface EditorBlock {
+  html: string;
+  text: string;          // Plain text, to name chapters and drop empty ones
+  headingLevel?: number; // 1-6 for headings
+}
+
+// Blocks under a title, before they become a chapter
+interface ChapterSection {
+  title: string;
+  blocks: EditorBlock[];
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const collapseSpaces = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Lists the elements with a local name below a node, in any namespace
+ */
+const byName = (root: Document | Element, name: string): Element[] => Array.from(root.getElementsByTagNameNS('*', name));
+
+/**
+ * Parses an XML file of the package
+ * @throws When the file is not well-formed
+ */
+const parseXml = (xml: string): Document => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is damaged: part of it cannot be read');
+  }
+  return document;
+};
+
+/**
+ * Parses an XHTML document; documents that are not well-formed XML (HTML entities, unclosed tags) are read as HTML
+ */
+const parseXhtml = (markup: string): Document => {
+  const parser = new DOMParser();
+  const document = parser.parseFromString(markup, 'application/xhtml+xml');
+  return document.getElementsByTagName('parsererror').length > 0 ? parser.parseFromString(markup, 'text/html') : document;
+};
+
+/**
+ * Resolves a link of a package file to the path of the file it points to
+ * @param basePath Path of the file holding the link
+ * @param href Relative link, possibly URL-encoded and with a fragment
+ */
+const resolvePath = (basePath: string, href: string): string => {
+  let target = href.replace(/[#?].*$/, '');
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Links that are not valid URL encoding are used as written
+  }
+
+  const segments = basePath.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+// Elements read as HTML by the editor converter
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const PARAGRAPH_TAGS = ['p', 'dt', 'dd', 'figcaption', 'address'];
+// Elements holding blocks, flattened into their content
+const CONTAINER_TAGS = [
+  'body', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'figure', 'center',
+  'dl', 'li', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption'
+];
+const BLOCK_TAGS = new Set([...HEADING_TAGS, ...PARAGRAPH_TAGS, ...CONTAINER_TAGS, 'blockquote', 'ul', 'ol', 'pre', 'hr']);
+const SKIPPED_TAGS = new Set(['head', 'title', 'script', 'style', 'img', 'svg', 'image', 'video', 'audio', 'object', 'iframe', 'math']);
+// Inline elements kept as the marks the editor has
+const MARK_TAGS: Record<string, string> = {
+  strong: 'strong', b: 'strong',
+  em: 'em', i: 'em', cite: 'em',
+  u: 'u',
+  s: 's', strike: 's', del: 's',
+  code: 'code', kbd: 'code'
+};
+
+const getTag = (node: Node) => (node.nodeType === Node.ELEMENT_NODE ? (node as Element).localName.toLowerCase() : '');
+
+/**
+ * Converts inline content to editor HTML, keeping only the marks the editor has
+ */
+const toInlineHtml = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeHtml((node.textContent || '').replace(/\s+/g, ' '));
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const tag = getTag(node);
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '<br>';
+
+  const inner = Array.from(node.childNodes).map(toInlineHtml).join('');
+  const mark = MARK_TAGS[tag];
+  return mark && inner.trim() ? `<${mark}>${inner}</${mark}>` : inner;
+};
+
+/**
+ * Builds a paragraph or heading from inline content; null when it has no text
+ */
+const toTextBlock = (tag: string, nodes: Node[]): EditorBlock | null => {
+  const text = collapseSpaces(nodes.map(node => (SKIPPED_TAGS.has(getTag(node)) ? '' : node.textContent)).join(''));
+  if (!text) return null;
+
+  const html = nodes.map(toInlineHtml).join('').trim();
+  const headingLevel = HEADING_TAGS.indexOf(tag) + 1;
+  return { html: `<${tag}>${html}</${tag}>`, text, ...(headingLevel > 0 && { headingLevel }) };
+};
+
+/**
+ * Converts the content of an element to editor blocks. Containers are flattened, and inline content
+ * directly inside a container becomes a paragraph.
+ */
+const collectBlocks = (container: Element): EditorBlock[] => {
+  const blocks: EditorBlock[] = [];
+  let inlineNodes: Node[] = [];
+  const flushInline = () => {
+    const block = toTextBlock('p', inlineNodes);
+    if (block) blocks.push(block);
+    inlineNodes = [];
+  };
+
+  Array.from(container.childNodes).forEach(node => {
+    const tag = getTag(node);
+    if (SKIPPED_TAGS.has(tag)) return;
+    if (!BLOCK_TAGS.has(tag)) {
+      inlineNodes.push(node);
+      return;
+    }
+
+    flushInline();
+    const element = node as Element;
+    if (HEADING_TAGS.includes(tag)) {
+      const block = toTextBlock(tag, Array.from(element.childNodes));
+      if (block) blocks.push(block);
+    } else if (PARAGRAPH_TAGS.includes(tag)) {
+      const block = toTextBlock('p', Array.from(element.childNodes));
+      if (block) blocks.push(block);
+    } else if (tag === 'blockquote') {
+      const inner = collectBlocks(element);
+      if (inner.length > 0) {
+        blocks.push({ html: `<blockquote>${inner.map(block => block.html).join('')}</blockquote>`, text: inner.map(block => block.text).join(' ') });
+      }
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = Array.from(element.children).map(collectBlocks).filter(item => item.length > 0);
+      if (items.length > 0) {
+        blocks.push({
+          html: `<${tag}>${items.map(item => `<li>${item.map(block => block.html).join('')}</li>`).join('')}</${tag}>`,
+          text: items.map(item => item.map(block => block.text).join(' ')).join(' ')
+        });
+      }
+    } else if (tag === 'pre') {
+      const text = element.textContent || '';
+      if (text.trim()) blocks.push({ html: `<pre><code>${escapeHtml(text)}</code></pre>`, text: collapseSpaces(text) });
+    } else if (tag === 'hr') {
+      blocks.push({ html: '<hr>', text: '' });
+    } else {
+      blocks.push(...collectBlocks(element));
+    }
+  });
+  flushInline();
+
+  return blocks;
+};
+
+/**
+ * Splits blocks into sections at their top-level headings, which become the section titles
+ */
+const splitAtHeadings = (blocks: EditorBlock[], title = ''): ChapterSection[] => {
+  const levels = blocks.map(block => block.headingLevel || 0).filter(level => level > 0);
+  if (levels.length === 0) return [{ title, blocks }];
+
+  const topLevel = Math.min(...levels);
+  const sections: ChapterSection[] = [{ title, blocks: [] }];
+  blocks.forEach(block => {
+    if (block.headingLevel === topLevel) {
+      sections.push({ title: block.text, blocks: [] });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  });
+  return sections;
+};
+
+/**
+ * Turns sections into chapters, leaving out those without text; untitled ones are numbered
+ */
+const toChapters = (sections: ChapterSection[]): ImportedChapter[] =>
+  sections
+    .filter(section => section.blocks.some(block => block.text))
+    .map((section, index) => ({
+      title: section.title || `Chapter ${index + 1}`,
+      content: section.blocks.map(block => block.html).join('')
+    }));
+
+/**
+ * Makes a File of an image in the archive
+ */
+const readImageFile = async (archive: ZipArchive, path: string, type: string): Promise<File> =>
+  new File([await archive.readBytes(path)], path.split('/').pop() || 'cover', { type });
+
+// A file listed in the manifest of an EPUB package
+interface ManifestItem {
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+/**
+ * Maps the documents of an EPUB to their titles in the table of contents (EPUB 3 navigation document, or EPUB 2 NCX)
+ */
+const readEpubTocTitles = async (archive: ZipArchive, packageDocument: Document, items: Map<string, ManifestItem>): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  // A document can hold several entries; the first names it
+  const addTitle = (basePath: string, href: string | null, label: string | null) => {
+    const path = resolvePath(basePath, href || '');
+    const title = collapseSpaces(label);
+    if (title && !titles.has(path)) titles.set(path, title);
+  };
+
+  const manifestItems = Array.from(items.values());
+  const nav = manifestItems.find(item => item.properties.includes('nav'));
+  if (nav && archive.has(nav.path)) {
+    const navDocument = parseXhtml(await archive.readText(nav.path));
+    const navElements = byName(navDocument, 'nav');
+    const tocNav = navElements.find(element => (element.getAttribute('epub:type') || '').split(/\s+/).includes('toc')) || navElements[0];
+    if (tocNav) byName(tocNav, 'a').forEach(link => addTitle(nav.path, link.getAttribute('href'), link.textContent));
+  }
+
+  if (titles.size === 0) {
+    const tocId = byName(packageDocument, 'spine')[0]?.getAttribute('toc');
+    const ncx = (tocId && items.get(tocId)) || manifestItems.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    if (ncx && archive.has(ncx.path)) {
+      // The label and link of a navPoint come before the navPoints nested in it
+      byName(parseXml(await archive.readText(ncx.path)), 'navPoint').forEach(point => {
+        addTitle(ncx.path, byName(point, 'content')[0]?.getAttribute('src') || null, byName(point, 'text')[0]?.textContent || null);
+      });
+    }
+  }
+
+  return titles;
+};
+
+/**
+ * Finds the cover image of an EPUB: declared in EPUB 3, named in EPUB 2 metadata, or an image called cover
+ */
+const findEpubCover = (packageDocument: Document, items: Map<string, ManifestItem>): ManifestItem | null => {
+  const entries = Array.from(items.entries());
+  const coverId = byName(packageDocument, 'meta').find(meta => meta.getAttribute('name') === 'cover')?.getAttribute('content');
+  const cover = entries.find(([, item]) => item.properties.includes('cover-image'))?.[1]
+    || (coverId ? items.get(coverId) : undefined)
+    || entries.find(([id, item]) => /cover/i.test(`${id} ${item.path}`) && item.mediaType.startsWith('image/'))?.[1];
+  return cover && cover.mediaType.startsWith('image/') ? cover : null;
+};
+
+/**
+ * Reads a book from an EPUB (2 or 3)
+ */
+const readEpub = async (archive: ZipArchive): Promise<ImportedBook> => {
+  if (!archive.has('META-INF/container.xml')) throw new Error('The file is not an EPUB book');
+  const container = parseXml(await archive.readText('META-INF/container.xml'));
+  const packagePath = byName(container, 'rootfile')[0]?.getAttribute('full-path');
+  if (!packagePath || !archive.has(packagePath)) throw new Error('The EPUB book has no package document');
+  const packageDocument = parseXml(await archive.readText(packagePath));
+
+  const metadata = byName(packageDocument, 'metadata')[0];
+  const metadataValues = (name: string) => (metadata ? byName(metadata, name).map(element => collapseSpaces(element.textContent)).filter(Boolean) : []);
+  // Descriptions often hold escaped HTML
+  const description = metadataValues('description')[0] || '';
+
+  const items = new Map<string, ManifestItem>(byName(packageDocument, 'item').map(item => [
+    item.getAttribute('id') || '',
+    {
+      path: resolvePath(packagePath, item.getAttribute('href') || ''),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: (item.getAttribute('properties') || '').split(/\s+/)
+    }
+  ]));
+  const tocTitles = await readEpubTocTitles(archive, packageDocument, items);
+
+  // Spine documents in reading order, leaving out the table of contents and documents outside the reading order
+  const spineItems = byName(packageDocument, 'itemref')
+    .filter(itemref => itemref.getAttribute('linear') !== 'no')
+    .map(itemref => items.get(itemref.getAttribute('idref') || ''))
+    .filter((item): item is ManifestItem =>
+      !!item && !item.properties.includes('nav') && /html/.test(item.mediaType) && archive.has(item.path));
+
+  const documents: { path: string; blocks: EditorBlock[] }[] = [];
+  for (const item of spineItems) {
+    const document = parseXhtml(await archive.readText(item.path));
+    const blocks = collectBlocks(byName(document, 'body')[0] || document.documentElement);
+    if (blocks.some(block => block.text)) documents.push({ path: item.path, blocks });
+  }
+
+  // A book in one document is split at its headings; otherwise each document is a chapter, and its
+  // opening heading becomes the chapter title, as the book page shows titles above the text
+  const sections: ChapterSection[] = documents.length === 1
+    ? splitAtHeadings(documents[0].blocks, tocTitles.get(documents[0].path))
+    : documents.map(({ path, blocks }) => {
+      const firstBlock = blocks.findIndex(block => block.text);
+      const opening = blocks[firstBlock];
+      return opening.headingLevel
+        ? { title: tocTitles.get(path) || opening.text, blocks: blocks.slice(firstBlock + 1) }
+        : { title: tocTitles.get(path) || '', blocks };
+    });
+
+  const cover = findEpubCover(packageDocument, items);
+
+  return {
+    format: 'epub',
+    title: metadataValues('title')[0] || '',
+    author: metadataValues('creator').join(', '),
+    description: description && collapseSpaces(new DOMParser().parseFromString(description, 'text/html').body.textContent),
+    tags: metadataValues('subject'),
+    cover: cover && archive.has(cover.path) ? await readImageFile(archive, cover.path, cover.mediaType) : null,
+    chapters: toChapters(sections)
+  };
+};
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Lists the WordprocessingML children of an element with a local name
+ */
+const wChildren = (element: Element | null | undefined, name: string): Element[] =>
+  element ? Array.from(element.children).filter(child => child.namespaceURI === W_NS && child.localName === name) : [];
+
+const wChild = (element: Element | null | undefined, name: string): Element | undefined => wChildren(element, name)[0];
+
+const wAttr = (element: Element | null | undefined, name: string): string | null =>
+  element ? element.getAttributeNS(W_NS, name) || element.getAttribute(`w:${name}`) : null;
+
+// What a paragraph style makes of a paragraph
+type DocxStyleKind = { title: true } | { headingLevel: number };
+
+/**
+ * Reads the paragraph styles that mark titles and headings, by their name or outline level
+ */
+const readDocxStyles = async (archive: ZipArchive): Promise<Map<string, DocxStyleKind>> => {
+  const styles = new Map<string, DocxStyleKind>();
+  if (!archive.has('word/styles.xml')) return styles;
+
+  byName(parseXml(await archive.readText('word/styles.xml')), 'style').forEach(style => {
+    const id = wAttr(style, 'styleId');
+    if (!id || wAttr(style, 'type') !== 'paragraph') return;
+
+    const name = (wAttr(wChild(style, 'name'), 'val') || '').toLowerCase();
+    const outlineLevel = wAttr(wChild(wChild(style, 'pPr'), 'outlineLvl'), 'val');
+    const headingMatch = name.match(/^heading\s*([1-6])$/);
+    if (name === 'title') {
+      styles.set(id, { title: true });
+    } else if (headingMatch) {
+      styles.set(id, { headingLevel: Number(headingMatch[1]) });
+    } else if (outlineLevel !== null && Number(outlineLevel) < 6) {
+      styles.set(id, { headingLevel: Number(outlineLevel) + 1 });
+    }
+  });
+  return styles;
+};
+
+/**
+ * Reads which numbered lists are ordered; the others are bulleted
+ */
+const readDocxOrderedLists = async (archive: ZipArchive): Promise<Set<string>> => {
+  const ordered = new Set<string>();
+  if (!archive.has('word/numbering.xml')) return ordered;
+
+  const numbering = parseXml(await archive.readText('word/numbering.xml'));
+  const orderedAbstracts = new Set(byName(numbering, 'abstractNum')
+    .filter(abstract => {
+      const format = wAttr(wChild(wChild(abstract, 'lvl'), 'numFmt'), 'val');
+      return !!format && format !== 'bullet' && format !== 'none';
+    })
+    .map(abstract => wAttr(abstract, 'abstractNumId')));
+  byName(numbering, 'num').forEach(num => {
+    if (orderedAbstracts.has(wAttr(wChild(num, 'abstractNumId'), 'val'))) ordered.add(wAttr(num, 'numId') || '');
+  });
+  return ordered;
+};
+
+/**
+ * Converts a run to editor HTML with its bold, italic, underline and strikethrough
+ */
+const docxRunHtml = (run: Element): string => {
+  let html = Array.from(run.children).map(child => {
+    if (child.namespaceURI !== W_NS) return '';
+    switch (child.localName) {
+      case 't': return escapeHtml(child.textContent || '');
+      case 'tab': return ' ';
+      case 'noBreakHyphen': return '-';
+      case 'cr': return '<br>';
+      case 'br': return wAttr(child, 'type') === 'page' ? '' : '<br>';
+      default: return '';
+    }
+  }).join('');
+
+  const properties = wChild(run, 'rPr');
+  const isOn = (name: string) => {
+    const property = wChild(properties, name);
+    const value = wAttr(property, 'val');
+    return !!property && value !== '0' && value !== 'false' && value !== 'none';
+  };
+  if (!html.trim() || !properties) return html;
+  if (isOn('strike') || isOn('dstrike')) html = `<s>${html}</s>`;
+  if (isOn('u')) html = `<u>${html}</u>`;
+  if (isOn('i')) html = `<em>${html}</em>`;
+  if (isOn('b')) html = `<strong>${html}</strong>`;
+  return html;
+};
+
+/**
+ * Converts the runs of a paragraph, including those in links, insertions and content controls
+ */
+const docxInlineHtml = (element: Element): string =>
+  Array.from(element.children).map(child => {
+    if (child.namespaceURI !== W_NS) return '';
+    if (child.localName === 'r') return docxRunHtml(child);
+    if (['hyperlink', 'ins', 'smartTag', 'fldSimple', 'sdt', 'sdtContent', 'customXml'].includes(child.localName)) {
+      return docxInlineHtml(child);
+    }
+    return '';
+  }).join('');
+
+/**
+ * Lists the paragraphs of the document body in reading order, including those in tables and content controls
+ */
+const collectDocxParagraphs = (element: Element, paragraphs: Element[] = []): Element[] => {
+  Array.from(element.children).forEach(child => {
+    if (child.namespaceURI !== W_NS) return;
+    if (child.localName === 'p') paragraphs.push(child);
+    else if (['tbl', 'tr', 'tc', 'sdt', 'sdtContent', 'customXml'].includes(child.localName)) collectDocxParagraphs(child, paragraphs);
+  });
+  return paragraphs;
+};
+
+// Alignments the editor has
+const DOCX_ALIGNMENTS: Record<string, string> = { center: 'center', right: 'right', end: 'right' };
+
+/**
+ * Reads a book from a Word document
+ */
+const readDocx = async (archive: ZipArchive): Promise<ImportedBook> => {
+  if (!archive.has('word/document.xml')) throw new Error('The file is not a Word document');
+  const [document, styles, orderedLists] = await Promise.all([
+    archive.readText('word/document.xml').then(parseXml),
+    readDocxStyles(archive),
+    readDocxOrderedLists(archive)
+  ]);
+  const core = archive.has('docProps/core.xml') ? parseXml(await archive.readText('docProps/core.xml')) : null;
+  const coreValue = (name: string) => (core ? collapseSpaces(byName(core, name)[0]?.textContent || '') : '');
+
+  const blocks: EditorBlock[] = [];
+  let titleText = '';
+  let list: { tag: 'ul' | 'ol'; numId: string; items: string[]; text: string[] } | null = null;
+  const flushList = () => {
+    if (list) blocks.push({ html: `<${list.tag}>${list.items.join('')}</${list.tag}>`, text: list.text.join(' ') });
+    list = null;
+  };
+
+  const body = byName(document, 'body')[0];
+  collectDocxParagraphs(body || document.documentElement).forEach(paragraph => {
+    const text = collapseSpaces(Array.from(paragraph.getElementsByTagNameNS(W_NS, 't')).map(t => t.textContent).join(''));
+    if (!text) return;
+
+    const properties = wChild(paragraph, 'pPr');
+    const styleKind = styles.get(wAttr(wChild(properties, 'pStyle'), 'val') || '');
+    const outlineLevel = wAttr(wChild(properties, 'outlineLvl'), 'val');
+    const headingLevel = outlineLevel !== null && Number(outlineLevel) < 6
+      ? Number(outlineLevel) + 1
+      : styleKind && 'headingLevel' in styleKind ? styleKind.headingLevel : 0;
+    const numId = wAttr(wChild(wChild(properties, 'numPr'), 'numId'), 'val');
+    const alignment = DOCX_ALIGNMENTS[wAttr(wChild(properties, 'jc'), 'val') || ''];
+    const html = docxInlineHtml(paragraph).trim();
+
+    // The title styled in the document names the book rather than opening a chapter
+    if (styleKind && 'title' in styleKind) {
+      titleText = titleText || text;
+      return;
+    }
+
+    // numId 0 switches numbering off
+    if (numId && numId !== '0' && !headingLevel) {
+      const tag = orderedLists.has(numId) ? 'ol' : 'ul';
+      if (!list || list.tag !== tag || list.numId !== numId) {
+        flushList();
+        list = { tag, numId, items: [], text: [] };
+      }
+      list.items.push(`<li><p>${html}</p></li>`);
+      list.text.push(text);
+      return;
+    }
+
+    flushList();
+    const tag = headingLevel ? `h${headingLevel}` : 'p';
+    const style = alignment ? ` style="text-align: ${alignment}"` : '';
+    blocks.push({ html: `<${tag}${style}>${html}</${tag}>`, text, ...(headingLevel > 0 && { headingLevel }) });
+  });
+  flushList();
+
+  const thumbnailPath = archive.names.find(name => /^docProps\/thumbnail\.(jpe?g|png)$/i.test(name));
+
+  return {
+    format: 'docx',
+    title: coreValue('title') || titleText,
+    author: coreValue('creator'),
+    description: coreValue('description'),
+    tags: [],
+    cover: thumbnailPath
+      ? await readImageFile(archive, thumbnailPath, /png$/i.test(thumbnailPath) ? 'image/png' : 'image/jpeg')
+      : null,
+    chapters: toChapters(splitAtHeadings(blocks))
+  };
+};
+
+/**
+ * Tells the format of a file from its name or type
+ * @returns The format, or null when it cannot be imported
+ */
+export const getImportFormat = (file: File): ImportFormat | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.epub') || file.type === 'application/epub+zip') return 'epub';
+  if (name.endsWith('.docx') || file.type === DOCX_TYPE) return 'docx';
+  return null;
+};
+
+/**
+ * Reads a book from an EPUB or DOCX file
+ * @param file The uploaded file
+ * @returns The book, titled after the file when its metadata has no title
+ * @throws When the file is of another format, cannot be read or has no text
+ */
+export const importBookFile = async (file: File): Promise<ImportedBook> => {
+  const format = getImportFormat(file);
+  if (!format) throw new Error('Choose an EPUB or Word (.docx) file');
+
+  const archive = readZipArchive(await file.arrayBuffer());
+  const book = format === 'epub' ? await readEpub(archive) : await readDocx(archive);
+  if (book.chapters.length === 0) throw new Error('No text was found in the file');
+
+  return { ...book, title: book.title || file.name.replace(/\.[^.]+$/, '') };
+};
+
+/**
+ * Ends every paragraph and heading with the `$` delimiter narration splits text on, so an imported
+ * chapter can be narrated paragraph by paragraph without marking it by hand
+ */
+export const markNarrationParagraphs = (html: string): string =>
+  html.replace(/([^$])<\/(p|h[1-6])>/g, (match, before: string, tag: string) => `${before}$</${tag}>`);
@@ -0,0 +1,357 @@
+/**
+ * @file musicSelection.ts
+ * @description This file implements the scoring-based background music selector. Every candidate track of the
+ * music catalog is scored on:
+ * - mood affinity: how well the track's categories fit the paragraph mood (a mood can fit several categories,
+ *   e.g. "drama" fits Suspense best but also Sad and Romantic),
+ * - intensity match: distance between the paragraph intensity and the track's intensity range,
+ * - tempo: how close the track's BPM is to the BPM range of the paragraph tempo,
+ * - genre: how well the track's categories fit the genre of the book.
+ * Tracks already used elsewhere in the book are penalized so music does not repeat, and ties are broken by a
+ * seeded random value so a regenerated chapter gets the same music. The selection comes with a rationale
+ * that tells authors why a track was chosen.
+ * @integration
+ * - `musicTrackService.ts` ranks the active catalog tracks with `selectMusicTrack` and maps moods to categories
+ *   with `getMoodAffinities`.
+ * - `backgroundMusicService.ts` (browser) and `fetchBackgroundMusic` in `nodeAudioNarrationService.ts` (server)
+ *   pass the paragraph metadata, seed and the tracks already used in the book.
+ * This module only imports types so it can be used on both sides.
+ */
+
+import type { MusicCategory, MusicTrack } from '@/firebase/musicTrackService';
+import type { BookDocument, BackgroundMusicSelection } from '@/firebase/services';
+
+// What a track is selected for
+export interface MusicSelectionContext {
+  mood: string;
+  intensity?: number;      // Paragraph intensity (1-10), default 5
+  tempo?: string;          // 'slow' | 'medium' | 'fast' (other values are ignored)
+  genre?: string;          // Genre of the book or paragraph
+  seed?: string;           // Same seed and candidates give the same track; random when omitted
+  usedTrackIds?: string[]; // Tracks already used in the book
+}
+
+// Seed and repeat avoidance, shared by the selection functions of the browser and the server
+export type MusicSelectionOptions = Pick<MusicSelectionContext, 'seed' | 'usedTrackIds'>;
+
+// Score of a track for a selection context (each component is 0-1)
+export interface MusicTrackScore {
+  total: number;
+  mood: number;
+  intensity: number;
+  tempo: number;
+  genre: number;
+  repeated: boolean; // Already used in the book
+}
+
+// Result of a selection
+export interface MusicSelection {
+  track: MusicTrack;
+  category: MusicCategory; // Category of the track that best fits the mood
+  score: MusicTrackScore;
+  rationale: string;       // Why the track was chosen, for authors
+  candidates: number;      // Number of tracks that were ranked
+}
+
+// Weight of each score component in the total
+const SCORE_WEIGHTS = {
+  mood: 0.45,
+  intensity: 0.3,
+  tempo: 0.15,
+  genre: 0.1
+};
+
+// Subtracted from the total of tracks already used in the book. Smaller than the gap between a fitting
+// and an unfitting mood, so a repeat still beats a track of the wrong mood.
+const REPEAT_PENALTY = 0.3;
+
+// Largest tie-breaking value added to a total; only decides between near-equal tracks
+const SELECTION_JITTER = 0.03;
+
+// Score given when a track or the context lacks the information for a component
+const NEUTRAL_SCORE = 0.5;
+
+// Mood words (matched against the start of each word of the mood) and the categories they fit
+const MOOD_AFFINITIES: [string, Partial<Record<MusicCategory, number>>][] = [
+  ['horr', { Horror: 1, Suspense: 0.5 }],
+  ['scar', { Horror: 1, Suspense: 0.6 }],
+  ['terrif', { Horror: 1, Suspense: 0.6 }],
+  ['fear', { Horror: 0.8, Suspense: 0.8 }],
+  ['dread', { Horror: 0.9, Suspense: 0.7 }],
+  ['creep', { Horror: 0.9, Mystery: 0.5 }],
+  ['dark', { Horror: 0.6, Suspense: 0.5, Mystery: 0.5 }],
+  ['suspens', { Suspense: 1, Mystery: 0.5 }],
+  ['tens', { Suspense: 1, Horror: 0.3 }],
+  ['anxi', { Suspense: 1, Horror: 0.3 }],
+  ['thrill', { Suspense: 1, Horror: 0.4 }],
+  ['urgen', { Suspense: 0.9 }],
+  ['danger', { Suspense: 0.9, Horror: 0.5 }],
+  ['action', { Suspense: 0.8, Happy: 0.3 }],
+  ['drama', { Suspense: 0.8, Sad: 0.6, Romantic: 0.3 }],
+  ['happ', { Happy: 1, Calm: 0.3 }],
+  ['joy', { Happy: 1, Romantic: 0.3 }],
+  ['cheer', { Happy: 1 }],
+  ['playful', { Happy: 0.9 }],
+  ['hope', { Happy: 0.7, Calm: 0.5 }],
+  ['excit', { Happy: 0.7, Suspense: 0.4 }],
+  ['adventur', { Happy: 0.6, Suspense: 0.5 }],
+  ['calm', { Calm: 1, Happy: 0.3 }],
+  ['peace', { Calm: 1, Happy: 0.3 }],
+  ['seren', { Calm: 1 }],
+  ['tranquil', { Calm: 1 }],
+  ['neutral', { Calm: 0.6, Happy: 0.3 }],
+  ['reflect', { Calm: 0.8, Sad: 0.4 }],
+  ['nostalg', { Historic: 0.6, Sad: 0.6, Calm: 0.4 }],
+  ['histor', { Historic: 1 }],
+  ['ancient', { Historic: 1, Mystery: 0.3 }],
+  ['epic', { Historic: 0.7, Suspense: 0.5 }],
+  ['tradition', { Historic: 0.9, Calm: 0.3 }],
+  ['romanc', { Romantic: 1, Happy: 0.3 }],
+  ['romantic', { Romantic: 1, Happy: 0.3 }],
+  ['love', { Romantic: 1, Happy: 0.3 }],
+  ['passion', { Romantic: 0.9, Suspense: 0.2 }],
+  ['tender', { Romantic: 0.8, Calm: 0.5 }],
+  ['myster', { Mystery: 1, Suspense: 0.6 }],
+  ['enigm', { Mystery: 1, Suspense: 0.4 }],
+  ['puzzl', { Mystery: 0.9 }],
+  ['curio', { Mystery: 0.8, Happy: 0.3 }],
+  ['eerie', { Mystery: 0.8, Horror: 0.7 }],
+  ['sad', { Sad: 1, Calm: 0.3 }],
+  ['melanchol', { Sad: 1, Calm: 0.3 }],
+  ['sorrow', { Sad: 1 }],
+  ['depress', { Sad: 1 }],
+  ['despair', { Sad: 1, Horror: 0.2 }],
+  ['grie', { Sad: 1 }],
+  ['lonel', { Sad: 0.9, Calm: 0.3 }],
+  ['tragic', { Sad: 1, Suspense: 0.3 }]
+];
+
+// Genre words (matched against the start of each word of the genre) and the categories that suit them
+const GENRE_AFFINITIES: [string, Partial<Record<MusicCategory, number>>][] = [
+  ['horror', { Horror: 1, Suspense: 0.6, Mystery: 0.4 }],
+  ['gothic', { Horror: 0.8, Mystery: 0.6, Historic: 0.4 }],
+  ['thriller', { Suspense: 1, Horror: 0.4, Mystery: 0.5 }],
+  ['myster', { Mystery: 1, Suspense: 0.6 }],
+  ['detective', { Mystery: 1, Suspense: 0.6 }],
+  ['crime', { Suspense: 0.9, Mystery: 0.8 }],
+  ['romanc', { Romantic: 1, Happy: 0.5, Sad: 0.3 }],
+  ['histor', { Historic: 1, Sad: 0.3 }],
+  ['fantas', { Historic: 0.6, Mystery: 0.5, Happy: 0.4 }],
+  ['adventur', { Happy: 0.7, Suspense: 0.6, Historic: 0.3 }],
+  ['scien', { Mystery: 0.6, Suspense: 0.6 }],
+  ['sci-fi', { Mystery: 0.6, Suspense: 0.6 }],
+  ['comed', { Happy: 1 }],
+  ['humo', { Happy: 1 }],
+  ['children', { Happy: 0.9, Calm: 0.6 }],
+  ['tragedy', { Sad: 1, Suspense: 0.3 }],
+  ['drama', { Sad: 0.6, Suspense: 0.6, Romantic: 0.4 }],
+  ['biograph', { Historic: 0.7, Calm: 0.5 }],
+  ['poetry', { Calm: 0.8, Romantic: 0.5, Sad: 0.4 }]
+];
+
+// BPM range that suits each paragraph tempo
+const TEMPO_BPM_RANGES: Record<string, [number, number]> = {
+  slow: [50, 85],
+  medium: [80, 120],
+  fast: [115, 180]
+};
+
+// BPM difference at which the tempo score reaches 0
+const TEMPO_TOLERANCE_BPM = 60;
+
+/**
+ * Looks up the category affinities of a free-text label in an affinity table
+ * @param label Mood or genre
+ * @param table Affinity table
+ * @returns Highest affinity of each category among the matched words
+ */
+const lookupAffinities = (
+  label: string,
+  table: [string, Partial<Record<MusicCategory, number>>][]
+): Partial<Record<MusicCategory, number>> => {
+  const words = (label || '').toLowerCase().split(/[^a-z-]+/).filter(Boolean);
+  const affinities: Partial<Record<MusicCategory, number>> = {};
+
+  for (const [stem, categories] of table) {
+    if (!words.some(word => word.startsWith(stem))) continue;
+    for (const [category, value] of Object.entries(categories) as [MusicCategory, number][]) {
+      affinities[category] = Math.max(affinities[category] || 0, value);
+    }
+  }
+
+  return affinities;
+};
+
+/**
+ * Gets how well each music category fits a mood
+ * @param mood Paragraph mood (free text, e.g. "tense", "quiet melancholy")
+ * @returns Affinity (0-1) of each fitting category; empty when no word of the mood is known
+ */
+export const getMoodAffinities = (mood: string): Partial<Record<MusicCategory, number>> =>
+  lookupAffinities(mood, MOOD_AFFINITIES);
+
+/**
+ * Gets how well each music category suits a genre
+ * @param genre Book or paragraph genre
+ * @returns Affinity (0-1) of each suitable category; empty when the genre is unknown
+ */
+export const getGenreAffinities = (genre: string): Partial<Record<MusicCategory, number>> =>
+  lookupAffinities(genre, GENRE_AFFINITIES);
+
+/**
+ * Hashes a string to a number in [0, 1) (FNV-1a), used as a seeded random value
+ * @param value String to hash
+ */
+const hashToUnit = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Scores how well a track's intensity range fits an intensity
+ */
+const scoreIntensity = (track: MusicTrack, intensity: number): number => {
+  const distance = intensity < track.intensityMin
+    ? track.intensityMin - intensity
+    : intensity > track.intensityMax ? intensity - track.intensityMax : 0;
+  return 1 - distance / 9;
+};
+
+/**
+ * Scores how well a track's BPM fits a tempo
+ */
+const scoreTempo = (track: MusicTrack, tempo?: string): number => {
+  const range = tempo ? TEMPO_BPM_RANGES[tempo.trim().toLowerCase()] : undefined;
+  if (!range || !track.bpm) return NEUTRAL_SCORE;
+
+  const distance = track.bpm < range[0] ? range[0] - track.bpm : track.bpm > range[1] ? track.bpm - range[1] : 0;
+  return Math.max(0, 1 - distance / TEMPO_TOLERANCE_BPM);
+};
+
+/**
+ * Finds the category of a track that fits an affinity table best
+ * @returns The category and its affinity (0 when none of the categories fits)
+ */
+const bestCategory = (
+  track: MusicTrack,
+  affinities: Partial<Record<MusicCategory, number>>
+): { category: MusicCategory; affinity: number } =>
+  track.categories.reduce(
+    (best, category) => ((affinities[category] || 0) > best.affinity
+      ? { category, affinity: affinities[category] || 0 }
+      : best),
+    { category: track.categories[0], affinity: 0 }
+  );
+
+/**
+ * Scores a track for a selection context
+ * @param track Candidate track
+ * @param context Paragraph metadata and repeat information
+ * @returns The score and its components
+ */
+export const scoreMusicTrack = (track: MusicTrack, context: MusicSelectionContext): MusicTrackScore => {
+  const intensity = Math.max(1, Math.min(10, context.intensity || 5));
+  const genreAffinities = context.genre ? getGenreAffinities(context.genre) : {};
+
+  const mood = bestCategory(track, getMoodAffinities(context.mood)).affinity;
+  const intensityScore = scoreIntensity(track, intensity);
+  const tempo = scoreTempo(track, context.tempo);
+  const genre = Object.keys(genreAffinities).length > 0 ? bestCategory(track, genreAffinities).affinity : NEUTRAL_SCORE;
+  const repeated = !!track.id && !!context.usedTrackIds?.includes(track.id);
+
+  const total = SCORE_WEIGHTS.mood * mood +
+    SCORE_WEIGHTS.intensity * intensityScore +
+    SCORE_WEIGHTS.tempo * tempo +
+    SCORE_WEIGHTS.genre * genre -
+    (repeated ? REPEAT_PENALTY : 0);
+
+  return { total, mood, intensity: intensityScore, tempo, genre, repeated };
+};
+
+/**
+ * Explains a selection in one sentence for authors
+ */
+const describeSelection = (
+  track: MusicTrack,
+  category: MusicCategory,
+  score: MusicTrackScore,
+  context: MusicSelectionContext,
+  candidates: number
+): string => {
+  const intensity = Math.max(1, Math.min(10, context.intensity || 5));
+  const reasons = [
+    score.mood > 0
+      ? `${category} fits the "${context.mood}" mood (${score.mood.toFixed(1)})`
+      : `no catalog track fits the "${context.mood}" mood, so the closest match was used`,
+    score.intensity === 1
+      ? `intensity ${intensity} is within its ${track.intensityMin}-${track.intensityMax} range`
+      : `intensity ${intensity} is outside its ${track.intensityMin}-${track.intensityMax} range`
+  ];
+  if (context.tempo && track.bpm && TEMPO_BPM_RANGES[context.tempo.trim().toLowerCase()]) {
+    reasons.push(`${track.bpm} BPM ${score.tempo === 1 ? 'suits' : 'is outside the range of'} a ${context.tempo} tempo`);
+  }
+  if (context.genre && score.genre > NEUTRAL_SCORE) {
+    reasons.push(`it suits ${context.genre}`);
+  }
+  if (score.repeated) {
+    reasons.push('it is already used in this book, but no unused track scored higher');
+  }
+
+  return `"${track.title}" scored ${score.total.toFixed(2)} of ${candidates} candidate${candidates === 1 ? '' : 's'}: ${reasons.join('; ')}.`;
+};
+
+/**
+ * Ranks candidate tracks and selects the best one for a paragraph
+ * @param tracks Active catalog tracks
+ * @param context Paragraph metadata, seed and the tracks already used in the book
+ * @returns The selection with its rationale, or null when there are no tracks
+ */
+export const selectMusicTrack = (tracks: MusicTrack[], context: MusicSelectionContext): MusicSelection | null => {
+  if (tracks.length === 0) return null;
+
+  // Tie-breaks depend on the seed and the track only, so the candidates' order does not matter
+  const random = (track: MusicTrack) => context.seed !== undefined
+    ? hashToUnit(`${context.seed}:${track.id || track.storagePath}`)
+    : Math.random();
+
+  const ranked = tracks
+    .map(track => ({ track, score: scoreMusicTrack(track, context), tieBreak: random(track) * SELECTION_JITTER }))
+    .sort((a, b) => (b.score.total + b.tieBreak) - (a.score.total + a.tieBreak));
+
+  const { track, score } = ranked[0];
+  const { category } = bestCategory(track, getMoodAffinities(context.mood));
+  return {
+    track,
+    category,
+    score,
+    rationale: describeSelection(track, category, score, context, tracks.length),
+    candidates: tracks.length
+  };
+};
+
+/**
+ * Collects the catalog tracks used by the other chapters of a book, so they are not repeated
+ * @param book The book
+ * @param excludeChapterId Chapter being narrated (its previous music must not count, or regenerating it would
+ * avoid its own tracks)
+ * @returns IDs of the tracks in use
+ */
+export const getUsedMusicTrackIds = (
+  book: Pick<BookDocument, 'chapters' | 'musicSelections'> | null,
+  excludeChapterId?: string
+): string[] => {
+  if (!book) return [];
+
+  const selections: BackgroundMusicSelection[] = [
+    ...(excludeChapterId ? book.musicSelections || [] : []),
+    ...(book.chapters || [])
+      .filter(chapter => chapter.id !== excludeChapterId)
+      .flatMap(chapter => chapter.musicSelections || [])
+  ];
+
+  return Array.from(new Set(selections.map(selection => selection.trackId).filter((id): id is string => !!id)));
+};
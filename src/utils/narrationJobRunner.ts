@@ -0,0 +1,327 @@
+/**
+ * @file narrationJobRunner.ts
+ * @description This file runs narration jobs on the server. A job narrates a text paragraph by paragraph, records
+ * the progress of every paragraph in its `narrationJobs` document, and finally stitches the paragraph audio into one
+ * narration file. Paragraphs that already completed are never narrated again, so a retried job only redoes the
+ * paragraphs that failed. Each run first claims the job, which gives it a new attempt number; every write of the
+ * run checks the job still belongs to that attempt and refreshes its heartbeat. A run stops between paragraphs once
+ * the job was cancelled, retried or claimed by another run, and a job whose heartbeat stopped can be retried.
+ * A run given a deadline hands the job back to the queue once it passes, so a long text is narrated over several runs.
+ * @integration
+ * `POST /api/narration` and retries through `POST /api/narration/jobs/[id]` only queue jobs. Deployed, the
+ * `narrationWorker` function (functions/narrationWorker.js) calls `POST /api/narration/jobs/[id]/run` whenever a job
+ * is queued, which runs it until its deadline. The dev server has no Firestore triggers, so `runQueuedNarrationJob`
+ * runs the job there after the response. Clients poll `GET /api/narration/jobs/[id]` to follow the progress.
+ */
+
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { mkdirSync, existsSync, writeFileSync, rmSync } from 'fs';
+import {
+  NarrationOptions,
+  splitNarrationParagraphs,
+  extractParagraphMetadata,
+  renderParagraphAudio,
+  concatenateAudioSegments,
+  getAudioDuration,
+  uploadAudioToFirebase,
+  SEGMENT_PAUSE_DURATION
+} from './nodeAudioNarrationService';
+import { getParagraphClassifier } from './paragraphMetadataClassifier';
+import { buildTimingManifest } from './narrationTiming';
+import { AUDIO_ENCODING_FORMATS, buildAudioTagMetadata, resolveAudioEncoding } from './audioEncoding';
+import { getUsedMusicTrackIds } from './musicSelection';
+import {
+  NarrationJob,
+  NarrationJobParagraph,
+  claimNarrationJob,
+  releaseNarrationJobAttempt,
+  updateNarrationJobAttempt
+} from '@/firebase/narrationJobService';
+import { getBookById, updateChapterAudio } from '@/firebase/services';
+
+// Attempts per paragraph within a single run before it is marked as failed
+const MAX_PARAGRAPH_ATTEMPTS = 2;
+
+/**
+ * Computes progress counters for a set of paragraphs
+ * @param paragraphs Paragraph progress entries
+ * @returns Completed count and percentage (paragraphs count for 90%, stitching for the rest)
+ */
+const getProgress = (paragraphs: NarrationJobParagraph[]) => {
+  const completedParagraphs = paragraphs.filter(p => p.status === 'completed').length;
+  const progress = paragraphs.length > 0 ? Math.floor((completedParagraphs / paragraphs.length) * 90) : 0;
+  return { completedParagraphs, progress };
+};
+
+/**
+ * Downloads a completed paragraph's audio so it can be stitched into the final narration
+ * @param url URL of the paragraph audio
+ * @param outputPath Local path to write to
+ */
+const downloadParagraphAudio = async (url: string, outputPath: string): Promise<void> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download paragraph audio (${response.status}): ${url}`);
+  }
+  writeFileSync(outputPath, Buffer.from(await response.arrayBuffer()));
+};
+
+/**
+ * Narrates a single paragraph and uploads it, retrying up to MAX_PARAGRAPH_ATTEMPTS times
+ * @param job The job being run
+ * @param paragraph Progress entry of the paragraph (updated in place)
+ * @param text Paragraph text
+ * @param tempDir Directory for intermediate files
+ * @param options Narration options of the job
+ */
+const narrateJobParagraph = async (
+  job: NarrationJob,
+  paragraph: NarrationJobParagraph,
+  text: string,
+  tempDir: string,
+  options: NarrationOptions
+): Promise<void> => {
+  while (paragraph.attempts < MAX_PARAGRAPH_ATTEMPTS) {
+    paragraph.attempts += 1;
+    try {
+      const audioPath = await renderParagraphAudio(
+        text,
+        { mood: paragraph.mood || 'neutral', genre: paragraph.genre || 'fiction', intensity: paragraph.intensity || 5 },
+        tempDir,
+        paragraph.index,
+        options,
+        ({ track, category, score, rationale }) => {
+          paragraph.music = {
+            paragraphIndex: paragraph.index,
+            ...(track.id && { trackId: track.id }),
+            title: track.title,
+            category,
+            score: Math.round(score.total * 100) / 100,
+            rationale
+          };
+        }
+      );
+
+      const storagePath = `audio-narrations/books/${job.bookId}/paragraph_${paragraph.index + 1}_${Date.now()}.mp3`;
+      paragraph.url = await uploadAudioToFirebase(audioPath, storagePath);
+      paragraph.status = 'completed';
+      delete paragraph.error;
+      return;
+    } catch (error) {
+      console.error(`Error narrating paragraph ${paragraph.index + 1} (attempt ${paragraph.attempts}):`, error);
+      paragraph.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  paragraph.status = 'failed';
+};
+
+// Options of runNarrationJob
+export interface NarrationJobRunOptions {
+  deadline?: number; // Time (ms) after which no further paragraph is started and the job is queued again
+}
+
+/**
+ * Runs a narration job to completion, failure or cancellation, or until its deadline
+ * @param jobId ID of the job in the 'narrationJobs' collection
+ * @param runOptions Deadline of the run
+ * @returns Promise resolving once the run ended; it does nothing when the job is finished or another run holds it
+ */
+export async function runNarrationJob(jobId: string, runOptions: NarrationJobRunOptions = {}): Promise<void> {
+  const job = await claimNarrationJob(jobId);
+  if (!job) {
+    console.log(`Narration job ${jobId} is finished or running elsewhere, skipping`);
+    return;
+  }
+
+  const attempt = job.attempt!;
+  const tempDir = join(tmpdir(), `narration_job_${jobId}_${attempt}_${Date.now()}`);
+  // Writes on behalf of this attempt; false once the job was cancelled, retried or claimed again
+  const save = (updates: Partial<Omit<NarrationJob, 'id' | 'createdAt' | 'attempt'>>) =>
+    updateNarrationJobAttempt(jobId, attempt, updates);
+  const stop = () => console.log(`Narration job ${jobId} attempt ${attempt} was cancelled or superseded`);
+
+  try {
+    if (!existsSync(tempDir)) {
+      mkdirSync(tempDir, { recursive: true });
+    }
+
+    const texts = splitNarrationParagraphs(job.text);
+    let options = job.options as NarrationOptions;
+
+    const book = await getBookById(job.bookId);
+
+    // Narrate dialogue with the book's cast voices unless the request brought its own casting
+    if (!options.casting && book?.voiceCasting) {
+      options = { ...options, casting: book.voiceCasting };
+    }
+
+    // Seed music selection by book and chapter so regenerating the chapter picks the same tracks
+    if (options.musicSeed === undefined) {
+      options = { ...options, musicSeed: `${job.bookId}:${job.chapterId || 'book'}` };
+    }
+
+    // Encode the final narration in the requested format, tagged with the book's details and cover
+    const encoding = resolveAudioEncoding({
+      ...options.encoding,
+      metadata: { ...(book && buildAudioTagMetadata(book, job.chapterId)), ...options.encoding?.metadata }
+    });
+    options = { ...options, encoding };
+    const extension = AUDIO_ENCODING_FORMATS[encoding.format].extension;
+
+    // First run: classify every paragraph and create its progress entry
+    let paragraphs = job.paragraphs;
+    if (paragraphs.length !== texts.length) {
+      const metadata = await extractParagraphMetadata(texts, getParagraphClassifier(options.metadataClassifier));
+      paragraphs = texts.map((_, index) => ({
+        index,
+        status: 'pending',
+        attempts: 0,
+        mood: metadata[index].mood,
+        genre: metadata[index].genre,
+        intensity: metadata[index].intensity
+      }));
+    } else {
+      // A paragraph left running by a run that died is narrated again
+      paragraphs = paragraphs.map(p => (p.status === 'running' ? { ...p, status: 'pending' } : p));
+    }
+
+    if (!await save({ paragraphs, totalParagraphs: paragraphs.length, ...getProgress(paragraphs) })) {
+      stop();
+      return;
+    }
+
+    for (const paragraph of paragraphs) {
+      if (paragraph.status === 'completed') continue;
+
+      // Out of time: the next run carries on from this paragraph
+      if (runOptions.deadline && Date.now() > runOptions.deadline) {
+        if (await releaseNarrationJobAttempt(jobId, attempt)) {
+          console.log(`Narration job ${jobId} attempt ${attempt} reached its deadline, queued again`);
+        } else {
+          stop();
+        }
+        return;
+      }
+
+      paragraph.status = 'running';
+      if (!await save({ paragraphs })) {
+        stop();
+        return;
+      }
+
+      // Avoid music used by the book's other chapters and by the other paragraphs of this job
+      const usedMusicTrackIds = [
+        ...(options.usedMusicTrackIds || getUsedMusicTrackIds(book, job.chapterId)),
+        ...paragraphs
+          .filter(p => p.index !== paragraph.index && p.music?.trackId)
+          .map(p => p.music!.trackId!)
+      ];
+
+      await narrateJobParagraph(job, paragraph, texts[paragraph.index], tempDir, { ...options, usedMusicTrackIds });
+      if (!await save({ paragraphs, ...getProgress(paragraphs) })) {
+        stop();
+        return;
+      }
+    }
+
+    const failed = paragraphs.filter(p => p.status === 'failed');
+    if (failed.length > 0) {
+      await save({
+        status: 'failed',
+        error: `${failed.length} of ${paragraphs.length} paragraphs failed`,
+        completedAt: Date.now()
+      });
+      return;
+    }
+
+    // Stitch all paragraphs into a single narration file
+    const paragraphUrls = paragraphs.map(p => p.url!);
+    const localPaths: string[] = [];
+    for (let i = 0; i < paragraphUrls.length; i++) {
+      const localPath = join(tempDir, `stitch_${i + 1}.mp3`);
+      await downloadParagraphAudio(paragraphUrls[i], localPath);
+      localPaths.push(localPath);
+    }
+
+    // Measure every segment so the reader can follow the narration paragraph by paragraph
+    const durations: number[] = [];
+    for (const localPath of localPaths) {
+      durations.push(await getAudioDuration(localPath));
+    }
+    const timingManifest = buildTimingManifest(durations, localPaths.length > 1 ? SEGMENT_PAUSE_DURATION : 0);
+
+    // Stitching can take a while; the heartbeat tells retries this run is still alive
+    if (!await save({ progress: 95 })) {
+      stop();
+      return;
+    }
+
+    const finalPath = join(tempDir, `narration.${extension}`);
+    await concatenateAudioSegments(localPaths, finalPath, options);
+
+    const storagePath = job.chapterId
+      ? `audio-narrations/books/${job.bookId}/chapters/${job.chapterId}/${Date.now()}_narration_${job.chapterId}.${extension}`
+      : `audio-narrations/books/${job.bookId}/${Date.now()}_narration.${extension}`;
+    const url = await uploadAudioToFirebase(finalPath, storagePath);
+
+    // The chapter only gets the narration if this run still owns the job
+    if (!await save({ progress: 99 })) {
+      stop();
+      return;
+    }
+
+    if (job.chapterId) {
+      const musicSelections = paragraphs.filter(p => p.music).map(p => p.music!);
+      await updateChapterAudio(
+        job.bookId,
+        job.chapterId,
+        url,
+        paragraphUrls,
+        undefined,
+        timingManifest,
+        musicSelections.length > 0 ? musicSelections : undefined
+      );
+    }
+
+    await save({
+      status: 'completed',
+      url,
+      paragraphUrls,
+      timingManifest,
+      progress: 100,
+      completedAt: Date.now()
+    });
+    console.log(`Narration job ${jobId} completed: ${url}`);
+  } catch (error) {
+    console.error(`Narration job ${jobId} failed:`, error);
+    try {
+      await save({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: Date.now()
+      });
+    } catch (updateError) {
+      console.error(`Failed to record failure of narration job ${jobId}:`, updateError);
+    }
+  } finally {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch (err) {
+      console.warn(`Failed to delete temporary directory ${tempDir}:`, err);
+    }
+  }
+}
+
+/**
+ * Runs a queued job on the dev server after the response. Deployed, the narrationWorker function runs it,
+ * as work left running after the response is cut off on Cloud Functions.
+ * @param jobId ID of the queued job
+ */
+export const runQueuedNarrationJob = (jobId: string): void => {
+  if (process.env.NODE_ENV === 'production') return;
+  runNarrationJob(jobId).catch(error => {
+    console.error(`Narration job ${jobId} failed:`, error);
+  });
+};
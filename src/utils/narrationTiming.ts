@@ -0,0 +1,77 @@
+/**
+ * @file narrationTiming.ts
+ * @description This file builds and reads the paragraph timing manifest of a narration. The manifest records
+ * where each narrated paragraph starts and ends in the final stitched audio, measured from the real duration of
+ * every rendered paragraph segment plus the silence inserted between segments. It is stored on the `Chapter`
+ * (or `BookDocument` for single-content books) next to the narration `audioUrl`.
+ * @integration
+ * - `narrationJobRunner.ts` and `EnhancedAudioNarrationButton.tsx` build the manifest when a narration is stitched.
+ * - `NarrationSyncedText.tsx` uses it on the `/read/[id]` and `/book/[id]` pages to highlight the paragraph being
+ *   spoken and to seek the `AudioPlayer` when a paragraph is tapped.
+ * Paragraphs are split on the `$` delimiter by `splitNarratedContent`, which the narration services also use to split
+ * the text they narrate, so manifest indices and the paragraphs the reader shows always line up.
+ */
+
+import { NarrationTimingManifest, ParagraphTimingEntry } from '@/firebase/services';
+
+export const NARRATION_TIMING_MANIFEST_VERSION = 1;
+
+/**
+ * Builds a timing manifest from the durations of the stitched paragraph segments
+ * @param durations Duration of each paragraph segment in seconds, in narration order
+ * @param gap Silence inserted between consecutive segments in seconds
+ * @param source Whether the durations were measured or estimated
+ * @returns The timing manifest
+ */
+export const buildTimingManifest = (
+  durations: number[],
+  gap: number,
+  source: NarrationTimingManifest['source'] = 'measured'
+): NarrationTimingManifest => {
+  const paragraphs: ParagraphTimingEntry[] = [];
+  let currentTime = 0;
+
+  durations.forEach((duration, index) => {
+    const start = currentTime;
+    const end = start + Math.max(0, duration);
+    // Round to milliseconds to keep the stored document small
+    paragraphs.push({ index, start: Math.round(start * 1000) / 1000, end: Math.round(end * 1000) / 1000 });
+    currentTime = end + (index < durations.length - 1 ? gap : 0);
+  });
+
+  return {
+    version: NARRATION_TIMING_MANIFEST_VERSION,
+    source,
+    duration: Math.round(currentTime * 1000) / 1000,
+    gap,
+    paragraphs,
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Finds the paragraph being spoken at a playback position. During the pause between two paragraphs
+ * the previous paragraph stays active.
+ * @param paragraphs Paragraph timings sorted by start time
+ * @param time Playback position in seconds
+ * @returns Index of the active paragraph, or -1 before the first paragraph starts
+ */
+export const findParagraphAtTime = (paragraphs: ParagraphTimingEntry[], time: number): number => {
+  let active = -1;
+  for (const paragraph of paragraphs) {
+    if (paragraph.start > time) break;
+    active = paragraph.index;
+  }
+  return active;
+};
+
+/**
+ * Splits book or chapter content into the paragraphs that were narrated. Content without delimiters is
+ * one paragraph; there is deliberately no other fallback, so both sides always split alike
+ * @param content Content HTML (or plain text) using `$` as the paragraph delimiter
+ * @returns Content of each narrated paragraph, without the delimiter
+ */
+export const splitNarratedContent = (content: string): string[] =>
+  content
+    .split('$')
+    .filter(paragraph => paragraph.replace(/<[^>]*>/g, ' ').trim().length > 0);
@@ -0,0 +1,137 @@
+/**
+ * @file nodeAudioEncoder.ts
+ * @description This file implements the server side of the audio encoder abstraction defined in `audioEncoding.ts`.
+ * It encodes an audio file to MP3 (LAME) or AAC in an M4A container with FFmpeg, at the requested bitrate, and
+ * embeds ID3 (MP3) or MP4 tags together with the book's cover art.
+ * @integration
+ * - `nodeAudioNarrationService.ts` encodes finished narrations with it (combined with loudness normalization).
+ * - `POST /api/audio/encode` uses it to encode narrations stitched in the browser.
+ */
+
+import { existsSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import ffmpeg from 'fluent-ffmpeg';
+import { AUDIO_ENCODING_FORMATS, AudioEncodingOptions, AudioTagMetadata, resolveAudioEncoding } from './audioEncoding';
+
+/**
+ * Downloads cover art to a temporary file
+ * @param coverUrl URL of the cover image
+ * @returns Promise resolving to the local path, or null when the cover cannot be used
+ */
+async function downloadCoverArt(coverUrl: string): Promise<string | null> {
+  try {
+    const response = await fetch(coverUrl);
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.startsWith('image/')) {
+      console.warn(`Skipping cover art ${coverUrl} (${response.status}, ${contentType || 'unknown type'})`);
+      return null;
+    }
+
+    const extension = contentType.includes('png') ? 'png' : contentType.includes('webp') ? 'webp' : 'jpg';
+    const coverPath = join(tmpdir(), `cover_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.${extension}`);
+    writeFileSync(coverPath, Buffer.from(await response.arrayBuffer()));
+    return coverPath;
+  } catch (err) {
+    console.warn(`Failed to download cover art ${coverUrl}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Builds the FFmpeg `-metadata` arguments for the tags of a narration
+ * @param metadata Tag metadata
+ * @returns Output options
+ */
+function getMetadataOptions(metadata: AudioTagMetadata): string[] {
+  const tags: Record<string, string | undefined> = {
+    title: metadata.chapterTitle || metadata.bookTitle,
+    album: metadata.bookTitle,
+    artist: metadata.author,
+    album_artist: metadata.author,
+    track: metadata.trackNumber ? String(metadata.trackNumber) : undefined,
+    genre: 'Audiobook'
+  };
+
+  return Object.entries(tags)
+    .filter(([, value]) => value)
+    .flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+}
+
+/**
+ * Encodes an audio file to MP3 or AAC with tags and cover art
+ * @param inputPath Path of the audio to encode
+ * @param outputPath Path to save the encoded audio
+ * @param options Format, bitrate and tags
+ * @param audioFilter Optional FFmpeg audio filter applied while encoding (e.g. loudness normalization)
+ * @returns Promise resolving to the path of the encoded audio
+ */
+export async function encodeAudioFile(
+  inputPath: string,
+  outputPath: string,
+  options?: Partial<AudioEncodingOptions>,
+  audioFilter?: string
+): Promise<string> {
+  const encoding = resolveAudioEncoding(options);
+  const format = AUDIO_ENCODING_FORMATS[encoding.format];
+  const coverPath = encoding.metadata?.coverUrl ? await downloadCoverArt(encoding.metadata.coverUrl) : null;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg().input(inputPath);
+      if (coverPath) {
+        command.input(coverPath);
+      }
+      if (audioFilter) {
+        command.audioFilters(audioFilter);
+      }
+
+      command
+        .outputOptions('-map', '0:a')
+        .outputOptions('-acodec', format.codec)
+        .outputOptions('-b:a', `${encoding.bitrate}k`)
+        .outputOptions('-ar', '44100');
+
+      if (coverPath) {
+        // Cover art is stored as an attached picture (ID3 APIC frame / MP4 covr atom)
+        command
+          .outputOptions('-map', '1:v')
+          .outputOptions('-c:v', 'mjpeg')
+          .outputOptions('-disposition:v', 'attached_pic')
+          .outputOptions('-metadata:s:v', 'title=Cover')
+          .outputOptions('-metadata:s:v', 'comment=Cover (front)');
+      }
+      if (encoding.metadata) {
+        command.outputOptions(getMetadataOptions(encoding.metadata));
+      }
+      if (encoding.format === 'mp3') {
+        command.outputOptions('-id3v2_version', '3');
+      } else {
+        command.outputOptions('-movflags', '+faststart');
+      }
+
+      command
+        .outputOptions('-f', format.container)
+        .output(outputPath)
+        .on('end', () => {
+          console.log(`Encoded ${inputPath} as ${encoding.format} at ${encoding.bitrate} kbps: ${outputPath}`);
+          resolve();
+        })
+        .on('error', (err) => {
+          console.error(`Error encoding ${inputPath} as ${encoding.format}:`, err);
+          reject(err);
+        })
+        .run();
+    });
+  } finally {
+    if (coverPath && existsSync(coverPath)) {
+      try {
+        unlinkSync(coverPath);
+      } catch (err) {
+        console.warn(`Failed to delete cover art ${coverPath}:`, err);
+      }
+    }
+  }
+
+  return outputPath;
+}
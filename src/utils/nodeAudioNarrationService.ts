@@ -8,7 +8,7 @@
  * This service is intended to be used by server-side API routes. For example, an API endpoint could be triggered by a
  * client-side component (like `BookNarrationGenerator.tsx`) to start a narration generation job. The service would then:
  * 1. Receive the text and narration options.
- * 2. Use FFmpeg to generate and mix the audio.
+ * 2. Synthesize speech through the TTS provider registry in `ttsProviders.ts` and use FFmpeg to mix the audio.
  * 3. Upload the final audio file to Cloudflare R2 using `uploadFileToR2`.
  * 4. Return the URL of the generated audio, which would then be saved in Firestore.
  * This service is a critical part of the infrastructure for automated audio content creation.
@@ -26,7 +26,7 @@
 //  * 7. Stitch all segments together
 //  * 8. Upload final audio to Firebase Storage
 
-import { createWriteStream, createReadStream, mkdirSync, existsSync, unlinkSync } from 'fs';
+import { createWriteStream, createReadStream, mkdirSync, existsSync, unlinkSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { promisify } from 'util';
@@ -34,6 +34,16 @@ import ffmpegImport from 'fluent-ffmpeg';
 import fetch from 'node-fetch';
 import { pipeline } from 'stream';
 import { uploadFileToR2, getFileUrlFromR2 } from '../r2/services';
+import { resolveTtsProvider, TtsResult } from './ttsProviders';
+import { classifyParagraphs, getParagraphClassifier, MetadataConfidence, ParagraphMetadataClassifier } from './paragraphMetadataClassifier';
+import { splitDialogueSpans, hasMultipleVoices, splitSpeechText } from './voiceCasting';
+import { VoiceCasting } from '../firebase/services';
+import { TARGET_LOUDNESS_LUFS, getLoudnormFilter } from './audioDynamics';
+import { AudioEncodingOptions, getAudioMimeType } from './audioEncoding';
+import { encodeAudioFile } from './nodeAudioEncoder';
+import { selectMusicTrackForContext } from '../firebase/musicTrackService';
+import { MusicSelection, MusicSelectionContext } from './musicSelection';
+import { splitNarratedContent } from './narrationTiming';
 
 // Configure ffmpeg with error handling
 let ffmpeg = ffmpegImport;
@@ -121,10 +131,12 @@ function ensureDirectoryExists(outputPath: string): void {
 /**
  * Interface for paragraph metadata
  */
-interface ParagraphMetadata {
+export interface ParagraphMetadata {
   mood: string;
   genre: string;
-  intensity: number;
+  intensity: number; // 1-10 scale
+  tempo?: string;
+  confidence?: MetadataConfidence; // Confidence (0-1) for each extracted field
   character?: string;
   emotion?: string;
   setting?: string;
@@ -133,8 +145,11 @@ interface ParagraphMetadata {
 /**
  * Interface for narration options
  */
-interface NarrationOptions {
+export interface NarrationOptions {
   voice?: string;
+  provider?: string; // TTS provider to use ('openai' | 'local'); inferred from voice when omitted
+  fallbackProvider?: string; // TTS provider to retry a paragraph with when the chosen one fails; none by default
+  speed?: number;    // TTS speed multiplier (1 = normal)
   backgroundMusicVolume?: number;
   crossfadeDuration?: number;
   fadeInDuration?: number;
@@ -142,6 +157,13 @@ interface NarrationOptions {
   narrationDelay?: number;  // Delay in seconds before narration starts
   paragraphSilence?: number; // Silence in seconds between paragraphs
   episodeBreaks?: number[]; // Indices where episodes break
+  metadataClassifier?: string; // Paragraph classifier to use ('openai' | 'lexicon')
+  casting?: VoiceCasting; // Character voices for multi-voice dialogue narration
+  ducking?: boolean; // Duck background music while the narration is audible (default true)
+  targetLoudness?: number | null; // Integrated loudness of the final narration in LUFS (default -16, null disables)
+  encoding?: Partial<AudioEncodingOptions>; // Format, bitrate and tags of the final narration (default 128 kbps MP3)
+  musicSeed?: string; // Seeds background music selection so regenerating a narration picks the same tracks
+  usedMusicTrackIds?: string[]; // Catalog tracks already used in the book, avoided when possible
 }
 
 /**
@@ -175,23 +197,31 @@ const DEFAULT_OPTIONS: NarrationOptions = {
   paragraphSilence: 10,        // 10 seconds silence between paragraphs
 };
 
+// Pause inserted between segments by concatenateAudioSegments, in seconds
+export const SEGMENT_PAUSE_DURATION = 3;
+
+// Sidechain compressor that ducks background music by up to ~10 dB while narration is audible
+const SIDECHAIN_DUCKING_SETTINGS = 'threshold=0.02:ratio=8:attack=20:release=800:makeup=1';
+
 /**
  * Extracts metadata for each paragraph in the text
  * @param paragraphs Array of paragraph texts
+ * @param classifier Classifier used to extract the metadata (defaults to OpenAI, or the offline lexicon without an API key)
  * @returns Promise resolving to array of paragraph metadata
  */
-export async function extractParagraphMetadata(paragraphs: string[]): Promise<ParagraphMetadata[]> {
-  // In a real implementation, this would use NLP or AI to extract mood, genre, etc.
-  // For this example, we'll return dummy data
-  return paragraphs.map((paragraph, index) => {
-    // Alternate between happy and sad moods for demonstration
-    const mood = index % 2 === 0 ? 'Happy' : 'Calm';
-    return {
-      mood,
-      genre: 'Fiction',
-      intensity: 0.7,
-    };
-  });
+export async function extractParagraphMetadata(
+  paragraphs: string[],
+  classifier: ParagraphMetadataClassifier = getParagraphClassifier()
+): Promise<ParagraphMetadata[]> {
+  const classified = await classifyParagraphs(paragraphs, classifier);
+
+  return classified.map(metadata => ({
+    mood: metadata.mood,
+    genre: metadata.genre,
+    intensity: metadata.intensity,
+    tempo: metadata.tempo,
+    confidence: metadata.confidence,
+  }));
 }
 
 /**
@@ -268,7 +298,7 @@ export async function extractEpisodeMetadata(
 }
 
 /**
- * Generates TTS audio for a paragraph
+ * Generates TTS audio for a paragraph using the provider selected by the options
  * @param text Text to convert to speech
  * @param outputPath Path to save the audio file
  * @param options Narration options
@@ -285,81 +315,165 @@ export async function generateTTSAudio(
     // Ensure directory exists using our helper function
     ensureDirectoryExists(outputPath);
 
-    // Check if ffmpeg is available
-    if (!ffmpegAvailable) {
-      console.warn('FFmpeg not available, using fallback audio generation');
-      return await generateFallbackAudio(text, outputPath);
+    // Text over the speech API input limit is narrated in chunks and joined
+    const chunks = splitSpeechText(text);
+    if (chunks.length > 1 && ffmpegAvailable) {
+      console.log(`Text of ${text.length} characters is narrated in ${chunks.length} chunks`);
+      const chunkPaths: string[] = [];
+      try {
+        for (let i = 0; i < chunks.length; i++) {
+          const chunkPath = outputPath.replace(/\.(mp3|wav)$/i, `_chunk_${i + 1}.$1`);
+          await generateTTSAudio(chunks[i], chunkPath, options);
+          chunkPaths.push(chunkPath);
+        }
+        await joinSpeechFiles(chunkPaths, outputPath, 0);
+        return outputPath;
+      } finally {
+        chunkPaths.forEach(path => {
+          if (existsSync(path)) unlinkSync(path);
+        });
+      }
     }
 
-    // In a real implementation, this would call OpenAI's TTS API
-    // For this example, we'll use a simple ffmpeg command to generate a tone
-
-    // Generate a tone with varying pitch based on text length to simulate different narrations
-    const pitch = 100 + (text.length % 10) * 50; // Vary pitch between 100-550Hz
-    const duration = 2 + (text.length / 100); // Vary duration based on text length
+    const provider = resolveTtsProvider({ provider: options.provider, voice: options.voice });
+    const request = { text, voice: options.voice, speed: options.speed };
 
+    let result: TtsResult;
     try {
-      await new Promise<void>((resolve, reject) => {
-        ffmpeg()
-          .input('anullsrc')
-          .inputOptions('-f', 'lavfi')
-          .audioFilters(`aevalsrc=sin(${pitch}*2*PI*t):s=44100:d=${duration}`)
-          .outputOptions('-f', 'mp3')
-          .output(outputPath)
-          .on('start', (commandLine) => {
-            console.log(`FFmpeg command: ${commandLine}`);
-          })
-          .on('end', () => {
-            console.log(`Generated TTS audio: ${outputPath} (${duration}s)`);
-            resolve();
-          })
-          .on('error', (err) => {
-            console.error('Error generating TTS audio:', err);
-            reject(err);
-          })
-          .run();
-      });
-
-      return outputPath;
-    } catch (ffmpegError) {
-      console.error('FFmpeg error in generateTTSAudio:', ffmpegError);
-      console.log('Falling back to alternative audio generation');
-      return await generateFallbackAudio(text, outputPath);
+      result = await provider.synthesize(request);
+    } catch (providerError) {
+      // A failed paragraph fails the narration, unless a fallback was asked for: narrating part of a
+      // chapter with another voice (or engine) is rarely what the author wants
+      if (!options.fallbackProvider || options.fallbackProvider === provider.name) {
+        throw providerError;
+      }
+      console.error(`TTS provider ${provider.name} failed, falling back to ${options.fallbackProvider}:`, providerError);
+      result = await resolveTtsProvider({ provider: options.fallbackProvider }).synthesize(request);
     }
+
+    console.log(`Generated ${result.format} speech with ${result.provider} provider (voice: ${result.voice})`);
+    await writeTTSResult(result, outputPath);
+
+    return outputPath;
   } catch (error) {
     console.error('Error in generateTTSAudio:', error);
     throw error;
   }
 }
 
+// Pause between the narrator and dialogue spans of a paragraph, in seconds
+const SPAN_PAUSE_DURATION = 0.25;
+
 /**
- * Generates a fallback audio file when ffmpeg is not available
- * @param text Text to convert to speech
+ * Joins speech files in order, resampling since voices and providers may return different formats
+ * @param paths Speech files to join
+ * @param outputPath Path to save the joined audio
+ * @param pause Silence between consecutive files, in seconds
+ */
+async function joinSpeechFiles(paths: string[], outputPath: string, pause: number): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const command = ffmpeg();
+    paths.forEach(path => command.input(path));
+
+    const filters = paths.map((_, index) => {
+      const pad = pause > 0 && index < paths.length - 1 ? `,apad=pad_dur=${pause}` : '';
+      return `[${index}:a]aresample=44100,aformat=channel_layouts=mono${pad}[part${index}]`;
+    });
+    filters.push(`${paths.map((_, index) => `[part${index}]`).join('')}concat=n=${paths.length}:v=0:a=1[out]`);
+
+    command
+      .complexFilter(filters, 'out')
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err) => {
+        console.error('Error joining speech files:', err);
+        reject(err);
+      })
+      .run();
+  });
+}
+
+/**
+ * Generates TTS audio for a paragraph, narrating quoted dialogue with the voices of the characters
+ * in `options.casting` and the rest with the narrator voice. Without a multi-voice casting this is
+ * the same as generateTTSAudio.
+ * @param text Paragraph text
  * @param outputPath Path to save the audio file
+ * @param options Narration options
  * @returns Promise resolving to the path of the generated audio file
  */
-async function generateFallbackAudio(text: string, outputPath: string): Promise<string> {
-  console.log('Using fallback audio generation method');
+export async function generateCastTTSAudio(
+  text: string,
+  outputPath: string,
+  options: NarrationOptions = DEFAULT_OPTIONS
+): Promise<string> {
+  const casting = options.casting;
+  if (!hasMultipleVoices(casting)) {
+    return generateTTSAudio(text, outputPath, options);
+  }
 
-  try {
-    // Create a simple silent MP3 file using Node.js
-    const fs = require('fs');
+  const spanOptions = (voice: string): NarrationOptions => ({ ...options, voice, provider: casting.provider || options.provider });
+  const spans = splitDialogueSpans(text, casting);
+  if (spans.length === 1 || !ffmpegAvailable) {
+    return generateTTSAudio(text, outputPath, spanOptions(casting.narratorVoice));
+  }
 
-    // Create a buffer with MP3 header data for a short silent audio
-    // This is a very basic MP3 header for a silent audio file
-    const silentMp3Header = Buffer.from([
-      0xFF, 0xFB, 0x10, 0x00, 0x00, 0x00, 0x00, 0x00,
-      0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00
-    ]);
+  console.log(`Narrating paragraph as ${spans.length} spans with voices: ${spans.map(span => span.voice).join(', ')}`);
 
-    // Write the buffer to the output file
-    fs.writeFileSync(outputPath, silentMp3Header);
+  ensureDirectoryExists(outputPath);
+  const spanPaths: string[] = [];
+
+  try {
+    for (let i = 0; i < spans.length; i++) {
+      const spanPath = outputPath.replace(/\.(mp3|wav)$/i, `_span_${i + 1}.$1`);
+      await generateTTSAudio(spans[i].text, spanPath, spanOptions(spans[i].voice));
+      spanPaths.push(spanPath);
+    }
+
+    // Join the spans with a short pause
+    await joinSpeechFiles(spanPaths, outputPath, SPAN_PAUSE_DURATION);
 
-    console.log(`Generated fallback silent audio at: ${outputPath}`);
     return outputPath;
-  } catch (fallbackError) {
-    console.error('Error in fallback audio generation:', fallbackError);
-    throw new Error(`Failed to generate fallback audio: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`);
+  } finally {
+    spanPaths.forEach(path => {
+      if (existsSync(path)) unlinkSync(path);
+    });
+  }
+}
+
+/**
+ * Writes provider audio to the output path, converting it with ffmpeg when the
+ * provider format differs from the output file extension
+ * @param result Audio returned by the TTS provider
+ * @param outputPath Path to save the audio file
+ */
+async function writeTTSResult(result: TtsResult, outputPath: string): Promise<void> {
+  const outputFormat = outputPath.toLowerCase().endsWith('.wav') ? 'wav' : 'mp3';
+
+  if (result.format === outputFormat || !ffmpegAvailable) {
+    writeFileSync(outputPath, result.audio);
+    return;
+  }
+
+  const sourcePath = `${outputPath}.${result.format}`;
+  writeFileSync(sourcePath, result.audio);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg()
+        .input(sourcePath)
+        .outputOptions('-ar', '44100')
+        .outputFormat(outputFormat)
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err) => {
+          console.error('Error converting TTS audio:', err);
+          reject(err);
+        })
+        .run();
+    });
+  } finally {
+    if (existsSync(sourcePath)) unlinkSync(sourcePath);
   }
 }
 
@@ -367,13 +481,17 @@ async function generateFallbackAudio(text: string, outputPath: string): Promise<
  * Fetches background music based on mood
  * @param mood Mood of the paragraph
  * @param outputPath Path to save the music file
- * @param intensity Intensity of the mood (0-1)
+ * @param intensity Intensity of the mood (1-10, as in the paragraph metadata)
+ * @param context Tempo, genre, seed and the tracks already used in the book, for scoring catalog tracks
+ * @param onSelected Called with the selected catalog track and the rationale of the selection
  * @returns Promise resolving to the path of the music file
  */
 export async function fetchBackgroundMusic(
   mood: string,
   outputPath: string,
-  intensity: number = 0.5
+  intensity: number = 5,
+  context: Omit<MusicSelectionContext, 'mood' | 'intensity'> = {},
+  onSelected?: (selection: MusicSelection) => void
 ): Promise<string> {
   try {
     console.log(`Fetching background music for mood: ${mood}, intensity: ${intensity}`);
@@ -381,6 +499,25 @@ export async function fetchBackgroundMusic(
     // Ensure directory exists using our helper function
     ensureDirectoryExists(outputPath);
 
+    // Use the best scoring track of the music catalog
+    try {
+      const selection = await selectMusicTrackForContext({ ...context, mood, intensity });
+      if (selection) {
+        const { track } = selection;
+        const response = await fetch(track.url);
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to download catalog track (${response.status}): ${track.url}`);
+        }
+        await streamPipeline(response.body, createWriteStream(outputPath));
+        console.log(`Using catalog track: ${selection.rationale}`);
+        onSelected?.(selection);
+        return outputPath;
+      }
+      console.warn('The music catalog has no active tracks, generating background music');
+    } catch (catalogError) {
+      console.error('Error using the music catalog, generating background music:', catalogError);
+    }
+
     // Check if ffmpeg is available
     if (!ffmpegAvailable) {
       console.warn('FFmpeg not available, using fallback background music generation');
@@ -649,7 +786,87 @@ export async function processAudioParagraph(
 }
 
 /**
- * Concatenates audio segments with a pause between each segment
+ * Gets the duration of an audio file
+ * @param filePath Path of the audio file
+ * @returns Promise resolving to the duration in seconds
+ */
+export async function getAudioDuration(filePath: string): Promise<number> {
+  return new Promise<number>((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        console.error(`Error getting duration of ${filePath}:`, err);
+        reject(err);
+        return;
+      }
+      resolve(metadata.format.duration || 0);
+    });
+  });
+}
+
+// Loudness statistics printed by the measurement pass of ffmpeg's loudnorm filter
+interface LoudnormMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+/**
+ * Normalizes an audio file to a target integrated loudness with ffmpeg's loudnorm filter. The file is
+ * measured in a first pass and normalized in a second, linear pass so the dynamics of the mix are kept;
+ * if the measurement cannot be read, a single dynamic pass is used instead.
+ * @param inputPath Path of the audio to normalize
+ * @param outputPath Path to save the normalized audio
+ * @param targetLoudness Target integrated loudness in LUFS
+ * @param encoding Format, bitrate and tags of the output (default 128 kbps MP3)
+ * @returns Promise resolving to the path of the normalized audio
+ */
+export async function normalizeAudioLoudness(
+  inputPath: string,
+  outputPath: string,
+  targetLoudness: number = TARGET_LOUDNESS_LUFS,
+  encoding?: Partial<AudioEncodingOptions>
+): Promise<string> {
+  // Pass 1: measure the input
+  let measurement: LoudnormMeasurement | undefined;
+  try {
+    const stderrLines: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg()
+        .input(inputPath)
+        .audioFilters(`${getLoudnormFilter(targetLoudness)}:print_format=json`)
+        .outputOptions('-f', 'null')
+        .output('-')
+        .on('stderr', (line: string) => stderrLines.push(line))
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .run();
+    });
+
+    const stderr = stderrLines.join('\n');
+    const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+    const parsed = JSON.parse(json) as LoudnormMeasurement;
+    if (isFinite(parseFloat(parsed.input_i))) {
+      measurement = parsed;
+      console.log(`Measured loudness of ${inputPath}: ${parsed.input_i} LUFS, true peak ${parsed.input_tp} dBTP`);
+    } else {
+      console.warn(`Loudness of ${inputPath} could not be measured (silent audio?), using single-pass normalization`);
+    }
+  } catch (err) {
+    console.warn('Error measuring loudness, using single-pass normalization:', err);
+  }
+
+  // Pass 2: normalize while encoding the output
+  await encodeAudioFile(inputPath, outputPath, encoding, getLoudnormFilter(targetLoudness, measurement));
+  console.log(`Normalized ${inputPath} to ${targetLoudness} LUFS: ${outputPath}`);
+
+  return outputPath;
+}
+
+/**
+ * Concatenates audio segments with a pause between each segment, then normalizes the result
+ * to the target loudness and encodes it with the requested format and tags
  * @param segments Array of audio segment paths
  * @param outputPath Path to save the concatenated audio
  * @param options Narration options
@@ -662,6 +879,15 @@ export async function concatenateAudioSegments(
 ): Promise<string> {
   console.log(`Starting concatenation of ${segments.length} audio segments with pauses`);
 
+  const targetLoudness = options.targetLoudness === undefined ? TARGET_LOUDNESS_LUFS : options.targetLoudness;
+
+  if (segments.length === 1 && ffmpegAvailable && (targetLoudness !== null || options.encoding)) {
+    ensureDirectoryExists(outputPath);
+    return targetLoudness !== null
+      ? normalizeAudioLoudness(segments[0], outputPath, targetLoudness, options.encoding)
+      : encodeAudioFile(segments[0], outputPath, options.encoding);
+  }
+
   if (segments.length === 1) {
     console.log(`Only one segment, copying directly to output`);
     // If there's only one segment, just copy it to the output path
@@ -682,7 +908,7 @@ export async function concatenateAudioSegments(
 
   try {
     // Create a silence file for the pause between segments
-    const silenceDuration = 3; // 3 seconds pause between segments
+    const silenceDuration = SEGMENT_PAUSE_DURATION;
     const silencePath = join(tmpdir(), `silence_${silenceDuration}s_${Date.now()}.mp3`);
 
     console.log(`Generating ${silenceDuration} second silence file at ${silencePath}`);
@@ -731,8 +957,10 @@ export async function concatenateAudioSegments(
     console.log(`Created concat file with ${concatSegments.length} entries (${segments.length} segments + ${segments.length - 1} silences)`);
     console.log(`Concat file content:\n${concatContent}`);
 
-    // STEP 2: Perform the concatenation
+    // STEP 2: Perform the concatenation (into a temporary file when the result is processed afterwards)
     console.log(`Performing concatenation with pauses`);
+    const postProcess = targetLoudness !== null || !!options.encoding;
+    const concatenatedPath = postProcess ? join(tmpdir(), `concatenated_${Date.now()}.mp3`) : outputPath;
 
     await new Promise<void>((resolve, reject) => {
       ffmpeg()
@@ -741,9 +969,9 @@ export async function concatenateAudioSegments(
         .inputOptions('-safe', '0')
         // Use copy codec for direct concatenation without re-encoding
         .outputOptions('-c', 'copy')
-        .output(outputPath)
+        .output(concatenatedPath)
         .on('end', () => {
-          console.log(`Successfully concatenated all segments with pauses to ${outputPath}`);
+          console.log(`Successfully concatenated all segments with pauses to ${concatenatedPath}`);
           resolve();
         })
         .on('error', (err) => {
@@ -753,10 +981,18 @@ export async function concatenateAudioSegments(
         .run();
     });
 
+    // STEP 3: Bring the whole narration to the target loudness and encode it
+    if (targetLoudness !== null) {
+      await normalizeAudioLoudness(concatenatedPath, outputPath, targetLoudness, options.encoding);
+    } else if (options.encoding) {
+      await encodeAudioFile(concatenatedPath, outputPath, options.encoding);
+    }
+
     // Clean up temporary files
     try {
       unlinkSync(concatFilePath);
       unlinkSync(silencePath);
+      if (postProcess) unlinkSync(concatenatedPath);
       console.log('Cleaned up temporary files');
     } catch (err) {
       console.warn(`Failed to delete temporary files:`, err);
@@ -816,8 +1052,8 @@ export async function uploadAudioToFirebase(filePath: string, storagePath: strin
     // Import R2 services
     const { uploadFileToR2 } = await import('@/r2/services');
 
-    // Create a Blob from the file buffer
-    const fileBlob = new Blob([fileBuffer]);
+    // Create a Blob from the file buffer, typed so R2 serves it with the right Content-Type
+    const fileBlob = new Blob([fileBuffer], { type: getAudioMimeType(filePath) });
 
     // Upload to R2
     const downloadURL = await uploadFileToR2(fileBlob, storagePath);
@@ -830,6 +1066,169 @@ export async function uploadAudioToFirebase(filePath: string, storagePath: strin
   }
 }
 
+/**
+ * Splits narration text into paragraphs on the $ delimiter. Text without delimiters is one paragraph:
+ * the split must match `splitNarratedContent`, which the reader uses to match the timing manifest
+ * @param text Text to split
+ * @returns Array of non-empty paragraph texts
+ */
+export function splitNarrationParagraphs(text: string): string[] {
+  const paragraphs = splitNarratedContent(text);
+  console.log(`Split text into ${paragraphs.length} paragraphs using $ symbol as delimiter`);
+  return paragraphs;
+}
+
+/**
+ * Renders the audio for a single paragraph as a standalone file:
+ * TTS narration mixed with background music trimmed to the narration length
+ * @param paragraph Paragraph text
+ * @param metadata Metadata of the paragraph (mood decides the background music)
+ * @param tempDir Directory for intermediate files
+ * @param i Zero-based paragraph index, used for file names and the music seed
+ * @param options Narration options
+ * @param onMusicSelected Called with the catalog track selected as background music
+ * @returns Promise resolving to the path of the mixed paragraph audio file
+ */
+export async function renderParagraphAudio(
+  paragraph: string,
+  metadata: ParagraphMetadata,
+  tempDir: string,
+  i: number,
+  options: NarrationOptions = DEFAULT_OPTIONS,
+  onMusicSelected?: (selection: MusicSelection) => void
+): Promise<string> {
+  console.log(`Processing paragraph ${i + 1} with mood: ${metadata.mood} as a COMPLETELY SEPARATE FILE`);
+
+  // Generate TTS audio for this paragraph
+  const narrationPath = join(tempDir, `narration_${i + 1}.mp3`);
+  await generateCastTTSAudio(paragraph, narrationPath, options);
+
+  // Fetch the background music that best fits the paragraph
+  const backgroundMusicPath = join(tempDir, `background_${i + 1}.mp3`);
+  await fetchBackgroundMusic(
+    metadata.mood,
+    backgroundMusicPath,
+    metadata.intensity,
+    {
+      tempo: metadata.tempo,
+      genre: metadata.genre,
+      ...(options.musicSeed !== undefined && { seed: `${options.musicSeed}:${i}` }),
+      usedTrackIds: options.usedMusicTrackIds
+    },
+    onMusicSelected
+  );
+
+  // Create the final paragraph audio file with a unique name
+  const paragraphAudioPath = join(tempDir, `paragraph_${i + 1}.mp3`);
+
+  // Get narration duration for trimming background music
+  const narrationDuration = await new Promise<number>((resolve, reject) => {
+    ffmpeg.ffprobe(narrationPath, (err, metadata) => {
+      if (err) {
+        console.error('Error getting narration duration:', err);
+        reject(err);
+        return;
+      }
+      resolve(metadata.format.duration || 0);
+    });
+  });
+
+  console.log(`Paragraph ${i + 1} narration duration: ${narrationDuration} seconds`);
+
+  // Trim background music to match narration length
+  const trimmedMusicPath = join(tempDir, `trimmed_music_${i + 1}.mp3`);
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg()
+      .input(backgroundMusicPath)
+      .outputOptions('-t', `${narrationDuration}`)
+      .output(trimmedMusicPath)
+      .on('end', () => {
+        resolve();
+      })
+      .on('error', (err) => {
+        reject(err);
+      })
+      .run();
+  });
+
+  // Adjust background music volume
+  const volumeAdjustedMusicPath = join(tempDir, `volume_adjusted_music_${i + 1}.mp3`);
+  const bgVolume = options.backgroundMusicVolume || DEFAULT_OPTIONS.backgroundMusicVolume;
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg()
+      .input(trimmedMusicPath)
+      .audioFilters(`volume=${bgVolume}`)
+      .output(volumeAdjustedMusicPath)
+      .on('end', () => {
+        resolve();
+      })
+      .on('error', (err) => {
+        reject(err);
+      })
+      .run();
+  });
+
+  // Create a clean paragraph audio file with ABSOLUTELY NO FADING and HARD CUTS
+  await new Promise<void>((resolve, reject) => {
+    console.log(`Creating paragraph ${i + 1} as STANDALONE FILE with ABSOLUTELY NO FADING`);
+
+    // Duck the music under the narration: the narration drives a sidechain compressor on the music
+    const mixFilter = options.ducking === false
+      ? `[0:a][1:a]amerge=inputs=2,pan=stereo|c0<c0+c2|c1<c1+c3[aout]`
+      : `[0:a]aresample=44100,aformat=channel_layouts=stereo,asplit=2[voice][key];` +
+        `[1:a]aresample=44100,aformat=channel_layouts=stereo[music];` +
+        `[music][key]sidechaincompress=${SIDECHAIN_DUCKING_SETTINGS}[ducked];` +
+        `[voice][ducked]amerge=inputs=2,pan=stereo|c0<c0+c2|c1<c1+c3[aout]`;
+
+    ffmpeg()
+      .input(narrationPath)
+      .input(volumeAdjustedMusicPath)
+      // Simple filter to mix audio with no fading
+      .outputOptions('-filter_complex', mixFilter)
+      .outputOptions('-map', '[aout]')
+      .outputOptions('-ac', '2') // Ensure stereo output
+      .outputOptions('-t', `${narrationDuration}`) // Strict duration limit
+      .outputOptions('-ar', '44100')
+      .outputOptions('-b:a', '128k')
+      // Remove all fade filters completely
+      .output(paragraphAudioPath)
+      .on('end', () => {
+        console.log(`Created STANDALONE paragraph ${i + 1} audio file with ABSOLUTELY NO FADING`);
+
+        // Verify the file exists and has content
+        try {
+          const stats = require('fs').statSync(paragraphAudioPath);
+          console.log(`Paragraph ${i + 1} file created: ${paragraphAudioPath}, size: ${stats.size} bytes`);
+
+          if (stats.size === 0) {
+            console.error(`ERROR: Paragraph ${i + 1} file has zero bytes`);
+          }
+        } catch (err) {
+          console.error(`Error verifying paragraph ${i + 1} file:`, err);
+        }
+
+        resolve();
+      })
+      .on('error', (err) => {
+        console.error(`Error creating paragraph ${i + 1} audio:`, err);
+        reject(err);
+      })
+      .run();
+  });
+
+  // Clean up intermediate files
+  try {
+    unlinkSync(narrationPath);
+    unlinkSync(backgroundMusicPath);
+    unlinkSync(trimmedMusicPath);
+    unlinkSync(volumeAdjustedMusicPath);
+  } catch (err) {
+    console.warn(`Failed to delete some intermediate files: ${err}`);
+  }
+
+  return paragraphAudioPath;
+}
+
 /**
  * Generates narration with background music for a book
  * @param text Text to narrate
@@ -889,21 +1288,13 @@ export async function generateNarrationWithBackgroundMusic(
     }
 
     // Step 1: Split text into paragraphs using $ as the primary delimiter
-    const paragraphs = text.split(/\$/).filter(p => p.trim().length > 0);
-    console.log(`Split text into ${paragraphs.length} paragraphs using $ symbol as delimiter`);
-
-    // Fallback to double full stops (..) if no paragraphs found with $
-    if (paragraphs.length <= 1 && text.length > 500) {
-      console.log(`Only one paragraph found with $ symbol, trying double full stops (..) as fallback`);
-      const fallbackParagraphs = text.split(/\.\./).filter(p => p.trim().length > 0);
-      if (fallbackParagraphs.length > 1) {
-        console.log(`Found ${fallbackParagraphs.length} paragraphs using double full stops (..) as fallback`);
-        paragraphs.splice(0, paragraphs.length, ...fallbackParagraphs);
-      }
-    }
+    const paragraphs = splitNarrationParagraphs(text);
 
     // Step 2: Extract metadata for each paragraph
-    const paragraphMetadata = await extractParagraphMetadata(paragraphs);
+    const paragraphMetadata = await extractParagraphMetadata(
+      paragraphs,
+      getParagraphClassifier(options.metadataClassifier)
+    );
     console.log(`Extracted metadata for ${paragraphMetadata.length} paragraphs`);
 
     // We'll create completely separate paragraph audio files
@@ -917,6 +1308,7 @@ export async function generateNarrationWithBackgroundMusic(
     const allFilePaths: string[] = [];
 
     // Process each paragraph as a completely separate audio file
+    const usedMusicTrackIds = [...(options.usedMusicTrackIds || [])];
     for (let i = 0; i < paragraphs.length; i++) {
       const paragraph = paragraphs[i];
       const metadata = paragraphMetadata[i];
@@ -924,118 +1316,20 @@ export async function generateNarrationWithBackgroundMusic(
       // Skip empty paragraphs
       if (!paragraph.trim()) continue;
 
-      console.log(`Processing paragraph ${i + 1}/${paragraphs.length} with mood: ${metadata.mood} as a COMPLETELY SEPARATE FILE`);
-
-      // Generate TTS audio for this paragraph
-      const narrationPath = join(tempDir, `narration_${i + 1}.mp3`);
-      await generateTTSAudio(paragraph, narrationPath, options);
-
-      // Fetch background music based on mood and intensity
-      const backgroundMusicPath = join(tempDir, `background_${i + 1}.mp3`);
-      await fetchBackgroundMusic(metadata.mood, backgroundMusicPath, metadata.intensity);
-
-      // Create the final paragraph audio file with a unique name
-      const paragraphAudioPath = join(tempDir, `paragraph_${i + 1}.mp3`);
-
-      // Get narration duration for trimming background music
-      const narrationDuration = await new Promise<number>((resolve, reject) => {
-        ffmpeg.ffprobe(narrationPath, (err, metadata) => {
-          if (err) {
-            console.error('Error getting narration duration:', err);
-            reject(err);
-            return;
-          }
-          resolve(metadata.format.duration || 0);
-        });
-      });
-
-      console.log(`Paragraph ${i + 1} narration duration: ${narrationDuration} seconds`);
-
-      // Trim background music to match narration length
-      const trimmedMusicPath = join(tempDir, `trimmed_music_${i + 1}.mp3`);
-      await new Promise<void>((resolve, reject) => {
-        ffmpeg()
-          .input(backgroundMusicPath)
-          .outputOptions('-t', `${narrationDuration}`)
-          .output(trimmedMusicPath)
-          .on('end', () => {
-            resolve();
-          })
-          .on('error', (err) => {
-            reject(err);
-          })
-          .run();
-      });
-
-      // Adjust background music volume
-      const volumeAdjustedMusicPath = join(tempDir, `volume_adjusted_music_${i + 1}.mp3`);
-      const bgVolume = options.backgroundMusicVolume || DEFAULT_OPTIONS.backgroundMusicVolume;
-      await new Promise<void>((resolve, reject) => {
-        ffmpeg()
-          .input(trimmedMusicPath)
-          .audioFilters(`volume=${bgVolume}`)
-          .output(volumeAdjustedMusicPath)
-          .on('end', () => {
-            resolve();
-          })
-          .on('error', (err) => {
-            reject(err);
-          })
-          .run();
-      });
-
-      // Create a clean paragraph audio file with ABSOLUTELY NO FADING and HARD CUTS
-      await new Promise<void>((resolve, reject) => {
-        console.log(`Creating paragraph ${i + 1} as STANDALONE FILE with ABSOLUTELY NO FADING`);
-
-        ffmpeg()
-          .input(narrationPath)
-          .input(volumeAdjustedMusicPath)
-          // Simple filter to mix audio with no fading
-          .outputOptions('-filter_complex', `[0:a][1:a]amerge=inputs=2,pan=stereo|c0<c0+c2|c1<c1+c3[aout]`)
-          .outputOptions('-map', '[aout]')
-          .outputOptions('-ac', '2') // Ensure stereo output
-          .outputOptions('-t', `${narrationDuration}`) // Strict duration limit
-          .outputOptions('-ar', '44100')
-          .outputOptions('-b:a', '128k')
-          // Remove all fade filters completely
-          .output(paragraphAudioPath)
-          .on('end', () => {
-            console.log(`Created STANDALONE paragraph ${i + 1} audio file with ABSOLUTELY NO FADING`);
-
-            // Verify the file exists and has content
-            try {
-              const stats = require('fs').statSync(paragraphAudioPath);
-              console.log(`Paragraph ${i + 1} file created: ${paragraphAudioPath}, size: ${stats.size} bytes`);
-
-              if (stats.size === 0) {
-                console.error(`ERROR: Paragraph ${i + 1} file has zero bytes`);
-              }
-            } catch (err) {
-              console.error(`Error verifying paragraph ${i + 1} file:`, err);
-            }
-
-            resolve();
-          })
-          .on('error', (err) => {
-            console.error(`Error creating paragraph ${i + 1} audio:`, err);
-            reject(err);
-          })
-          .run();
-      });
+      // Render narration, background music and mix for this paragraph, avoiding music used by earlier paragraphs
+      const paragraphAudioPath = await renderParagraphAudio(
+        paragraph,
+        metadata,
+        tempDir,
+        i,
+        { ...options, usedMusicTrackIds },
+        selection => {
+          if (selection.track.id) usedMusicTrackIds.push(selection.track.id);
+        }
+      );
 
       // Add paragraph audio to the file list
       allFilePaths.push(paragraphAudioPath);
-
-      // Clean up intermediate files
-      try {
-        unlinkSync(narrationPath);
-        unlinkSync(backgroundMusicPath);
-        unlinkSync(trimmedMusicPath);
-        unlinkSync(volumeAdjustedMusicPath);
-      } catch (err) {
-        console.warn(`Failed to delete some intermediate files: ${err}`);
-      }
     }
 
     // Step 5: Upload each paragraph audio file separately
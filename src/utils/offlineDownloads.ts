@@ -0,0 +1,276 @@
+/**
+ * @file Download manager for offline listening. Downloading a book stores its chapter audio
+ * (the CDN URLs produced by `normalizeR2AudioUrl`), its cover and its book page in the Cache
+ * Storage download cache, and a snapshot of the book with the chapter text in IndexedDB.
+ *
+ * @integration The service worker (public/sw.js) serves the cached files, so the global player
+ * plays downloaded chapters from the cache when offline. The book page falls back to the
+ * snapshot when Firestore cannot be reached, and the `/downloads` page lists and deletes
+ * downloads. Browser-only.
+ */
+import { BookDocument } from '@/firebase/services';
+import { normalizeR2AudioUrl } from '@/components/audio/AudioPlayer';
+
+// Cache Storage cache of downloaded files; must match DOWNLOAD_CACHE in public/sw.js
+export const DOWNLOAD_CACHE = 'tunetalez-downloads-v1';
+
+const OFFLINE_DB_NAME = 'tunetalez-offline';
+const OFFLINE_DB_VERSION = 1;
+const DOWNLOADS_STORE = 'downloads';
+
+// A downloaded chapter
+export interface DownloadedChapter {
+  id?: string;
+  title: string;
+  order: number;
+  audioUrl?: string;  // CDN URL of the cached narration
+  size: number;       // Bytes of narration and text
+}
+
+// A downloaded book, stored in IndexedDB by book ID
+export interface DownloadedBook {
+  bookId: string;
+  book: BookDocument;           // Snapshot of the book with its chapter text, for reading offline
+  coverUrl?: string;            // CDN URL of the cached cover
+  chapters: DownloadedChapter[];
+  cachedUrls: string[];         // Every URL this book stored in the download cache
+  totalSize: number;            // Bytes
+  downloadedAt: number;
+}
+
+export interface DownloadProgress {
+  completed: number;
+  total: number;
+  label: string;  // What is being downloaded
+}
+
+/**
+ * Whether this browser can download books
+ */
+export const isOfflineDownloadSupported = (): boolean =>
+  typeof window !== 'undefined' && 'caches' in window && 'indexedDB' in window;
+
+/**
+ * Registers the service worker that serves downloads offline. Skipped in development,
+ * where cached build assets would get in the way of hot reloading.
+ */
+export const registerServiceWorker = async (): Promise<void> => {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+  if (process.env.NODE_ENV !== 'production') return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (err) {
+    console.error('Error registering service worker:', err);
+  }
+};
+
+/**
+ * Gets the CDN URL of a book cover, as requested by the pages showing it
+ */
+export const getCoverCdnUrl = (thumbnailUrl?: string): string | undefined => {
+  if (!thumbnailUrl) return undefined;
+  return thumbnailUrl.includes('cdn.tunetalez.com')
+    ? thumbnailUrl.split('?')[0]
+    : `https://cdn.tunetalez.com/thumbnails/book/${thumbnailUrl.split('/').pop()?.split('?')[0]}`;
+};
+
+/**
+ * Formats a size in bytes for display (e.g. "12.4 MB")
+ */
+export const formatDownloadSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/**
+ * Opens the offline database, creating its stores on first use
+ */
+const openOfflineDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const database = request.result;
+    if (!database.objectStoreNames.contains(DOWNLOADS_STORE)) {
+      database.createObjectStore(DOWNLOADS_STORE, { keyPath: 'bookId' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs one request against the downloads store
+ * @param mode Transaction mode
+ * @param makeRequest Creates the request from the store
+ * @returns The request result, once the transaction has completed
+ */
+const withDownloadsStore = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openOfflineDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(DOWNLOADS_STORE, mode);
+      const request = makeRequest(transaction.objectStore(DOWNLOADS_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+/**
+ * Fetches a file and stores it in the download cache
+ * @returns Size of the file in bytes
+ */
+const cacheFile = async (cache: Cache, url: string): Promise<number> => {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  await cache.put(url, new Response(blob, {
+    headers: { 'Content-Type': response.headers.get('Content-Type') || blob.type || 'application/octet-stream' }
+  }));
+  return blob.size;
+};
+
+// Get every downloaded book, most recent first
+export const getDownloadedBooks = async (): Promise<DownloadedBook[]> => {
+  try {
+    const downloads = await withDownloadsStore<DownloadedBook[]>('readonly', store => store.getAll());
+    return downloads.sort((a, b) => b.downloadedAt - a.downloadedAt);
+  } catch (error) {
+    console.error('Error getting downloaded books:', error);
+    throw error;
+  }
+};
+
+// Get a downloaded book, or null when it has not been downloaded
+export const getDownloadedBook = async (bookId: string): Promise<DownloadedBook | null> => {
+  try {
+    const download = await withDownloadsStore<DownloadedBook | undefined>('readonly', store => store.get(bookId));
+    return download || null;
+  } catch (error) {
+    console.error('Error getting downloaded book:', error);
+    throw error;
+  }
+};
+
+// Download a book's narration, text and cover for offline listening, replacing an earlier download
+export const downloadBook = async (
+  book: BookDocument,
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<DownloadedBook> => {
+  if (!book.id) throw new Error('Book ID is missing');
+  if (!isOfflineDownloadSupported()) throw new Error('Offline downloads are not supported in this browser');
+
+  const cache = await caches.open(DOWNLOAD_CACHE);
+  const cachedUrls: string[] = [];
+
+  try {
+    const chapters = [...(book.chapters || [])].sort((a, b) => a.order - b.order);
+    const coverUrl = getCoverCdnUrl(book.thumbnailUrl);
+    const pageUrl = `/book/${book.id}/`;
+    const audioUrls = chapters.map(chapter =>
+      chapter.audioUrl && !chapter.audioUrl.startsWith('blob:') ? normalizeR2AudioUrl(chapter.audioUrl) || undefined : undefined
+    );
+    const total = audioUrls.filter(Boolean).length + (coverUrl ? 1 : 0) + 1;
+    let completed = 0;
+
+    const step = async (url: string, label: string): Promise<number> => {
+      onProgress?.({ completed, total, label });
+      const size = await cacheFile(cache, url);
+      cachedUrls.push(url);
+      completed++;
+      return size;
+    };
+
+    // The page itself, so the book opens offline even if it was never visited
+    await step(pageUrl, 'Book page');
+    const coverSize = coverUrl ? await step(coverUrl, 'Cover') : 0;
+
+    const downloadedChapters: DownloadedChapter[] = [];
+    for (let i = 0; i < chapters.length; i++) {
+      const chapter = chapters[i];
+      const audioUrl = audioUrls[i];
+      const audioSize = audioUrl ? await step(audioUrl, chapter.title) : 0;
+      downloadedChapters.push({
+        id: chapter.id,
+        title: chapter.title,
+        order: chapter.order,
+        ...(audioUrl && { audioUrl }),
+        size: audioSize + new Blob([chapter.content || '']).size
+      });
+    }
+
+    const download: DownloadedBook = {
+      bookId: book.id,
+      book,
+      ...(coverUrl && { coverUrl }),
+      chapters: downloadedChapters,
+      cachedUrls,
+      totalSize: coverSize + downloadedChapters.reduce((sum, chapter) => sum + chapter.size, 0)
+        + new Blob([book.content || '']).size,
+      downloadedAt: Date.now()
+    };
+
+    // Files of an earlier download that are no longer part of the book
+    const previous = await getDownloadedBook(book.id);
+    if (previous) {
+      await Promise.all(previous.cachedUrls.filter(url => !cachedUrls.includes(url)).map(url => cache.delete(url)));
+    }
+
+    await withDownloadsStore('readwrite', store => store.put(download));
+    onProgress?.({ completed: total, total, label: 'Done' });
+
+    // Ask the browser not to evict downloads when storage runs low
+    if (navigator.storage?.persist) {
+      navigator.storage.persist().catch(() => undefined);
+    }
+
+    return download;
+  } catch (error) {
+    console.error('Error downloading book:', error);
+    // Leave nothing half-downloaded behind, unless an earlier complete download uses it
+    const previous = await getDownloadedBook(book.id).catch(() => null);
+    await Promise.all(
+      cachedUrls.filter(url => !previous?.cachedUrls.includes(url)).map(url => cache.delete(url))
+    );
+    throw error;
+  }
+};
+
+// Delete a downloaded book and its cached files
+export const deleteDownloadedBook = async (bookId: string): Promise<void> => {
+  try {
+    const download = await getDownloadedBook(bookId);
+    if (download) {
+      const cache = await caches.open(DOWNLOAD_CACHE);
+      await Promise.all(download.cachedUrls.map(url => cache.delete(url)));
+    }
+    await withDownloadsStore('readwrite', store => store.delete(bookId));
+  } catch (error) {
+    console.error('Error deleting downloaded book:', error);
+    throw error;
+  }
+};
+
+// Get how much storage the site uses and may use, in bytes
+export const getOfflineStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (err) {
+    console.error('Error estimating offline storage:', err);
+    return null;
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * @file paragraphAudioCache.ts
+ * @description This file provides a content-addressed cache for generated paragraph narration (TTS) audio.
+ * Each paragraph's audio is stored in R2 under a key derived from a SHA-256 hash of its text, voice, speed and
+ * TTS provider. When a chapter is narrated again, only paragraphs whose text or voice settings changed are
+ * synthesized; unchanged paragraphs are downloaded from the cache and reused when the chapter is stitched.
+ * @integration
+ * This utility is used by the client-side narration components:
+ * - `EnhancedAudioNarrationButton.tsx`: To reuse narration for unchanged paragraphs of a chapter.
+ * - `AudiobookProduction.tsx`: To reuse narration for unchanged paragraphs of an audiobook.
+ * It relies on `uploadFileToR2`, `fileExistsInR2` and `getFileUrlFromR2` from `r2/services.ts`.
+ */
+'use client';
+
+import { uploadFileToR2, fileExistsInR2, getFileUrlFromR2 } from '@/r2/services';
+
+// R2 prefix for cached paragraph audio (under audio-narrations so it is served from the CDN)
+export const PARAGRAPH_AUDIO_CACHE_PREFIX = 'audio-narrations/cache/paragraphs';
+
+// Inputs that determine the generated audio for a paragraph
+export interface ParagraphAudioKey {
+  text: string;
+  voice: string;
+  speed: number;
+  provider: string;
+}
+
+// Result of a cache lookup
+export interface CachedParagraphAudio {
+  blob: Blob;
+  url: string;
+  hash: string;
+  cached: boolean; // True when the audio was reused instead of synthesized
+}
+
+// Audio kept in memory for the session; the least recently used is dropped beyond this size (R2 keeps it all)
+const MAX_SESSION_CACHE_BYTES = 64 * 1024 * 1024;
+
+// Blobs fetched or generated during this session, keyed by hash, least recently used first
+const sessionCache = new Map<string, CachedParagraphAudio>();
+let sessionCacheBytes = 0;
+
+/**
+ * Keeps paragraph audio in the session cache, evicting the least recently used audio beyond MAX_SESSION_CACHE_BYTES
+ * @param result Audio to keep
+ */
+const rememberParagraphAudio = (result: CachedParagraphAudio): void => {
+  const previous = sessionCache.get(result.hash);
+  if (previous) {
+    sessionCache.delete(result.hash);
+    sessionCacheBytes -= previous.blob.size;
+  }
+  sessionCache.set(result.hash, result);
+  sessionCacheBytes += result.blob.size;
+
+  for (const [hash, entry] of sessionCache) {
+    // The audio just added stays, even when larger than the whole cache
+    if (sessionCacheBytes <= MAX_SESSION_CACHE_BYTES || hash === result.hash) break;
+    sessionCache.delete(hash);
+    sessionCacheBytes -= entry.blob.size;
+  }
+};
+
+/**
+ * Computes the content hash for a paragraph's audio
+ * @param key Paragraph text and voice settings
+ * @returns Promise resolving to a hex-encoded SHA-256 hash
+ */
+export const hashParagraphAudioKey = async (key: ParagraphAudioKey): Promise<string> => {
+  // Collapse whitespace so formatting-only edits do not invalidate the cache
+  const normalizedText = key.text.replace(/\s+/g, ' ').trim();
+  const payload = JSON.stringify([normalizedText, key.voice, key.speed, key.provider]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Gets the R2 path for a paragraph audio hash
+ * @param hash Hash from hashParagraphAudioKey
+ * @returns The R2 object path
+ */
+export const getParagraphAudioCachePath = (hash: string): string => `${PARAGRAPH_AUDIO_CACHE_PREFIX}/${hash}.mp3`;
+
+/**
+ * Returns cached audio for a paragraph, or synthesizes and caches it
+ * @param key Paragraph text and voice settings
+ * @param synthesize Function that generates the audio when it is not cached
+ * @returns Promise resolving to the paragraph audio and whether it came from the cache
+ */
+export const getOrCreateParagraphAudio = async (
+  key: ParagraphAudioKey,
+  synthesize: () => Promise<Blob>
+): Promise<CachedParagraphAudio> => {
+  const hash = await hashParagraphAudioKey(key);
+
+  const sessionHit = sessionCache.get(hash);
+  if (sessionHit) {
+    rememberParagraphAudio(sessionHit);
+    return { ...sessionHit, cached: true };
+  }
+
+  const path = getParagraphAudioCachePath(hash);
+
+  // Reuse audio already stored in R2
+  try {
+    if (await fileExistsInR2(path)) {
+      const url = await getFileUrlFromR2(path);
+      const response = await fetch(url);
+      if (response.ok) {
+        const result = { blob: await response.blob(), url, hash, cached: true };
+        rememberParagraphAudio(result);
+        console.log(`Reusing cached paragraph audio: ${path}`);
+        return result;
+      }
+      console.warn(`Cached paragraph audio could not be downloaded (${response.status}), regenerating`);
+    }
+  } catch (error) {
+    console.warn('Error reading paragraph audio cache, regenerating:', error);
+  }
+
+  // Not cached: synthesize and store for next time
+  const blob = await synthesize();
+  let url = '';
+  try {
+    url = await uploadFileToR2(new Blob([blob], { type: 'audio/mpeg' }), path);
+    console.log(`Cached paragraph audio: ${path}`);
+  } catch (error) {
+    // Caching is best-effort; the generated audio is still usable
+    console.error('Error caching paragraph audio:', error);
+  }
+
+  const result = { blob, url, hash, cached: false };
+  rememberParagraphAudio(result);
+  return result;
+};
@@ -0,0 +1,383 @@
+/**
+ * @file paragraphMetadataClassifier.ts
+ * @description This file provides server-side classifiers that turn paragraphs of story text into
+ * `ContentMetadata` (mood, genre, intensity and tempo) together with a confidence score for every field.
+ * Two implementations ship with it:
+ * - An OpenAI classifier that reuses the prompt from `ParagraphMetadataExtractor.ts` and sends paragraphs in batches.
+ * - An offline lexicon classifier that scores keywords, punctuation and sentence length, so local runs work without a network.
+ * Results are cached in memory per paragraph hash so the same text is never classified twice by the same classifier.
+ * @integration
+ * This utility is used by `nodeAudioNarrationService.ts`, whose `extractParagraphMetadata` function drives the
+ * server-side narration routes under `/api/narration`. The extracted mood and intensity decide which background
+ * music is mixed under each paragraph.
+ */
+
+import { createHash } from 'crypto';
+import { ContentMetadata } from '@/services/openai';
+import {
+  PARAGRAPH_METADATA_MODEL,
+  PARAGRAPH_METADATA_SYSTEM_PROMPT
+} from '@/components/book/ParagraphMetadataExtractor';
+
+// Confidence (0-1) for each extracted metadata field
+export interface MetadataConfidence {
+  mood: number;
+  genre: number;
+  intensity: number;
+  tempo: number;
+}
+
+// Paragraph metadata as returned by a classifier
+export interface ClassifiedParagraphMetadata extends ContentMetadata {
+  confidence: MetadataConfidence;
+  classifier: string; // Name of the classifier that produced this result
+}
+
+// A pluggable paragraph classifier
+export interface ParagraphMetadataClassifier {
+  name: string;
+  batchSize: number; // Maximum number of paragraphs sent to classify() at once
+  classify: (paragraphs: string[]) => Promise<ClassifiedParagraphMetadata[]>;
+}
+
+export type ParagraphClassifierName = 'openai' | 'lexicon';
+
+const TEMPOS = ['slow', 'medium', 'fast'];
+const MAX_CACHE_ENTRIES = 1000;
+
+// Mood keywords; the mood names line up with the background music categories
+const MOOD_LEXICON: Record<string, string[]> = {
+  horror: ['blood', 'scream', 'screamed', 'corpse', 'ghost', 'monster', 'dead', 'death', 'terror', 'terrified', 'horrible', 'grave', 'demon', 'nightmare', 'haunted', 'skull'],
+  suspense: ['suddenly', 'footsteps', 'waited', 'silence', 'heart', 'pounding', 'trembled', 'breath', 'danger', 'chase', 'hide', 'hid', 'tense', 'nervous', 'afraid', 'escape'],
+  happy: ['laughed', 'laugh', 'smile', 'smiled', 'joy', 'happy', 'delighted', 'cheerful', 'celebrate', 'party', 'fun', 'bright', 'sunshine', 'giggled', 'excited'],
+  calm: ['quiet', 'gentle', 'softly', 'peaceful', 'calm', 'breeze', 'slowly', 'rest', 'sleep', 'meadow', 'still', 'warm', 'serene', 'morning'],
+  historic: ['king', 'queen', 'empire', 'kingdom', 'ancient', 'century', 'war', 'castle', 'palace', 'temple', 'sword', 'battle', 'dynasty', 'throne'],
+  romantic: ['love', 'loved', 'kiss', 'kissed', 'heartbeat', 'embrace', 'darling', 'beloved', 'romance', 'wedding', 'tender', 'blushed'],
+  mystery: ['clue', 'secret', 'mystery', 'detective', 'strange', 'hidden', 'puzzle', 'unknown', 'wondered', 'missing', 'whisper', 'whispered', 'shadow', 'riddle'],
+  sad: ['tears', 'cried', 'cry', 'sorrow', 'grief', 'lonely', 'alone', 'lost', 'funeral', 'goodbye', 'miss', 'missed', 'weep', 'wept', 'broken']
+};
+
+// Genre keywords
+const GENRE_LEXICON: Record<string, string[]> = {
+  mystery: ['detective', 'clue', 'suspect', 'murder', 'investigate', 'case', 'evidence'],
+  romance: ['love', 'kiss', 'date', 'romance', 'heart', 'wedding', 'beloved'],
+  adventure: ['journey', 'quest', 'explore', 'island', 'treasure', 'map', 'mountain', 'ship'],
+  'sci-fi': ['robot', 'planet', 'spaceship', 'galaxy', 'alien', 'laser', 'future', 'android', 'orbit'],
+  fantasy: ['dragon', 'magic', 'wizard', 'spell', 'fairy', 'elf', 'enchanted', 'witch'],
+  horror: ['ghost', 'demon', 'haunted', 'corpse', 'monster', 'blood'],
+  historical: ['king', 'empire', 'century', 'dynasty', 'kingdom', 'ancient', 'war']
+};
+
+// Words that raise the intensity of a paragraph regardless of mood
+const INTENSITY_WORDS = ['suddenly', 'scream', 'screamed', 'run', 'ran', 'explosion', 'fight', 'attack', 'crash', 'shouted', 'fire', 'blood', 'kill', 'never', 'now'];
+
+// Base intensity (1-10) per mood for the lexicon classifier
+const MOOD_BASE_INTENSITY: Record<string, number> = {
+  horror: 7,
+  suspense: 6,
+  happy: 4,
+  calm: 2,
+  historic: 4,
+  romantic: 4,
+  mystery: 5,
+  sad: 4
+};
+
+// In-memory cache of classified paragraphs keyed by paragraph hash
+const metadataCache = new Map<string, ClassifiedParagraphMetadata>();
+
+/**
+ * Builds the cache key for a paragraph
+ * @param text The paragraph text
+ * @param classifierName Name of the classifier the result belongs to
+ * @returns SHA-256 hash of the classifier name and the normalized text
+ */
+export const hashParagraph = (text: string, classifierName: string): string => {
+  const normalized = text.replace(/\s+/g, ' ').trim().toLowerCase();
+  return createHash('sha256').update(`${classifierName}\n${normalized}`).digest('hex');
+};
+
+/**
+ * Clears the in-memory paragraph metadata cache
+ */
+export const clearParagraphMetadataCache = (): void => {
+  metadataCache.clear();
+};
+
+// Clamp a number into the given range
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// Round a confidence score to two decimals
+const roundConfidence = (value: number): number => Math.round(clamp(value, 0, 1) * 100) / 100;
+
+// Split text into lowercase word tokens
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[a-z']+/g) || [];
+
+/**
+ * Scores tokens against a lexicon
+ * @param tokens Lowercase tokens of the paragraph
+ * @param lexicon Map of label to keywords
+ * @returns The best label, its hit count and the total number of hits across all labels
+ */
+const scoreLexicon = (
+  tokens: string[],
+  lexicon: Record<string, string[]>
+): { label: string | null; hits: number; totalHits: number } => {
+  let label: string | null = null;
+  let hits = 0;
+  let totalHits = 0;
+
+  for (const [candidate, keywords] of Object.entries(lexicon)) {
+    const candidateHits = tokens.filter(token => keywords.includes(token)).length;
+    totalHits += candidateHits;
+    if (candidateHits > hits) {
+      hits = candidateHits;
+      label = candidate;
+    }
+  }
+
+  return { label, hits, totalHits };
+};
+
+/**
+ * Classifies a single paragraph using keyword lexicons, punctuation and sentence length
+ * @param text The paragraph text
+ * @returns Classified metadata with confidence scores
+ */
+const classifyWithLexicon = (text: string): ClassifiedParagraphMetadata => {
+  const tokens = tokenize(text);
+  const mood = scoreLexicon(tokens, MOOD_LEXICON);
+  const genre = scoreLexicon(tokens, GENRE_LEXICON);
+
+  const moodLabel = mood.label || 'calm';
+  const genreLabel = genre.label || 'fiction';
+
+  // Intensity: mood baseline, raised by exclamations and action words
+  const exclamations = (text.match(/!/g) || []).length;
+  const intensityHits = tokens.filter(token => INTENSITY_WORDS.includes(token)).length;
+  const intensity = Math.round(clamp(
+    (MOOD_BASE_INTENSITY[moodLabel] || 4) + Math.min(exclamations, 3) + Math.min(intensityHits, 3),
+    1,
+    10
+  ));
+
+  // Tempo: short sentences and high intensity read faster, long sentences slower
+  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
+  const averageSentenceLength = sentences.length > 0 ? tokens.length / sentences.length : tokens.length;
+  let tempo = 'medium';
+  if (intensity >= 8 || averageSentenceLength < 8) {
+    tempo = 'fast';
+  } else if (intensity <= 3 || averageSentenceLength > 22) {
+    tempo = 'slow';
+  }
+
+  // Confidence grows with the share of hits the winning label took and with the number of hits
+  const moodConfidence = mood.hits === 0 ? 0.2 : (mood.hits / mood.totalHits) * Math.min(1, 0.4 + mood.hits * 0.15);
+  const genreConfidence = genre.hits === 0 ? 0.2 : (genre.hits / genre.totalHits) * Math.min(1, 0.4 + genre.hits * 0.15);
+  const intensityConfidence = 0.3 + Math.min(0.4, (exclamations + intensityHits + mood.hits) * 0.08);
+  const tempoConfidence = sentences.length >= 3 ? 0.6 : 0.4;
+
+  return {
+    mood: moodLabel,
+    genre: genreLabel,
+    intensity,
+    tempo,
+    confidence: {
+      mood: roundConfidence(moodConfidence),
+      genre: roundConfidence(genreConfidence),
+      intensity: roundConfidence(intensityConfidence),
+      tempo: roundConfidence(tempoConfidence)
+    },
+    classifier: 'lexicon'
+  };
+};
+
+/**
+ * Creates the offline keyword/lexicon classifier
+ * @returns A classifier that never touches the network
+ */
+export const createLexiconParagraphClassifier = (): ParagraphMetadataClassifier => ({
+  name: 'lexicon',
+  batchSize: 100,
+  classify: async (paragraphs: string[]) => paragraphs.map(classifyWithLexicon)
+});
+
+// Shape of a single metadata entry as parsed from the model response
+type RawModelMetadata = Partial<Omit<ContentMetadata, 'intensity'>> & {
+  intensity?: number | string;
+  confidence?: Partial<MetadataConfidence>;
+};
+
+/**
+ * Normalizes a raw metadata object returned by the model
+ * @param raw The raw object parsed from the model response
+ * @returns Classified metadata with clamped values and default confidences
+ */
+const normalizeModelMetadata = (raw: RawModelMetadata): ClassifiedParagraphMetadata => {
+  const confidence: Partial<MetadataConfidence> = raw?.confidence || {};
+  const tempo = typeof raw?.tempo === 'string' && TEMPOS.includes(raw.tempo.toLowerCase())
+    ? raw.tempo.toLowerCase()
+    : 'medium';
+  const intensity = Number(raw?.intensity);
+
+  return {
+    mood: typeof raw?.mood === 'string' && raw.mood.trim() ? raw.mood.trim().toLowerCase() : 'neutral',
+    genre: typeof raw?.genre === 'string' && raw.genre.trim() ? raw.genre.trim().toLowerCase() : 'fiction',
+    intensity: Number.isFinite(intensity) ? Math.round(clamp(intensity, 1, 10)) : 5,
+    tempo,
+    confidence: {
+      mood: roundConfidence(Number(confidence.mood ?? 0.5)),
+      genre: roundConfidence(Number(confidence.genre ?? 0.5)),
+      intensity: roundConfidence(Number(confidence.intensity ?? 0.5)),
+      tempo: roundConfidence(Number(confidence.tempo ?? 0.5))
+    },
+    classifier: 'openai'
+  };
+};
+
+/**
+ * Creates a classifier that calls the OpenAI chat completions API directly.
+ * Paragraphs are sent in batches and the model is asked for one metadata object per paragraph.
+ * @param apiKey OpenAI API key (defaults to the server environment)
+ * @param batchSize Number of paragraphs classified per request
+ * @returns The OpenAI-backed classifier
+ */
+export const createOpenAIParagraphClassifier = (
+  apiKey: string = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY || '',
+  batchSize: number = 10
+): ParagraphMetadataClassifier => ({
+  name: 'openai',
+  batchSize,
+  classify: async (paragraphs: string[]) => {
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    // Extend the shared prompt so the model answers for a whole batch at once
+    const systemPrompt = `${PARAGRAPH_METADATA_SYSTEM_PROMPT}
+      You will receive a JSON array of paragraphs instead of a single paragraph.
+      Return a JSON object of the form { "paragraphs": [ ... ] } with exactly one entry per paragraph, in the same order.
+      Each entry has the fields above plus "confidence": an object with "mood", "genre", "intensity" and "tempo",
+      each a number from 0 to 1 describing how certain you are about that field.
+    `;
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: PARAGRAPH_METADATA_MODEL,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `Analyze these paragraphs: ${JSON.stringify(paragraphs)}` }
+        ],
+        temperature: 0.3, // Lower temperature for more consistent results
+        max_tokens: 150 * paragraphs.length + 100,
+        response_format: { type: 'json_object' }
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({})) as { error?: { message?: string } };
+      throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
+    }
+
+    const data = await response.json() as { choices: { message: { content: string } }[] };
+    const parsed = JSON.parse(data.choices[0].message.content) as { paragraphs?: RawModelMetadata[] };
+    const results = Array.isArray(parsed?.paragraphs) ? parsed.paragraphs : [];
+
+    if (results.length !== paragraphs.length) {
+      throw new Error(`Expected metadata for ${paragraphs.length} paragraphs but received ${results.length}`);
+    }
+
+    return results.map(normalizeModelMetadata);
+  }
+});
+
+/**
+ * Returns a classifier by name. Without a name, the `PARAGRAPH_METADATA_CLASSIFIER` environment
+ * variable decides, and otherwise OpenAI is used when an API key is configured.
+ * @param name Optional classifier name
+ * @returns The selected classifier
+ */
+export const getParagraphClassifier = (name?: ParagraphClassifierName | string): ParagraphMetadataClassifier => {
+  const selected = name || process.env.PARAGRAPH_METADATA_CLASSIFIER;
+
+  if (selected === 'lexicon') {
+    return createLexiconParagraphClassifier();
+  }
+
+  if (selected === 'openai' || process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY) {
+    return createOpenAIParagraphClassifier();
+  }
+
+  return createLexiconParagraphClassifier();
+};
+
+/**
+ * Classifies paragraphs with caching and batching. Cached paragraphs are returned without
+ * calling the classifier; a batch that fails is classified with the lexicon classifier instead.
+ * @param paragraphs Array of paragraph texts
+ * @param classifier The classifier to use
+ * @returns Promise resolving to metadata for each paragraph, in order
+ */
+export const classifyParagraphs = async (
+  paragraphs: string[],
+  classifier: ParagraphMetadataClassifier = getParagraphClassifier()
+): Promise<ClassifiedParagraphMetadata[]> => {
+  const results: ClassifiedParagraphMetadata[] = new Array(paragraphs.length);
+  const keys = paragraphs.map(paragraph => hashParagraph(paragraph, classifier.name));
+
+  // Collect uncached paragraphs, classifying duplicates only once
+  const pending: number[] = [];
+  const queued = new Set<string>();
+  keys.forEach((key, index) => {
+    const cached = metadataCache.get(key);
+    if (cached) {
+      results[index] = cached;
+    } else if (!queued.has(key)) {
+      queued.add(key);
+      pending.push(index);
+    }
+  });
+
+  console.log(`Classifying ${pending.length} of ${paragraphs.length} paragraphs with ${classifier.name} classifier`);
+
+  const batchSize = Math.max(1, classifier.batchSize);
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize);
+    const texts = batch.map(index => paragraphs[index]);
+
+    let classified: ClassifiedParagraphMetadata[];
+    try {
+      classified = await classifier.classify(texts);
+    } catch (error) {
+      console.error(`Error classifying paragraphs with ${classifier.name}, falling back to lexicon:`, error);
+      classified = texts.map(classifyWithLexicon);
+    }
+
+    batch.forEach((index, i) => {
+      // Only cache results that came from the requested classifier
+      if (classified[i].classifier === classifier.name) {
+        if (metadataCache.size >= MAX_CACHE_ENTRIES) {
+          const oldestKey = metadataCache.keys().next().value;
+          if (oldestKey) metadataCache.delete(oldestKey);
+        }
+        metadataCache.set(keys[index], classified[i]);
+      }
+      results[index] = classified[i];
+    });
+  }
+
+  // Fill in duplicates of paragraphs classified above
+  keys.forEach((key, index) => {
+    if (!results[index]) {
+      const firstIndex = keys.indexOf(key);
+      results[index] = metadataCache.get(key) || results[firstIndex];
+    }
+  });
+
+  return results;
+};
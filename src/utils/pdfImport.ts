@@ -0,0 +1,371 @@
+/**
+ * @file pdfImport.ts
+ * @description This file turns a PDF into the parts of a book, like `bookImport` does for EPUB and DOCX files.
+ * PDFs have no paragraphs or headings, only positioned runs of text, so the structure is rebuilt from the layout:
+ * runs on the same baseline form lines; lines repeated at the top or bottom of several pages (running headers and
+ * footers) and page numbers are dropped; lines are joined into paragraphs at wider gaps, indents and short sentence
+ * ends, rejoining words hyphenated at a line break; and lines set larger than the body text, or reading like
+ * "Chapter 3", become headings. Chapters start at the top-level headings; a PDF without any is cut into parts of
+ * about ten pages. Scanned PDFs without a text layer give no text and are refused.
+ * @integration `BookImport` converts an uploaded `PdfDocument` with `importPdfBook` and previews the result before
+ * `createBook`. The PDF is read with pdfjs-dist in its worker; the first page is rendered as a cover.
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { ImportedBook, ImportedChapter } from './bookImport';
+
+// A line of text on a page, in PDF units with y growing upwards
+export interface PdfLine {
+  text: string;
+  x: number;        // Left edge
+  y: number;        // Baseline
+  width: number;
+  fontSize: number;
+}
+
+// The text of a page, lines from top to bottom
+export interface PdfPageText {
+  pageNumber: number; // 1-based
+  height: number;
+  lines: PdfLine[];
+}
+
+// A paragraph or heading rebuilt from lines
+interface PdfBlock {
+  text: string;
+  pageNumber: number; // Page the block starts on
+  heading: boolean;
+  chapterStart: boolean;
+  fontSize: number;
+}
+
+// Lines checked for running headers and footers and page numbers at each end of a page
+const EDGE_LINES = 2;
+// Pages per part when a PDF has no chapter headings
+const PAGES_PER_PART = 10;
+// Longest line read as a heading
+const MAX_HEADING_LENGTH = 80;
+
+const CHAPTER_PATTERN = /^(chapter|part|book)\s+([0-9]+|[ivxlcdm]+|[a-z]+(-[a-z]+)?)\b/i;
+const SECTION_PATTERN = /^(prologue|epilogue|preface|foreword|introduction|afterword|acknowledge?ments|appendix)\b/i;
+const PAGE_NUMBER_PATTERN = /^[-–—\s]*(page\s+)?(\d{1,4}|[ivxlcdm]{1,7})(\s*(of|\/)\s*\d{1,4})?[-–—\s]*$/i;
+const SENTENCE_END_PATTERN = /[.!?…:]["'”’)\]]*$/;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const collapseSpaces = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Finds the most common value, each value weighted, rounded to half units
+ */
+const weightedMode = (entries: { value: number; weight: number }[]): number => {
+  const weights = new Map<number, number>();
+  entries.forEach(({ value, weight }) => {
+    const rounded = Math.round(value * 2) / 2;
+    weights.set(rounded, (weights.get(rounded) || 0) + weight);
+  });
+
+  let mode = 0;
+  let best = -1;
+  weights.forEach((weight, value) => {
+    if (weight > best) {
+      mode = value;
+      best = weight;
+    }
+  });
+  return mode;
+};
+
+/**
+ * Reads the lines of a page, grouping its runs of text by baseline
+ */
+const readPageText = async (page: PDFPageProxy): Promise<PdfPageText> => {
+  const content = await page.getTextContent();
+  const runs = content.items
+    .filter(item => 'str' in item && item.str.trim() && item.dir !== 'ttb')
+    .map(item => {
+      const run = item as { str: string; transform: number[]; width: number; height: number };
+      return {
+        text: run.str,
+        x: run.transform[4],
+        y: run.transform[5],
+        width: run.width,
+        fontSize: Math.hypot(run.transform[2], run.transform[3]) || run.height
+      };
+    })
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: (PdfLine & { right: number })[] = [];
+  for (const run of runs) {
+    const current = lines[lines.length - 1];
+    if (current && Math.abs(current.y - run.y) < Math.max(current.fontSize, run.fontSize) * 0.5) {
+      // Runs are split at font changes and sometimes between words without a space run
+      const gap = run.x - current.right;
+      const needsSpace = gap > run.fontSize * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(run.text);
+      current.text += (needsSpace ? ' ' : '') + run.text;
+      current.right = Math.max(current.right, run.x + run.width);
+      current.fontSize = Math.max(current.fontSize, run.fontSize);
+    } else {
+      lines.push({ ...run, right: run.x + run.width });
+    }
+  }
+
+  return {
+    pageNumber: page.pageNumber,
+    height: page.view[3] - page.view[1],
+    lines: lines
+      .map(({ right, ...line }) => ({ ...line, text: collapseSpaces(line.text), width: right - line.x }))
+      .filter(line => line.text)
+  };
+};
+
+/**
+ * Renders the first page as a JPEG, to stand in for a cover
+ */
+const renderCover = async (pdf: PDFDocumentProxy, fileName: string): Promise<File | null> => {
+  const page = await pdf.getPage(1);
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: 720 / unscaled.width });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+  return blob ? new File([blob], `${fileName.replace(/\.pdf$/i, '')}_cover.jpg`, { type: 'image/jpeg' }) : null;
+};
+
+/**
+ * Finds the font size of the body text, the size most characters are set in
+ */
+export const getBodyFontSize = (pages: PdfPageText[]): number =>
+  weightedMode(pages.flatMap(page => page.lines.map(line => ({ value: line.fontSize, weight: line.text.length }))));
+
+/**
+ * Drops running headers and footers and page numbers. A line at either end of a page is a running header or
+ * footer when a line at the end of other pages reads the same, numbers aside ("12 | Title" and "13 | Title")
+ */
+export const stripRunningLines = (pages: PdfPageText[]): PdfPageText[] => {
+  const edgeKey = (line: PdfLine) => line.text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+  const isEdge = (page: PdfPageText, index: number) => index < EDGE_LINES || index >= page.lines.length - EDGE_LINES;
+
+  // Pages each edge text appears on
+  const pageCounts = new Map<string, number>();
+  pages.forEach(page => {
+    new Set(page.lines.filter((line, index) => isEdge(page, index)).map(edgeKey)).forEach(key => {
+      pageCounts.set(key, (pageCounts.get(key) || 0) + 1);
+    });
+  });
+
+  // Short PDFs repeat headers fewer times; a single page has none to compare
+  const minRepeats = Math.max(2, Math.min(3, Math.ceil(pages.length / 2)));
+  const bodySize = getBodyFontSize(pages);
+
+  return pages.map(page => ({
+    ...page,
+    lines: page.lines.filter((line, index) => {
+      if (!isEdge(page, index)) return true;
+      if ((pageCounts.get(edgeKey(line)) || 0) >= minRepeats) return false;
+      // A number set larger than the text is a chapter number rather than a page number
+      return !(PAGE_NUMBER_PATTERN.test(line.text) && line.fontSize <= bodySize * 1.15);
+    })
+  }));
+};
+
+/**
+ * Joins lines into paragraphs and headings
+ */
+const collectBlocks = (pages: PdfPageText[]): PdfBlock[] => {
+  const bodySize = getBodyFontSize(pages);
+  const isBody = (line: PdfLine) => Math.abs(line.fontSize - bodySize) <= bodySize * 0.1;
+  const bodyLines = pages.flatMap(page => page.lines.filter(isBody));
+
+  // Spacing between the lines of a paragraph and the width of a full line
+  const lineSpacing = median(pages.flatMap(page =>
+    page.lines.slice(1)
+      .map((line, index) => ({ gap: page.lines[index].y - line.y, body: isBody(line) && isBody(page.lines[index]) }))
+      .filter(({ gap, body }) => body && gap > 0)
+      .map(({ gap }) => gap)
+  )) || bodySize * 1.2;
+  const fullWidth = median(bodyLines.map(line => line.width).filter(width => width > bodySize * 10));
+
+  const isHeadingLine = (line: PdfLine) =>
+    line.text.length <= MAX_HEADING_LENGTH
+    && !/[,;]$/.test(line.text)
+    && (line.fontSize >= bodySize * 1.25 || CHAPTER_PATTERN.test(line.text) || SECTION_PATTERN.test(line.text));
+
+  const blocks: PdfBlock[] = [];
+  let previous: { line: PdfLine; pageNumber: number } | null = null;
+
+  pages.forEach(page => {
+    // Left margin of the page; odd and even pages often differ
+    const left = weightedMode(page.lines.filter(isBody).map(line => ({ value: line.x, weight: 1 })));
+
+    page.lines.forEach((line, index) => {
+      const last = blocks[blocks.length - 1];
+      const samePage = previous?.pageNumber === page.pageNumber;
+      const gap = samePage && previous ? previous.line.y - line.y : 0;
+      const startsBlock = !previous || !last
+        || (samePage && gap > lineSpacing * 1.5)
+        // A first-line indent
+        || (isBody(line) && line.x > left + bodySize)
+        // A short line ending a sentence ends its paragraph, on this page or the one before
+        || (SENTENCE_END_PATTERN.test(previous.line.text) && previous.line.width < fullWidth * 0.85)
+        || (!samePage && SENTENCE_END_PATTERN.test(previous.line.text) && !/^[a-zß-ÿ]/.test(line.text));
+      const heading = isHeadingLine(line) && (startsBlock || index === 0 || last?.heading === true);
+
+      if (heading && last?.heading && (samePage ? gap <= lineSpacing * 3 : index === 0)) {
+        // A heading over two lines, or a number over its title
+        last.text = CHAPTER_PATTERN.test(last.text) && !CHAPTER_PATTERN.test(line.text) && !last.text.includes(':')
+          ? `${last.text}: ${line.text}`
+          : `${last.text} ${line.text}`;
+        last.fontSize = Math.max(last.fontSize, line.fontSize);
+      } else if (heading || startsBlock || last.heading) {
+        blocks.push({ text: line.text, pageNumber: page.pageNumber, heading, chapterStart: false, fontSize: line.fontSize });
+      } else if (/[A-Za-zÀ-ÿ]-$/.test(last.text) && /^[a-zß-ÿ]/.test(line.text)) {
+        // A word hyphenated at the end of the line
+        last.text = last.text.slice(0, -1) + line.text;
+      } else {
+        last.text += ` ${line.text}`;
+      }
+
+      previous = { line, pageNumber: page.pageNumber };
+    });
+  });
+
+  return blocks;
+};
+
+/**
+ * Marks the headings chapters start at: those reading like "Chapter 3" when there are several, otherwise those
+ * in the largest size used for more than one heading (the title page is usually larger still)
+ */
+const markChapterStarts = (blocks: PdfBlock[]) => {
+  const headings = blocks.filter(block => block.heading);
+  const named = headings.filter(block => CHAPTER_PATTERN.test(block.text) || SECTION_PATTERN.test(block.text));
+  if (named.filter(block => CHAPTER_PATTERN.test(block.text)).length >= 2) {
+    named.forEach(block => {
+      block.chapterStart = true;
+    });
+    return;
+  }
+
+  const sizeCounts = new Map<number, number>();
+  headings.forEach(block => {
+    const size = Math.round(block.fontSize);
+    sizeCounts.set(size, (sizeCounts.get(size) || 0) + 1);
+  });
+  const chapterSize = Math.max(...Array.from(sizeCounts.entries()).filter(([, count]) => count >= 2).map(([size]) => size));
+  if (!Number.isFinite(chapterSize)) return;
+
+  headings.forEach(block => {
+    block.chapterStart = Math.round(block.fontSize) >= chapterSize;
+  });
+};
+
+/**
+ * Turns blocks into chapters; what comes before the first chapter heading is kept as front matter
+ */
+const toChapters = (blocks: PdfBlock[]): ImportedChapter[] => {
+  const toHtml = (block: PdfBlock) => (block.heading ? `<h3>${escapeHtml(block.text)}</h3>` : `<p>${escapeHtml(block.text)}</p>`);
+  const sections: { title: string; blocks: PdfBlock[] }[] = [];
+
+  if (blocks.some(block => block.chapterStart)) {
+    sections.push({ title: 'Front Matter', blocks: [] });
+    blocks.forEach(block => {
+      if (block.chapterStart) {
+        sections.push({ title: block.text, blocks: [] });
+      } else {
+        sections[sections.length - 1].blocks.push(block);
+      }
+    });
+  } else {
+    // Parts of about ten pages, cut between paragraphs
+    blocks.forEach(block => {
+      const section = sections[sections.length - 1];
+      if (!section || block.pageNumber >= section.blocks[0].pageNumber + PAGES_PER_PART) {
+        sections.push({ title: '', blocks: [block] });
+      } else {
+        section.blocks.push(block);
+      }
+    });
+    sections.forEach(section => {
+      const first = section.blocks[0].pageNumber;
+      const last = section.blocks[section.blocks.length - 1].pageNumber;
+      section.title = first === last ? `Page ${first}` : `Pages ${first}–${last}`;
+    });
+  }
+
+  return sections
+    .filter(section => section.blocks.some(block => !block.heading))
+    .map(section => ({ title: section.title, content: section.blocks.map(toHtml).join('') }));
+};
+
+/**
+ * Rebuilds the chapters of a PDF from the text of its pages
+ */
+export const buildPdfChapters = (pages: PdfPageText[]): ImportedChapter[] => {
+  const blocks = collectBlocks(stripRunningLines(pages));
+  markChapterStarts(blocks);
+  return toChapters(blocks);
+};
+
+/**
+ * Reads a book from a PDF
+ * @param url Where the PDF is served from; it is fetched by the pdfjs worker, so it must allow this site (see cors.json)
+ * @param fileName Name of the PDF, to title the book when its metadata has no title
+ * @param onProgress Called after each page is read
+ * @returns The book; the cover is the first page
+ * @throws When the PDF cannot be read or has no text layer
+ */
+export const importPdfBook = async (
+  url: string,
+  fileName: string,
+  onProgress?: (pagesRead: number, pageCount: number) => void
+): Promise<ImportedBook> => {
+  // Loaded on demand: pdfjs is large and only works in the browser
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+
+  const pdf = await pdfjs.getDocument({ url }).promise;
+  try {
+    const pages: PdfPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      pages.push(await readPageText(page));
+      page.cleanup();
+      onProgress?.(pageNumber, pdf.numPages);
+    }
+
+    const chapters = buildPdfChapters(pages);
+    if (chapters.length === 0) {
+      throw new Error('No text was found in the PDF. Scanned PDFs need text recognition (OCR) first');
+    }
+
+    const { info } = await pdf.getMetadata();
+    const metadata = info as Record<string, unknown>;
+    const readField = (name: string) => (typeof metadata[name] === 'string' ? collapseSpaces(metadata[name] as string) : '');
+
+    return {
+      format: 'pdf',
+      title: readField('Title') || fileName.replace(/\.pdf$/i, ''),
+      author: readField('Author'),
+      description: readField('Subject'),
+      tags: readField('Keywords').split(/[,;]/).map(tag => tag.trim()).filter(Boolean),
+      cover: await renderCover(pdf, fileName).catch(() => null),
+      chapters
+    };
+  } finally {
+    await pdf.destroy();
+  }
+};
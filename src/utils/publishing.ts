@@ -0,0 +1,65 @@
+/**
+ * @file publishing.ts
+ * @description This file decides what readers may see under the publishing lifecycle of books and chapters:
+ * - draft: being written, only its author and admins see it,
+ * - inReview: submitted by its author, waiting for an admin to publish or schedule it,
+ * - scheduled: goes public by itself at `publishAt`,
+ * - published: public.
+ * Books saved before the lifecycle existed have no status and count as published. A chapter without a status
+ * is public whenever its book is, so the chapters written while a book is a draft go live with it; chapters
+ * added to a published book start as drafts.
+ * @integration `getBookPage`, `getPublishedBooks` (search and recommendations), collection pages and the book
+ * and read pages hide what is not public from readers. `PublishStatusBadge` and `PublishControls` show and
+ * change the status for authors and admins. This module only imports types so it can be used on both sides.
+ */
+
+import type { BookDocument, Chapter, PublishStatus } from '@/firebase/services';
+
+// Anything with a lifecycle: a book, a chapter or a book summary
+export type Publishable = Pick<BookDocument, 'status' | 'publishAt'>;
+
+export const PUBLISH_STATUS_LABELS: Record<PublishStatus, string> = {
+  draft: 'Draft',
+  inReview: 'In review',
+  scheduled: 'Scheduled',
+  published: 'Published'
+};
+
+/**
+ * Gets the status readers experience, counting scheduled items whose time has come as published
+ * @param item Book or chapter
+ * @param now Current time in milliseconds
+ */
+export const getEffectiveStatus = (item: Publishable, now: number = Date.now()): PublishStatus => {
+  if (!item.status) return 'published';
+  if (item.status === 'scheduled' && (item.publishAt || 0) <= now) return 'published';
+  return item.status;
+};
+
+/**
+ * Tells whether readers may see a book or chapter
+ */
+export const isPublished = (item: Publishable, now: number = Date.now()): boolean =>
+  getEffectiveStatus(item, now) === 'published';
+
+/**
+ * Gets the chapters of a book readers may see (the book itself must be published too)
+ */
+export const getPublishedChapters = (book: Pick<BookDocument, 'chapters'>, now: number = Date.now()): Chapter[] =>
+  (book.chapters || []).filter(chapter => isPublished(chapter, now));
+
+/**
+ * Gets a book as readers see it
+ * @returns The book with its public chapters only, or null when the book is not public
+ */
+export const getReaderView = (book: BookDocument, now: number = Date.now()): BookDocument | null =>
+  isPublished(book, now) ? { ...book, chapters: getPublishedChapters(book, now) } : null;
+
+/**
+ * Tells whether a user may see a book's unpublished content and change its status
+ * @param book Book
+ * @param userId Signed-in user, if any
+ * @param isAdmin Whether the user is an admin
+ */
+export const canManageBook = (book: Pick<BookDocument, 'authorId'>, userId: string | undefined, isAdmin: boolean): boolean =>
+  isAdmin || (!!userId && book.authorId === userId);
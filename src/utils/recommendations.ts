@@ -0,0 +1,352 @@
+/**
+ * @file recommendations.ts
+ * @description This file implements book recommendations from two signals, without external ML services:
+ * - content similarity: cosine similarity of the books' tags, author and the moods and genres of their
+ *   chapters (`episodeMetadata`), with features shared by many books counting less (IDF),
+ * - co-likes: readers who liked, saved or listened to one book and also another ("readers who liked X also
+ *   liked Y"), as a cosine similarity over readers, damped while few readers share both books.
+ * The two are blended into one similarity between books. "More like this" lists the books most similar to
+ * one book; a reader's recommendations add up the similarities to the books they engaged with, recent
+ * engagement and likes counting most, and leave out books they already know.
+ * @integration Co-likes are computed over every reader at once, so `/api/recommendations` precomputes them on
+ * request of an admin (`computeCoLikes`) and saves them per book. The route builds the model from
+ * `getPublishedBooks({ withChapters: true })` and those co-likes, keeps it in memory and rebuilds it
+ * periodically; a reader's own signals are read on each request. The "Because you liked..." rails on the
+ * homepage and the "More like this" rail on the book page render the results. This module only imports types so it can be used on both sides.
+ */
+
+import type { BookDocument } from '@/firebase/services';
+
+// What a reader did with a book, from the 'likes', 'bookmarks' and 'progress' collections
+export type TasteSignalKind = 'like' | 'save' | 'listen';
+
+export interface TasteSignal {
+  userId: string;
+  bookId: string;
+  kind: TasteSignalKind;
+  createdAt: number; // When the reader liked or saved the book, or last listened to it
+}
+
+export interface RecommendedBook {
+  id: string;
+  title: string;
+  author: string;
+  thumbnailUrl: string;
+  tags: string[];
+  score: number;
+  reason: string; // Why the book is recommended, e.g. 'Readers who liked "Dune" also liked this'
+}
+
+// A "Because you liked..." rail
+export interface BecauseYouLikedRail {
+  seed: { id: string; title: string }; // The book the reader liked
+  books: RecommendedBook[];
+}
+
+export interface UserRecommendations {
+  forYou: RecommendedBook[];                // Blended over everything the reader engaged with
+  becauseYouLiked: BecauseYouLikedRail[];   // One rail per recently liked book
+}
+
+export interface RecommendationOptions {
+  limit?: number;  // Books per list, default 10
+}
+
+interface ModelBook {
+  book: BookDocument;
+  features: Map<string, number>; // Unit-length feature vector
+}
+
+export interface RecommendationModel {
+  builtAt: number;
+  books: Map<string, ModelBook>;
+  coLikes: CoLikes;
+}
+
+// Co-like similarity between two books, both directions
+export type CoLikes = Map<string, Map<string, number>>;
+
+// How much each kind of engagement says about a reader's taste
+const SIGNAL_WEIGHTS: Record<TasteSignalKind, number> = {
+  like: 1,
+  save: 0.8,
+  listen: 0.5
+};
+
+// Blend of the two similarities
+const CONTENT_WEIGHT = 0.6;
+const CO_LIKE_WEIGHT = 0.4;
+
+// Co-like similarity is multiplied by shared / (shared + damping), so one shared reader counts little
+const CO_LIKE_DAMPING = 2;
+// Only a reader's most recent books add co-likes, which bounds the pairs counted for heavy readers
+const MAX_BOOKS_PER_READER = 100;
+
+const AUTHOR_FEATURE_WEIGHT = 0.5;
+// Each further (older) engagement of a reader counts this much less than the one before
+const RECENCY_DECAY = 0.9;
+// Engagements considered for a reader's recommendations
+const MAX_SEED_BOOKS = 30;
+const MAX_BECAUSE_YOU_LIKED_RAILS = 2;
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Normalizes a tag, mood or genre for comparison
+ */
+const normalizeFeature = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Gets the raw features of a book: tags, author, and the share of chapters in each mood and genre
+ */
+const getBookFeatures = (book: BookDocument): Map<string, number> => {
+  const features = new Map<string, number>();
+  (book.tags || []).forEach(tag => {
+    if (tag.trim()) features.set(`tag:${normalizeFeature(tag)}`, 1);
+  });
+  if (book.authorId) features.set(`author:${book.authorId}`, AUTHOR_FEATURE_WEIGHT);
+
+  const chapters = book.chapters || [];
+  chapters.forEach(chapter => {
+    const { mood, genre } = chapter.episodeMetadata || {};
+    [mood && `mood:${normalizeFeature(mood)}`, genre && `genre:${normalizeFeature(genre)}`].forEach(feature => {
+      if (feature) features.set(feature, (features.get(feature) || 0) + 1 / chapters.length);
+    });
+  });
+  return features;
+};
+
+/**
+ * Dot product of two sparse vectors
+ */
+const dotProduct = (a: Map<string, number>, b: Map<string, number>): number => {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  smaller.forEach((value, key) => {
+    sum += value * (larger.get(key) || 0);
+  });
+  return sum;
+};
+
+/**
+ * Keeps the strongest engagement of each reader with each book, most recent books first
+ */
+const groupSignalsByUser = (signals: TasteSignal[], bookIds: Set<string>): Map<string, TasteSignal[]> => {
+  const strongest = new Map<string, TasteSignal>();
+  signals.forEach(signal => {
+    if (!bookIds.has(signal.bookId)) return;
+    const key = `${signal.userId}_${signal.bookId}`;
+    const current = strongest.get(key);
+    if (!current || SIGNAL_WEIGHTS[signal.kind] > SIGNAL_WEIGHTS[current.kind] ||
+        (signal.kind === current.kind && signal.createdAt > current.createdAt)) {
+      strongest.set(key, signal);
+    }
+  });
+
+  const signalsByUser = new Map<string, TasteSignal[]>();
+  strongest.forEach(signal => {
+    signalsByUser.set(signal.userId, [...(signalsByUser.get(signal.userId) || []), signal]);
+  });
+  signalsByUser.forEach(userSignals => userSignals.sort((a, b) => b.createdAt - a.createdAt));
+  return signalsByUser;
+};
+
+/**
+ * Computes the co-like similarity between every pair of books two readers or more engaged with
+ * @param signals Likes, saves and listening of every reader
+ * @param bookIds Books of the catalog; engagement with other books is ignored
+ */
+export const computeCoLikes = (signals: TasteSignal[], bookIds: Set<string>): CoLikes => {
+  const signalsByUser = groupSignalsByUser(signals, bookIds);
+  const pairWeights = new Map<string, Map<string, { weight: number; readers: number }>>();
+  const bookNorms = new Map<string, number>();
+
+  signalsByUser.forEach(userSignals => {
+    const recent = userSignals.slice(0, MAX_BOOKS_PER_READER);
+    recent.forEach(({ bookId, kind }) => {
+      bookNorms.set(bookId, (bookNorms.get(bookId) || 0) + SIGNAL_WEIGHTS[kind] ** 2);
+    });
+    for (let i = 0; i < recent.length; i++) {
+      for (let j = i + 1; j < recent.length; j++) {
+        const weight = SIGNAL_WEIGHTS[recent[i].kind] * SIGNAL_WEIGHTS[recent[j].kind];
+        [[recent[i].bookId, recent[j].bookId], [recent[j].bookId, recent[i].bookId]].forEach(([a, b]) => {
+          const row = pairWeights.get(a) || new Map<string, { weight: number; readers: number }>();
+          const pair = row.get(b) || { weight: 0, readers: 0 };
+          row.set(b, { weight: pair.weight + weight, readers: pair.readers + 1 });
+          pairWeights.set(a, row);
+        });
+      }
+    }
+  });
+
+  const coLikes: CoLikes = new Map();
+  pairWeights.forEach((row, a) => {
+    const similarities = new Map<string, number>();
+    row.forEach(({ weight, readers }, b) => {
+      const cosine = weight / Math.sqrt((bookNorms.get(a) || 1) * (bookNorms.get(b) || 1));
+      similarities.set(b, cosine * (readers / (readers + CO_LIKE_DAMPING)));
+    });
+    coLikes.set(a, similarities);
+  });
+  return coLikes;
+};
+
+/**
+ * Builds the recommendation model
+ * @param books Every book of the catalog
+ * @param coLikes Co-like similarities saved by `computeCoLikes`
+ */
+export const buildRecommendationModel = (books: BookDocument[], coLikes: CoLikes): RecommendationModel => {
+  const rawFeatures = books.filter(book => book.id).map(book => ({ book, features: getBookFeatures(book) }));
+
+  // Features most books share say little about what makes two books alike
+  const documentFrequency = new Map<string, number>();
+  rawFeatures.forEach(({ features }) => {
+    features.forEach((_, feature) => documentFrequency.set(feature, (documentFrequency.get(feature) || 0) + 1));
+  });
+
+  const modelBooks = new Map<string, ModelBook>();
+  rawFeatures.forEach(({ book, features }) => {
+    const weighted = new Map<string, number>();
+    features.forEach((value, feature) => {
+      weighted.set(feature, value * Math.log(1 + rawFeatures.length / (documentFrequency.get(feature) || 1)));
+    });
+    const length = Math.sqrt(dotProduct(weighted, weighted)) || 1;
+    weighted.forEach((value, feature) => weighted.set(feature, value / length));
+    modelBooks.set(book.id!, { book, features: weighted });
+  });
+
+  return {
+    builtAt: Date.now(),
+    books: modelBooks,
+    coLikes
+  };
+};
+
+/**
+ * Similarity of two books and which signal contributed most to it
+ */
+const getSimilarity = (model: RecommendationModel, a: ModelBook, b: ModelBook): { score: number; byReaders: boolean } => {
+  const content = CONTENT_WEIGHT * dotProduct(a.features, b.features);
+  const coLike = CO_LIKE_WEIGHT * (model.coLikes.get(a.book.id!)?.get(b.book.id!) || 0);
+  return { score: content + coLike, byReaders: coLike > content };
+};
+
+/**
+ * Describes what two books have in common
+ */
+const describeSimilarity = (seed: BookDocument, book: BookDocument, byReaders: boolean): string => {
+  if (byReaders) return `Readers who liked "${seed.title}" also liked this`;
+
+  const seedTags = new Set((seed.tags || []).map(normalizeFeature));
+  const sharedTag = (book.tags || []).find(tag => seedTags.has(normalizeFeature(tag)));
+  if (sharedTag) return `Also about ${sharedTag}`;
+  if (seed.authorId && seed.authorId === book.authorId) return `Also by ${book.author}`;
+  return `Similar in mood to "${seed.title}"`;
+};
+
+/**
+ * Turns a scored book into a result
+ */
+const toRecommendedBook = (book: BookDocument, score: number, reason: string): RecommendedBook => ({
+  id: book.id!,
+  title: book.title,
+  author: book.author,
+  thumbnailUrl: book.thumbnailUrl,
+  tags: book.tags || [],
+  score: Math.round(score * 1000) / 1000,
+  reason
+});
+
+/**
+ * Lists the books most similar to a book ("More like this")
+ * @param model Recommendation model
+ * @param bookId Book to find similar books for
+ * @param options Number of books
+ * @param exclude Books to leave out besides the book itself
+ */
+export const getSimilarBooks = (
+  model: RecommendationModel,
+  bookId: string,
+  options: RecommendationOptions = {},
+  exclude: Set<string> = new Set()
+): RecommendedBook[] => {
+  const seed = model.books.get(bookId);
+  if (!seed) return [];
+
+  const scored: RecommendedBook[] = [];
+  model.books.forEach((candidate, candidateId) => {
+    if (candidateId === bookId || exclude.has(candidateId)) return;
+    const { score, byReaders } = getSimilarity(model, seed, candidate);
+    if (score > 0) scored.push(toRecommendedBook(candidate.book, score, describeSimilarity(seed.book, candidate.book, byReaders)));
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, options.limit || DEFAULT_LIMIT);
+};
+
+/**
+ * Recommends books to a reader from what they liked, saved and listened to
+ * @param model Recommendation model
+ * @param signals Likes, saves and listening of the reader
+ * @param options Number of books per list
+ * @returns Empty lists for readers without engagement
+ */
+export const getUserRecommendations = (
+  model: RecommendationModel,
+  signals: TasteSignal[],
+  options: RecommendationOptions = {}
+): UserRecommendations => {
+  const limit = options.limit || DEFAULT_LIMIT;
+  // The signals are all the reader's, so they form a single group
+  const [userSignals = []] = Array.from(groupSignalsByUser(signals, new Set(model.books.keys())).values());
+  // Books the reader already knows are not recommended
+  const known = new Set(userSignals.map(signal => signal.bookId));
+
+  const totals = new Map<string, { score: number; bestSeed: ModelBook; bestScore: number; bestKind: TasteSignalKind }>();
+  userSignals.slice(0, MAX_SEED_BOOKS).forEach((signal, rank) => {
+    const seed = model.books.get(signal.bookId);
+    if (!seed) return;
+    const seedWeight = SIGNAL_WEIGHTS[signal.kind] * RECENCY_DECAY ** rank;
+
+    model.books.forEach((candidate, candidateId) => {
+      if (known.has(candidateId)) return;
+      const contribution = seedWeight * getSimilarity(model, seed, candidate).score;
+      if (contribution <= 0) return;
+
+      const total = totals.get(candidateId);
+      if (!total) {
+        totals.set(candidateId, { score: contribution, bestSeed: seed, bestScore: contribution, bestKind: signal.kind });
+      } else {
+        total.score += contribution;
+        if (contribution > total.bestScore) {
+          Object.assign(total, { bestSeed: seed, bestScore: contribution, bestKind: signal.kind });
+        }
+      }
+    });
+  });
+
+  const verbs: Record<TasteSignalKind, string> = { like: 'liked', save: 'saved', listen: 'listened to' };
+  const forYou = Array.from(totals.entries())
+    .map(([candidateId, { score, bestSeed, bestKind }]) => toRecommendedBook(
+      model.books.get(candidateId)!.book,
+      score,
+      `Because you ${verbs[bestKind]} "${bestSeed.book.title}"`
+    ))
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, limit);
+
+  const becauseYouLiked = userSignals
+    .filter(signal => signal.kind === 'like' && model.books.has(signal.bookId))
+    .slice(0, MAX_BECAUSE_YOU_LIKED_RAILS)
+    .map(signal => {
+      const seed = model.books.get(signal.bookId)!.book;
+      return {
+        seed: { id: signal.bookId, title: seed.title },
+        books: getSimilarBooks(model, signal.bookId, { limit }, known)
+      };
+    })
+    .filter(rail => rail.books.length > 0);
+
+  return { forYou, becauseYouLiked };
+};
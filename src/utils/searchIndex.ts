@@ -0,0 +1,482 @@
+/**
+ * @file searchIndex.ts
+ * @description This file implements full-text search over the book catalog. Every book is indexed from its
+ * title, author, tags, description and content, and every chapter from its title and text, with a weight per
+ * field so a match in a title ranks above a match deep in a chapter. Query terms match:
+ * - exactly,
+ * - as a prefix of an indexed term ("drag" finds "dragon"), so results appear while typing,
+ * - with a typo (one edit for words of 4-7 letters, two from 8 letters).
+ * A book matches when every query term matches somewhere in it, and is ranked on TF-IDF scores summed over
+ * the query terms. Results come with highlighted snippets of the best matches and facet counts for tags,
+ * moods and audio availability.
+ * @integration `/api/search` builds the index from `getPublishedBooks({ withChapters: true })`, keeps it in
+ * memory and rebuilds it after books are written (`createBook`, `updateBook`, ... mark it stale). The search
+ * page (`/search`) renders the results. This module only imports types so it can be used on both sides.
+ */
+
+import type { BookDocument } from '@/firebase/services';
+
+// Filters on the facets; values within a facet are alternatives, facets are combined
+export interface SearchFilters {
+  tags?: string[];
+  moods?: string[];
+  hasAudio?: boolean;
+}
+
+export interface SearchOptions extends SearchFilters {
+  limit?: number;  // Default 20
+  offset?: number;
+}
+
+// A chapter of a result that matches the query
+export interface SearchChapterHit {
+  chapterId: string;
+  title: string;
+  snippet: string; // HTML: escaped text with matches in <mark>
+}
+
+export interface SearchResult {
+  bookId: string;
+  title: string;
+  author: string;
+  thumbnailUrl: string;
+  tags: string[];
+  moods: string[];
+  hasAudio: boolean;
+  score: number;
+  highlightedTitle: string;      // HTML: escaped title with matches in <mark>
+  snippet: string;               // HTML: best passage of the description or content
+  chapters: SearchChapterHit[];  // Best matching chapters first
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts of the books matching the query, each ignoring the filter on its own facet
+export interface SearchFacets {
+  tags: FacetCount[];
+  moods: FacetCount[];
+  audio: { withAudio: number; withoutAudio: number };
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchResult[];
+  facets: SearchFacets;
+}
+
+type SearchField = 'title' | 'author' | 'tags' | 'description' | 'chapterTitle' | 'text';
+
+// How much one occurrence of a term in each field counts
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  author: 4,
+  tags: 3,
+  chapterTitle: 3,
+  description: 2,
+  text: 1
+};
+
+// Weight of a match by prefix or with a typo, relative to an exact match
+const PREFIX_MATCH_WEIGHT = 0.6;
+const TYPO_MATCH_WEIGHT = 0.4;
+const MIN_PREFIX_LENGTH = 2;
+const MIN_TYPO_LENGTH = 4;
+// Most indexed terms one query term expands to by prefix or typo
+const MAX_TERM_EXPANSIONS = 50;
+// Share of the scores of further matching documents added to a book's score
+const EXTRA_MATCH_WEIGHT = 0.1;
+const MAX_CHAPTER_HITS = 3;
+const MAX_TAG_FACETS = 20;
+const SNIPPET_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was',
+  'were', 'will', 'with'
+]);
+
+// Letters and digits; general punctuation (\u2000-\u206f) separates words like ASCII punctuation
+const WORD_PATTERN = /[0-9a-z\u00c0-\u1fff\u2070-\uffff]+/gi;
+
+// An indexed book, with what results show
+interface IndexedBook {
+  id: string;
+  title: string;
+  author: string;
+  thumbnailUrl: string;
+  tags: string[];   // Lowercase
+  moods: string[];  // Lowercase moods of the chapters
+  hasAudio: boolean;
+  createdAt: number;
+  description: string;
+}
+
+// A searchable unit: the book itself (title, author, tags, description), its content, or a chapter
+interface IndexedDocument {
+  bookIndex: number;
+  chapterId?: string;
+  chapterTitle?: string;
+  text: string;     // Plain text snippets are cut from
+}
+
+export interface SearchIndex {
+  books: IndexedBook[];
+  documents: IndexedDocument[];
+  postings: Map<string, Map<number, number>>; // Term -> document -> weighted term frequency
+  terms: string[];                            // Sorted vocabulary, for prefix and typo matching
+  builtAt: number;
+}
+
+/**
+ * Lowercases a word and removes its accents
+ */
+const normalizeWord = (word: string): string =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Splits text into normalized search terms, without stop words and single letters
+ */
+const tokenize = (text: string): string[] =>
+  (text.match(WORD_PATTERN) || [])
+    .map(normalizeWord)
+    .filter(term => (term.length > 1 || /\d/.test(term)) && !STOP_WORDS.has(term));
+
+/**
+ * Converts content HTML (with `$` paragraph delimiters) to plain text
+ */
+const toPlainText = (html: string = ''): string =>
+  html
+    .replace(/\$/g, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(/ ([.,;:!?])/g, '$1')
+    .trim();
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Builds the search index of a catalog
+ * @param books Books to index
+ * @returns The index, to pass to `searchBooks`
+ */
+export const buildSearchIndex = (books: BookDocument[]): SearchIndex => {
+  const index: SearchIndex = { books: [], documents: [], postings: new Map(), terms: [], builtAt: Date.now() };
+
+  const addDocument = (document: IndexedDocument, fields: Array<[SearchField, string]>) => {
+    const documentIndex = index.documents.length;
+    index.documents.push(document);
+
+    fields.forEach(([field, text]) => {
+      tokenize(text).forEach(term => {
+        let termPostings = index.postings.get(term);
+        if (!termPostings) {
+          termPostings = new Map();
+          index.postings.set(term, termPostings);
+        }
+        termPostings.set(documentIndex, (termPostings.get(documentIndex) || 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+  };
+
+  books.forEach(book => {
+    if (!book.id) return;
+
+    const chapters = book.chapters || [];
+    const isPlayable = (url?: string) => !!url && !url.startsWith('blob:');
+    const moods = chapters
+      .map(chapter => chapter.episodeMetadata?.mood?.trim().toLowerCase())
+      .filter((mood): mood is string => !!mood);
+    const description = toPlainText(book.description);
+
+    const bookIndex = index.books.length;
+    index.books.push({
+      id: book.id,
+      title: book.title || '',
+      author: book.author || '',
+      thumbnailUrl: book.thumbnailUrl || '',
+      tags: Array.from(new Set((book.tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean))),
+      moods: Array.from(new Set(moods)),
+      hasAudio: isPlayable(book.audioUrl) || chapters.some(chapter => isPlayable(chapter.audioUrl)),
+      createdAt: book.createdAt || 0,
+      description
+    });
+
+    addDocument({ bookIndex, text: description }, [
+      ['title', book.title || ''],
+      ['author', book.author || ''],
+      ['tags', (book.tags || []).join(' ')],
+      ['description', description]
+    ]);
+
+    if (book.content) {
+      const text = toPlainText(book.content);
+      addDocument({ bookIndex, text }, [['text', text]]);
+    }
+
+    chapters.forEach(chapter => {
+      if (!chapter.id) return;
+      const text = toPlainText(chapter.content);
+      addDocument({ bookIndex, chapterId: chapter.id, chapterTitle: chapter.title, text }, [
+        ['chapterTitle', chapter.title || ''],
+        ['text', text]
+      ]);
+    });
+  });
+
+  index.terms = Array.from(index.postings.keys()).sort();
+  return index;
+};
+
+/**
+ * Edit distance between two words, counting a swap of adjacent letters as one edit, or
+ * `maxDistance + 1` once it is known to exceed `maxDistance`
+ */
+const boundedEditDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Finds the indexed terms a query term matches, with the weight of each match
+ */
+const expandQueryTerm = (index: SearchIndex, queryTerm: string): Map<string, number> => {
+  const matches = new Map<string, number>();
+  if (index.postings.has(queryTerm)) matches.set(queryTerm, 1);
+
+  // Prefix matches follow the query term in the sorted vocabulary
+  if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+    let low = 0;
+    let high = index.terms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (index.terms[middle] < queryTerm) low = middle + 1; else high = middle;
+    }
+    for (let i = low; i < index.terms.length && matches.size < MAX_TERM_EXPANSIONS; i++) {
+      const term = index.terms[i];
+      if (!term.startsWith(queryTerm)) break;
+      if (term !== queryTerm) matches.set(term, PREFIX_MATCH_WEIGHT);
+    }
+  }
+
+  if (queryTerm.length >= MIN_TYPO_LENGTH) {
+    const maxDistance = queryTerm.length >= 8 ? 2 : 1;
+    for (const term of index.terms) {
+      if (matches.size >= MAX_TERM_EXPANSIONS) break;
+      if (matches.has(term)) continue;
+      const distance = boundedEditDistance(queryTerm, term, maxDistance);
+      if (distance <= maxDistance) matches.set(term, TYPO_MATCH_WEIGHT / distance);
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Escapes text and wraps the words that match a search term in <mark>
+ */
+const highlightText = (text: string, matchedTerms: Set<string>): string => {
+  let html = '';
+  let last = 0;
+  text.replace(WORD_PATTERN, (word, offset: number) => {
+    if (matchedTerms.has(normalizeWord(word))) {
+      html += `${escapeHtml(text.slice(last, offset))}<mark>${escapeHtml(word)}</mark>`;
+      last = offset + word.length;
+    }
+    return word;
+  });
+  return html + escapeHtml(text.slice(last));
+};
+
+/**
+ * Cuts the passage of a text around its first match, highlighted
+ */
+const makeSnippet = (text: string, matchedTerms: Set<string>): string => {
+  if (!text) return '';
+
+  let firstMatch = -1;
+  const pattern = new RegExp(WORD_PATTERN.source, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (matchedTerms.has(normalizeWord(match[0]))) {
+      firstMatch = match.index;
+      break;
+    }
+  }
+
+  // Start a little before the match, at a word boundary
+  let start = firstMatch > SNIPPET_LENGTH / 3 ? firstMatch - Math.floor(SNIPPET_LENGTH / 3) : 0;
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space >= 0 && space < firstMatch ? space + 1 : start;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  return `${start > 0 ? '…' : ''}${highlightText(text.slice(start, end), matchedTerms)}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Whether a book passes the filters, leaving out the filter on one facet
+ */
+const passesFilters = (book: IndexedBook, filters: SearchFilters, ignore?: keyof SearchFilters): boolean => {
+  if (ignore !== 'tags' && filters.tags?.length && !filters.tags.some(tag => book.tags.includes(tag))) return false;
+  if (ignore !== 'moods' && filters.moods?.length && !filters.moods.some(mood => book.moods.includes(mood))) return false;
+  if (ignore !== 'hasAudio' && filters.hasAudio !== undefined && book.hasAudio !== filters.hasAudio) return false;
+  return true;
+};
+
+/**
+ * Counts the values of a facet, most frequent first
+ */
+const countFacet = (books: IndexedBook[], getValues: (book: IndexedBook) => string[]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  books.forEach(book => getValues(book).forEach(value => counts.set(value, (counts.get(value) || 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Searches the catalog
+ * @param index Index built by `buildSearchIndex`
+ * @param query Search text; an empty query lists every book, newest first
+ * @param options Facet filters and paging
+ * @returns Ranked results with snippets, the number of matching books and the facet counts
+ */
+export const searchBooks = (index: SearchIndex, query: string, options: SearchOptions = {}): SearchResponse => {
+  const { limit = DEFAULT_LIMIT, offset = 0, ...filters } = options;
+  const normalizedFilters: SearchFilters = {
+    tags: filters.tags?.map(tag => tag.toLowerCase()),
+    moods: filters.moods?.map(mood => mood.toLowerCase()),
+    hasAudio: filters.hasAudio
+  };
+  const queryTerms = Array.from(new Set(tokenize(query)));
+
+  // Score of each document for each query term
+  const documentScores = new Map<number, number[]>();
+  const matchedTerms = new Set<string>();
+  queryTerms.forEach((queryTerm, termIndex) => {
+    expandQueryTerm(index, queryTerm).forEach((matchWeight, term) => {
+      const termPostings = index.postings.get(term)!;
+      const idf = Math.log(1 + index.documents.length / termPostings.size);
+      matchedTerms.add(term);
+      termPostings.forEach((frequency, documentIndex) => {
+        let scores = documentScores.get(documentIndex);
+        if (!scores) {
+          scores = new Array(queryTerms.length).fill(0);
+          documentScores.set(documentIndex, scores);
+        }
+        scores[termIndex] = Math.max(scores[termIndex], matchWeight * frequency * idf);
+      });
+    });
+  });
+
+  // Combine the documents of each book; a book must match every query term
+  const bookMatches = new Map<number, { termScores: number[]; documents: Array<{ documentIndex: number; score: number }> }>();
+  documentScores.forEach((scores, documentIndex) => {
+    const { bookIndex } = index.documents[documentIndex];
+    let bookMatch = bookMatches.get(bookIndex);
+    if (!bookMatch) {
+      bookMatch = { termScores: new Array(queryTerms.length).fill(0), documents: [] };
+      bookMatches.set(bookIndex, bookMatch);
+    }
+    scores.forEach((score, termIndex) => {
+      bookMatch!.termScores[termIndex] = Math.max(bookMatch!.termScores[termIndex], score);
+    });
+    bookMatch.documents.push({ documentIndex, score: scores.reduce((sum, score) => sum + score, 0) });
+  });
+
+  const matches = queryTerms.length === 0
+    ? index.books.map((_, bookIndex) => ({ bookIndex, score: 0, documents: [] as Array<{ documentIndex: number; score: number }> }))
+    : Array.from(bookMatches.entries())
+      .filter(([, match]) => match.termScores.every(score => score > 0))
+      .map(([bookIndex, match]) => {
+        const documents = match.documents.sort((a, b) => b.score - a.score);
+        const extraScore = documents.slice(1).reduce((sum, document) => sum + document.score, 0);
+        return {
+          bookIndex,
+          score: match.termScores.reduce((sum, score) => sum + score, 0) + EXTRA_MATCH_WEIGHT * extraScore,
+          documents
+        };
+      });
+
+  const matchingBooks = matches.map(match => index.books[match.bookIndex]);
+  const facets: SearchFacets = {
+    tags: countFacet(matchingBooks.filter(book => passesFilters(book, normalizedFilters, 'tags')), book => book.tags)
+      .slice(0, MAX_TAG_FACETS),
+    moods: countFacet(matchingBooks.filter(book => passesFilters(book, normalizedFilters, 'moods')), book => book.moods),
+    audio: matchingBooks
+      .filter(book => passesFilters(book, normalizedFilters, 'hasAudio'))
+      .reduce((counts, book) => {
+        if (book.hasAudio) counts.withAudio++; else counts.withoutAudio++;
+        return counts;
+      }, { withAudio: 0, withoutAudio: 0 })
+  };
+
+  const filtered = matches
+    .filter(match => passesFilters(index.books[match.bookIndex], normalizedFilters))
+    .sort((a, b) => b.score - a.score || index.books[b.bookIndex].createdAt - index.books[a.bookIndex].createdAt);
+
+  const results = filtered.slice(offset, offset + limit).map(({ bookIndex, score, documents }): SearchResult => {
+    const book = index.books[bookIndex];
+    const chapterHits = documents.filter(document => index.documents[document.documentIndex].chapterId);
+    const bestText = documents.find(document => !index.documents[document.documentIndex].chapterId
+      && makeSnippet(index.documents[document.documentIndex].text, matchedTerms).includes('<mark>'));
+
+    return {
+      bookId: book.id,
+      title: book.title,
+      author: book.author,
+      thumbnailUrl: book.thumbnailUrl,
+      tags: book.tags,
+      moods: book.moods,
+      hasAudio: book.hasAudio,
+      score,
+      highlightedTitle: highlightText(book.title, matchedTerms),
+      snippet: makeSnippet(bestText ? index.documents[bestText.documentIndex].text : book.description, matchedTerms),
+      chapters: chapterHits.slice(0, MAX_CHAPTER_HITS).map(({ documentIndex }) => {
+        const document = index.documents[documentIndex];
+        return {
+          chapterId: document.chapterId!,
+          title: document.chapterTitle || '',
+          snippet: makeSnippet(document.text, matchedTerms)
+        };
+      })
+    };
+  });
+
+  return { query, total: filtered.length, results, facets };
+};
@@ -0,0 +1,177 @@
+/**
+ * @file textDiff.ts
+ * @description This file compares two versions of a chapter for a side-by-side diff. Both texts are reduced to
+ * plain paragraphs, paragraphs are matched with a longest common subsequence, and each removed paragraph that
+ * sits where a paragraph was added is compared word by word, so small edits show as changed words rather
+ * than as a whole paragraph removed and another added.
+ * @integration `RevisionHistory` renders the rows next to each other: the older text on the left, the newer
+ * on the right. Pure functions, usable on both sides.
+ */
+
+// How a row of the diff differs between the two versions
+export type DiffRowType = 'same' | 'removed' | 'added' | 'changed';
+
+// A run of words in a paragraph, marked when it is only in this version
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+// A paragraph of each version, side by side; the missing side is unset
+export interface DiffRow {
+  type: DiffRowType;
+  left?: DiffSegment[];  // Older version
+  right?: DiffSegment[]; // Newer version
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+type DiffOp = { type: 'same' | 'removed' | 'added'; value: string };
+
+// Longer inputs are compared paragraph by paragraph only, to keep the comparison quick
+const MAX_WORD_DIFF_CELLS = 250000;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'"
+};
+
+/**
+ * Reduces chapter HTML (or plain text) to its paragraphs
+ * @param html Chapter content; block ends, line breaks and the `$` narration delimiter separate paragraphs
+ * @returns Plain text of each non-empty paragraph
+ */
+export const htmlToParagraphs = (html: string): string[] =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/\$/g, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, entity => HTML_ENTITIES[entity])
+    .split('\n')
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0);
+
+/**
+ * Lists the steps turning one sequence into the other, keeping their longest common subsequence
+ */
+const diffSequences = (oldItems: string[], newItems: string[]): DiffOp[] => {
+  const rows = oldItems.length;
+  const cols = newItems.length;
+  // lengths[i][j]: longest common subsequence of oldItems from i and newItems from j
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldItems[i] === newItems[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldItems[i] === newItems[j]) {
+      ops.push({ type: 'same', value: oldItems[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', value: oldItems[i++] });
+    } else {
+      ops.push({ type: 'added', value: newItems[j++] });
+    }
+  }
+  while (i < rows) ops.push({ type: 'removed', value: oldItems[i++] });
+  while (j < cols) ops.push({ type: 'added', value: newItems[j++] });
+  return ops;
+};
+
+/**
+ * Appends text to segments, merging it into the last segment when it is marked the same way
+ */
+const appendSegment = (segments: DiffSegment[], text: string, changed: boolean) => {
+  const last = segments[segments.length - 1];
+  if (last && last.changed === changed) {
+    last.text += text;
+  } else {
+    segments.push({ text, changed });
+  }
+};
+
+/**
+ * Compares two versions of a paragraph word by word
+ * @returns Segments of the older and of the newer paragraph
+ */
+const diffWords = (oldText: string, newText: string): { left: DiffSegment[]; right: DiffSegment[] } => {
+  // Words keep the space after them so the segments join back into the paragraph
+  const oldWords = oldText.match(/\S+\s*/g) || [];
+  const newWords = newText.match(/\S+\s*/g) || [];
+  if (oldWords.length * newWords.length > MAX_WORD_DIFF_CELLS) {
+    return { left: [{ text: oldText, changed: true }], right: [{ text: newText, changed: true }] };
+  }
+
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  diffSequences(oldWords, newWords).forEach(op => {
+    if (op.type !== 'added') appendSegment(left, op.value, op.type === 'removed');
+    if (op.type !== 'removed') appendSegment(right, op.value, op.type === 'added');
+  });
+  return { left, right };
+};
+
+/**
+ * Compares two versions of a chapter paragraph by paragraph
+ * @param oldHtml Older content
+ * @param newHtml Newer content
+ * @returns Rows of paragraphs side by side, in reading order
+ */
+export const diffTexts = (oldHtml: string, newHtml: string): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  // Removed and added paragraphs between two unchanged ones are paired up as changed paragraphs
+  const flushChanges = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', ...diffWords(removed[k], added[k]) });
+    }
+    removed.slice(paired).forEach(text => rows.push({ type: 'removed', left: [{ text, changed: true }] }));
+    added.slice(paired).forEach(text => rows.push({ type: 'added', right: [{ text, changed: true }] }));
+    removed = [];
+    added = [];
+  };
+
+  diffSequences(htmlToParagraphs(oldHtml), htmlToParagraphs(newHtml)).forEach(op => {
+    if (op.type === 'removed') {
+      removed.push(op.value);
+    } else if (op.type === 'added') {
+      added.push(op.value);
+    } else {
+      flushChanges();
+      const segments = [{ text: op.value, changed: false }];
+      rows.push({ type: 'same', left: segments, right: segments });
+    }
+  });
+  flushChanges();
+
+  return rows;
+};
+
+/**
+ * Counts the paragraphs added, removed and changed in a diff
+ */
+export const summarizeDiff = (rows: DiffRow[]): DiffSummary =>
+  rows.reduce<DiffSummary>((summary, row) => {
+    if (row.type !== 'same') summary[row.type]++;
+    return summary;
+  }, { added: 0, removed: 0, changed: 0 });
@@ -0,0 +1,308 @@
+/**
+ * @file ttsProviders.ts
+ * @description This file defines the server-side text-to-speech (TTS) provider layer. Every provider implements
+ * the same `TtsProvider` interface and is looked up through a small registry, so the narration pipeline does not
+ * need to know which speech engine produced the audio. Two providers are registered by default:
+ * - `openai`: Calls the OpenAI speech API and returns MP3 audio.
+ * - `local`: Works offline. It uses `espeak-ng`/`espeak` when installed. In development and tests only, it
+ *   otherwise synthesizes a stub WAV whose length follows the text, so timings and mixing still behave like
+ *   real narration; in production it fails instead, so beeps are never saved as a narration.
+ * @integration
+ * This layer is used by `generateTTSAudio` in `nodeAudioNarrationService.ts`, which backs the `/api/narration`,
+ * `/api/narration/paragraph` and `/api/narration/episode` routes. The provider is chosen from
+ * `NarrationOptions.provider`, or from `NarrationOptions.voice` when the voice belongs to a single provider.
+ */
+
+import { execFile } from 'child_process';
+import { readFileSync, unlinkSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { TTS_PROVIDER_VOICES } from './voiceCasting';
+
+export type TtsAudioFormat = 'mp3' | 'wav';
+
+// A single speech synthesis request
+export interface TtsRequest {
+  text: string;
+  voice?: string;
+  speed?: number; // Playback speed multiplier (1 = normal)
+  instructions?: string; // Style instructions for providers that support them
+}
+
+// Audio produced by a provider
+export interface TtsResult {
+  audio: Buffer;
+  format: TtsAudioFormat;
+  provider: string;
+  voice: string;
+}
+
+// A pluggable speech engine
+export interface TtsProvider {
+  name: string;
+  voices: string[]; // Voices this provider understands; the first one is its default
+  synthesize: (request: TtsRequest) => Promise<TtsResult>;
+}
+
+const OPENAI_TTS_MODEL = 'gpt-4o-mini-tts';
+const OPENAI_VOICES = TTS_PROVIDER_VOICES.openai;
+const LOCAL_VOICES = TTS_PROVIDER_VOICES.local;
+
+// Narration style shared with the browser narration in services/openai.ts
+const NARRATION_INSTRUCTIONS = 'You are a professional storyteller narrating a story for children and students. Read the following text as if you are narrating it aloud in a calm, engaging, and natural voice. Speak slowly and clearly, with natural pauses between sentences and paragraphs. Vary the intonation to make the narration expressive, not monotone. Use storytelling style: friendly, warm, and captivating.';
+
+const STUB_SAMPLE_RATE = 22050;
+
+/**
+ * Tells whether the stub synthesizer may stand in for speech: in development and tests, or when
+ * `TTS_ALLOW_STUB=true` is set explicitly
+ */
+const isStubSpeechAllowed = (): boolean =>
+  process.env.NODE_ENV !== 'production' || process.env.TTS_ALLOW_STUB === 'true';
+const WORDS_PER_SECOND = 2.5; // Roughly 150 words per minute
+
+/**
+ * Creates the OpenAI speech provider
+ * @param apiKey OpenAI API key (defaults to the server environment)
+ * @returns The OpenAI TTS provider
+ */
+export const createOpenAITtsProvider = (
+  apiKey: string = process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY || ''
+): TtsProvider => ({
+  name: 'openai',
+  voices: OPENAI_VOICES,
+  synthesize: async ({ text, voice, speed, instructions }: TtsRequest) => {
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    const selectedVoice = voice && OPENAI_VOICES.includes(voice) ? voice : OPENAI_VOICES[0];
+
+    const response = await fetch('https://api.openai.com/v1/audio/speech', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: OPENAI_TTS_MODEL,
+        input: text,
+        voice: selectedVoice,
+        instructions: instructions || NARRATION_INSTRUCTIONS,
+        speed: speed || 1,
+        response_format: 'mp3',
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({})) as { error?: { message?: string } };
+      throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
+    }
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      format: 'mp3',
+      provider: 'openai',
+      voice: selectedVoice
+    };
+  }
+});
+
+/**
+ * Writes 16-bit mono PCM samples into a WAV file buffer
+ * @param samples PCM samples in the range -1..1
+ * @param sampleRate Sample rate in Hz
+ * @returns WAV file contents
+ */
+const encodeWav = (samples: Float32Array, sampleRate: number): Buffer => {
+  const dataLength = samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataLength);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataLength, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataLength, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    buffer.writeInt16LE(Math.round(sample * 0x7FFF), 44 + i * 2);
+  }
+
+  return buffer;
+};
+
+/**
+ * Synthesizes a placeholder WAV: one soft tone per word with short gaps and longer pauses at
+ * sentence ends, so the duration and rhythm resemble spoken narration.
+ * @param text Text to "speak"
+ * @param speed Speed multiplier
+ * @returns WAV file contents
+ */
+export const synthesizeStubWav = (text: string, speed: number = 1): Buffer => {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  const wordDuration = 1 / (WORDS_PER_SECOND * speed);
+  const chunks: number[] = [];
+
+  words.forEach((word, index) => {
+    const toneLength = Math.floor(STUB_SAMPLE_RATE * wordDuration * 0.7);
+    const gapLength = Math.floor(STUB_SAMPLE_RATE * wordDuration * (/[.!?]$/.test(word) ? 1.5 : 0.3));
+    const frequency = 140 + (index % 5) * 20;
+
+    for (let i = 0; i < toneLength; i++) {
+      // Short attack/release envelope to avoid clicks
+      const envelope = Math.min(1, i / 200, (toneLength - i) / 200);
+      chunks.push(0.1 * envelope * Math.sin(2 * Math.PI * frequency * (i / STUB_SAMPLE_RATE)));
+    }
+    for (let i = 0; i < gapLength; i++) {
+      chunks.push(0);
+    }
+  });
+
+  // Always return at least half a second of audio
+  while (chunks.length < STUB_SAMPLE_RATE / 2) {
+    chunks.push(0);
+  }
+
+  return encodeWav(Float32Array.from(chunks), STUB_SAMPLE_RATE);
+};
+
+// Cached path of the espeak binary (null when not installed)
+let espeakBinary: string | null | undefined;
+
+/**
+ * Finds an installed espeak binary
+ * @returns Promise resolving to the binary name, or null if none is installed
+ */
+const findEspeakBinary = async (): Promise<string | null> => {
+  if (espeakBinary !== undefined) return espeakBinary;
+
+  for (const candidate of ['espeak-ng', 'espeak']) {
+    const found = await new Promise<boolean>(resolve => {
+      execFile(candidate, ['--version'], error => resolve(!error));
+    });
+    if (found) {
+      espeakBinary = candidate;
+      return espeakBinary;
+    }
+  }
+
+  console.log(isStubSpeechAllowed()
+    ? 'espeak not installed - local TTS will use the stub WAV synthesizer'
+    : 'espeak not installed - local TTS is unavailable');
+  espeakBinary = null;
+  return espeakBinary;
+};
+
+/**
+ * Creates the offline speech provider
+ * @returns The local TTS provider
+ */
+export const createLocalTtsProvider = (): TtsProvider => ({
+  name: 'local',
+  voices: LOCAL_VOICES,
+  synthesize: async ({ text, voice, speed }: TtsRequest) => {
+    const selectedVoice = voice && LOCAL_VOICES.includes(voice) ? voice : LOCAL_VOICES[0];
+    const binary = await findEspeakBinary();
+
+    if (binary) {
+      const outputPath = join(tmpdir(), `espeak_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.wav`);
+      try {
+        const wordsPerMinute = String(Math.round(150 * (speed || 1)));
+        await new Promise<void>((resolve, reject) => {
+          execFile(binary, ['-v', selectedVoice, '-s', wordsPerMinute, '-w', outputPath, text], error => {
+            if (error) reject(error);
+            else resolve();
+          });
+        });
+
+        return {
+          audio: readFileSync(outputPath),
+          format: 'wav',
+          provider: 'local',
+          voice: selectedVoice
+        };
+      } catch (error) {
+        if (!isStubSpeechAllowed()) throw error;
+        console.error('espeak failed, using stub WAV synthesizer:', error);
+      } finally {
+        if (existsSync(outputPath)) unlinkSync(outputPath);
+      }
+    }
+
+    if (!isStubSpeechAllowed()) {
+      throw new Error('Local TTS needs espeak-ng or espeak installed on the server');
+    }
+
+    return {
+      audio: synthesizeStubWav(text, speed),
+      format: 'wav',
+      provider: 'local',
+      voice: selectedVoice
+    };
+  }
+});
+
+// Registered providers by name
+const providers = new Map<string, TtsProvider>();
+
+/**
+ * Registers (or replaces) a TTS provider
+ * @param provider The provider to register
+ */
+export const registerTtsProvider = (provider: TtsProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+/**
+ * Lists the names of all registered providers
+ * @returns Provider names
+ */
+export const listTtsProviders = (): string[] => Array.from(providers.keys());
+
+/**
+ * Returns the default provider name: the `TTS_PROVIDER` environment variable, otherwise
+ * OpenAI when an API key is configured, otherwise the local provider.
+ * @returns Default provider name
+ */
+const getDefaultTtsProviderName = (): string => {
+  if (process.env.TTS_PROVIDER && providers.has(process.env.TTS_PROVIDER)) {
+    return process.env.TTS_PROVIDER;
+  }
+  return process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY ? 'openai' : 'local';
+};
+
+/**
+ * Resolves the provider for a narration request
+ * @param options Requested provider name and/or voice
+ * @returns The matching provider
+ */
+export const resolveTtsProvider = (options: { provider?: string; voice?: string } = {}): TtsProvider => {
+  if (options.provider) {
+    const provider = providers.get(options.provider);
+    if (!provider) {
+      throw new Error(`Unknown TTS provider: ${options.provider}`);
+    }
+    return provider;
+  }
+
+  // Prefer the default provider when it knows the voice, otherwise any provider that does
+  const defaultProvider = providers.get(getDefaultTtsProviderName())!;
+  if (options.voice && !defaultProvider.voices.includes(options.voice)) {
+    const voiceOwner = Array.from(providers.values()).find(provider => provider.voices.includes(options.voice!));
+    if (voiceOwner) return voiceOwner;
+  }
+
+  return defaultProvider;
+};
+
+registerTtsProvider(createOpenAITtsProvider());
+registerTtsProvider(createLocalTtsProvider());
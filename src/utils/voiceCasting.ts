@@ -0,0 +1,248 @@
+/**
+ * @file voiceCasting.ts
+ * @description This file implements the casting step of multi-voice narration. It maps the characters found by
+ * `analyzeStory` (services/gemini.ts) to distinct TTS voices, and splits a paragraph into narrator and quoted-speech
+ * spans so that each span can be synthesized with the voice of its speaker and stitched back in order.
+ * Speakers are attributed from `**Name:** "..."` tags (the format produced by `enhanceDialogues`) or from a cast
+ * character named next to the quote (e.g. `"Run!" shouted Meera.`). Unattributed dialogue keeps the narrator voice.
+ * @integration
+ * - `VoiceCastingEditor.tsx` builds and edits the per-book casting table stored on `BookDocument.voiceCasting`.
+ * - `EnhancedAudioNarrationButton.tsx` (browser) and `generateCastTTSAudio` in `nodeAudioNarrationService.ts`
+ *   (server) use `splitDialogueSpans` to narrate each span with its assigned voice, and `splitSpeechText` to keep
+ *   each speech request under the TTS input limit.
+ * This module has no browser or Node dependencies so it can be used on both sides.
+ */
+
+import { VoiceCasting, VoiceCastingEntry } from '@/firebase/services';
+
+// Voices understood by each TTS provider; the first one is the provider's default
+export const TTS_PROVIDER_VOICES: Record<string, string[]> = {
+  openai: ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer', 'verse'],
+  local: ['en', 'en-us', 'en-gb', 'en+f3', 'en+m3']
+};
+
+// A run of text spoken by one voice
+export interface NarrationSpan {
+  text: string;
+  speaker: string | null; // Character name, or null for the narrator
+  voice: string;
+}
+
+// A character as returned by analyzeStory
+interface StoryCharacter {
+  name: string;
+  role?: string;
+  relation_to_narrator?: string;
+}
+
+// How far around a quote to look for a character name, in characters
+const ATTRIBUTION_WINDOW = 80;
+
+/**
+ * Checks whether a character is the narrator of the story
+ * @param character Character from the story analysis
+ * @returns True for the narrator
+ */
+const isNarratorCharacter = (character: StoryCharacter): boolean =>
+  /\b(self|narrator|myself)\b/i.test(`${character.relation_to_narrator || ''} ${character.role || ''}`);
+
+/**
+ * Builds a casting table that gives every character a distinct voice. Characters that already have a voice
+ * in `existing` keep it, so re-running the analysis does not reshuffle an author's choices.
+ * @param characters Characters from the story analysis
+ * @param options Provider, narrator voice and an existing casting to preserve
+ * @returns The casting table
+ */
+export const createVoiceCasting = (
+  characters: StoryCharacter[],
+  options: { provider?: string; narratorVoice?: string; existing?: VoiceCasting } = {}
+): VoiceCasting => {
+  const provider = options.provider || options.existing?.provider || 'openai';
+  const voices = TTS_PROVIDER_VOICES[provider] || TTS_PROVIDER_VOICES.openai;
+  const narratorVoice = options.narratorVoice || options.existing?.narratorVoice || voices[0];
+
+  const entries: VoiceCastingEntry[] = [...(options.existing?.characters || [])];
+  const usedVoices = new Set(entries.map(entry => entry.voice));
+  const pool = voices.filter(voice => voice !== narratorVoice);
+  let next = 0;
+
+  characters.forEach(character => {
+    const name = character.name?.trim();
+    if (!name || entries.some(entry => entry.character.toLowerCase() === name.toLowerCase())) return;
+
+    let voice = narratorVoice;
+    if (!isNarratorCharacter(character) && pool.length > 0) {
+      // Prefer voices nobody has yet, then cycle through the pool
+      const unused = pool.find(candidate => !usedVoices.has(candidate));
+      voice = unused || pool[next++ % pool.length];
+    }
+
+    usedVoices.add(voice);
+    entries.push({ character: name, ...(character.role && { role: character.role }), voice });
+  });
+
+  return { provider, narratorVoice, characters: entries, updatedAt: Date.now() };
+};
+
+/**
+ * Escapes a string for use in a regular expression
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the cast character mentioned closest to a position in the text
+ * @param text Text to search
+ * @param casting Casting table
+ * @param fromEnd True to prefer the mention nearest the end of the text
+ * @returns The casting entry, or undefined when no character is mentioned
+ */
+const findNearestCharacter = (
+  text: string,
+  casting: VoiceCasting,
+  fromEnd: boolean
+): VoiceCastingEntry | undefined => {
+  let best: { entry: VoiceCastingEntry; distance: number } | undefined;
+
+  casting.characters.forEach(entry => {
+    // Match the full name or the first name ("Ravi Kumar" is also "Ravi")
+    const names = Array.from(new Set([entry.character, entry.character.split(/\s+/)[0]]));
+    names.forEach(name => {
+      const pattern = new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        const distance = fromEnd ? text.length - (match.index + name.length) : match.index;
+        if (!best || distance < best.distance) {
+          best = { entry, distance };
+        }
+      }
+    });
+  });
+
+  return best?.entry;
+};
+
+/**
+ * Looks up the voice of a speaker
+ * @param casting Casting table
+ * @param speaker Character name, or null for the narrator
+ * @returns The voice to narrate the speaker with
+ */
+export const getSpeakerVoice = (casting: VoiceCasting, speaker: string | null): string => {
+  if (!speaker) return casting.narratorVoice;
+  const entry = casting.characters.find(c => c.character.toLowerCase() === speaker.toLowerCase());
+  return entry?.voice || casting.narratorVoice;
+};
+
+/**
+ * Splits a paragraph into narrator and quoted-speech spans, each with the voice of its speaker
+ * @param text Paragraph text (plain text, HTML already stripped)
+ * @param casting Casting table
+ * @returns Spans in reading order; adjacent spans with the same voice are merged
+ */
+export const splitDialogueSpans = (text: string, casting: VoiceCasting): NarrationSpan[] => {
+  const quotePattern = /["“]([^"“”]+)["”]/g;
+  const raw: { text: string; speaker: string | null }[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = quotePattern.exec(text)) !== null) {
+    let before = text.slice(lastIndex, match.index);
+    let speaker: string | null = null;
+
+    // Explicit speaker tag right before the quote, e.g. **Ravi:** "Let's go!"
+    const tag = before.match(/(?:\*\*)?\s*([^*:\n"“”]{1,40}?)\s*:\s*(?:\*\*)?\s*$/);
+    const tagged = tag && casting.characters.find(c => c.character.toLowerCase() === tag[1].trim().toLowerCase());
+    if (tag && tagged) {
+      speaker = tagged.character;
+      before = before.slice(0, tag.index);
+    } else {
+      // Otherwise attribute to a character named right after ("...," said Meera) or earlier in the same sentence
+      const nextQuote = text.slice(match.index + match[0].length).search(/["“]/);
+      const after = text.slice(
+        match.index + match[0].length,
+        match.index + match[0].length + (nextQuote === -1 ? ATTRIBUTION_WINDOW : Math.min(nextQuote, ATTRIBUTION_WINDOW))
+      );
+      const sameSentence = before.slice(-ATTRIBUTION_WINDOW).split(/[.!?]/).pop() || '';
+      // "...," I said - the narrator is speaking
+      const narratorSpeaks = /^\W*(I|we)\b/i.test(after);
+      const nearby = narratorSpeaks
+        ? undefined
+        : findNearestCharacter(after, casting, false) || findNearestCharacter(sameSentence, casting, true);
+      speaker = nearby?.character || null;
+    }
+
+    raw.push({ text: before, speaker: null });
+    raw.push({ text: match[1], speaker });
+    lastIndex = match.index + match[0].length;
+  }
+  raw.push({ text: text.slice(lastIndex), speaker: null });
+
+  const spans: NarrationSpan[] = [];
+  raw.forEach(part => {
+    const cleaned = part.text.replace(/\*\*/g, '').replace(/\s+/g, ' ').trim();
+    // Skip leftovers such as a lone comma between a quote and its attribution
+    if (!/[A-Za-z0-9\u00C0-\u1FFF\u3040-\uFFFF]/.test(cleaned)) return;
+
+    const voice = getSpeakerVoice(casting, part.speaker);
+    const previous = spans[spans.length - 1];
+    if (previous && previous.voice === voice) {
+      previous.text = `${previous.text} ${cleaned}`;
+    } else {
+      spans.push({ text: cleaned, speaker: part.speaker, voice });
+    }
+  });
+
+  return spans.length > 0 ? spans : [{ text: text.trim(), speaker: null, voice: casting.narratorVoice }];
+};
+
+/**
+ * Checks whether a casting table would narrate anything with more than one voice
+ * @param casting Casting table (may be undefined)
+ * @returns True when at least one character has a voice different from the narrator
+ */
+export const hasMultipleVoices = (casting?: VoiceCasting | null): casting is VoiceCasting =>
+  !!casting && casting.characters.some(entry => entry.voice !== casting.narratorVoice);
+
+// Longest text the OpenAI speech API accepts in one request, in characters
+export const MAX_SPEECH_INPUT_LENGTH = 4096;
+
+/**
+ * Splits text that is too long for one speech request into chunks, at sentence ends where possible,
+ * then at spaces, so the chunks can be synthesized one after the other and joined
+ * @param text Text to narrate
+ * @param maxLength Longest chunk, in characters
+ * @returns The text itself when it fits, otherwise its chunks in reading order
+ */
+export const splitSpeechText = (text: string, maxLength: number = MAX_SPEECH_INPUT_LENGTH): string[] => {
+  if (text.length <= maxLength) return [text];
+
+  const sentences = text.match(/[^.!?…]+(?:[.!?…]+["”’)]*|$)\s*/g) || [text];
+  const chunks: string[] = [];
+  let chunk = '';
+
+  const pushChunk = () => {
+    if (chunk.trim()) chunks.push(chunk.trim());
+    chunk = '';
+  };
+
+  sentences.forEach(sentence => {
+    if (chunk.length + sentence.length <= maxLength) {
+      chunk += sentence;
+      return;
+    }
+    pushChunk();
+
+    // A sentence longer than a chunk is cut at the last space that fits, or hard when there is none
+    let rest = sentence;
+    while (rest.length > maxLength) {
+      const space = rest.lastIndexOf(' ', maxLength);
+      const cut = space > 0 ? space : maxLength;
+      chunks.push(rest.slice(0, cut).trim());
+      rest = rest.slice(cut);
+    }
+    chunk = rest;
+  });
+  pushChunk();
+
+  return chunks;
+};
@@ -0,0 +1,116 @@
+/**
+ * @file zipArchive.ts
+ * @description This file reads files out of a ZIP archive, the container of both EPUB and DOCX files. It reads the
+ * central directory at the end of the archive and inflates entries with the platform `DecompressionStream`, so it
+ * needs no dependency. Only what those formats use is supported: stored and deflated entries, no encryption,
+ * no ZIP64 and no archives split over several files.
+ * @integration Used by `bookImport` to read uploaded EPUB and DOCX files in the browser. `DecompressionStream`
+ * with 'deflate-raw' is also available in Node 20, so the reader works on both sides.
+ */
+
+// A file in the archive, as listed in the central directory
+interface ZipEntry {
+  method: number;            // 0 stored, 8 deflated
+  compressedSize: number;
+  localHeaderOffset: number; // Where the local header, followed by the data, starts
+}
+
+export interface ZipArchive {
+  names: string[];                                // Paths of the files, '/'-separated, without a leading '/'
+  has: (name: string) => boolean;
+  readBytes: (name: string) => Promise<ArrayBuffer>;
+  readText: (name: string) => Promise<string>;    // Decoded as UTF-8
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes, followed by a comment of up to 65535 bytes
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+/**
+ * Finds the end of central directory record, searching back from the end of the archive
+ */
+const findEndRecord = (view: DataView): number => {
+  const lowest = Math.max(0, view.byteLength - MAX_END_RECORD_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('The file is not a ZIP archive');
+};
+
+/**
+ * Inflates raw deflate data
+ */
+const inflate = async (data: ArrayBuffer): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+/**
+ * Opens a ZIP archive
+ * @param data The whole archive
+ * @returns The files of the archive, read on demand
+ * @throws When the data is not a ZIP archive or uses a feature that is not supported
+ */
+export const readZipArchive = (data: ArrayBuffer): ZipArchive => {
+  const view = new DataView(data);
+  const decoder = new TextDecoder('utf-8');
+  const endRecord = findEndRecord(view);
+  const entryCount = view.getUint16(endRecord + 10, true);
+  let offset = view.getUint32(endRecord + 16, true);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The ZIP archive is damaged');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+
+    // Directories have no data
+    if (!name.endsWith('/')) {
+      if (flags & 0x1) throw new Error('Encrypted ZIP archives are not supported');
+      entries.set(name.replace(/^\/+/, ''), {
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        localHeaderOffset: view.getUint32(offset + 42, true)
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readBytes = async (name: string): Promise<ArrayBuffer> => {
+    const entry = entries.get(name);
+    if (!entry) throw new Error(`${name} is missing from the archive`);
+    if (view.getUint32(entry.localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error('The ZIP archive is damaged');
+    }
+
+    // The local header repeats the name and may have a different extra field than the central directory
+    const start = entry.localHeaderOffset + 30
+      + view.getUint16(entry.localHeaderOffset + 26, true)
+      + view.getUint16(entry.localHeaderOffset + 28, true);
+    const compressed = data.slice(start, start + entry.compressedSize);
+
+    if (entry.method === 0) return compressed;
+    if (entry.method === 8) return inflate(compressed);
+    throw new Error(`${name} uses a compression method that is not supported`);
+  };
+
+  return {
+    names: Array.from(entries.keys()),
+    has: name => entries.has(name),
+    readBytes,
+    readText: async name => decoder.decode(await readBytes(name))
+  };
+};